@@ -36,5 +36,28 @@ module.exports = {
       exp_backoff_restart_delay: 100,
       max_restarts: 10,
     },
+    {
+      // Background transcoding worker (job queue in Redis)
+      name: 'izwei-music-worker',
+      script: 'dist/worker.js',
+      cwd: '/opt/izwei-music',
+      instances: 1,
+      exec_mode: 'fork',
+      
+      env: {
+        NODE_ENV: 'production',
+      },
+      
+      error_file: '/opt/izwei-music/logs/worker-error.log',
+      out_file: '/opt/izwei-music/logs/worker-out.log',
+      time: true,
+      
+      watch: false,
+      max_memory_restart: '1G',
+      restart_delay: 4000,
+      
+      // Let ffmpeg finish the current job before stopping
+      kill_timeout: 60000,
+    },
   ],
 };
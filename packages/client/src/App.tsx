@@ -7,10 +7,13 @@ import { Upload } from './pages/Upload';
 import { Track } from './pages/Track';
 import { Artist } from './pages/Artist';
 import { Playlist } from './pages/Playlist';
+import { PlaylistInvite } from './pages/PlaylistInvite';
 import { Album } from './pages/Album';
 import { Login } from './pages/Login';
 import { Register } from './pages/Register';
 import { Settings } from './pages/Settings';
+import { SearchInsights } from './pages/SearchInsights';
+import { Notifications } from './pages/Notifications';
 import { AuthCallback } from './pages/AuthCallback';
 import { AuthVerify } from './pages/AuthVerify';
 
@@ -20,11 +23,14 @@ export default function App() {
       <Route path="/" element={<Layout />}>
         <Route index element={<Home />} />
         <Route path="search" element={<Search />} />
+        <Route path="insights" element={<SearchInsights />} />
         <Route path="library" element={<Library />} />
+        <Route path="notifications" element={<Notifications />} />
         <Route path="upload" element={<Upload />} />
         <Route path="track/:trackId" element={<Track />} />
         <Route path="artist/:username" element={<Artist />} />
         <Route path="playlist/:playlistId" element={<Playlist />} />
+        <Route path="playlist/invite/:token" element={<PlaylistInvite />} />
         <Route path="album/:albumId" element={<Album />} />
         <Route path="settings" element={<Settings />} />
       </Route>
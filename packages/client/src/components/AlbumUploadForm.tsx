@@ -0,0 +1,419 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDropzone } from 'react-dropzone';
+import { Upload as UploadIcon, Music, X, Image, Loader2, CheckCircle, ChevronUp, ChevronDown } from 'lucide-react';
+import { uploadApi, AlbumType } from '../lib/api';
+import { sendToSession, forgetSession } from '../lib/resumableUpload';
+import { releaseCountdown } from './UpcomingRelease';
+import clsx from 'clsx';
+
+interface AlbumTrack {
+  file: File;
+  title: string;
+  trackNumber: string;
+  discNumber: string;
+  isExplicit: boolean;
+  status: 'pending' | 'uploading' | 'uploaded' | 'error';
+  progress: number;
+  error?: string;
+}
+
+interface AlbumUploadFormProps {
+  accept: string[];
+  genres: string[];
+  uploadCover: (file: File) => Promise<string>;
+}
+
+const ALBUM_TYPES: { value: AlbumType; label: string }[] = [
+  { value: 'ALBUM', label: 'Album' },
+  { value: 'EP', label: 'EP' },
+  { value: 'SINGLE', label: 'Single' },
+  { value: 'COMPILATION', label: 'Compilation' },
+];
+
+const fileTitleGuess = (file: File) =>
+  file.name.replace(/\.[^/.]+$/, '').replace(/[-_]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const toNumber = (value: string) => (value.trim() ? parseInt(value, 10) || undefined : undefined);
+
+/**
+ * Album mode of the Upload page
+ * Every file is sent through its own resumable session, then the album is
+ * published in one request, so listeners never see a half-uploaded album
+ */
+export function AlbumUploadForm({ accept, genres, uploadCover }: AlbumUploadFormProps) {
+  const navigate = useNavigate();
+  const [tracks, setTracks] = useState<AlbumTrack[]>([]);
+  const [title, setTitle] = useState('');
+  const [albumType, setAlbumType] = useState<AlbumType>('ALBUM');
+  // Local date-time; a future one publishes the album as scheduled
+  const [releaseDate, setReleaseDate] = useState('');
+  const [genre, setGenre] = useState('');
+  const [description, setDescription] = useState('');
+  const [isPublic, setIsPublic] = useState(true);
+  const [coverFile, setCoverFile] = useState<File | null>(null);
+  const [coverPreview, setCoverPreview] = useState<string | null>(null);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [published, setPublished] = useState<{
+    id: string;
+    title: string;
+    isScheduled: boolean;
+    releaseDate: string | null;
+  } | null>(null);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (files: File[]) =>
+      setTracks((prev) => [
+        ...prev,
+        ...files.map((file) => ({
+          file,
+          title: '',
+          trackNumber: '',
+          discNumber: '',
+          isExplicit: false,
+          status: 'pending' as const,
+          progress: 0,
+        })),
+      ]),
+    accept: { 'audio/*': accept },
+    multiple: true,
+    disabled: isPublishing,
+  });
+
+  const updateTrack = (index: number, changes: Partial<AlbumTrack>) =>
+    setTracks((prev) => prev.map((track, i) => (i === index ? { ...track, ...changes } : track)));
+
+  // Untagged, unnumbered files are numbered by their place in the list
+  const moveTrack = (index: number, by: number) =>
+    setTracks((prev) => {
+      const next = [...prev];
+      const [track] = next.splice(index, 1);
+      next.splice(index + by, 0, track);
+      return next;
+    });
+
+  const handleCoverChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCoverFile(file);
+      const reader = new FileReader();
+      reader.onload = () => setCoverPreview(reader.result as string);
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    setError(null);
+
+    try {
+      let coverUrl: string | undefined;
+      if (coverFile) {
+        setStatus('Uploading cover art...');
+        coverUrl = await uploadCover(coverFile);
+      }
+
+      // Files already sent (e.g. before a failed publish) resume at their end
+      const sessionIds: string[] = [];
+      for (const [index, track] of tracks.entries()) {
+        setStatus(`Uploading track ${index + 1} of ${tracks.length}...`);
+        updateTrack(index, { status: 'uploading', error: undefined });
+
+        try {
+          const sessionId = await sendToSession(track.file, {}, (sent, total) =>
+            updateTrack(index, { progress: Math.round((sent / total) * 100) })
+          );
+          if (!sessionId) {
+            throw new Error('This server does not support album uploads');
+          }
+          sessionIds.push(sessionId);
+          updateTrack(index, { status: 'uploaded', progress: 100 });
+        } catch (err: any) {
+          updateTrack(index, { status: 'error', error: err.response?.data?.error || err.message });
+          throw err;
+        }
+      }
+
+      setStatus('Publishing album...');
+      const { data } = await uploadApi.publishAlbum({
+        album: {
+          title: title.trim(),
+          albumType,
+          description: description.trim() || undefined,
+          releaseDate: releaseDate ? new Date(releaseDate).toISOString() : undefined,
+          genre: genre || undefined,
+          coverUrl,
+          isPublic,
+        },
+        tracks: tracks.map((track, index) => ({
+          sessionId: sessionIds[index],
+          title: track.title.trim() || undefined,
+          trackNumber: toNumber(track.trackNumber),
+          discNumber: toNumber(track.discNumber),
+          isExplicit: track.isExplicit,
+        })),
+      });
+
+      tracks.forEach((track) => forgetSession(track.file));
+      setPublished(data.album);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Album upload failed');
+    } finally {
+      setIsPublishing(false);
+      setStatus('');
+    }
+  };
+
+  if (published) {
+    return (
+      <div className="mt-8 text-center py-12 bg-surface-800/50 rounded-2xl">
+        <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold mb-2">
+          {published.isScheduled ? `${published.title} is scheduled` : `${published.title} is live!`}
+        </h2>
+        <p className="text-surface-400 mb-6">
+          {published.isScheduled
+            ? `All ${tracks.length} tracks go live ${releaseCountdown(published.releaseDate!)} - listeners can pre-save it until then`
+            : `All ${tracks.length} tracks are streaming - we are still optimizing them for playback`}
+        </p>
+        <button
+          onClick={() => navigate(`/album/${published.id}`)}
+          className="px-6 py-3 bg-primary-500 rounded-full font-semibold hover:bg-primary-600 transition-colors"
+        >
+          View Album
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-8 space-y-8">
+      {/* Album Details */}
+      <div className="bg-surface-800/50 rounded-2xl p-6">
+        <h2 className="font-bold text-lg mb-6">Album Details</h2>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium mb-2">Cover Art</label>
+            <label className="block aspect-square max-w-[200px] rounded-xl overflow-hidden bg-surface-700 cursor-pointer group relative">
+              {coverPreview ? (
+                <img src={coverPreview} alt="Cover preview" className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full bg-gradient-to-br from-primary-500/20 to-accent-500/20 flex items-center justify-center">
+                  <Image className="w-12 h-12 text-surface-500" />
+                </div>
+              )}
+              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
+                <span className="text-sm font-medium">Change</span>
+              </div>
+              <input type="file" accept="image/*" onChange={handleCoverChange} className="hidden" />
+            </label>
+            <p className="text-xs text-surface-400 mt-2">Leave empty to use artwork embedded in the files</p>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Title</label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full px-4 py-3 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                placeholder="Album title"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Type</label>
+                <select
+                  value={albumType}
+                  onChange={(e) => setAlbumType(e.target.value as AlbumType)}
+                  className="w-full px-4 py-3 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  {ALBUM_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Release Date</label>
+                <input
+                  type="datetime-local"
+                  value={releaseDate}
+                  onChange={(e) => setReleaseDate(e.target.value)}
+                  className="w-full px-4 py-3 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Genre</label>
+              <select
+                value={genre}
+                onChange={(e) => setGenre(e.target.value)}
+                className="w-full px-4 py-3 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">From file tags</option>
+                {genres.map((g) => (
+                  <option key={g} value={g}>{g}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Description</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                maxLength={1000}
+                className="w-full px-4 py-3 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isPublic}
+                onChange={(e) => setIsPublic(e.target.checked)}
+                className="w-5 h-5 rounded bg-surface-700 border-surface-600 text-primary-500 focus:ring-primary-500"
+              />
+              <span>Public</span>
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Tracks */}
+      <div>
+        <h2 className="font-bold text-lg mb-2">Tracks ({tracks.length})</h2>
+        <p className="text-sm text-surface-400 mb-4">
+          Blank titles and numbers come from the file tags, then the order below
+        </p>
+
+        {tracks.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {tracks.map((track, index) => (
+              <div key={`${track.file.name}-${track.file.lastModified}`} className="flex items-center gap-3 p-3 rounded-xl bg-surface-800/50">
+                <div className="w-8 flex-shrink-0 flex justify-center">
+                  {track.status === 'uploaded' ? (
+                    <CheckCircle className="w-5 h-5 text-green-500" />
+                  ) : track.status === 'uploading' ? (
+                    <Loader2 className="w-5 h-5 text-primary-500 animate-spin" />
+                  ) : (
+                    <Music className="w-5 h-5 text-surface-400" />
+                  )}
+                </div>
+
+                <input
+                  value={track.discNumber}
+                  onChange={(e) => updateTrack(index, { discNumber: e.target.value.replace(/\D/g, '') })}
+                  placeholder="Disc"
+                  title="Disc number"
+                  disabled={isPublishing}
+                  className="w-14 px-2 py-2 bg-surface-700 rounded-lg text-sm text-center focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <input
+                  value={track.trackNumber}
+                  onChange={(e) => updateTrack(index, { trackNumber: e.target.value.replace(/\D/g, '') })}
+                  placeholder={String(index + 1)}
+                  title="Track number"
+                  disabled={isPublishing}
+                  className="w-14 px-2 py-2 bg-surface-700 rounded-lg text-sm text-center focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+
+                <div className="flex-1 min-w-0">
+                  <input
+                    value={track.title}
+                    onChange={(e) => updateTrack(index, { title: e.target.value })}
+                    placeholder={fileTitleGuess(track.file)}
+                    disabled={isPublishing}
+                    className="w-full px-3 py-2 bg-surface-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                  <p className={clsx('text-xs mt-1 truncate', track.status === 'error' ? 'text-red-400' : 'text-surface-400')}>
+                    {track.status === 'error'
+                      ? track.error
+                      : track.status === 'uploading'
+                      ? `Uploading... ${track.progress}%`
+                      : `${track.file.name} • ${(track.file.size / 1024 / 1024).toFixed(1)} MB`}
+                  </p>
+                </div>
+
+                <label className="flex items-center gap-1 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={track.isExplicit}
+                    onChange={(e) => updateTrack(index, { isExplicit: e.target.checked })}
+                    disabled={isPublishing}
+                    className="w-4 h-4 rounded bg-surface-700 border-surface-600 text-primary-500 focus:ring-primary-500"
+                  />
+                  E
+                </label>
+
+                <div className="flex flex-col">
+                  <button
+                    onClick={() => moveTrack(index, -1)}
+                    disabled={isPublishing || index === 0}
+                    className="text-surface-400 hover:text-white disabled:opacity-30"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveTrack(index, 1)}
+                    disabled={isPublishing || index === tracks.length - 1}
+                    className="text-surface-400 hover:text-white disabled:opacity-30"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <button
+                  onClick={() => setTracks((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={isPublishing}
+                  className="p-2 text-surface-400 hover:text-white disabled:opacity-30"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div
+          {...getRootProps()}
+          className={clsx(
+            'border-2 border-dashed rounded-2xl p-8 text-center cursor-pointer transition-colors',
+            isDragActive ? 'border-primary-500 bg-primary-500/10' : 'border-surface-600 hover:border-surface-500'
+          )}
+        >
+          <input {...getInputProps()} />
+          <UploadIcon className="w-8 h-8 text-surface-400 mx-auto mb-2" />
+          <p className="font-medium">{isDragActive ? 'Drop your tracks here' : 'Drag & drop the album\'s tracks'}</p>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <button
+        onClick={handlePublish}
+        disabled={isPublishing || !title.trim() || tracks.length === 0}
+        className="w-full py-4 bg-gradient-to-r from-primary-500 to-accent-500 rounded-xl font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isPublishing ? (
+          <>
+            <Loader2 className="w-5 h-5 animate-spin" />
+            {status || 'Publishing...'}
+          </>
+        ) : (
+          <>
+            <UploadIcon className="w-5 h-5" />
+            Publish Album
+          </>
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+// Renders search highlights (<mark>...</mark> from the API) as text, never as HTML
+export function Highlight({ text, fallback }: { text?: string; fallback: string }) {
+  if (!text) return <>{fallback}</>;
+
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-transparent text-primary-400">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileText, Trash2 } from 'lucide-react';
+import { tracksApi, TrackLyrics } from '../lib/api';
+import clsx from 'clsx';
+
+interface LyricsEditorProps {
+  trackId: string;
+  lyrics: TrackLyrics | null;
+  onClose: () => void;
+}
+
+type Mode = 'lrc' | 'plain';
+
+// Artist-side editor: paste or load an .lrc file for synced lyrics, or plain text
+export function LyricsEditor({ trackId, lyrics, onClose }: LyricsEditorProps) {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<Mode>(lyrics?.lrc || !lyrics ? 'lrc' : 'plain');
+  const [lrc, setLrc] = useState(lyrics?.lrc ?? '');
+  // Plain text derived from the LRC is filled in by the server, so only show what was written
+  const [plain, setPlain] = useState(lyrics?.synced ? '' : lyrics?.plain ?? '');
+  const [language, setLanguage] = useState(lyrics?.language ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['track', trackId, 'lyrics'] });
+    onClose();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      tracksApi.saveLyrics(trackId, {
+        lrc: lrc.trim() || null,
+        plain: plain.trim() || null,
+        language: language.trim() || null,
+      }),
+    onSuccess: onSaved,
+    onError: (err: any) => setError(err.response?.data?.error || 'Failed to save lyrics'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => tracksApi.deleteLyrics(trackId),
+    onSuccess: onSaved,
+    onError: (err: any) => setError(err.response?.data?.error || 'Failed to remove lyrics'),
+  });
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLrc(await file.text());
+    setMode('lrc');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        {(['lrc', 'plain'] as Mode[]).map((value) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            className={clsx(
+              'px-4 py-2 rounded-full text-sm font-medium transition-colors',
+              mode === value ? 'bg-primary-500 text-white' : 'bg-surface-700 text-surface-300 hover:text-white'
+            )}
+          >
+            {value === 'lrc' ? 'Synced (LRC)' : 'Plain text'}
+          </button>
+        ))}
+
+        {mode === 'lrc' && (
+          <label className="ml-auto flex items-center gap-2 text-sm text-surface-400 hover:text-white cursor-pointer">
+            <FileText className="w-4 h-4" />
+            Load .lrc file
+            <input
+              type="file"
+              accept=".lrc,.txt,text/plain"
+              className="hidden"
+              onChange={(e) => loadFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+      </div>
+
+      {mode === 'lrc' ? (
+        <textarea
+          value={lrc}
+          onChange={(e) => setLrc(e.target.value)}
+          placeholder={'[00:12.40]First line\n[00:15.10]Second line'}
+          rows={12}
+          className="w-full bg-surface-900 rounded-lg p-4 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      ) : (
+        <textarea
+          value={plain}
+          onChange={(e) => setPlain(e.target.value)}
+          placeholder="Lyrics, one line per line"
+          rows={12}
+          className="w-full bg-surface-900 rounded-lg p-4 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+      )}
+
+      <div className="flex items-center gap-3">
+        <input
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          placeholder="Language (en)"
+          maxLength={2}
+          className="w-32 bg-surface-900 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+
+        {lyrics && (
+          <button
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove
+          </button>
+        )}
+
+        <div className="ml-auto flex gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-surface-400 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              setError(null);
+              saveMutation.mutate();
+            }}
+            disabled={saveMutation.isPending || (!lrc.trim() && !plain.trim())}
+            className="px-6 py-2 bg-primary-500 rounded-full text-sm font-semibold hover:bg-primary-600 transition-colors disabled:opacity-50"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Mic2 } from 'lucide-react';
+import { tracksApi, TrackLyrics } from '../lib/api';
+import { usePlayerStore } from '../store/player';
+import clsx from 'clsx';
+
+// A line without a following one stays lit this long
+const LAST_LINE_MS = 5000;
+
+// Lyrics for a track, or null when it has none
+export function useTrackLyrics(trackId: string | undefined) {
+  return useQuery({
+    queryKey: ['track', trackId, 'lyrics'],
+    queryFn: () =>
+      tracksApi
+        .getLyrics(trackId!)
+        .then((res): TrackLyrics | null => res.data)
+        .catch((error) => {
+          if (error.response?.status === 404) return null;
+          throw error;
+        }),
+    enabled: !!trackId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+interface LyricsPanelProps {
+  trackId: string;
+  className?: string;
+}
+
+/**
+ * Karaoke-style lyrics for the playing track
+ * Synced lyrics follow the player's currentTime: the current line fills in
+ * as it's sung and stays centred; tapping a line seeks to it
+ */
+export function LyricsPanel({ trackId, className }: LyricsPanelProps) {
+  const { data: lyrics, isLoading } = useTrackLyrics(trackId);
+  const currentTime = usePlayerStore((state) => state.currentTime);
+  const seek = usePlayerStore((state) => state.seek);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  const lines = lyrics?.lines ?? [];
+  const now = currentTime * 1000;
+
+  let active = -1;
+  while (active + 1 < lines.length && lines[active + 1].time <= now) {
+    active++;
+  }
+
+  // Keep the current line in the middle of the panel
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = activeRef.current;
+    if (!container || !line) return;
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [active]);
+
+  if (isLoading) {
+    return (
+      <div className={clsx('space-y-4 p-6', className)}>
+        {[...Array(6)].map((_, i) => (
+          <div key={i} className="h-6 skeleton rounded" style={{ width: `${50 + ((i * 17) % 40)}%` }} />
+        ))}
+      </div>
+    );
+  }
+
+  if (!lyrics) {
+    return (
+      <div className={clsx('flex flex-col items-center justify-center text-center p-6', className)}>
+        <Mic2 className="w-12 h-12 text-surface-600 mb-3" />
+        <p className="text-surface-400">No lyrics for this track</p>
+      </div>
+    );
+  }
+
+  if (!lyrics.synced) {
+    return (
+      <div className={clsx('overflow-y-auto p-6', className)}>
+        <p className="whitespace-pre-line text-lg leading-relaxed text-surface-200">{lyrics.plain}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className={clsx('relative overflow-y-auto px-6 py-[40%] space-y-5', className)}>
+      {lines.map((line, index) => {
+        const isActive = index === active;
+        const end = lines[index + 1]?.time ?? line.time + LAST_LINE_MS;
+        const fill = isActive ? Math.min(100, Math.max(0, ((now - line.time) / (end - line.time || 1)) * 100)) : 0;
+
+        return (
+          <button
+            key={`${line.time}-${index}`}
+            ref={isActive ? activeRef : undefined}
+            onClick={() => seek(line.time / 1000)}
+            className={clsx(
+              'block w-full text-left font-bold transition-all duration-300',
+              isActive ? 'text-2xl' : 'text-xl',
+              index < active ? 'text-surface-500' : 'text-surface-400 hover:text-surface-200'
+            )}
+          >
+            <span
+              style={
+                isActive
+                  ? {
+                      backgroundImage: `linear-gradient(90deg, #fff ${fill}%, rgba(255, 255, 255, 0.45) ${fill}%)`,
+                      WebkitBackgroundClip: 'text',
+                      backgroundClip: 'text',
+                      color: 'transparent',
+                    }
+                  : undefined
+              }
+            >
+              {line.text || '♪'}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -17,9 +17,12 @@ import {
   ChevronDown,
   Wifi,
   Signal,
+  Radio,
+  Mic2,
 } from 'lucide-react';
 import { getUploadUrl } from '../lib/api';
 import { usePlayerStore, Track } from '../store/player';
+import { LyricsPanel } from './LyricsPanel';
 import clsx from 'clsx';
 
 // Format time in mm:ss
@@ -34,6 +37,7 @@ export function Player() {
   const [isExpanded, setIsExpanded] = useState(false);
   const [showQueue, setShowQueue] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showLyrics, setShowLyrics] = useState(false);
   const progressRef = useRef<HTMLDivElement>(null);
 
   const {
@@ -48,6 +52,8 @@ export function Player() {
     repeatMode,
     isShuffled,
     queue,
+    radio,
+    stopRadio,
     togglePlay,
     seek,
     setVolume,
@@ -285,28 +291,41 @@ export function Player() {
                 <ChevronDown className="w-6 h-6" />
               </button>
               <span className="text-sm text-surface-400">Now Playing</span>
-              <button
-                onClick={() => setShowSettings(!showSettings)}
-                className="p-2 text-surface-400"
-              >
-                <Settings2 className="w-6 h-6" />
-              </button>
+              <div className="flex items-center">
+                <button
+                  onClick={() => setShowLyrics(!showLyrics)}
+                  title="Lyrics"
+                  className={clsx('p-2', showLyrics ? 'text-primary-400' : 'text-surface-400')}
+                >
+                  <Mic2 className="w-6 h-6" />
+                </button>
+                <button
+                  onClick={() => setShowSettings(!showSettings)}
+                  className="p-2 text-surface-400"
+                >
+                  <Settings2 className="w-6 h-6" />
+                </button>
+              </div>
             </div>
 
-            {/* Album Art */}
-            <div className="flex-1 flex items-center justify-center p-8">
-              <div className="w-full max-w-sm aspect-square rounded-2xl overflow-hidden shadow-2xl">
-                {currentTrack.coverUrl || currentTrack.album?.coverUrl ? (
-                  <img
-                    src={getUploadUrl(currentTrack.coverUrl || currentTrack.album?.coverUrl)}
-                    alt={currentTrack.title}
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="w-full h-full bg-gradient-to-br from-primary-500 to-accent-500" />
-                )}
+            {/* Lyrics replace the artwork while open */}
+            {showLyrics ? (
+              <LyricsPanel trackId={currentTrack.id} className="flex-1 min-h-0 max-w-2xl w-full mx-auto" />
+            ) : (
+              <div className="flex-1 flex items-center justify-center p-8">
+                <div className="w-full max-w-sm aspect-square rounded-2xl overflow-hidden shadow-2xl">
+                  {currentTrack.coverUrl || currentTrack.album?.coverUrl ? (
+                    <img
+                      src={getUploadUrl(currentTrack.coverUrl || currentTrack.album?.coverUrl)}
+                      alt={currentTrack.title}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full bg-gradient-to-br from-primary-500 to-accent-500" />
+                  )}
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Track Info */}
             <div className="px-8 text-center">
@@ -476,6 +495,18 @@ export function Player() {
                 ✕
               </button>
             </div>
+            {radio && (
+              <div className="px-4 py-3 border-b border-surface-800 flex items-center gap-2 text-sm">
+                <Radio className="w-4 h-4 text-primary-400 flex-shrink-0" />
+                <span className="flex-1 truncate text-surface-300">{radio.name}</span>
+                <button
+                  onClick={stopRadio}
+                  className="text-surface-400 hover:text-white"
+                >
+                  Stop radio
+                </button>
+              </div>
+            )}
             <div className="overflow-y-auto h-full pb-4">
               {queue.map((track, index) => (
                 <QueueItem
@@ -0,0 +1,159 @@
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { X, History, Loader2, RotateCcw } from 'lucide-react';
+import { playlistsApi, getUploadUrl, PlaylistChange } from '../lib/api';
+
+const timeAgo = (date: string) => {
+  const minutes = Math.round((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+const tracks = (count: number) => `${count} track${count === 1 ? '' : 's'}`;
+
+const FIELD_NAMES: Record<string, string> = {
+  title: 'the title',
+  description: 'the description',
+  coverUrl: 'the cover',
+  rules: 'the rules',
+};
+
+function describeUpdate(changes: Record<string, { from: unknown; to: unknown }>): string {
+  return Object.entries(changes)
+    .map(([field, { to }]) => {
+      if (field === 'isPublic') return to ? 'made it public' : 'made it private';
+      if (field === 'isCollaborative') return to ? 'turned on collaboration' : 'turned off collaboration';
+      if (field === 'rules') return to ? 'changed the rules' : 'stopped automatic updates';
+      return `changed ${FIELD_NAMES[field] ?? field}`;
+    })
+    .join(', ');
+}
+
+function describeChange({ type, details }: PlaylistChange): string {
+  switch (type) {
+    case 'CREATE':
+      return details?.imported
+        ? `imported the playlist (${details.imported.matched} of ${tracks(details.imported.total)} found)`
+        : 'created the playlist';
+    case 'UPDATE':
+      return describeUpdate(details.changes);
+    case 'ADD':
+      return `added ${tracks(details.trackIds.length)}`;
+    case 'REMOVE':
+      return `removed ${tracks(details.trackIds.length)}`;
+    case 'REORDER':
+      return details.full ? 'reordered the tracks' : `moved ${tracks(details.rangeLength)}`;
+    case 'REVERT':
+      return `went back to the version from ${new Date(details.changedAt).toLocaleString()}`;
+    case 'DELETE':
+      return 'deleted the playlist';
+    case 'RESTORE':
+      return 'restored the playlist';
+  }
+}
+
+interface PlaylistHistoryProps {
+  playlistId: string;
+  canRestore: boolean; // Owner only
+  onClose: () => void;
+}
+
+// Who changed what, with a way back to any earlier version
+export function PlaylistHistory({ playlistId, canRestore, onClose }: PlaylistHistoryProps) {
+  const queryClient = useQueryClient();
+  const historyKey = ['playlist-history', playlistId];
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: historyKey,
+    queryFn: ({ pageParam }) => playlistsApi.getHistory(playlistId, pageParam).then((res) => res.data),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (changeId: string) => playlistsApi.restoreVersion(playlistId, changeId).then((res) => res.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['playlist', playlistId] });
+      queryClient.invalidateQueries({ queryKey: historyKey });
+    },
+  });
+
+  const changes = data?.pages.flatMap((page) => page.changes) ?? [];
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-surface-800 border border-surface-700 rounded-xl p-6 z-50 w-full max-w-lg max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 text-lg font-bold">
+            <History className="w-5 h-5" />
+            Version History
+          </h3>
+          <button onClick={onClose} className="p-1 text-surface-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {restoreMutation.data && restoreMutation.data.skipped > 0 && (
+          <p className="text-sm text-yellow-400 mb-4">
+            {tracks(restoreMutation.data.skipped)} from that version no longer exist and weren't restored
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-surface-400" />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {changes.map((change, index) => {
+              const name = change.user ? change.user.displayName || change.user.username : 'Someone';
+              return (
+                <div key={change.id} className="flex items-center gap-3 py-2">
+                  <div className="w-8 h-8 rounded-full overflow-hidden bg-surface-700 flex items-center justify-center text-sm font-bold flex-shrink-0">
+                    {change.user?.avatarUrl ? (
+                      <img src={getUploadUrl(change.user.avatarUrl)} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      name[0].toUpperCase()
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm">
+                      <span className="font-medium">{name}</span> {describeChange(change)}
+                    </p>
+                    <p className="text-xs text-surface-500">
+                      {timeAgo(change.createdAt)} • {tracks(change.trackCount)}
+                    </p>
+                  </div>
+                  {/* The newest entry is the current state */}
+                  {canRestore && index > 0 && (
+                    <button
+                      onClick={() => restoreMutation.mutate(change.id)}
+                      disabled={restoreMutation.isPending}
+                      className="p-2 text-surface-400 hover:text-white disabled:opacity-50"
+                      title="Restore this version"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {hasNextPage && (
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="w-full mt-2 py-2 text-sm text-surface-400 hover:text-white disabled:opacity-50"
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Show older changes'}
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
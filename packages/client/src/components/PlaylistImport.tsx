@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { X, Upload, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { playlistsApi, PlaylistFormat } from '../lib/api';
+
+const EXTENSIONS: Record<string, PlaylistFormat> = {
+  m3u: 'm3u8',
+  m3u8: 'm3u8',
+  xspf: 'xspf',
+  jspf: 'jspf',
+  json: 'jspf',
+};
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Upload an M3U8, XSPF or JSPF file and see which entries found a track
+export function PlaylistImport({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+
+  const importMutation = useMutation({
+    mutationFn: async (selected: File) => {
+      const extension = selected.name.split('.').pop()?.toLowerCase() ?? '';
+      const res = await playlistsApi.importFile({
+        content: await selected.text(),
+        format: EXTENSIONS[extension],
+        title: title.trim() || undefined,
+      });
+      return res.data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['playlists'] }),
+  });
+
+  const report = importMutation.data;
+  const importError = (importMutation.error as any)?.response?.data?.error;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-surface-800 border border-surface-700 rounded-xl p-6 z-50 w-full max-w-lg max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold">Import Playlist</h3>
+          <button onClick={onClose} className="p-1 text-surface-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!report ? (
+          <>
+            <p className="text-sm text-surface-400 mb-4">
+              M3U8, XSPF or JSPF files work. Each entry is matched to a track here by title, artist and length.
+            </p>
+            <input
+              type="file"
+              accept=".m3u,.m3u8,.xspf,.jspf,.json"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="w-full text-sm mb-3 file:mr-3 file:px-4 file:py-2 file:rounded-full file:border-0 file:bg-surface-700 file:text-white hover:file:bg-surface-600"
+            />
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Playlist name (optional, taken from the file)"
+              className="w-full px-3 py-2 mb-4 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            {importError && <p className="text-red-400 text-sm mb-4">{importError}</p>}
+            <div className="flex justify-end">
+              <button
+                onClick={() => file && importMutation.mutate(file)}
+                disabled={!file || importMutation.isPending}
+                className="flex items-center gap-2 px-6 py-2 bg-primary-500 rounded-full font-semibold hover:bg-primary-600 transition-colors disabled:opacity-50"
+              >
+                {importMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Import
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 p-4 bg-surface-700/50 rounded-lg mb-4">
+              <CheckCircle2 className="w-6 h-6 text-primary-400 flex-shrink-0" />
+              <div>
+                <p className="font-medium">{report.playlist.title}</p>
+                <p className="text-sm text-surface-400">
+                  Matched {report.matched} of {report.total} tracks
+                </p>
+              </div>
+            </div>
+
+            {report.unmatched.length > 0 && (
+              <>
+                <h4 className="flex items-center gap-2 font-semibold mb-2">
+                  <AlertCircle className="w-4 h-4 text-yellow-400" />
+                  Not found ({report.unmatched.length})
+                </h4>
+                <div className="space-y-2 mb-4">
+                  {report.unmatched.map((entry) => (
+                    <div key={entry.index} className="px-3 py-2 bg-surface-700/50 rounded-lg text-sm">
+                      <p className="truncate">
+                        <span className="text-surface-500 mr-2">{entry.index + 1}.</span>
+                        {entry.title || 'Untitled'}
+                        {entry.artist && <span className="text-surface-400"> • {entry.artist}</span>}
+                        {entry.duration && <span className="text-surface-500"> • {formatDuration(entry.duration)}</span>}
+                      </p>
+                      <p className="text-xs text-surface-500">
+                        {entry.reason}
+                        {entry.suggestion && (
+                          <>
+                            {'. Closest: '}
+                            <Link to={`/track/${entry.suggestion.trackId}`} onClick={onClose} className="text-surface-300 hover:underline">
+                              {entry.suggestion.title} by {entry.suggestion.artist}
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end">
+              <Link
+                to={`/playlist/${report.playlist.id}`}
+                onClick={onClose}
+                className="px-6 py-2 bg-primary-500 rounded-full font-semibold hover:bg-primary-600 transition-colors"
+              >
+                Open Playlist
+              </Link>
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { X, Link2, Copy, Check, Trash2, Loader2, UserMinus } from 'lucide-react';
+import { playlistsApi, playlistInviteUrl, getUploadUrl, PlaylistInvite, PlaylistRole } from '../lib/api';
+import clsx from 'clsx';
+
+type MemberRole = Exclude<PlaylistRole, 'OWNER'>;
+
+interface Member {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  role: MemberRole;
+}
+
+interface PlaylistMembersProps {
+  playlist: { id: string; isCollaborative: boolean; members: Member[] };
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 0, label: 'Never expires' },
+  { value: 1, label: 'Expires in 1 day' },
+  { value: 7, label: 'Expires in 7 days' },
+  { value: 30, label: 'Expires in 30 days' },
+];
+
+const ROLE_LABELS: Record<MemberRole, string> = { EDITOR: 'Editor', VIEWER: 'Viewer' };
+
+// Owner's panel for collaboration: the on/off switch, invite links and members
+export function PlaylistMembers({ playlist, onClose }: PlaylistMembersProps) {
+  const queryClient = useQueryClient();
+  const [role, setRole] = useState<MemberRole>(playlist.isCollaborative ? 'EDITOR' : 'VIEWER');
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const invitesKey = ['playlist-invites', playlist.id];
+  const refreshPlaylist = () => queryClient.invalidateQueries({ queryKey: ['playlist', playlist.id] });
+
+  const { data: invites = [] } = useQuery({
+    queryKey: invitesKey,
+    queryFn: () => playlistsApi.getInvites(playlist.id).then((res) => res.data),
+  });
+
+  const copyLink = (invite: PlaylistInvite) => {
+    navigator.clipboard.writeText(playlistInviteUrl(invite.token)).then(() => {
+      setCopied(invite.id);
+      setTimeout(() => setCopied(null), 2000);
+    });
+  };
+
+  const collaborativeMutation = useMutation({
+    mutationFn: (isCollaborative: boolean) => playlistsApi.update(playlist.id, { isCollaborative }),
+    onSuccess: (_, isCollaborative) => {
+      if (!isCollaborative) setRole('VIEWER');
+      refreshPlaylist();
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      playlistsApi
+        .createInvite(playlist.id, { role, expiresInDays: expiresInDays || undefined })
+        .then((res) => res.data),
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      copyLink(invite);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (inviteId: string) => playlistsApi.revokeInvite(playlist.id, inviteId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: invitesKey }),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: (change: { userId: string; role: MemberRole }) =>
+      playlistsApi.setMemberRole(playlist.id, change.userId, change.role),
+    onSuccess: refreshPlaylist,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: string) => playlistsApi.removeMember(playlist.id, userId),
+    onSuccess: refreshPlaylist,
+  });
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-surface-800 border border-surface-700 rounded-xl p-6 z-50 w-full max-w-lg max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold">Invite People</h3>
+          <button onClick={onClose} className="p-1 text-surface-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Collaboration switch */}
+        <label className="flex items-center justify-between gap-4 p-4 bg-surface-700/50 rounded-lg mb-6 cursor-pointer">
+          <div>
+            <p className="font-medium">Collaborative</p>
+            <p className="text-sm text-surface-400">Editors can add tracks and remove the ones they added</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={playlist.isCollaborative}
+            disabled={collaborativeMutation.isPending}
+            onChange={(e) => collaborativeMutation.mutate(e.target.checked)}
+            className="w-5 h-5 accent-primary-500"
+          />
+        </label>
+
+        {/* New link */}
+        <div className="flex flex-wrap gap-2 mb-2">
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as MemberRole)}
+            className="px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="EDITOR" disabled={!playlist.isCollaborative}>Can edit</option>
+            <option value="VIEWER">Can view</option>
+          </select>
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(parseInt(e.target.value, 10))}
+            className="flex-1 px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {EXPIRY_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => createMutation.mutate()}
+            disabled={createMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-500 rounded-lg font-semibold hover:bg-primary-600 transition-colors disabled:opacity-50"
+          >
+            {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Create Link
+          </button>
+        </div>
+        <p className="text-xs text-surface-500 mb-4">New links are copied to your clipboard</p>
+
+        {/* Active links */}
+        {invites.length > 0 && (
+          <div className="space-y-2 mb-6">
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex items-center gap-3 px-3 py-2 bg-surface-700/50 rounded-lg text-sm">
+                <Link2 className="w-4 h-4 text-surface-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">{ROLE_LABELS[invite.role]} link</p>
+                  <p className="text-surface-400 text-xs">
+                    {invite.uses} joined
+                    {invite.maxUses !== null && ` of ${invite.maxUses}`}
+                    {invite.expiresAt && ` • expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <button onClick={() => copyLink(invite)} className="p-2 text-surface-400 hover:text-white" title="Copy link">
+                  {copied === invite.id ? <Check className="w-4 h-4 text-primary-400" /> : <Copy className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => revokeMutation.mutate(invite.id)}
+                  className="p-2 text-surface-400 hover:text-red-400"
+                  title="Revoke link"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Members */}
+        <h4 className="font-semibold mb-2">Members</h4>
+        {playlist.members.length === 0 ? (
+          <p className="text-sm text-surface-400">Nobody has joined yet</p>
+        ) : (
+          <div className="space-y-1">
+            {playlist.members.map((member) => (
+              <div key={member.id} className="flex items-center gap-3 py-2">
+                <div className="w-8 h-8 rounded-full overflow-hidden bg-surface-700 flex items-center justify-center text-sm font-bold flex-shrink-0">
+                  {member.avatarUrl ? (
+                    <img src={getUploadUrl(member.avatarUrl)} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    (member.displayName || member.username)[0].toUpperCase()
+                  )}
+                </div>
+                <p className="flex-1 truncate">{member.displayName || member.username}</p>
+                <select
+                  value={member.role}
+                  onChange={(e) => roleMutation.mutate({ userId: member.id, role: e.target.value as MemberRole })}
+                  className={clsx(
+                    'px-2 py-1 bg-surface-700 rounded text-sm focus:outline-none',
+                    member.role === 'EDITOR' && !playlist.isCollaborative && 'text-surface-500'
+                  )}
+                >
+                  <option value="EDITOR">Editor</option>
+                  <option value="VIEWER">Viewer</option>
+                </select>
+                <button
+                  onClick={() => removeMutation.mutate(member.id)}
+                  className="p-2 text-surface-400 hover:text-red-400"
+                  title="Remove"
+                >
+                  <UserMinus className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
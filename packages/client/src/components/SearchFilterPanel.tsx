@@ -0,0 +1,239 @@
+import type { ReactNode } from 'react';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+import type { AlbumType, SearchFacets, SearchFilters, SearchSort } from '../lib/api';
+
+type ResultType = 'all' | 'tracks' | 'artists' | 'albums' | 'playlists';
+
+// Mirrors what the server can filter per result type; other filters hide that type
+const FILTERABLE: Record<ResultType, Array<keyof SearchFilters>> = {
+  all: ['genres', 'explicit', 'minDuration', 'yearFrom', 'albumTypes', 'verifiedOnly'],
+  tracks: ['genres', 'explicit', 'minDuration', 'yearFrom', 'albumTypes', 'verifiedOnly'],
+  artists: ['verifiedOnly'],
+  albums: ['yearFrom', 'albumTypes', 'verifiedOnly'],
+  playlists: [],
+};
+
+const SORTS: { value: SearchSort; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'plays', label: 'Most played' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'duration', label: 'Longest' },
+];
+
+const DURATIONS = [
+  { value: 'short', label: 'Under 2 min', min: 0, max: 120 },
+  { value: 'medium', label: '2–5 min', min: 120, max: 300 },
+  { value: 'long', label: '5–10 min', min: 300, max: 600 },
+  { value: 'extended', label: 'Over 10 min', min: 600, max: null },
+];
+
+const ALBUM_TYPES: { value: AlbumType; label: string }[] = [
+  { value: 'ALBUM', label: 'Albums' },
+  { value: 'EP', label: 'EPs' },
+  { value: 'SINGLE', label: 'Singles' },
+  { value: 'COMPILATION', label: 'Compilations' },
+];
+
+export const hasActiveFilters = (filters: SearchFilters) =>
+  Object.values(filters).some((value) => value !== undefined && !(Array.isArray(value) && value.length === 0));
+
+interface SearchFilterPanelProps {
+  type: ResultType;
+  filters: SearchFilters;
+  sort: SearchSort;
+  facets?: SearchFacets;
+  onFiltersChange: (filters: SearchFilters) => void;
+  onSortChange: (sort: SearchSort) => void;
+}
+
+function Option({
+  active,
+  label,
+  count,
+  onClick,
+}: {
+  active: boolean;
+  label: string;
+  count?: number;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={clsx(
+        'w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-sm transition-colors',
+        active ? 'bg-primary-500/20 text-primary-400' : 'text-surface-300 hover:bg-surface-800 hover:text-white'
+      )}
+    >
+      <span className="truncate">{label}</span>
+      {count !== undefined && <span className="text-xs text-surface-500 ml-2">{count}</span>}
+    </button>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wider text-surface-500 mb-2 px-3">{title}</h4>
+      <div className="space-y-0.5">{children}</div>
+    </div>
+  );
+}
+
+export function SearchFilterPanel({
+  type,
+  filters,
+  sort,
+  facets,
+  onFiltersChange,
+  onSortChange,
+}: SearchFilterPanelProps) {
+  const can = (filter: keyof SearchFilters) => FILTERABLE[type].includes(filter);
+  const update = (changes: Partial<SearchFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  const toggle = <T,>(list: T[] | undefined, value: T) =>
+    list?.includes(value) ? list.filter((item) => item !== value) : [...(list ?? []), value];
+
+  const countOf = <T,>(rows: { value: T; count: number }[] | undefined, value: T) =>
+    facets ? rows?.find((row) => row.value === value)?.count ?? 0 : undefined;
+
+  return (
+    <aside className="space-y-6">
+      <div className="flex items-center justify-between px-3">
+        <h3 className="font-bold">Filters</h3>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onFiltersChange({})}
+            className="flex items-center gap-1 text-xs text-surface-400 hover:text-white"
+          >
+            <X className="w-3 h-3" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="px-3">
+        <label className="text-xs font-semibold uppercase tracking-wider text-surface-500 block mb-2">
+          Sort by
+        </label>
+        <select
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as SearchSort)}
+          className="w-full bg-surface-800 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          {SORTS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {can('genres') && (facets?.genres.length || filters.genres?.length) ? (
+        <Section title="Genre">
+          {/* Selected genres stay listed even when they no longer match anything */}
+          {[
+            ...(facets?.genres ?? []),
+            ...(filters.genres ?? [])
+              .filter((genre) => !facets?.genres.some((row) => row.value.toLowerCase() === genre.toLowerCase()))
+              .map((genre) => ({ value: genre, count: 0 })),
+          ].map((row) => (
+            <Option
+              key={row.value}
+              label={row.value}
+              count={row.count}
+              active={!!filters.genres?.some((genre) => genre.toLowerCase() === row.value.toLowerCase())}
+              onClick={() => update({ genres: toggle(filters.genres, row.value) })}
+            />
+          ))}
+        </Section>
+      ) : null}
+
+      {can('explicit') && (
+        <Section title="Content">
+          <Option
+            label="Explicit"
+            count={countOf(facets?.explicit, 'explicit')}
+            active={filters.explicit === true}
+            onClick={() => update({ explicit: filters.explicit === true ? undefined : true })}
+          />
+          <Option
+            label="Clean"
+            count={countOf(facets?.explicit, 'clean')}
+            active={filters.explicit === false}
+            onClick={() => update({ explicit: filters.explicit === false ? undefined : false })}
+          />
+        </Section>
+      )}
+
+      {can('minDuration') && (
+        <Section title="Length">
+          {DURATIONS.map((bucket) => {
+            const maxDuration = bucket.max === null ? undefined : bucket.max - 1;
+            const active = filters.minDuration === bucket.min && filters.maxDuration === maxDuration;
+            return (
+              <Option
+                key={bucket.value}
+                label={bucket.label}
+                count={countOf(facets?.durations, bucket.value)}
+                active={active}
+                onClick={() =>
+                  update(
+                    active
+                      ? { minDuration: undefined, maxDuration: undefined }
+                      : { minDuration: bucket.min, maxDuration }
+                  )
+                }
+              />
+            );
+          })}
+        </Section>
+      )}
+
+      {can('yearFrom') && (facets?.years.length || filters.yearFrom !== undefined) ? (
+        <Section title="Release year">
+          {(facets?.years.length ? facets.years : [{ value: filters.yearFrom!, count: 0 }]).map((row) => {
+            const active = filters.yearFrom === row.value && filters.yearTo === row.value;
+            return (
+              <Option
+                key={row.value}
+                label={String(row.value)}
+                count={facets ? row.count : undefined}
+                active={active}
+                onClick={() =>
+                  update(active ? { yearFrom: undefined, yearTo: undefined } : { yearFrom: row.value, yearTo: row.value })
+                }
+              />
+            );
+          })}
+        </Section>
+      ) : null}
+
+      {can('albumTypes') && (
+        <Section title="Release type">
+          {ALBUM_TYPES.map((option) => (
+            <Option
+              key={option.value}
+              label={option.label}
+              count={countOf(facets?.albumTypes, option.value)}
+              active={!!filters.albumTypes?.includes(option.value)}
+              onClick={() => update({ albumTypes: toggle(filters.albumTypes, option.value) })}
+            />
+          ))}
+        </Section>
+      )}
+
+      {can('verifiedOnly') && (
+        <Section title="Artists">
+          <Option
+            label="Verified only"
+            count={facets?.verified}
+            active={!!filters.verifiedOnly}
+            onClick={() => update({ verifiedOnly: filters.verifiedOnly ? undefined : true })}
+          />
+        </Section>
+      )}
+    </aside>
+  );
+}
@@ -1,7 +1,8 @@
 import { NavLink } from 'react-router-dom';
-import { Home, Search, Library, Upload, Settings, Music2, User } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Home, Search, Library, Upload, Settings, Music2, User, BarChart3, Bell } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
-import { getUploadUrl } from '../lib/api';
+import { getUploadUrl, notificationsApi } from '../lib/api';
 import clsx from 'clsx';
 
 interface SidebarProps {
@@ -11,11 +12,20 @@ interface SidebarProps {
 export function Sidebar({ className }: SidebarProps) {
   const { isAuthenticated, user } = useAuthStore();
 
+  const { data: notifications } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: () => notificationsApi.list().then((res) => res.data),
+    enabled: isAuthenticated,
+    refetchInterval: 60 * 1000,
+  });
+
   const navItems = [
     { to: '/', icon: Home, label: 'Home' },
     { to: '/search', icon: Search, label: 'Search' },
     { to: '/library', icon: Library, label: 'Library', auth: true },
+    { to: '/notifications', icon: Bell, label: 'Notifications', auth: true, badge: notifications?.unread },
     { to: '/upload', icon: Upload, label: 'Upload', auth: true, artist: true },
+    { to: '/insights', icon: BarChart3, label: 'Insights', auth: true, artist: true },
   ];
 
   return (
@@ -59,6 +69,11 @@ export function Sidebar({ className }: SidebarProps) {
                 >
                   <item.icon className="w-5 h-5" />
                   <span className="font-medium">{item.label}</span>
+                  {!!item.badge && (
+                    <span className="ml-auto min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-primary-500 text-white text-xs font-semibold text-center">
+                      {item.badge > 99 ? '99+' : item.badge}
+                    </span>
+                  )}
                 </NavLink>
               </li>
             );
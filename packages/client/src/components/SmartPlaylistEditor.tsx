@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { X, Plus, Trash2, Loader2, Wand2 } from 'lucide-react';
+import { playlistsApi, SmartCondition, SmartField, SmartRules, SmartSort } from '../lib/api';
+
+type FieldType = 'text' | 'number' | 'date' | 'boolean';
+
+// Mirrors the server's field list in services/smartPlaylists.ts
+const FIELDS: Record<SmartField, { label: string; type: FieldType }> = {
+  title: { label: 'Title', type: 'text' },
+  artist: { label: 'Artist', type: 'text' },
+  album: { label: 'Album', type: 'text' },
+  genre: { label: 'Genre', type: 'text' },
+  playCount: { label: 'Play count', type: 'number' },
+  myPlays: { label: 'My plays', type: 'number' },
+  duration: { label: 'Duration (seconds)', type: 'number' },
+  releaseYear: { label: 'Release year', type: 'number' },
+  addedAt: { label: 'Added', type: 'date' },
+  releaseDate: { label: 'Released', type: 'date' },
+  lastPlayed: { label: 'I last played it', type: 'date' },
+  likedAt: { label: 'I liked it', type: 'date' },
+  liked: { label: 'Liked by me', type: 'boolean' },
+  explicit: { label: 'Explicit', type: 'boolean' },
+};
+
+const OPERATORS: Record<FieldType, { value: string; label: string }[]> = {
+  text: [
+    { value: 'is', label: 'is' },
+    { value: 'isNot', label: 'is not' },
+    { value: 'contains', label: 'contains' },
+    { value: 'notContains', label: "doesn't contain" },
+  ],
+  number: [
+    { value: 'eq', label: '=' },
+    { value: 'neq', label: '≠' },
+    { value: 'gt', label: '>' },
+    { value: 'gte', label: '≥' },
+    { value: 'lt', label: '<' },
+    { value: 'lte', label: '≤' },
+  ],
+  date: [
+    { value: 'inLast', label: 'in the last' },
+    { value: 'notInLast', label: 'not in the last' },
+  ],
+  boolean: [{ value: 'is', label: 'is' }],
+};
+
+const DEFAULT_VALUES: Record<FieldType, SmartCondition['value']> = {
+  text: '',
+  number: 0,
+  date: 30,
+  boolean: true,
+};
+
+const SORTS: { value: SmartSort; label: string }[] = [
+  { value: 'playCount', label: 'Most played' },
+  { value: 'myPlays', label: 'My most played' },
+  { value: 'newest', label: 'Recently added' },
+  { value: 'releaseDate', label: 'Newest releases' },
+  { value: 'lastPlayed', label: 'Recently played by me' },
+  { value: 'likedAt', label: 'Recently liked' },
+  { value: 'title', label: 'Title' },
+  { value: 'random', label: 'Random' },
+];
+
+const DEFAULT_RULES: SmartRules = {
+  match: 'all',
+  conditions: [{ field: 'genre', operator: 'is', value: '' }],
+  sort: 'playCount',
+  limit: 100,
+};
+
+const newCondition = (field: SmartField): SmartCondition => {
+  const type = FIELDS[field].type;
+  return { field, operator: OPERATORS[type][0].value, value: DEFAULT_VALUES[type] };
+};
+
+// "genre is Amapiano", "added in the last 30 days"
+export function describeCondition({ field, operator, value }: SmartCondition): string {
+  const { label, type } = FIELDS[field];
+  const op = OPERATORS[type].find((option) => option.value === operator)?.label ?? operator;
+
+  if (type === 'boolean') return value ? label.toLowerCase() : `not ${label.toLowerCase()}`;
+  if (type === 'date') return `${label.toLowerCase()} ${op} ${value} day${value === 1 ? '' : 's'}`;
+  return `${label.toLowerCase()} ${op} ${value}`;
+}
+
+interface SmartPlaylistEditorProps {
+  // Omitted to create a new smart playlist
+  playlist?: { id: string; title: string; rules: SmartRules | null };
+  onClose: () => void;
+}
+
+export function SmartPlaylistEditor({ playlist, onClose }: SmartPlaylistEditorProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState('');
+  const [rules, setRules] = useState<SmartRules>(playlist?.rules ?? DEFAULT_RULES);
+
+  const usesMyPlays = rules.sort === 'myPlays' || rules.conditions.some((condition) => condition.field === 'myPlays');
+
+  const updateCondition = (index: number, change: Partial<SmartCondition>) =>
+    setRules((current) => ({
+      ...current,
+      conditions: current.conditions.map((condition, i) =>
+        i !== index ? condition : change.field ? newCondition(change.field) : { ...condition, ...change }
+      ),
+    }));
+
+  const saveMutation = useMutation({
+    mutationFn: (next: SmartRules | null) =>
+      playlist
+        ? playlistsApi.update(playlist.id, { rules: next }).then((res) => res.data)
+        : playlistsApi.create({ title, rules: next }).then((res) => res.data),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['playlists'] });
+      if (playlist) {
+        queryClient.invalidateQueries({ queryKey: ['playlist', playlist.id] });
+        onClose();
+      } else {
+        navigate(`/playlist/${saved.id}`);
+      }
+    },
+  });
+
+  const saveError = (saveMutation.error as any)?.response?.data?.error;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 z-50" onClick={onClose} />
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-surface-800 border border-surface-700 rounded-xl p-6 z-50 w-full max-w-2xl max-h-[85vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="flex items-center gap-2 text-lg font-bold">
+            <Wand2 className="w-5 h-5 text-accent-400" />
+            {playlist ? 'Edit Rules' : 'New Smart Playlist'}
+          </h3>
+          <button onClick={onClose} className="p-1 text-surface-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!playlist && (
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Playlist name"
+            className="w-full px-3 py-2 mb-4 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        )}
+
+        <p className="flex items-center gap-2 text-sm mb-3">
+          Match
+          <select
+            value={rules.match}
+            onChange={(e) => setRules({ ...rules, match: e.target.value as SmartRules['match'] })}
+            className="px-2 py-1 bg-surface-700 rounded focus:outline-none"
+          >
+            <option value="all">all</option>
+            <option value="any">any</option>
+          </select>
+          of these rules
+        </p>
+
+        {/* Conditions */}
+        <div className="space-y-2 mb-3">
+          {rules.conditions.map((condition, index) => {
+            const type = FIELDS[condition.field].type;
+            return (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select
+                  value={condition.field}
+                  onChange={(e) => updateCondition(index, { field: e.target.value as SmartField })}
+                  className="px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  {Object.entries(FIELDS).map(([value, { label }]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                {type !== 'boolean' && (
+                  <select
+                    value={condition.operator}
+                    onChange={(e) => updateCondition(index, { operator: e.target.value })}
+                    className="px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    {OPERATORS[type].map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                )}
+                {type === 'text' && (
+                  <input
+                    type="text"
+                    value={condition.value as string}
+                    onChange={(e) => updateCondition(index, { value: e.target.value })}
+                    className="flex-1 min-w-32 px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                )}
+                {(type === 'number' || type === 'date') && (
+                  <input
+                    type="number"
+                    min={type === 'date' ? 1 : 0}
+                    max={type === 'date' ? 3650 : undefined}
+                    value={condition.value as number}
+                    onChange={(e) => updateCondition(index, { value: Number(e.target.value) })}
+                    className="w-28 px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                )}
+                {type === 'date' && <span className="text-sm text-surface-400">days</span>}
+                {type === 'boolean' && (
+                  <select
+                    value={String(condition.value)}
+                    onChange={(e) => updateCondition(index, { value: e.target.value === 'true' })}
+                    className="px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </select>
+                )}
+                <button
+                  onClick={() =>
+                    setRules({ ...rules, conditions: rules.conditions.filter((_, i) => i !== index) })
+                  }
+                  disabled={rules.conditions.length === 1}
+                  className="p-2 text-surface-400 hover:text-red-400 disabled:opacity-30 disabled:hover:text-surface-400"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={() => setRules({ ...rules, conditions: [...rules.conditions, newCondition('genre')] })}
+          disabled={rules.conditions.length >= 20}
+          className="flex items-center gap-2 text-sm text-surface-300 hover:text-white mb-6 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add rule
+        </button>
+
+        {/* Ordering */}
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <label className="text-sm">
+            <span className="block text-surface-400 mb-1">Sort by</span>
+            <select
+              value={rules.sort}
+              onChange={(e) => setRules({ ...rules, sort: e.target.value as SmartSort })}
+              className="w-full px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {SORTS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block text-surface-400 mb-1">Up to</span>
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={rules.limit}
+              onChange={(e) => setRules({ ...rules, limit: Number(e.target.value) })}
+              className="w-full px-3 py-2 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </label>
+        </div>
+
+        {usesMyPlays && (
+          <label className="flex items-center gap-2 text-sm mb-4">
+            Count my plays from
+            <select
+              value={rules.playsWithinDays ?? 0}
+              onChange={(e) => setRules({ ...rules, playsWithinDays: Number(e.target.value) || undefined })}
+              className="px-2 py-1 bg-surface-700 rounded focus:outline-none"
+            >
+              <option value={7}>the last 7 days</option>
+              <option value={30}>the last 30 days</option>
+              <option value={90}>the last 90 days</option>
+              <option value={365}>the last year</option>
+              <option value={0}>all time</option>
+            </select>
+          </label>
+        )}
+
+        {saveError && <p className="text-red-400 text-sm mb-4">{saveError}</p>}
+
+        <div className="flex items-center justify-between gap-2">
+          {playlist ? (
+            <button
+              onClick={() => saveMutation.mutate(null)}
+              disabled={saveMutation.isPending}
+              className="text-sm text-surface-400 hover:text-white disabled:opacity-50"
+              title="Keep the current tracks and edit them by hand from now on"
+            >
+              Stop updating automatically
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            onClick={() => saveMutation.mutate(rules)}
+            disabled={saveMutation.isPending || (!playlist && !title.trim())}
+            className="flex items-center gap-2 px-6 py-2 bg-primary-500 rounded-full font-semibold hover:bg-primary-600 transition-colors disabled:opacity-50"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            {playlist ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
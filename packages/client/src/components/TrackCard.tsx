@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Play, MoreHorizontal, Heart, Trash2, X } from 'lucide-react';
+import { Play, MoreHorizontal, Heart, Trash2, X, ListMinus } from 'lucide-react';
 import { usePlayerStore, Track } from '../store/player';
 import { getUploadUrl } from '../lib/api';
 import clsx from 'clsx';
@@ -92,6 +92,9 @@ interface TrackListItemProps {
   onLike?: () => void;
   onDelete?: () => void;
   canDelete?: boolean;
+  // Collaborative playlists show who added each track
+  addedBy?: { username: string; displayName: string | null; avatarUrl: string | null } | null;
+  onRemove?: () => void; // "Remove from playlist"
 }
 
 export function TrackListItem({
@@ -102,6 +105,8 @@ export function TrackListItem({
   onLike,
   onDelete,
   canDelete = false,
+  addedBy,
+  onRemove,
 }: TrackListItemProps) {
   const { play, currentTrack, isPlaying, togglePlay } = usePlayerStore();
   const isCurrentTrack = currentTrack?.id === track.id;
@@ -204,6 +209,26 @@ export function TrackListItem({
         </span>
       )}
 
+      {/* Added by */}
+      {addedBy !== undefined && (
+        <div className="w-8 hidden sm:flex justify-center">
+          {addedBy && (
+            <Link
+              to={`/artist/${addedBy.username}`}
+              onClick={(e) => e.stopPropagation()}
+              title={`Added by ${addedBy.displayName || addedBy.username}`}
+              className="w-6 h-6 rounded-full overflow-hidden bg-surface-700 flex items-center justify-center text-xs font-bold"
+            >
+              {addedBy.avatarUrl ? (
+                <img src={getUploadUrl(addedBy.avatarUrl)} alt="" className="w-full h-full object-cover" />
+              ) : (
+                (addedBy.displayName || addedBy.username)[0].toUpperCase()
+              )}
+            </Link>
+          )}
+        </div>
+      )}
+
       {/* Duration */}
       <span className="text-sm text-surface-400 w-12 text-right">
         {formatDuration(track.duration)}
@@ -258,7 +283,20 @@ export function TrackListItem({
                   Delete Track
                 </button>
               )}
-              {!canDelete && (
+              {onRemove && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowMenu(false);
+                    onRemove();
+                  }}
+                  className="w-full flex items-center gap-2 px-4 py-2 hover:bg-surface-700 text-sm"
+                >
+                  <ListMinus className="w-4 h-4" />
+                  Remove from Playlist
+                </button>
+              )}
+              {!canDelete && !onRemove && (
                 <p className="px-4 py-2 text-surface-400 text-sm">No actions</p>
               )}
             </div>
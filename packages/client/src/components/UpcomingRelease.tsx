@@ -0,0 +1,124 @@
+import type { ReactNode } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { BellRing, Check, CalendarClock } from 'lucide-react';
+import { getUploadUrl } from '../lib/api';
+import { useAuthStore } from '../store/auth';
+import clsx from 'clsx';
+
+interface UpcomingReleaseProps {
+  kind: string; // "Song", "Album", "EP"...
+  title: string;
+  coverUrl?: string | null;
+  releaseDate: string;
+  artist?: { username: string; displayName?: string | null; avatarUrl?: string | null };
+  isPreSaved: boolean;
+  queryKey: unknown[]; // Refetched after pre-saving
+  preSave: () => Promise<unknown>;
+  children?: ReactNode; // E.g. an album's tracklist
+}
+
+export const formatReleaseDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// "in 3 days", "in 5 hours", "in 12 minutes"
+export function releaseCountdown(date: string): string {
+  const minutes = Math.max(1, Math.round((new Date(date).getTime() - Date.now()) / 60000));
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.round(hours / 24);
+  return `in ${days} days`;
+}
+
+// Page for a release that isn't out yet: what's coming, when, and a pre-save button
+export function UpcomingRelease({
+  kind,
+  title,
+  coverUrl,
+  releaseDate,
+  artist,
+  isPreSaved,
+  queryKey,
+  preSave,
+  children,
+}: UpcomingReleaseProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuthStore();
+
+  const preSaveMutation = useMutation({
+    mutationFn: preSave,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return (
+    <div>
+      <div className="relative">
+        <div className="absolute inset-0 h-96 bg-gradient-to-b from-accent-900/50 to-surface-950" />
+
+        <div className="relative p-6 pt-12">
+          <div className="flex flex-col md:flex-row gap-8 items-center md:items-end">
+            <div className="w-60 h-60 md:w-72 md:h-72 rounded-xl overflow-hidden bg-surface-700 shadow-2xl flex-shrink-0">
+              {coverUrl ? (
+                <img src={getUploadUrl(coverUrl)} alt={title} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full bg-gradient-to-br from-primary-500 to-accent-500" />
+              )}
+            </div>
+
+            <div className="flex-1 text-center md:text-left">
+              <p className="text-sm font-medium uppercase tracking-wider mb-2">Upcoming {kind}</p>
+              <h1 className="text-4xl md:text-6xl font-bold mb-4">{title}</h1>
+              {artist && (
+                <Link to={`/artist/${artist.username}`} className="inline-flex items-center gap-2 text-sm">
+                  {artist.avatarUrl && (
+                    <img
+                      src={getUploadUrl(artist.avatarUrl)}
+                      alt={artist.displayName || artist.username}
+                      className="w-6 h-6 rounded-full"
+                    />
+                  )}
+                  <span className="font-medium hover:underline">{artist.displayName || artist.username}</span>
+                </Link>
+              )}
+              <p className="flex items-center justify-center md:justify-start gap-2 mt-3 text-surface-300">
+                <CalendarClock className="w-4 h-4" />
+                Out {formatReleaseDate(releaseDate)} ({releaseCountdown(releaseDate)})
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4 mt-8">
+            <button
+              onClick={() => (isAuthenticated ? preSaveMutation.mutate() : navigate('/login'))}
+              disabled={preSaveMutation.isPending}
+              className={clsx(
+                'flex items-center gap-2 px-8 py-4 rounded-full font-semibold transition-colors text-lg disabled:opacity-50',
+                isPreSaved
+                  ? 'border border-surface-600 hover:border-white'
+                  : 'bg-primary-500 hover:bg-primary-600'
+              )}
+            >
+              {isPreSaved ? <Check className="w-6 h-6" /> : <BellRing className="w-6 h-6" />}
+              {isPreSaved ? 'Pre-saved' : 'Pre-save'}
+            </button>
+            <p className="text-sm text-surface-400">
+              {isPreSaved
+                ? "It'll be in your library the moment it's out"
+                : "Add it to your library on release day and we'll let you know"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {children}
+    </div>
+  );
+}
@@ -90,11 +90,47 @@ export const tracksApi = {
   getTrending: () => api.get('/tracks/trending'),
   getNew: () => api.get('/tracks/new'),
   getOne: (id: string) => api.get(`/tracks/${id}`),
+  getSimilar: (id: string, limit = 20) => api.get(`/tracks/${id}/similar?limit=${limit}`),
   like: (id: string) => api.post(`/tracks/${id}/like`),
+  // Upcoming releases only; toggles like `like`
+  preSave: (id: string) => api.post<{ preSaved: boolean }>(`/tracks/${id}/presave`),
   getLiked: (page = 1, limit = 20) =>
     api.get(`/tracks/liked/me?page=${page}&limit=${limit}`),
   update: (id: string, data: any) => api.patch(`/tracks/${id}`, data),
   delete: (id: string) => api.delete(`/tracks/${id}`),
+  // 404 when the track has no lyrics
+  getLyrics: (id: string) => api.get<TrackLyrics>(`/tracks/${id}/lyrics`),
+  saveLyrics: (id: string, data: { plain?: string | null; lrc?: string | null; language?: string | null }) =>
+    api.put<TrackLyrics>(`/tracks/${id}/lyrics`, data),
+  deleteLyrics: (id: string) => api.delete(`/tracks/${id}/lyrics`),
+};
+
+export interface LyricLine {
+  time: number; // Milliseconds
+  text: string;
+}
+
+export interface TrackLyrics {
+  trackId: string;
+  plain: string | null;
+  lrc: string | null;
+  synced: boolean;
+  lines: LyricLine[] | null; // Parsed from the LRC, sorted by time
+  language: string | null;
+  source: 'ARTIST' | 'EMBEDDED';
+  updatedAt: string;
+}
+
+// Recommendations API
+export type RadioSeedType = 'track' | 'artist' | 'genre';
+
+export const recommendationsApi = {
+  getForYou: (limit = 30) => api.get(`/recommendations/for-you?limit=${limit}`),
+  // Radio stations keep handing out related tracks without repeats
+  startRadio: (seedType: RadioSeedType, seed: string, limit = 10) =>
+    api.post('/recommendations/radio', { seedType, seed, limit }),
+  getRadioTracks: (stationId: string, limit = 10) =>
+    api.get(`/recommendations/radio/${stationId}/tracks?limit=${limit}`),
 };
 
 // Upload API - now using base64 for serverless compatibility
@@ -103,12 +139,13 @@ export const uploadApi = {
     audio: string;
     audioMimeType: string;
     audioFileName: string;
-    title: string;
+    title?: string;
     genre?: string;
     isPublic?: boolean;
     isExplicit?: boolean;
     coverUrl?: string;
     duration?: number;
+    releaseDate?: string; // ISO date-time; in the future schedules the release
   }) => api.post('/upload/track', data),
   
   cover: (data: { image: string; mimeType: string }) =>
@@ -116,10 +153,73 @@ export const uploadApi = {
   
   avatar: (data: { image: string; mimeType: string }) =>
     api.post('/upload/avatar', data),
+  
+  // Resumable chunked uploads for large files
+  createSession: (data: {
+    fileName: string;
+    fileSize: number;
+    mimeType?: string;
+    title?: string;
+    genre?: string;
+    isPublic?: boolean;
+    isExplicit?: boolean;
+    coverUrl?: string;
+    duration?: number;
+    releaseDate?: string;
+  }) => api.post('/upload/sessions', data),
+  
+  getSession: (sessionId: string) => api.get(`/upload/sessions/${sessionId}`),
+  
+  uploadChunk: (
+    sessionId: string,
+    offset: number,
+    chunk: Blob,
+    onProgress?: (loaded: number) => void
+  ) =>
+    api.patch(`/upload/sessions/${sessionId}`, chunk, {
+      headers: {
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': String(offset),
+      },
+      onUploadProgress: (e) => onProgress?.(e.loaded),
+    }),
+  
+  completeSession: (sessionId: string) =>
+    api.post(`/upload/sessions/${sessionId}/complete`),
+  
+  cancelSession: (sessionId: string) => api.delete(`/upload/sessions/${sessionId}`),
+  
+  // Publish fully received sessions as one album; nothing goes live unless every track does
+  publishAlbum: (data: AlbumUpload) => api.post('/upload/album', data),
+  
+  // Background transcode status (queued/processing/failed/done)
+  getJob: (jobId: string) => api.get(`/upload/jobs/${jobId}`),
     
   getFormats: () => api.get('/upload/formats'),
 };
 
+export interface AlbumUpload {
+  album: {
+    title: string;
+    description?: string;
+    albumType?: AlbumType;
+    releaseDate?: string; // ISO date-time
+    coverUrl?: string;
+    genre?: string;
+    isPublic?: boolean;
+  };
+  // Numbers left out come from the file's tags, then the list order
+  tracks: {
+    sessionId: string;
+    title?: string;
+    trackNumber?: number;
+    discNumber?: number;
+    genre?: string;
+    isExplicit?: boolean;
+    duration?: number;
+  }[];
+}
+
 // Genres API
 export const genresApi = {
   getAll: () => api.get('/genres'),
@@ -132,6 +232,7 @@ export const usersApi = {
   getTracks: (username: string, page = 1, limit = 20) =>
     api.get(`/users/${username}/tracks?page=${page}&limit=${limit}`),
   follow: (username: string) => api.post(`/users/${username}/follow`),
+  getUpcoming: (username: string) => api.get(`/users/${username}/upcoming`),
   updateProfile: (data: any) => api.patch('/users/me', data),
 };
 
@@ -141,37 +242,291 @@ export const albumsApi = {
   create: (data: any) => api.post('/albums', data),
   update: (id: string, data: any) => api.patch(`/albums/${id}`, data),
   delete: (id: string) => api.delete(`/albums/${id}`),
+  preSave: (id: string) => api.post<{ preSaved: boolean }>(`/albums/${id}/presave`),
+};
+
+// Notifications API
+export interface AppNotification {
+  id: string;
+  type: 'RELEASE';
+  title: string;
+  body: string | null;
+  link: string | null; // Route to open
+  readAt: string | null;
+  createdAt: string;
+}
+
+export const notificationsApi = {
+  list: (limit = 30) =>
+    api.get<{ notifications: AppNotification[]; unread: number }>('/notifications', { params: { limit } }),
+  // All unread ones when no ids are given
+  markRead: (ids?: string[]) => api.post('/notifications/read', { ids }),
 };
 
 // Playlists API
+// Collaborative playlists: the owner invites editors and viewers by link
+export type PlaylistRole = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+export interface PlaylistInvite {
+  id: string;
+  token: string;
+  role: Exclude<PlaylistRole, 'OWNER'>;
+  maxUses: number | null;
+  uses: number;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface PlaylistInviteOptions {
+  role: Exclude<PlaylistRole, 'OWNER'>;
+  expiresInDays?: number;
+  maxUses?: number;
+}
+
+export interface AddTracksOptions {
+  position?: number; // Index to insert at; appended by default
+  allowDuplicates?: boolean;
+}
+
+// Move rangeLength tracks from rangeStart to before insertBefore, or send the full order of entry ids
+export type PlaylistReorder =
+  | { rangeStart: number; rangeLength?: number; insertBefore: number; entryId?: string }
+  | { order: string[] };
+
+export type SmartField =
+  | 'title' | 'artist' | 'album' | 'genre'
+  | 'playCount' | 'duration' | 'releaseYear' | 'myPlays'
+  | 'addedAt' | 'releaseDate' | 'lastPlayed' | 'likedAt'
+  | 'liked' | 'explicit';
+
+export type SmartSort = 'playCount' | 'myPlays' | 'newest' | 'releaseDate' | 'lastPlayed' | 'likedAt' | 'title' | 'random';
+
+export interface SmartCondition {
+  field: SmartField;
+  operator: string; // Depends on the field's type, see SmartPlaylistEditor
+  value: string | number | boolean; // Days for date fields
+}
+
+export interface SmartRules {
+  match: 'all' | 'any';
+  conditions: SmartCondition[];
+  playsWithinDays?: number; // Window for myPlays; all time if unset
+  sort: SmartSort;
+  limit: number;
+}
+
+export type PlaylistFormat = 'm3u8' | 'xspf' | 'jspf';
+
+export interface PlaylistImportReport {
+  playlist: { id: string; title: string };
+  format: PlaylistFormat;
+  total: number;
+  matched: number;
+  unmatched: {
+    index: number; // Position in the file, from 0
+    title: string | null;
+    artist: string | null;
+    album: string | null;
+    duration: number | null;
+    reason: string;
+    suggestion: { trackId: string; title: string; artist: string; score: number } | null;
+  }[];
+}
+
+export type PlaylistChangeType = 'CREATE' | 'UPDATE' | 'ADD' | 'REMOVE' | 'REORDER' | 'REVERT' | 'DELETE' | 'RESTORE';
+
+export interface PlaylistChange {
+  id: string;
+  type: PlaylistChangeType;
+  details: any; // Shape depends on type, see the server's playlist routes
+  trackCount: number; // After the change
+  createdAt: string;
+  user: { id: string; username: string; displayName: string | null; avatarUrl: string | null } | null;
+}
+
+export const playlistInviteUrl = (token: string) => `${window.location.origin}/playlist/invite/${token}`;
+
 export const playlistsApi = {
   getOne: (id: string) => api.get(`/playlists/${id}`),
   getUserPlaylists: (username: string) => api.get(`/playlists/user/${username}`),
   create: (data: any) => api.post('/playlists', data),
   addTrack: (playlistId: string, trackId: string) =>
     api.post(`/playlists/${playlistId}/tracks`, { trackId }),
+  addTracks: (playlistId: string, trackIds: string[], options: AddTracksOptions = {}) =>
+    api.post<{ added: { entryId: string; trackId: string }[]; skipped: string[] }>(
+      `/playlists/${playlistId}/tracks`,
+      { trackIds, ...options }
+    ),
   removeTrack: (playlistId: string, trackId: string) =>
     api.delete(`/playlists/${playlistId}/tracks/${trackId}`),
+  removeEntries: (playlistId: string, entryIds: string[]) =>
+    api.delete(`/playlists/${playlistId}/tracks`, { data: { entryIds } }),
+  reorderTracks: (playlistId: string, reorder: PlaylistReorder) =>
+    api.patch<{ order: string[] }>(`/playlists/${playlistId}/tracks/order`, reorder),
   update: (id: string, data: any) => api.patch(`/playlists/${id}`, data),
-  delete: (id: string) => api.delete(`/playlists/${id}`),
+  delete: (id: string) => api.delete<{ restorableUntil: string }>(`/playlists/${id}`),
+  getDeleted: () => api.get('/playlists/deleted'),
+  restore: (id: string) => api.post(`/playlists/${id}/restore`),
+  getHistory: (id: string, cursor?: string) =>
+    api.get<{ changes: PlaylistChange[]; nextCursor: string | null }>(`/playlists/${id}/history`, {
+      params: { cursor },
+    }),
+  restoreVersion: (id: string, changeId: string) =>
+    api.post<{ skipped: number }>(`/playlists/${id}/history/${changeId}/restore`),
+  exportFile: (id: string, format: PlaylistFormat) =>
+    api.get<Blob>(`/playlists/${id}/export`, { params: { format }, responseType: 'blob' }),
+  importFile: (data: { content: string; format?: PlaylistFormat; title?: string; isPublic?: boolean }) =>
+    api.post<PlaylistImportReport>('/playlists/import', data),
+  getInvites: (id: string) => api.get<PlaylistInvite[]>(`/playlists/${id}/invites`),
+  createInvite: (id: string, options: PlaylistInviteOptions) =>
+    api.post<PlaylistInvite>(`/playlists/${id}/invites`, options),
+  revokeInvite: (id: string, inviteId: string) => api.delete(`/playlists/${id}/invites/${inviteId}`),
+  getInvite: (token: string) => api.get(`/playlists/invites/${token}`),
+  acceptInvite: (token: string) =>
+    api.post<{ playlistId: string; role: PlaylistRole }>(`/playlists/invites/${token}/accept`),
+  setMemberRole: (id: string, userId: string, role: Exclude<PlaylistRole, 'OWNER'>) =>
+    api.patch(`/playlists/${id}/members/${userId}`, { role }),
+  removeMember: (id: string, userId: string) => api.delete(`/playlists/${id}/members/${userId}`),
 };
 
 // Search API
+export type SearchSort = 'relevance' | 'plays' | 'newest' | 'duration';
+export type AlbumType = 'ALBUM' | 'EP' | 'SINGLE' | 'COMPILATION';
+
+export interface SearchFilters {
+  genres?: string[];
+  explicit?: boolean; // false = clean only
+  minDuration?: number; // Seconds
+  maxDuration?: number;
+  yearFrom?: number;
+  yearTo?: number;
+  albumTypes?: AlbumType[];
+  verifiedOnly?: boolean;
+}
+
+export interface SearchParams {
+  query: string;
+  type?: 'tracks' | 'artists' | 'albums' | 'playlists';
+  limit?: number;
+  filters?: SearchFilters;
+  sort?: SearchSort;
+  order?: 'asc' | 'desc';
+  cursor?: string; // From a previous response's `cursors[type]`
+}
+
+export interface SearchFacets {
+  genres: { value: string; count: number }[];
+  explicit: { value: 'explicit' | 'clean'; count: number }[];
+  durations: { value: string; min: number; max: number | null; count: number }[];
+  years: { value: number; count: number }[];
+  albumTypes: { value: AlbumType; count: number }[];
+  verified: number;
+}
+
 export const searchApi = {
-  search: (query: string, type?: string, limit = 10) =>
-    api.get(`/search?q=${encodeURIComponent(query)}${type ? `&type=${type}` : ''}&limit=${limit}`),
+  search: ({ query, type, limit = 10, filters = {}, sort, order, cursor }: SearchParams) =>
+    api.get('/search', {
+      params: {
+        q: query,
+        type,
+        limit,
+        genre: filters.genres?.length ? filters.genres.join(',') : undefined,
+        explicit: filters.explicit,
+        minDuration: filters.minDuration,
+        maxDuration: filters.maxDuration,
+        yearFrom: filters.yearFrom,
+        yearTo: filters.yearTo,
+        albumType: filters.albumTypes?.length ? filters.albumTypes.join(',') : undefined,
+        verified: filters.verifiedOnly || undefined,
+        sort,
+        order,
+        cursor,
+      },
+    }),
   suggestions: (query: string) =>
     api.get(`/search/suggestions?q=${encodeURIComponent(query)}`),
+  // Report the result opened from a search (searchId comes with the results)
+  click: (searchId: string, result: { type: NonNullable<SearchParams['type']>; id: string; position?: number }) =>
+    api.post(`/search/${searchId}/click`, result),
+  trending: (limit = 10) => api.get('/search/trending', { params: { limit } }),
+  // Artists only
+  insights: (days = 7) => api.get('/search/insights', { params: { days } }),
 };
 
 // Stream API
+// Loudness normalization in dB, null until the track has been measured
+export interface StreamGain {
+  track: number | null;
+  trackPeak: number | null; // dBTP
+  album: number | null;
+  albumPeak: number | null;
+}
+
+export interface StreamSource {
+  url: string;
+  format: string | null; // File extension of the rendition (mp3, m4a, opus, flac...)
+  gain: StreamGain | null;
+}
+
+// Codecs this browser can decode, best first; the server falls back to MP3
+let playableCodecs: string | null = null;
+const getPlayableCodecs = () => {
+  if (playableCodecs === null) {
+    const audio = document.createElement('audio');
+    const canPlay = (type: string) => audio.canPlayType(type) !== '';
+    playableCodecs = [
+      canPlay('audio/ogg; codecs="opus"') && 'opus',
+      canPlay('audio/mp4; codecs="mp4a.40.2"') && 'aac',
+      'mp3',
+    ].filter(Boolean).join(',');
+  }
+  return playableCodecs;
+};
+
+// Audio URLs are signed per listener and expire, so fetch one right before playing
+const getSignedStream = async (
+  trackId: string,
+  params: { quality?: string; codec?: string },
+  fallback: string
+): Promise<StreamSource> => {
+  try {
+    const { data } = await api.get(`/stream/${trackId}/url`, { params });
+    return { url: `${API_BASE_URL}${data.url}`, format: data.format ?? null, gain: data.gain ?? null };
+  } catch (error: any) {
+    // The serverless backend has no signing route; its catch-all 404 names the path.
+    // Any other 404 (no such track, no adaptive stream) is the caller's to show
+    const missingRoute = error.response?.status === 404 && error.response.data?.path !== undefined;
+    if (missingRoute) return { url: fallback, format: null, gain: null };
+    throw error;
+  }
+};
+
+export type PlayEndReason = 'completed' | 'skipped' | 'error';
+
+export interface SeekEvent {
+  type: 'seek';
+  from: number;
+  to: number;
+}
+
+export interface ListenHeartbeat {
+  playId?: string;
+  listened: number;
+  position?: number;
+  events?: SeekEvent[];
+  ended?: PlayEndReason; // Sent with the last heartbeat of a play
+}
+
 export const streamApi = {
-  getStreamUrl: (trackId: string, quality: 'low' | 'medium' | 'high' = 'medium') => {
-    // Use normalized backend URL for streaming
-    return `${API_BASE_URL}/api/stream/${trackId}?quality=${quality}`;
-  },
-  complete: (trackId: string, duration: number) =>
-    api.post(`/stream/${trackId}/complete`, { duration }),
+  getStream: (trackId: string, quality: 'low' | 'medium' | 'high' | 'lossless' = 'medium') =>
+    getSignedStream(
+      trackId,
+      { quality, codec: getPlayableCodecs() },
+      `${API_BASE_URL}/api/stream/${trackId}?quality=${quality}`
+    ),
+  // Seconds actually played since the last heartbeat; the first one (no playId) starts the play
+  heartbeat: (trackId: string, data: ListenHeartbeat) =>
+    api.post<{ playId: string | null; listened?: number; counted: boolean }>(`/stream/${trackId}/heartbeat`, data),
   getWaveform: (trackId: string) => api.get(`/stream/${trackId}/waveform`),
 };
 
@@ -0,0 +1,133 @@
+import { uploadApi } from './api';
+
+// Resumable (chunked) track uploads against /upload/sessions
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_RETRIES = 8;
+
+// Anything left out is filled in from the file's embedded tags
+export interface TrackDetails {
+  title?: string;
+  genre?: string;
+  isPublic?: boolean;
+  isExplicit?: boolean;
+  coverUrl?: string;
+  duration?: number;
+  releaseDate?: string; // ISO date-time; in the future schedules the release
+}
+
+// Same file picked again (e.g. after a reload) resumes the same session
+const storageKey = (file: File) =>
+  `stream-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const waitForOnline = () =>
+  navigator.onLine
+    ? Promise.resolve()
+    : new Promise<void>((resolve) =>
+        window.addEventListener('online', () => resolve(), { once: true })
+      );
+
+// Network drops and server hiccups are worth retrying; validation errors aren't
+const isRetryable = (error: any) => {
+  const status = error.response?.status;
+  return !status || status >= 500 || status === 409 || status === 423;
+};
+
+async function findExistingSession(file: File): Promise<string | null> {
+  const sessionId = localStorage.getItem(storageKey(file));
+  if (!sessionId) return null;
+
+  try {
+    const { data } = await uploadApi.getSession(sessionId);
+    if (data.totalSize === file.size) {
+      return sessionId;
+    }
+  } catch {
+    // Expired or deleted - start over
+  }
+
+  localStorage.removeItem(storageKey(file));
+  return null;
+}
+
+/**
+ * Send a file's bytes to an upload session, resuming from the server's offset
+ * after failures, without finishing it. Returns the session id, or null when
+ * the backend has no session endpoints (serverless deploys).
+ */
+export async function sendToSession(
+  file: File,
+  details: TrackDetails,
+  onProgress?: (sent: number, total: number) => void
+): Promise<string | null> {
+  let sessionId = await findExistingSession(file);
+
+  if (!sessionId) {
+    try {
+      const { data } = await uploadApi.createSession({
+        fileName: file.name,
+        fileSize: file.size,
+        mimeType: file.type || undefined,
+        ...details,
+      });
+      sessionId = data.id as string;
+      localStorage.setItem(storageKey(file), sessionId);
+    } catch (error: any) {
+      if (error.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  const { data: status } = await uploadApi.getSession(sessionId);
+  let offset: number = status.offset;
+  let retries = 0;
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + CHUNK_SIZE);
+
+    try {
+      const start = offset;
+      const response = await uploadApi.uploadChunk(sessionId, start, chunk, (loaded) =>
+        onProgress?.(start + loaded, file.size)
+      );
+      offset = parseInt(response.headers['upload-offset'], 10) || start + chunk.size;
+      retries = 0;
+    } catch (error: any) {
+      if (!isRetryable(error) || retries >= MAX_RETRIES) throw error;
+      retries++;
+
+      await waitForOnline();
+      await sleep(Math.min(1000 * 2 ** retries, 30000));
+
+      // The server may have kept part of the failed chunk
+      const { data } = await uploadApi.getSession(sessionId);
+      offset = data.offset;
+    }
+
+    onProgress?.(offset, file.size);
+  }
+
+  return sessionId;
+}
+
+// Once a session has been turned into a track it can't be resumed
+export const forgetSession = (file: File) => localStorage.removeItem(storageKey(file));
+
+/**
+ * Upload a track in chunks and finish it into a track.
+ * Returns null when the backend has no session endpoints, so the caller can
+ * fall back to the single-request upload.
+ */
+export async function uploadResumable(
+  file: File,
+  details: TrackDetails,
+  onProgress?: (sent: number, total: number) => void
+): Promise<any | null> {
+  const sessionId = await sendToSession(file, details, onProgress);
+  if (!sessionId) return null;
+
+  const { data: result } = await uploadApi.completeSession(sessionId);
+  forgetSession(file);
+  return result;
+}
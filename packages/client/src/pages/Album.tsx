@@ -1,13 +1,16 @@
 import { useParams, Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { Play, Pause, Share2, MoreHorizontal, Clock, Calendar } from 'lucide-react';
+import { Play, Pause, Share2, MoreHorizontal, Clock, Calendar, Disc, CalendarClock } from 'lucide-react';
 import { albumsApi, getUploadUrl } from '../lib/api';
 import { usePlayerStore } from '../store/player';
+import { useAuthStore } from '../store/auth';
 import { TrackListItem } from '../components/TrackCard';
+import { UpcomingRelease, formatReleaseDate } from '../components/UpcomingRelease';
 
 export function Album() {
   const { albumId } = useParams<{ albumId: string }>();
   const { currentTrack, isPlaying, play, togglePlay } = usePlayerStore();
+  const { user } = useAuthStore();
 
   const { data: album, isLoading } = useQuery({
     queryKey: ['album', albumId],
@@ -40,9 +43,44 @@ export function Album() {
   }
 
   const tracks = album.tracks || [];
+
+  const formatTrackDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+  // Listeners see the tracklist of an unreleased album, but nothing plays yet
+  if (album.isScheduled && user?.id !== album.artistId) {
+    return (
+      <UpcomingRelease
+        kind={album.albumType === 'ALBUM' ? 'Album' : album.albumType}
+        title={album.title}
+        coverUrl={album.coverUrl}
+        releaseDate={album.releaseDate}
+        artist={album.artist}
+        isPreSaved={album.isPreSaved}
+        queryKey={['album', albumId]}
+        preSave={() => albumsApi.preSave(albumId!)}
+      >
+        {tracks.length > 0 && (
+          <div className="p-6">
+            <div className="bg-surface-800/30 rounded-xl divide-y divide-surface-800">
+              {tracks.map((track: any, index: number) => (
+                <div key={track.id} className="flex items-center gap-4 px-4 py-3 text-surface-300">
+                  <span className="w-8 text-surface-500">{track.trackNumber ?? index + 1}</span>
+                  <span className="flex-1 truncate">{track.title}</span>
+                  <span className="text-sm text-surface-500">{formatTrackDuration(track.duration)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </UpcomingRelease>
+    );
+  }
   const isPlayingAlbum = currentTrack && tracks.some((t: any) => t.id === currentTrack.id);
   
   const totalDuration = tracks.reduce((acc: number, t: any) => acc + t.duration, 0);
+  // Tracks arrive in disc/track order; disc headings only matter for multi-disc releases
+  const isMultiDisc = new Set(tracks.map((t: any) => t.discNumber ?? 1)).size > 1;
 
   const handlePlayAll = () => {
     if (tracks.length === 0) return;
@@ -131,6 +169,12 @@ export function Album() {
                 <span className="text-surface-400">•</span>
                 <span className="text-surface-400">{formatDuration(totalDuration)}</span>
               </div>
+              {album.isScheduled && (
+                <p className="flex items-center justify-center md:justify-start gap-2 mt-3 text-sm text-accent-400">
+                  <CalendarClock className="w-4 h-4" />
+                  Scheduled for {formatReleaseDate(album.releaseDate)} • {album._count?.preSaves ?? 0} pre-saves
+                </p>
+              )}
             </div>
           </div>
 
@@ -179,23 +223,35 @@ export function Album() {
               <div className="w-20" />
             </div>
 
-            {tracks.map((track: any, index: number) => (
-              <TrackListItem
-                key={track.id}
-                track={{
-                  ...track,
-                  artist: album.artist,
-                  album: { id: album.id, title: album.title, coverUrl: album.coverUrl },
-                }}
-                index={index + 1}
-                showCover={false}
-                queue={tracks.map((t: any) => ({
-                  ...t,
-                  artist: album.artist,
-                  album: { id: album.id, title: album.title, coverUrl: album.coverUrl },
-                }))}
-              />
-            ))}
+            {tracks.map((track: any, index: number) => {
+              const disc = track.discNumber ?? 1;
+              const startsDisc = isMultiDisc && (index === 0 || (tracks[index - 1].discNumber ?? 1) !== disc);
+
+              return (
+                <div key={track.id}>
+                  {startsDisc && (
+                    <div className="flex items-center gap-2 px-4 pt-4 pb-2 text-sm font-semibold text-surface-400">
+                      <Disc className="w-4 h-4" />
+                      Disc {disc}
+                    </div>
+                  )}
+                  <TrackListItem
+                    track={{
+                      ...track,
+                      artist: album.artist,
+                      album: { id: album.id, title: album.title, coverUrl: album.coverUrl },
+                    }}
+                    index={track.trackNumber ?? index + 1}
+                    showCover={false}
+                    queue={tracks.map((t: any) => ({
+                      ...t,
+                      artist: album.artist,
+                      album: { id: album.id, title: album.title, coverUrl: album.coverUrl },
+                    }))}
+                  />
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -1,17 +1,18 @@
 import { useParams, Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Play, Pause, Heart, Share2, MoreHorizontal, Clock } from 'lucide-react';
+import { Play, Pause, Heart, Share2, MoreHorizontal, Clock, Radio, CalendarClock } from 'lucide-react';
 import { usersApi, tracksApi, getUploadUrl } from '../lib/api';
 import { usePlayerStore } from '../store/player';
 import { useAuthStore } from '../store/auth';
 import { TrackListItem } from '../components/TrackCard';
+import { releaseCountdown } from '../components/UpcomingRelease';
 import clsx from 'clsx';
 
 export function Artist() {
   const { username } = useParams<{ username: string }>();
   const queryClient = useQueryClient();
   const { isAuthenticated, user } = useAuthStore();
-  const { currentTrack, isPlaying, play, togglePlay } = usePlayerStore();
+  const { currentTrack, isPlaying, play, togglePlay, startRadio } = usePlayerStore();
 
   const { data: artist, isLoading: artistLoading } = useQuery({
     queryKey: ['artist', username],
@@ -25,6 +26,17 @@ export function Artist() {
     enabled: !!username,
   });
 
+  const { data: upcomingData } = useQuery({
+    queryKey: ['artist', username, 'upcoming'],
+    queryFn: () => usersApi.getUpcoming(username!).then((res) => res.data),
+    enabled: !!username,
+  });
+  // Scheduled albums and singles, soonest first
+  const upcoming = [
+    ...(upcomingData?.albums ?? []).map((album: any) => ({ ...album, link: `/album/${album.id}` })),
+    ...(upcomingData?.tracks ?? []).map((track: any) => ({ ...track, link: `/track/${track.id}` })),
+  ].sort((a, b) => new Date(a.releaseDate).getTime() - new Date(b.releaseDate).getTime());
+
   const followMutation = useMutation({
     mutationFn: () => usersApi.follow(username!),
     onSuccess: () => {
@@ -167,6 +179,16 @@ export function Artist() {
               </button>
             )}
 
+            {tracks.length > 0 && (
+              <button
+                onClick={() => startRadio('artist', artist.id).catch(console.error)}
+                title="Start radio"
+                className="p-3 rounded-full border border-surface-600 hover:border-white transition-colors"
+              >
+                <Radio className="w-5 h-5" />
+              </button>
+            )}
+
             <button className="p-3 rounded-full border border-surface-600 hover:border-white transition-colors">
               <Share2 className="w-5 h-5" />
             </button>
@@ -178,6 +200,35 @@ export function Artist() {
         </div>
       </div>
 
+      {/* Upcoming releases */}
+      {upcoming.length > 0 && (
+        <div className="px-6 pt-6">
+          <h2 className="text-2xl font-bold mb-4">Upcoming</h2>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+            {upcoming.map((release) => (
+              <Link key={release.link} to={release.link} className="group">
+                <div className="aspect-square rounded-xl overflow-hidden bg-surface-700 mb-2">
+                  {release.coverUrl ? (
+                    <img
+                      src={getUploadUrl(release.coverUrl)}
+                      alt={release.title}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                    />
+                  ) : (
+                    <div className="w-full h-full bg-gradient-to-br from-primary-500 to-accent-500" />
+                  )}
+                </div>
+                <p className="font-medium truncate group-hover:underline">{release.title}</p>
+                <p className="flex items-center gap-1 text-sm text-surface-400">
+                  <CalendarClock className="w-3.5 h-3.5" />
+                  Out {releaseCountdown(release.releaseDate)}
+                </p>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Tracks */}
       <div className="p-6">
         <h2 className="text-2xl font-bold mb-4">Tracks</h2>
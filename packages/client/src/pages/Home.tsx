@@ -1,10 +1,19 @@
 import { useQuery } from '@tanstack/react-query';
-import { tracksApi } from '../lib/api';
+import { tracksApi, recommendationsApi } from '../lib/api';
+import { useAuthStore } from '../store/auth';
 import { TrackCard, TrackListItem } from '../components/TrackCard';
-import { ChevronRight, TrendingUp, Sparkles } from 'lucide-react';
+import { ChevronRight, TrendingUp, Sparkles, Heart } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 export function Home() {
+  const { isAuthenticated } = useAuthStore();
+
+  const { data: forYouData, isLoading: forYouLoading } = useQuery({
+    queryKey: ['recommendations', 'for-you'],
+    queryFn: () => recommendationsApi.getForYou().then((res) => res.data),
+    enabled: isAuthenticated,
+  });
+
   const { data: trendingData, isLoading: trendingLoading } = useQuery({
     queryKey: ['tracks', 'trending'],
     queryFn: () => tracksApi.getTrending().then((res) => res.data),
@@ -18,6 +27,7 @@ export function Home() {
   // Extract tracks array from response
   const trending = trendingData?.tracks || [];
   const newReleases = newData?.tracks || [];
+  const forYou = forYouData?.tracks || [];
 
   return (
     <div className="p-6 max-w-7xl mx-auto">
@@ -41,6 +51,34 @@ export function Home() {
         </div>
       </div>
 
+      {/* For You */}
+      {isAuthenticated && (forYouLoading || forYou.length > 0) && (
+        <section className="mb-12">
+          <div className="flex items-center gap-3 mb-6">
+            <Heart className="w-6 h-6 text-primary-400" />
+            <h2 className="text-2xl font-bold">Made For You</h2>
+          </div>
+
+          {forYouLoading ? (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="bg-surface-800 rounded-xl p-4">
+                  <div className="aspect-square skeleton rounded-lg mb-3" />
+                  <div className="h-4 skeleton rounded mb-2" />
+                  <div className="h-3 skeleton rounded w-2/3" />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+              {forYou.slice(0, 10).map((track: any) => (
+                <TrackCard key={track.id} track={track} />
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
       {/* Trending */}
       <section className="mb-12">
         <div className="flex items-center justify-between mb-6">
@@ -1,14 +1,20 @@
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
-import { Heart, ListMusic, Clock, Plus } from 'lucide-react';
+import { Heart, ListMusic, Clock, Plus, Wand2, Upload, Trash2, RotateCcw } from 'lucide-react';
 import { tracksApi, playlistsApi, getUploadUrl } from '../lib/api';
 import { useAuthStore } from '../store/auth';
 import { TrackListItem } from '../components/TrackCard';
+import { SmartPlaylistEditor } from '../components/SmartPlaylistEditor';
+import { PlaylistImport } from '../components/PlaylistImport';
 import { Link } from 'react-router-dom';
 
 export function Library() {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { isAuthenticated, user } = useAuthStore();
+  const [showSmartEditor, setShowSmartEditor] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   const { data: likedData, isLoading: likedLoading } = useQuery({
     queryKey: ['tracks', 'liked'],
@@ -23,6 +29,17 @@ export function Library() {
     enabled: isAuthenticated && !!user?.username,
   });
 
+  const { data: deletedPlaylists } = useQuery({
+    queryKey: ['playlists', 'deleted'],
+    queryFn: () => playlistsApi.getDeleted().then((res) => res.data),
+    enabled: isAuthenticated,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (playlistId: string) => playlistsApi.restore(playlistId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['playlists'] }),
+  });
+
   if (!isAuthenticated) {
     return (
       <div className="p-6 text-center py-20">
@@ -105,10 +122,26 @@ export function Library() {
             <ListMusic className="w-6 h-6 text-primary-500" />
             <h2 className="text-xl font-bold">Your Playlists</h2>
           </div>
-          <button className="flex items-center gap-2 px-4 py-2 bg-surface-800 rounded-full text-sm hover:bg-surface-700 transition-colors">
-            <Plus className="w-4 h-4" />
-            Create Playlist
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-surface-800 rounded-full text-sm hover:bg-surface-700 transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            <button
+              onClick={() => setShowSmartEditor(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-surface-800 rounded-full text-sm hover:bg-surface-700 transition-colors"
+            >
+              <Wand2 className="w-4 h-4" />
+              Smart Playlist
+            </button>
+            <button className="flex items-center gap-2 px-4 py-2 bg-surface-800 rounded-full text-sm hover:bg-surface-700 transition-colors">
+              <Plus className="w-4 h-4" />
+              Create Playlist
+            </button>
+          </div>
         </div>
 
         {playlistsLoading ? (
@@ -151,14 +184,50 @@ export function Library() {
                   )}
                 </div>
                 <p className="font-semibold truncate">{playlist.title}</p>
-                <p className="text-sm text-surface-400">
+                <p className="text-sm text-surface-400 truncate">
                   {playlist._count?.tracks || 0} tracks
+                  {playlist.userId !== user?.id && playlist.user &&
+                    ` • by ${playlist.user.displayName || playlist.user.username}`}
                 </p>
               </Link>
             ))}
           </div>
         )}
       </section>
+
+      {/* Recently Deleted Section */}
+      {deletedPlaylists?.length > 0 && (
+        <section className="mt-12">
+          <div className="flex items-center gap-3 mb-4">
+            <Trash2 className="w-6 h-6 text-surface-400" />
+            <h2 className="text-xl font-bold">Recently Deleted</h2>
+          </div>
+          <div className="bg-surface-800/30 rounded-xl divide-y divide-surface-700/50">
+            {deletedPlaylists.map((playlist: any) => (
+              <div key={playlist.id} className="flex items-center gap-4 px-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{playlist.title}</p>
+                  <p className="text-sm text-surface-400">
+                    {playlist._count?.tracks || 0} tracks • Deleted for good on{' '}
+                    {new Date(playlist.restorableUntil).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => restoreMutation.mutate(playlist.id)}
+                  disabled={restoreMutation.isPending}
+                  className="flex items-center gap-2 px-4 py-2 bg-surface-800 rounded-full text-sm hover:bg-surface-700 transition-colors disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Restore
+                </button>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {showSmartEditor && <SmartPlaylistEditor onClose={() => setShowSmartEditor(false)} />}
+      {showImport && <PlaylistImport onClose={() => setShowImport(false)} />}
     </div>
   );
 }
@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Bell, BellRing } from 'lucide-react';
+import { notificationsApi } from '../lib/api';
+import { useAuthStore } from '../store/auth';
+import clsx from 'clsx';
+
+const timeAgo = (date: string) => {
+  const minutes = Math.round((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+export function Notifications() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuthStore();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: () => notificationsApi.list(50).then((res) => res.data),
+    enabled: isAuthenticated,
+  });
+
+  const markRead = useMutation({
+    mutationFn: () => notificationsApi.markRead(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  // Opening the page counts as reading them; unread ones stay highlighted until the next visit
+  const unread = data?.unread ?? 0;
+  useEffect(() => {
+    if (unread > 0) markRead.mutate();
+  }, [unread]);
+
+  if (!isAuthenticated) {
+    return (
+      <div className="p-6 text-center py-20">
+        <Bell className="w-16 h-16 text-surface-600 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold mb-2">Sign in to see notifications</h2>
+        <p className="text-surface-400 mb-6">
+          Pre-save upcoming releases and hear the moment they're out
+        </p>
+        <button
+          onClick={() => navigate('/login')}
+          className="px-6 py-3 bg-primary-500 rounded-full font-semibold hover:bg-primary-600 transition-colors"
+        >
+          Sign In
+        </button>
+      </div>
+    );
+  }
+
+  const notifications = data?.notifications ?? [];
+
+  return (
+    <div className="p-6 max-w-2xl mx-auto">
+      <h1 className="text-3xl font-bold mb-8">Notifications</h1>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-16 skeleton rounded-xl" />
+          ))}
+        </div>
+      ) : notifications.length === 0 ? (
+        <div className="text-center py-20">
+          <Bell className="w-16 h-16 text-surface-600 mx-auto mb-4" />
+          <h2 className="text-xl font-bold mb-2">Nothing yet</h2>
+          <p className="text-surface-400">Pre-save upcoming releases to hear when they're out</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {notifications.map((notification) => (
+            <button
+              key={notification.id}
+              onClick={() => notification.link && navigate(notification.link)}
+              className={clsx(
+                'w-full flex items-start gap-4 p-4 rounded-xl text-left transition-colors',
+                notification.readAt ? 'bg-surface-800/30 hover:bg-surface-800/60' : 'bg-surface-800 hover:bg-surface-700'
+              )}
+            >
+              <div className="w-10 h-10 rounded-full bg-primary-500/20 flex items-center justify-center flex-shrink-0">
+                <BellRing className="w-5 h-5 text-primary-400" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{notification.title}</p>
+                {notification.body && <p className="text-sm text-surface-400">{notification.body}</p>}
+              </div>
+              <span className="text-xs text-surface-500 flex-shrink-0">{timeAgo(notification.createdAt)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,125 @@
-import { useParams, Link } from 'react-router-dom';
+import { useState } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Play, Pause, Heart, Share2, MoreHorizontal, Clock } from 'lucide-react';
-import { playlistsApi, tracksApi, getUploadUrl } from '../lib/api';
+import { Play, Pause, Share2, MoreHorizontal, Clock, UserPlus, LogOut, Users, Wand2, Download, History, Trash2 } from 'lucide-react';
+import { playlistsApi, getUploadUrl, PlaylistFormat } from '../lib/api';
 import { usePlayerStore } from '../store/player';
 import { useAuthStore } from '../store/auth';
 import { TrackListItem } from '../components/TrackCard';
+import { PlaylistMembers } from '../components/PlaylistMembers';
+import { SmartPlaylistEditor, describeCondition } from '../components/SmartPlaylistEditor';
+import { PlaylistHistory } from '../components/PlaylistHistory';
+import clsx from 'clsx';
+
+interface PlaylistUser {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+}
+
+const MAX_AVATARS = 5;
+
+const EXPORT_FORMATS: { format: PlaylistFormat; label: string }[] = [
+  { format: 'm3u8', label: 'M3U8' },
+  { format: 'xspf', label: 'XSPF' },
+  { format: 'jspf', label: 'JSPF' },
+];
+
+// Same move the server makes, applied to the cached playlist while the request is in flight
+function moveTrack<T>(tracks: T[], from: number, insertBefore: number): T[] {
+  const next = [...tracks];
+  const [moved] = next.splice(from, 1);
+  next.splice(insertBefore > from ? insertBefore - 1 : insertBefore, 0, moved);
+  return next;
+}
+
+// Overlapping avatars of everyone who added tracks
+function ContributorAvatars({ contributors }: { contributors: (PlaylistUser & { trackCount: number })[] }) {
+  const shown = contributors.slice(0, MAX_AVATARS);
+  const hidden = contributors.length - shown.length;
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {shown.map((contributor) => (
+        <Link
+          key={contributor.id}
+          to={`/artist/${contributor.username}`}
+          title={`${contributor.displayName || contributor.username} added ${contributor.trackCount} track${contributor.trackCount === 1 ? '' : 's'}`}
+          className="w-7 h-7 rounded-full overflow-hidden ring-2 ring-surface-900 bg-surface-700 flex items-center justify-center text-xs font-bold hover:z-10"
+        >
+          {contributor.avatarUrl ? (
+            <img src={getUploadUrl(contributor.avatarUrl)} alt="" className="w-full h-full object-cover" />
+          ) : (
+            (contributor.displayName || contributor.username)[0].toUpperCase()
+          )}
+        </Link>
+      ))}
+      {hidden > 0 && (
+        <span className="w-7 h-7 rounded-full ring-2 ring-surface-900 bg-surface-700 flex items-center justify-center text-xs">
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
 
 export function Playlist() {
   const { playlistId } = useParams<{ playlistId: string }>();
+  const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { user } = useAuthStore();
   const { currentTrack, isPlaying, play, togglePlay } = usePlayerStore();
+  const [showMembers, setShowMembers] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [showMenu, setShowMenu] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const playlistKey = ['playlist', playlistId];
 
   const { data: playlist, isLoading } = useQuery({
-    queryKey: ['playlist', playlistId],
+    queryKey: playlistKey,
     queryFn: () => playlistsApi.getOne(playlistId!).then((res) => res.data),
     enabled: !!playlistId,
   });
 
+  const removeMutation = useMutation({
+    mutationFn: (entryId: string) => playlistsApi.removeEntries(playlistId!, [entryId]),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: playlistKey }),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (move: { rangeStart: number; insertBefore: number; entryId: string }) =>
+      playlistsApi.reorderTracks(playlistId!, move),
+    onMutate: async ({ rangeStart, insertBefore }) => {
+      await queryClient.cancelQueries({ queryKey: playlistKey });
+      queryClient.setQueryData(playlistKey, (old: any) =>
+        old && { ...old, tracks: moveTrack(old.tracks, rangeStart, insertBefore) }
+      );
+    },
+    // Someone else may have edited the playlist meanwhile; show what the server has
+    onError: () => queryClient.invalidateQueries({ queryKey: playlistKey }),
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: () => playlistsApi.removeMember(playlistId!, user!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['playlists'] });
+      navigate('/library');
+    },
+  });
+
+  // Soft delete: the playlist sits in the library's Recently Deleted until it's purged
+  const deleteMutation = useMutation({
+    mutationFn: () => playlistsApi.delete(playlistId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['playlists'] });
+      navigate('/library');
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="p-6">
@@ -43,7 +145,12 @@ export function Playlist() {
   }
 
   const tracks = playlist.tracks || [];
-  const isOwner = user?.id === playlist.userId;
+  const isOwner = playlist.role === 'OWNER';
+  const contributors = playlist.contributors || [];
+  // Attribution only matters once more than one person has added tracks
+  const showAddedBy = playlist.isCollaborative || contributors.length > 1;
+  const canRemove = (track: any) => isOwner || (playlist.canEdit && track.addedBy?.id === user?.id);
+  const canReorder = playlist.canEdit && tracks.length > 1;
   const isPlayingPlaylist = currentTrack && tracks.some((t: any) => t.id === currentTrack.id);
 
   const handlePlayAll = () => {
@@ -56,6 +163,35 @@ export function Playlist() {
     }
   };
 
+  // Fetched through the API client so private playlists send the auth header
+  const exportAs = async (format: PlaylistFormat) => {
+    setShowMenu(false);
+    const res = await playlistsApi.exportFile(playlist.id, format);
+    const url = URL.createObjectURL(res.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${playlist.slug || 'playlist'}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDrop = () => {
+    // Dropping a track just above or below itself doesn't move it
+    if (dragIndex !== null && dropIndex !== null && dropIndex !== dragIndex && dropIndex !== dragIndex + 1) {
+      reorderMutation.mutate({
+        rangeStart: dragIndex,
+        insertBefore: dropIndex,
+        entryId: tracks[dragIndex].entryId,
+      });
+    }
+    endDrag();
+  };
+
   const formatDuration = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const mins = Math.floor((seconds % 3600) / 60);
@@ -88,12 +224,28 @@ export function Playlist() {
 
             {/* Info */}
             <div className="flex-1 text-center md:text-left">
-              <p className="text-sm font-medium uppercase tracking-wider mb-2">Playlist</p>
+              <p className="text-sm font-medium uppercase tracking-wider mb-2">
+                {playlist.rules ? 'Smart Playlist' : playlist.isCollaborative ? 'Collaborative Playlist' : 'Playlist'}
+              </p>
               <h1 className="text-4xl md:text-6xl font-bold mb-4">{playlist.title}</h1>
               {playlist.description && (
                 <p className="text-surface-300 mb-4">{playlist.description}</p>
               )}
+              {playlist.rules && (
+                <p className="flex items-center justify-center md:justify-start gap-2 text-sm text-surface-300 mb-4">
+                  <Wand2 className="w-4 h-4 text-accent-400 flex-shrink-0" />
+                  {playlist.rules.conditions
+                    .map(describeCondition)
+                    .join(playlist.rules.match === 'all' ? ' and ' : ' or ')}
+                  {playlist.rulesEvaluatedAt && (
+                    <span className="text-surface-500">
+                      • updated {new Date(playlist.rulesEvaluatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                    </span>
+                  )}
+                </p>
+              )}
               <div className="flex items-center justify-center md:justify-start gap-2 text-sm">
+                {showAddedBy && contributors.length > 0 && <ContributorAvatars contributors={contributors} />}
                 <Link
                   to={`/artist/${playlist.user?.username}`}
                   className="font-medium hover:underline"
@@ -128,13 +280,96 @@ export function Playlist() {
               </button>
             )}
 
+            {isOwner && playlist.rules && (
+              <button
+                onClick={() => setShowRules(true)}
+                className="flex items-center gap-2 px-4 py-3 rounded-full border border-surface-600 hover:border-white transition-colors text-sm"
+              >
+                <Wand2 className="w-4 h-4" />
+                Edit Rules
+              </button>
+            )}
+
+            {isOwner && (
+              <button
+                onClick={() => setShowMembers(true)}
+                className="flex items-center gap-2 px-4 py-3 rounded-full border border-surface-600 hover:border-white transition-colors"
+                title="Invite people"
+              >
+                <UserPlus className="w-5 h-5" />
+                {playlist.members?.length > 0 && (
+                  <span className="flex items-center gap-1 text-sm">
+                    <Users className="w-4 h-4" />
+                    {playlist.members.length}
+                  </span>
+                )}
+              </button>
+            )}
+
+            {(playlist.role === 'EDITOR' || playlist.role === 'VIEWER') && (
+              <button
+                onClick={() => leaveMutation.mutate()}
+                disabled={leaveMutation.isPending}
+                className="flex items-center gap-2 px-4 py-3 rounded-full border border-surface-600 hover:border-white transition-colors text-sm disabled:opacity-50"
+              >
+                <LogOut className="w-4 h-4" />
+                Leave
+              </button>
+            )}
+
             <button className="p-3 rounded-full border border-surface-600 hover:border-white transition-colors">
               <Share2 className="w-5 h-5" />
             </button>
 
-            <button className="p-3 rounded-full border border-surface-600 hover:border-white transition-colors">
-              <MoreHorizontal className="w-5 h-5" />
-            </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowMenu(!showMenu)}
+                className="p-3 rounded-full border border-surface-600 hover:border-white transition-colors"
+              >
+                <MoreHorizontal className="w-5 h-5" />
+              </button>
+
+              {showMenu && (
+                <>
+                  <div className="fixed inset-0 z-40" onClick={() => setShowMenu(false)} />
+                  <div className="absolute left-0 top-full mt-1 bg-surface-800 border border-surface-700 rounded-lg shadow-xl z-50 min-w-[180px] py-1">
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                      <button
+                        key={format}
+                        onClick={() => exportAs(format)}
+                        className="w-full flex items-center gap-2 px-4 py-2 hover:bg-surface-700 text-sm"
+                      >
+                        <Download className="w-4 h-4" />
+                        Export as {label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => {
+                        setShowMenu(false);
+                        setShowHistory(true);
+                      }}
+                      className="w-full flex items-center gap-2 px-4 py-2 hover:bg-surface-700 text-sm"
+                    >
+                      <History className="w-4 h-4" />
+                      Version History
+                    </button>
+                    {isOwner && (
+                      <button
+                        onClick={() => {
+                          setShowMenu(false);
+                          deleteMutation.mutate();
+                        }}
+                        disabled={deleteMutation.isPending}
+                        className="w-full flex items-center gap-2 px-4 py-2 hover:bg-surface-700 text-sm text-red-400 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Delete Playlist
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -143,7 +378,7 @@ export function Playlist() {
       <div className="p-6">
         {tracks.length === 0 ? (
           <div className="text-center py-12 text-surface-400">
-            <p>This playlist is empty</p>
+            <p>{playlist.rules ? 'No tracks match these rules yet' : 'This playlist is empty'}</p>
           </div>
         ) : (
           <div className="bg-surface-800/30 rounded-xl overflow-hidden">
@@ -151,6 +386,7 @@ export function Playlist() {
               <div className="w-8">#</div>
               <div className="w-10" />
               <div className="flex-1">Title</div>
+              {showAddedBy && <div className="w-8 hidden sm:block" title="Added by" />}
               <div className="w-12 text-right">
                 <Clock className="w-4 h-4 inline" />
               </div>
@@ -158,16 +394,49 @@ export function Playlist() {
             </div>
 
             {tracks.map((track: any, index: number) => (
-              <TrackListItem
-                key={track.id}
-                track={track}
-                index={index + 1}
-                queue={tracks}
-              />
+              <div
+                key={track.entryId}
+                draggable={canReorder}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  // Top half drops above this row, bottom half below it
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop();
+                }}
+                onDragEnd={endDrag}
+                className={clsx('relative', dragIndex === index && 'opacity-40')}
+              >
+                {dropIndex === index && <div className="absolute inset-x-0 top-0 h-0.5 bg-primary-500 z-10" />}
+                {dropIndex === index + 1 && index === tracks.length - 1 && (
+                  <div className="absolute inset-x-0 bottom-0 h-0.5 bg-primary-500 z-10" />
+                )}
+                <TrackListItem
+                  track={track}
+                  index={index + 1}
+                  queue={tracks}
+                  addedBy={showAddedBy ? track.addedBy : undefined}
+                  onRemove={canRemove(track) ? () => removeMutation.mutate(track.entryId) : undefined}
+                />
+              </div>
             ))}
           </div>
         )}
       </div>
+
+      {showMembers && <PlaylistMembers playlist={playlist} onClose={() => setShowMembers(false)} />}
+      {showRules && <SmartPlaylistEditor playlist={playlist} onClose={() => setShowRules(false)} />}
+      {showHistory && (
+        <PlaylistHistory playlistId={playlist.id} canRestore={isOwner} onClose={() => setShowHistory(false)} />
+      )}
     </div>
   );
 }
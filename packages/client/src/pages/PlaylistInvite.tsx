@@ -0,0 +1,90 @@
+import { useParams, useNavigate, Navigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ListMusic, Loader2, UserPlus } from 'lucide-react';
+import { playlistsApi, getUploadUrl } from '../lib/api';
+import { useAuthStore } from '../store/auth';
+
+// Landing page for a playlist invite link
+export function PlaylistInvite() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuthStore();
+
+  const { data: invite, isLoading, error } = useQuery({
+    queryKey: ['playlist-invite', token],
+    queryFn: () => playlistsApi.getInvite(token!).then((res) => res.data),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => playlistsApi.acceptInvite(token!).then((res) => res.data),
+    onSuccess: ({ playlistId }) => {
+      queryClient.invalidateQueries({ queryKey: ['playlist', playlistId] });
+      queryClient.invalidateQueries({ queryKey: ['playlists'] });
+      navigate(`/playlist/${playlistId}`);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Loader2 className="w-8 h-8 animate-spin text-surface-400" />
+      </div>
+    );
+  }
+
+  if (!invite) {
+    return (
+      <div className="p-6 text-center py-20">
+        <ListMusic className="w-16 h-16 text-surface-600 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold mb-2">Invite unavailable</h2>
+        <p className="text-surface-400">
+          {(error as any)?.response?.data?.error || "This invite link doesn't exist"}
+        </p>
+      </div>
+    );
+  }
+
+  // Already in; nothing to join
+  if (invite.currentRole) {
+    return <Navigate to={`/playlist/${invite.playlist.id}`} replace />;
+  }
+
+  const { playlist } = invite;
+  const owner = playlist.user.displayName || playlist.user.username;
+  const acceptError = (acceptMutation.error as any)?.response?.data?.error;
+
+  return (
+    <div className="p-6 max-w-md mx-auto text-center py-16">
+      <div className="w-48 h-48 mx-auto rounded-xl overflow-hidden bg-surface-700 shadow-2xl mb-6">
+        {playlist.coverUrl ? (
+          <img src={getUploadUrl(playlist.coverUrl)} alt={playlist.title} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full bg-gradient-to-br from-accent-500 to-primary-500 flex items-center justify-center">
+            <ListMusic className="w-16 h-16 text-white/50" />
+          </div>
+        )}
+      </div>
+
+      <p className="text-surface-400 mb-2">
+        {owner} invited you to {invite.role === 'EDITOR' ? 'add to' : 'listen to'}
+      </p>
+      <h1 className="text-3xl font-bold mb-2">{playlist.title}</h1>
+      <p className="text-sm text-surface-400 mb-8">
+        {playlist._count.tracks} tracks • {playlist._count.members + 1} people
+      </p>
+
+      <button
+        onClick={() => (isAuthenticated ? acceptMutation.mutate() : navigate('/login'))}
+        disabled={acceptMutation.isPending}
+        className="inline-flex items-center gap-2 px-8 py-3 bg-primary-500 rounded-full font-semibold hover:bg-primary-600 transition-colors disabled:opacity-50"
+      >
+        {acceptMutation.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : <UserPlus className="w-5 h-5" />}
+        {isAuthenticated ? 'Join Playlist' : 'Sign in to Join'}
+      </button>
+      {acceptError && <p className="text-red-400 text-sm mt-4">{acceptError}</p>}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { Search as SearchIcon, X, Mic } from 'lucide-react';
-import { searchApi, tracksApi, getUploadUrl } from '../lib/api';
+import { searchApi, tracksApi, getUploadUrl, SearchFilters, SearchParams, SearchSort } from '../lib/api';
 import { TrackCard } from '../components/TrackCard';
+import { Highlight } from '../components/Highlight';
+import { SearchFilterPanel, hasActiveFilters } from '../components/SearchFilterPanel';
 import { Link } from 'react-router-dom';
 import clsx from 'clsx';
 
@@ -16,6 +18,11 @@ export function Search() {
   const [type, setType] = useState<SearchType>(
     (searchParams.get('type') as SearchType) || 'all'
   );
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [sort, setSort] = useState<SearchSort>('relevance');
+  const filtering = hasActiveFilters(filters);
+  // Filters alone are enough to browse the catalog
+  const searching = debouncedQuery.length >= 2 || filtering;
 
   // Debounce search query
   useEffect(() => {
@@ -34,18 +41,50 @@ export function Search() {
   const { data: allTracks, isLoading: allTracksLoading } = useQuery({
     queryKey: ['tracks', 'all'],
     queryFn: () => tracksApi.getNew().then((res) => res.data),
-    enabled: !debouncedQuery,
+    enabled: !searching,
   });
 
-  const { data: results, isLoading } = useQuery({
-    queryKey: ['search', debouncedQuery, type],
-    queryFn: () =>
+  // Cursor paging only applies to a single result type
+  const resultType = type === 'all' ? undefined : type;
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['search', debouncedQuery, type, filters, sort],
+    queryFn: ({ pageParam }) =>
       searchApi
-        .search(debouncedQuery, type === 'all' ? undefined : type, 20)
+        .search({ query: debouncedQuery, type: resultType, limit: 20, filters, sort, cursor: pageParam })
         .then((res) => res.data),
-    enabled: debouncedQuery.length >= 2,
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage: any) => (resultType && lastPage.cursors?.[resultType]) || undefined,
+    enabled: searching,
   });
 
+  const results: any = data && {
+    tracks: data.pages.flatMap((page: any) => page.tracks ?? []),
+    artists: data.pages.flatMap((page: any) => page.artists ?? []),
+    albums: data.pages.flatMap((page: any) => page.albums ?? []),
+    playlists: data.pages.flatMap((page: any) => page.playlists ?? []),
+    facets: data.pages[0]?.facets,
+  };
+
+  const { data: trending } = useQuery({
+    queryKey: ['search', 'trending'],
+    queryFn: () => searchApi.trending(8).then((res) => res.data.searches),
+    enabled: !searching,
+  });
+
+  // Click-through for search analytics; never gets in the way of navigation
+  const searchId: string | undefined = data?.pages[0]?.searchId;
+  const reportClick = (kind: NonNullable<SearchParams['type']>, id: string, position: number) => {
+    if (searchId) {
+      searchApi.click(searchId, { type: kind, id, position }).catch(() => {});
+    }
+  };
+
   const { data: suggestions } = useQuery({
     queryKey: ['search', 'suggestions', query],
     queryFn: () => searchApi.suggestions(query).then((res) => res.data),
@@ -101,12 +140,68 @@ export function Search() {
         ))}
       </div>
 
-      {/* Results */}
-      {!debouncedQuery ? (
-        // Browse mode - show all tracks
-        <div>
-          <h2 className="text-2xl font-bold mb-6">Browse All Tracks</h2>
-          {allTracksLoading ? (
+      <div className="lg:flex gap-8">
+        <div className="lg:w-56 flex-shrink-0 mb-6 lg:mb-0">
+          <SearchFilterPanel
+            type={type}
+            filters={filters}
+            sort={sort}
+            facets={results?.facets}
+            onFiltersChange={setFilters}
+            onSortChange={setSort}
+          />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          {/* Results */}
+          {!searching ? (
+            // Browse mode - show all tracks
+            <div>
+              {trending?.length > 0 && (
+                <div className="mb-8">
+                  <h2 className="text-xl font-bold mb-4">Trending Searches</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {trending.map((search: any) => (
+                      <button
+                        key={search.query}
+                        onClick={() => setQuery(search.query)}
+                        className="px-4 py-2 rounded-full bg-surface-800 text-sm text-surface-300 hover:text-white hover:bg-surface-700 transition-colors"
+                      >
+                        {search.query}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <h2 className="text-2xl font-bold mb-6">Browse All Tracks</h2>
+              {allTracksLoading ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                  {[...Array(10)].map((_, i) => (
+                    <div key={i} className="bg-surface-800 rounded-xl p-4">
+                      <div className="aspect-square skeleton rounded-lg mb-3" />
+                      <div className="h-4 skeleton rounded mb-2" />
+                      <div className="h-3 skeleton rounded w-2/3" />
+                    </div>
+                  ))}
+                </div>
+              ) : allTracks?.length > 0 ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                  {allTracks.map((track: any) => (
+                    <TrackCard key={track.id} track={track} />
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-20">
+                  <SearchIcon className="w-16 h-16 text-surface-600 mx-auto mb-4" />
+                  <h2 className="text-xl font-bold mb-2">No tracks yet</h2>
+                  <p className="text-surface-400">
+                    Be the first to upload music!
+                  </p>
+                </div>
+              )}
+            </div>
+          ) : isLoading ? (
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
               {[...Array(10)].map((_, i) => (
                 <div key={i} className="bg-surface-800 rounded-xl p-4">
@@ -116,163 +211,178 @@ export function Search() {
                 </div>
               ))}
             </div>
-          ) : allTracks?.length > 0 ? (
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-              {allTracks.map((track: any) => (
-                <TrackCard key={track.id} track={track} />
-              ))}
-            </div>
           ) : (
-            <div className="text-center py-20">
-              <SearchIcon className="w-16 h-16 text-surface-600 mx-auto mb-4" />
-              <h2 className="text-xl font-bold mb-2">No tracks yet</h2>
-              <p className="text-surface-400">
-                Be the first to upload music!
-              </p>
-            </div>
-          )}
-        </div>
-      ) : isLoading ? (
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-          {[...Array(10)].map((_, i) => (
-            <div key={i} className="bg-surface-800 rounded-xl p-4">
-              <div className="aspect-square skeleton rounded-lg mb-3" />
-              <div className="h-4 skeleton rounded mb-2" />
-              <div className="h-3 skeleton rounded w-2/3" />
-            </div>
-          ))}
-        </div>
-      ) : (
-        <div className="space-y-8">
-          {/* Tracks */}
-          {(type === 'all' || type === 'tracks') && results?.tracks?.length > 0 && (
-            <section>
-              <h3 className="text-xl font-bold mb-4">Tracks</h3>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                {results.tracks.map((track: any) => (
-                  <TrackCard key={track.id} track={track} />
-                ))}
-              </div>
-            </section>
-          )}
+            <div className="space-y-8">
+              {/* Tracks */}
+              {(type === 'all' || type === 'tracks') && results?.tracks?.length > 0 && (
+                <section>
+                  <h3 className="text-xl font-bold mb-4">Tracks</h3>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                    {results.tracks.map((track: any, index: number) => (
+                      <div key={track.id} onClickCapture={() => reportClick('tracks', track.id, index)}>
+                        <TrackCard track={track} />
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              )}
 
-          {/* Artists */}
-          {(type === 'all' || type === 'artists') && results?.artists?.length > 0 && (
-            <section>
-              <h3 className="text-xl font-bold mb-4">Artists</h3>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
-                {results.artists.map((artist: any) => (
-                  <Link
-                    key={artist.id}
-                    to={`/artist/${artist.username}`}
-                    className="group text-center"
-                  >
-                    <div className="aspect-square rounded-full overflow-hidden mb-3 mx-auto w-32 bg-surface-700">
-                      {artist.avatarUrl ? (
-                        <img
-                          src={getUploadUrl(artist.avatarUrl)}
-                          alt={artist.displayName || artist.username}
-                          className="w-full h-full object-cover group-hover:scale-105 transition-transform"
-                        />
-                      ) : (
-                        <div className="w-full h-full bg-gradient-to-br from-primary-500 to-accent-500 flex items-center justify-center">
-                          <span className="text-4xl font-bold text-white">
-                            {(artist.displayName || artist.username)[0].toUpperCase()}
-                          </span>
+              {/* Artists */}
+              {(type === 'all' || type === 'artists') && results?.artists?.length > 0 && (
+                <section>
+                  <h3 className="text-xl font-bold mb-4">Artists</h3>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                    {results.artists.map((artist: any, index: number) => (
+                      <Link
+                        key={artist.id}
+                        to={`/artist/${artist.username}`}
+                        onClick={() => reportClick('artists', artist.id, index)}
+                        className="group text-center"
+                      >
+                        <div className="aspect-square rounded-full overflow-hidden mb-3 mx-auto w-32 bg-surface-700">
+                          {artist.avatarUrl ? (
+                            <img
+                              src={getUploadUrl(artist.avatarUrl)}
+                              alt={artist.displayName || artist.username}
+                              className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                            />
+                          ) : (
+                            <div className="w-full h-full bg-gradient-to-br from-primary-500 to-accent-500 flex items-center justify-center">
+                              <span className="text-4xl font-bold text-white">
+                                {(artist.displayName || artist.username)[0].toUpperCase()}
+                              </span>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                    <p className="font-semibold truncate group-hover:text-primary-400 transition-colors">
-                      {artist.displayName || artist.username}
-                    </p>
-                    <p className="text-sm text-surface-400">
-                      {artist._count?.tracks || 0} tracks
-                    </p>
-                  </Link>
-                ))}
-              </div>
-            </section>
-          )}
+                        <p className="font-semibold truncate group-hover:text-primary-400 transition-colors">
+                          <Highlight
+                            text={artist.highlights?.name}
+                            fallback={artist.displayName || artist.username}
+                          />
+                        </p>
+                        <p className="text-sm text-surface-400">
+                          {artist._count?.tracks || 0} tracks
+                        </p>
+                        {artist.highlights?.bio && (
+                          <p className="text-xs text-surface-500 mt-1 line-clamp-2">
+                            <Highlight text={artist.highlights.bio} fallback="" />
+                          </p>
+                        )}
+                      </Link>
+                    ))}
+                  </div>
+                </section>
+              )}
 
-          {/* Albums */}
-          {(type === 'all' || type === 'albums') && results?.albums?.length > 0 && (
-            <section>
-              <h3 className="text-xl font-bold mb-4">Albums</h3>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                {results.albums.map((album: any) => (
-                  <Link
-                    key={album.id}
-                    to={`/album/${album.id}`}
-                    className="group bg-surface-800/50 hover:bg-surface-800 rounded-xl p-4 transition-all"
-                  >
-                    <div className="aspect-square rounded-lg overflow-hidden mb-3 bg-surface-700">
-                      {album.coverUrl ? (
-                        <img
-                          src={getUploadUrl(album.coverUrl)}
-                          alt={album.title}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full bg-gradient-to-br from-primary-500 to-accent-500" />
-                      )}
-                    </div>
-                    <p className="font-semibold truncate">{album.title}</p>
-                    <p className="text-sm text-surface-400 truncate">
-                      {album.artist?.displayName || album.artist?.username}
-                    </p>
-                  </Link>
-                ))}
-              </div>
-            </section>
-          )}
+              {/* Albums */}
+              {(type === 'all' || type === 'albums') && results?.albums?.length > 0 && (
+                <section>
+                  <h3 className="text-xl font-bold mb-4">Albums</h3>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                    {results.albums.map((album: any, index: number) => (
+                      <Link
+                        key={album.id}
+                        to={`/album/${album.id}`}
+                        onClick={() => reportClick('albums', album.id, index)}
+                        className="group bg-surface-800/50 hover:bg-surface-800 rounded-xl p-4 transition-all"
+                      >
+                        <div className="aspect-square rounded-lg overflow-hidden mb-3 bg-surface-700">
+                          {album.coverUrl ? (
+                            <img
+                              src={getUploadUrl(album.coverUrl)}
+                              alt={album.title}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <div className="w-full h-full bg-gradient-to-br from-primary-500 to-accent-500" />
+                          )}
+                        </div>
+                        <p className="font-semibold truncate">
+                          <Highlight text={album.highlights?.title} fallback={album.title} />
+                        </p>
+                        <p className="text-sm text-surface-400 truncate">
+                          {album.artist?.displayName || album.artist?.username}
+                        </p>
+                        {album.highlights?.description && (
+                          <p className="text-xs text-surface-500 mt-1 line-clamp-2">
+                            <Highlight text={album.highlights.description} fallback="" />
+                          </p>
+                        )}
+                      </Link>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {/* Playlists */}
+              {(type === 'all' || type === 'playlists') && results?.playlists?.length > 0 && (
+                <section>
+                  <h3 className="text-xl font-bold mb-4">Playlists</h3>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+                    {results.playlists.map((playlist: any, index: number) => (
+                      <Link
+                        key={playlist.id}
+                        to={`/playlist/${playlist.id}`}
+                        onClick={() => reportClick('playlists', playlist.id, index)}
+                        className="group bg-surface-800/50 hover:bg-surface-800 rounded-xl p-4 transition-all"
+                      >
+                        <div className="aspect-square rounded-lg overflow-hidden mb-3 bg-surface-700">
+                          {playlist.coverUrl ? (
+                            <img
+                              src={getUploadUrl(playlist.coverUrl)}
+                              alt={playlist.title}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <div className="w-full h-full bg-gradient-to-br from-accent-500 to-primary-500" />
+                          )}
+                        </div>
+                        <p className="font-semibold truncate">
+                          <Highlight text={playlist.highlights?.title} fallback={playlist.title} />
+                        </p>
+                        <p className="text-sm text-surface-400">
+                          {playlist._count?.tracks || 0} tracks
+                        </p>
+                        {playlist.highlights?.description && (
+                          <p className="text-xs text-surface-500 mt-1 line-clamp-2">
+                            <Highlight text={playlist.highlights.description} fallback="" />
+                          </p>
+                        )}
+                      </Link>
+                    ))}
+                  </div>
+                </section>
+              )}
 
-          {/* Playlists */}
-          {(type === 'all' || type === 'playlists') && results?.playlists?.length > 0 && (
-            <section>
-              <h3 className="text-xl font-bold mb-4">Playlists</h3>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                {results.playlists.map((playlist: any) => (
-                  <Link
-                    key={playlist.id}
-                    to={`/playlist/${playlist.id}`}
-                    className="group bg-surface-800/50 hover:bg-surface-800 rounded-xl p-4 transition-all"
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <button
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="px-6 py-2 rounded-full bg-surface-800 hover:bg-surface-700 text-sm font-medium transition-colors disabled:opacity-50"
                   >
-                    <div className="aspect-square rounded-lg overflow-hidden mb-3 bg-surface-700">
-                      {playlist.coverUrl ? (
-                        <img
-                          src={getUploadUrl(playlist.coverUrl)}
-                          alt={playlist.title}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full bg-gradient-to-br from-accent-500 to-primary-500" />
-                      )}
-                    </div>
-                    <p className="font-semibold truncate">{playlist.title}</p>
-                    <p className="text-sm text-surface-400">
-                      {playlist._count?.tracks || 0} tracks
+                    {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                  </button>
+                </div>
+              )}
+
+              {/* No results */}
+              {results &&
+                !results.tracks?.length &&
+                !results.artists?.length &&
+                !results.albums?.length &&
+                !results.playlists?.length && (
+                  <div className="text-center py-20">
+                    <h2 className="text-xl font-bold mb-2">No results found</h2>
+                    <p className="text-surface-400">
+                      Try a different search term or filter
                     </p>
-                  </Link>
-                ))}
-              </div>
-            </section>
+                  </div>
+                )}
+            </div>
           )}
-
-          {/* No results */}
-          {results &&
-            !results.tracks?.length &&
-            !results.artists?.length &&
-            !results.albums?.length &&
-            !results.playlists?.length && (
-              <div className="text-center py-20">
-                <h2 className="text-xl font-bold mb-2">No results found</h2>
-                <p className="text-surface-400">
-                  Try a different search term or filter
-                </p>
-              </div>
-            )}
         </div>
-      )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { SearchX, BarChart3 } from 'lucide-react';
+import { searchApi } from '../lib/api';
+import { useAuthStore } from '../store/auth';
+import clsx from 'clsx';
+
+const RANGES = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+// What listeners search for and don't find: ideas for what to release next
+export function SearchInsights() {
+  const navigate = useNavigate();
+  const { isAuthenticated, user } = useAuthStore();
+  const [days, setDays] = useState(7);
+
+  const { data: insights, isLoading } = useQuery({
+    queryKey: ['search', 'insights', days],
+    queryFn: () => searchApi.insights(days).then((res) => res.data),
+    enabled: isAuthenticated && !!user?.isArtist,
+  });
+
+  if (!isAuthenticated || !user?.isArtist) {
+    return (
+      <div className="p-6 max-w-2xl mx-auto text-center py-20">
+        <BarChart3 className="w-16 h-16 text-surface-600 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold mb-2">Search insights are for artists</h2>
+        <p className="text-surface-400 mb-6">
+          Upgrade to an artist account in settings to see what listeners are looking for
+        </p>
+        <button
+          onClick={() => navigate(isAuthenticated ? '/settings' : '/login')}
+          className="px-6 py-3 bg-primary-500 rounded-full font-semibold hover:bg-primary-600 transition-colors"
+        >
+          {isAuthenticated ? 'Go to Settings' : 'Sign In'}
+        </button>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: 'Searches', value: insights?.searches?.toLocaleString() },
+    { label: 'Searchers', value: insights?.searchers?.toLocaleString() },
+    { label: 'Found nothing', value: insights && percent(insights.zeroResultRate) },
+    { label: 'Click-through', value: insights && percent(insights.clickThroughRate) },
+  ];
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold">Search Insights</h1>
+        <div className="flex gap-2">
+          {RANGES.map((range) => (
+            <button
+              key={range.days}
+              onClick={() => setDays(range.days)}
+              className={clsx(
+                'px-4 py-2 rounded-full text-sm font-medium transition-colors',
+                days === range.days
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-surface-800 text-surface-300 hover:text-white'
+              )}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-12">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-surface-800/50 rounded-xl p-4">
+            <p className="text-sm text-surface-400 mb-1">{stat.label}</p>
+            {isLoading ? (
+              <div className="h-7 skeleton rounded w-2/3" />
+            ) : (
+              <p className="text-2xl font-bold">{stat.value ?? '—'}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <section>
+        <div className="flex items-center gap-3 mb-2">
+          <SearchX className="w-6 h-6 text-surface-400" />
+          <h2 className="text-xl font-bold">Searches With No Results</h2>
+        </div>
+        <p className="text-surface-400 text-sm mb-4">
+          What listeners looked for and couldn't find
+        </p>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-12 skeleton rounded-lg" />
+            ))}
+          </div>
+        ) : !insights?.zeroResults?.length ? (
+          <div className="text-center py-8 bg-surface-800/30 rounded-xl">
+            <p className="text-surface-400">Every search found something</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-surface-800">
+            {insights.zeroResults.map((row: any) => (
+              <div key={row.query} className="flex items-center gap-4 py-3">
+                <p className="flex-1 font-medium truncate">{row.query}</p>
+                <p className="text-sm text-surface-400 w-28 text-right">
+                  {row.searchers} {row.searchers === 1 ? 'listener' : 'listeners'}
+                </p>
+                <p className="text-sm text-surface-500 w-28 text-right">
+                  {new Date(row.lastSearchedAt).toLocaleDateString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
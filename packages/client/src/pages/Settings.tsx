@@ -1,17 +1,25 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useMutation } from '@tanstack/react-query';
-import { User, Mail, Mic, LogOut, Trash2, Loader2, Check } from 'lucide-react';
+import { User, Mail, Mic, LogOut, Trash2, Loader2, Check, Volume2, Blend } from 'lucide-react';
 import { useAuthStore } from '../store/auth';
+import { usePlayerStore, Normalization, MAX_CROSSFADE_SECONDS } from '../store/player';
 import { usersApi, authApi, getUploadUrl } from '../lib/api';
 import clsx from 'clsx';
 
+const NORMALIZATION_OPTIONS: { value: Normalization; label: string; desc: string }[] = [
+  { value: 'off', label: 'Off', desc: 'Play tracks as mastered' },
+  { value: 'track', label: 'Track', desc: 'Every track at the same loudness - best for shuffle' },
+  { value: 'album', label: 'Album', desc: 'Albums keep their quiet and loud moments' },
+];
+
 export function Settings() {
   const navigate = useNavigate();
   const { user, isAuthenticated, logout, setUser } = useAuthStore();
   const [displayName, setDisplayName] = useState(user?.displayName || '');
   const [bio, setBio] = useState('');
   const [saved, setSaved] = useState(false);
+  const { normalization, setNormalization, crossfade, setCrossfade } = usePlayerStore();
 
   const updateMutation = useMutation({
     mutationFn: (data: { displayName?: string; bio?: string }) =>
@@ -125,6 +133,63 @@ export function Settings() {
         </div>
       </section>
 
+      {/* Playback */}
+      <section className="mb-8">
+        <h2 className="text-xl font-bold mb-4">Playback</h2>
+        <div className="bg-surface-800/50 rounded-xl p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <Volume2 className="w-5 h-5 text-surface-400" />
+            <div>
+              <p className="font-medium">Volume Normalization</p>
+              <p className="text-sm text-surface-400">Evens out loudness between tracks</p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {NORMALIZATION_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                onClick={() => setNormalization(opt.value)}
+                className={clsx(
+                  'w-full flex items-center justify-between p-4 rounded-lg transition-colors',
+                  normalization === opt.value
+                    ? 'bg-primary-500/20 text-primary-400'
+                    : 'bg-surface-700 hover:bg-surface-600'
+                )}
+              >
+                <div className="text-left">
+                  <p className="font-medium">{opt.label}</p>
+                  <p className="text-sm text-surface-400">{opt.desc}</p>
+                </div>
+                {normalization === opt.value && (
+                  <div className="w-2 h-2 rounded-full bg-primary-400" />
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-3 mt-6 pt-6 border-t border-surface-700">
+            <div className="flex items-center gap-3">
+              <Blend className="w-5 h-5 text-surface-400" />
+              <div>
+                <p className="font-medium">Crossfade</p>
+                <p className="text-sm text-surface-400">
+                  {crossfade === 0 ? 'Off - tracks play back to back without gaps' : `${crossfade}s overlap between tracks`}
+                </p>
+              </div>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max={MAX_CROSSFADE_SECONDS}
+              step="1"
+              value={crossfade}
+              onChange={(e) => setCrossfade(parseInt(e.target.value, 10))}
+              className="w-40"
+            />
+          </div>
+        </div>
+      </section>
+
       {/* Account Info */}
       <section className="mb-8">
         <h2 className="text-xl font-bold mb-4">Account</h2>
@@ -1,17 +1,23 @@
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Play, Pause, Heart, Share2, MoreHorizontal, Clock } from 'lucide-react';
+import { Play, Pause, Heart, Share2, MoreHorizontal, Clock, Radio, CalendarClock } from 'lucide-react';
 import { tracksApi, getUploadUrl } from '../lib/api';
 import { usePlayerStore } from '../store/player';
 import { useAuthStore } from '../store/auth';
 import { Link } from 'react-router-dom';
 import clsx from 'clsx';
+import { TrackListItem } from '../components/TrackCard';
+import { useTrackLyrics } from '../components/LyricsPanel';
+import { LyricsEditor } from '../components/LyricsEditor';
+import { UpcomingRelease, formatReleaseDate } from '../components/UpcomingRelease';
 
 export function Track() {
   const { trackId } = useParams<{ trackId: string }>();
   const queryClient = useQueryClient();
-  const { isAuthenticated } = useAuthStore();
-  const { currentTrack, isPlaying, play, togglePlay } = usePlayerStore();
+  const { isAuthenticated, user } = useAuthStore();
+  const [editingLyrics, setEditingLyrics] = useState(false);
+  const { currentTrack, isPlaying, play, togglePlay, startRadio } = usePlayerStore();
 
   const { data: track, isLoading } = useQuery({
     queryKey: ['track', trackId],
@@ -19,6 +25,18 @@ export function Track() {
     enabled: !!trackId,
   });
 
+  // Listeners only get a pre-save teaser of an unreleased track
+  const isTeaser = !!track?.isScheduled && user?.id !== track.artist?.id;
+
+  const { data: similarData } = useQuery({
+    queryKey: ['track', trackId, 'similar'],
+    queryFn: () => tracksApi.getSimilar(trackId!, 10).then((res) => res.data),
+    enabled: !!trackId && !!track && !isTeaser,
+  });
+  const similar = similarData?.tracks || [];
+
+  const { data: lyrics } = useTrackLyrics(track && !isTeaser ? trackId : undefined);
+
   const likeMutation = useMutation({
     mutationFn: () => tracksApi.like(trackId!),
     onSuccess: () => {
@@ -50,7 +68,23 @@ export function Track() {
     );
   }
 
+  if (isTeaser) {
+    return (
+      <UpcomingRelease
+        kind="Song"
+        title={track.title}
+        coverUrl={track.coverUrl || track.album?.coverUrl}
+        releaseDate={track.releaseDate}
+        artist={track.artist}
+        isPreSaved={track.isPreSaved}
+        queryKey={['track', trackId]}
+        preSave={() => tracksApi.preSave(trackId!)}
+      />
+    );
+  }
+
   const isCurrentTrack = currentTrack?.id === track.id;
+  const isOwner = user?.id === track.artist?.id;
 
   const handlePlay = () => {
     if (isCurrentTrack) {
@@ -132,10 +166,20 @@ export function Track() {
                   {track.playCount?.toLocaleString() || 0} plays
                 </span>
               </div>
+              {track.isScheduled && (
+                <p className="flex items-center justify-center md:justify-start gap-2 mt-3 text-sm text-accent-400">
+                  <CalendarClock className="w-4 h-4" />
+                  Scheduled for {formatReleaseDate(track.releaseDate)} • {track._count?.preSaves ?? 0} pre-saves
+                </p>
+              )}
               {track.genre && (
-                <span className="inline-block mt-3 px-3 py-1 bg-surface-700 rounded-full text-sm text-surface-300">
+                <button
+                  onClick={() => startRadio('genre', track.genre).catch(console.error)}
+                  title={`Start ${track.genre} radio`}
+                  className="inline-block mt-3 px-3 py-1 bg-surface-700 rounded-full text-sm text-surface-300 hover:bg-surface-600 hover:text-white transition-colors"
+                >
                   {track.genre}
-                </span>
+                </button>
               )}
             </div>
           </div>
@@ -171,6 +215,14 @@ export function Track() {
               </button>
             )}
 
+            <button
+              onClick={() => startRadio('track', track.id, track).catch(console.error)}
+              title="Start radio"
+              className="p-4 rounded-full border border-surface-600 hover:border-white transition-colors"
+            >
+              <Radio className="w-6 h-6" />
+            </button>
+
             <button className="p-4 rounded-full border border-surface-600 hover:border-white transition-colors">
               <Share2 className="w-6 h-6" />
             </button>
@@ -198,6 +250,18 @@ export function Track() {
                   <dd>{track.genre}</dd>
                 </div>
               )}
+              {track.releaseDate && (
+                <div className="flex justify-between">
+                  <dt className="text-surface-400">Released</dt>
+                  <dd>{new Date(track.releaseDate).getFullYear()}</dd>
+                </div>
+              )}
+              {track.isrc && (
+                <div className="flex justify-between">
+                  <dt className="text-surface-400">ISRC</dt>
+                  <dd className="font-mono">{track.isrc}</dd>
+                </div>
+              )}
               {track.bitrate && (
                 <div className="flex justify-between">
                   <dt className="text-surface-400">Bitrate</dt>
@@ -250,6 +314,60 @@ export function Track() {
             </div>
           </Link>
         </div>
+
+        {/* Lyrics */}
+        {(lyrics || isOwner) && (
+          <section className="mt-8 bg-surface-800/50 rounded-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-bold">Lyrics</h3>
+              {isOwner && !editingLyrics && (
+                <button
+                  onClick={() => setEditingLyrics(true)}
+                  className="text-sm text-surface-400 hover:text-white"
+                >
+                  {lyrics ? 'Edit lyrics' : 'Add lyrics'}
+                </button>
+              )}
+            </div>
+            {editingLyrics ? (
+              <LyricsEditor
+                trackId={track.id}
+                lyrics={lyrics ?? null}
+                onClose={() => setEditingLyrics(false)}
+              />
+            ) : lyrics ? (
+              <>
+                <p className="whitespace-pre-line text-surface-200 leading-relaxed">{lyrics.plain}</p>
+                {lyrics.synced && (
+                  <p className="text-xs text-surface-500 mt-4">
+                    Synced lyrics play along in the full-screen player
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-surface-400 text-sm">
+                Add lyrics so listeners can sing along. Synced LRC lyrics follow the music.
+              </p>
+            )}
+          </section>
+        )}
+
+        {/* Similar Tracks */}
+        {similar.length > 0 && (
+          <section className="mt-8">
+            <h3 className="text-xl font-bold mb-4">Fans Also Play</h3>
+            <div className="bg-surface-800/30 rounded-xl overflow-hidden">
+              {similar.map((similarTrack: any, index: number) => (
+                <TrackListItem
+                  key={similarTrack.id}
+                  track={similarTrack}
+                  index={index + 1}
+                  queue={similar}
+                />
+              ))}
+            </div>
+          </section>
+        )}
       </div>
     </div>
   );
@@ -4,6 +4,8 @@ import { useDropzone } from 'react-dropzone';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { Upload as UploadIcon, Music, X, Image, Loader2, CheckCircle } from 'lucide-react';
 import { uploadApi, genresApi } from '../lib/api';
+import { uploadResumable, TrackDetails } from '../lib/resumableUpload';
+import { AlbumUploadForm } from '../components/AlbumUploadForm';
 import { useAuthStore } from '../store/auth';
 import clsx from 'clsx';
 
@@ -65,19 +67,35 @@ const getAudioDuration = (file: File): Promise<number> => {
   });
 };
 
+// Poll a background transcode job until it finishes or fails
+const waitForJob = async (jobId: string): Promise<{ status: string; error?: string | null }> => {
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+    const { data } = await uploadApi.getJob(jobId);
+    if (data.status === 'done' || data.status === 'failed') {
+      return data;
+    }
+  }
+};
+
 export function Upload() {
   const navigate = useNavigate();
   const { isAuthenticated, user } = useAuthStore();
+  const [mode, setMode] = useState<'tracks' | 'album'>('tracks');
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [currentFileIndex, setCurrentFileIndex] = useState(0);
   
   // Form state for current file
   const [title, setTitle] = useState('');
+  // Filename guess, used by the server when the file has no title tag
+  const [fileTitle, setFileTitle] = useState('');
   const [genre, setGenre] = useState('');
   const [customGenre, setCustomGenre] = useState('');
   const [showCustomGenreInput, setShowCustomGenreInput] = useState(false);
   const [isPublic, setIsPublic] = useState(true);
   const [isExplicit, setIsExplicit] = useState(false);
+  // Local date-time; a future one schedules the release
+  const [releaseDate, setReleaseDate] = useState('');
   const [coverFile, setCoverFile] = useState<File | null>(null);
   const [coverPreview, setCoverPreview] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState('');
@@ -97,30 +115,59 @@ export function Upload() {
   });
 
   const uploadMutation = useMutation({
-    mutationFn: async (data: {
-      audio: string;
-      audioMimeType: string;
-      audioFileName: string;
-      title: string;
-      genre?: string;
-      isPublic?: boolean;
-      isExplicit?: boolean;
-      coverUrl?: string;
-      duration?: number;
-    }) => {
-      const { data: result } = await uploadApi.track(data);
-      return result;
+    mutationFn: async ({ file, details }: { file: File; details: TrackDetails }) => {
+      // Chunked upload survives dropped connections on large files
+      const result = await uploadResumable(file, details, (sent, total) => {
+        setUploadProgress(`Uploading track... ${Math.round((sent / total) * 100)}%`);
+      });
+      if (result) return result;
+      
+      // Backend without upload sessions (serverless) - send the whole file as base64
+      setUploadProgress('Reading audio file...');
+      const audio = await fileToBase64(file);
+      setUploadProgress('Uploading track...');
+      const { data } = await uploadApi.track({
+        audio,
+        audioMimeType: file.type || 'audio/mpeg',
+        audioFileName: file.name,
+        ...details,
+      });
+      return data;
     },
     onSuccess: (data) => {
+      const fileIndex = currentFileIndex;
+      
+      // Self-hosted server transcodes in the background and returns a job id
       setFiles((prev) =>
         prev.map((f, i) =>
-          i === currentFileIndex
-            ? { ...f, status: 'done', result: data }
+          i === fileIndex
+            ? { ...f, status: data.jobId ? 'processing' : 'done', result: data }
             : f
         )
       );
       setUploadProgress('');
       
+      if (data.jobId) {
+        waitForJob(data.jobId)
+          .then((job) => {
+            setFiles((prev) =>
+              prev.map((f, i) =>
+                i === fileIndex
+                  ? job.status === 'done'
+                    ? { ...f, status: 'done' }
+                    : { ...f, status: 'error', error: job.error || 'Audio processing failed' }
+                  : f
+              )
+            );
+          })
+          .catch(() => {
+            // Status unknown - the upload itself succeeded, so don't block the user
+            setFiles((prev) =>
+              prev.map((f, i) => (i === fileIndex ? { ...f, status: 'done' } : f))
+            );
+          });
+      }
+      
       // Move to next file or complete
       if (currentFileIndex < files.length - 1) {
         const nextIndex = currentFileIndex + 1;
@@ -186,14 +233,16 @@ export function Upload() {
   }, [files.length]);
 
   const prepareFormForFile = (file: File) => {
-    // Extract title from filename
+    // Blank fields are filled from the file's tags on the server
     const nameWithoutExt = file.name.replace(/\.[^/.]+$/, '');
-    setTitle(nameWithoutExt.replace(/[-_]/g, ' ').replace(/\s+/g, ' ').trim());
+    setTitle('');
+    setFileTitle(nameWithoutExt.replace(/[-_]/g, ' ').replace(/\s+/g, ' ').trim());
     setGenre('');
     setCustomGenre('');
     setShowCustomGenreInput(false);
     setIsPublic(true);
     setIsExplicit(false);
+    setReleaseDate('');
   };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -222,8 +271,16 @@ export function Upload() {
     }
   };
 
+  const uploadCover = async (file: File) => {
+    const { data } = await uploadApi.cover({
+      image: await fileToBase64(file),
+      mimeType: file.type,
+    });
+    return data.coverUrl as string;
+  };
+
   const handleUpload = async () => {
-    if (files.length === 0 || !title) return;
+    if (files.length === 0) return;
     
     const currentFile = files[currentFileIndex];
     
@@ -234,11 +291,6 @@ export function Upload() {
     );
     
     try {
-      setUploadProgress('Reading audio file...');
-      
-      // Convert audio to base64
-      const audioBase64 = await fileToBase64(currentFile.file);
-      
       setUploadProgress('Getting duration...');
       // Get audio duration
       const duration = await getAudioDuration(currentFile.file);
@@ -247,16 +299,9 @@ export function Upload() {
       let coverUrl: string | undefined;
       if (coverFile) {
         setUploadProgress('Uploading cover art...');
-        const coverBase64 = await fileToBase64(coverFile);
-        const { data: coverData } = await uploadApi.cover({
-          image: coverBase64,
-          mimeType: coverFile.type,
-        });
-        coverUrl = coverData.coverUrl;
+        coverUrl = await uploadCover(coverFile);
       }
       
-      setUploadProgress('Uploading track...');
-      
       // Determine the actual genre to use
       const finalGenre = showCustomGenreInput && customGenre.trim() 
         ? customGenre.trim() 
@@ -273,15 +318,16 @@ export function Upload() {
       
       // Upload track
       uploadMutation.mutate({
-        audio: audioBase64,
-        audioMimeType: currentFile.file.type || 'audio/mpeg',
-        audioFileName: currentFile.file.name,
-        title,
-        genre: finalGenre || undefined,
-        isPublic,
-        isExplicit,
-        coverUrl,
-        duration,
+        file: currentFile.file,
+        details: {
+          title: title.trim() || undefined,
+          genre: finalGenre || undefined,
+          isPublic,
+          isExplicit,
+          coverUrl,
+          duration,
+          releaseDate: releaseDate ? new Date(releaseDate).toISOString() : undefined,
+        },
       });
     } catch (error) {
       console.error('Upload error:', error);
@@ -361,37 +407,61 @@ export function Upload() {
     );
   }
 
-  const allDone = files.length > 0 && files.every((f) => f.status === 'done');
+  // Files still transcoding on the server count as uploaded
+  const allDone = files.length > 0 && files.every((f) => f.status === 'done' || f.status === 'processing');
+  const isProcessing = files.some((f) => f.status === 'processing');
 
   return (
     <div className="p-6 max-w-4xl mx-auto">
       <h1 className="text-3xl font-bold mb-2">Upload Music</h1>
-      <p className="text-surface-400 mb-8">
+      <p className="text-surface-400 mb-6">
         Upload your music in any format • Supported: MP3, WAV, FLAC, AAC, M4A, OGG, AIFF, WMA
       </p>
 
-      {/* Dropzone */}
-      <div
-        {...getRootProps()}
-        className={clsx(
-          'border-2 border-dashed rounded-2xl p-12 text-center cursor-pointer transition-colors',
-          isDragActive
-            ? 'border-primary-500 bg-primary-500/10'
-            : 'border-surface-600 hover:border-surface-500'
-        )}
-      >
-        <input {...getInputProps()} />
-        <UploadIcon className="w-12 h-12 text-surface-400 mx-auto mb-4" />
-        <p className="text-lg font-medium mb-2">
-          {isDragActive ? 'Drop your files here' : 'Drag & drop audio files'}
-        </p>
-        <p className="text-surface-400 text-sm">
-          or click to browse • All major audio formats supported
-        </p>
+      <div className="flex gap-2 mb-8">
+        {(['tracks', 'album'] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            disabled={files.some((f) => f.status === 'uploading')}
+            className={clsx(
+              'px-4 py-2 rounded-full text-sm font-medium transition-colors disabled:opacity-50',
+              mode === value ? 'bg-primary-500 text-white' : 'bg-surface-800 text-surface-300 hover:text-white'
+            )}
+          >
+            {value === 'tracks' ? 'Tracks' : 'Album'}
+          </button>
+        ))}
       </div>
 
+      {mode === 'album' && (
+        <AlbumUploadForm accept={SUPPORTED_AUDIO_EXTENSIONS} genres={allGenres} uploadCover={uploadCover} />
+      )}
+
+      {/* Dropzone */}
+      {mode === 'tracks' && (
+        <div
+          {...getRootProps()}
+          className={clsx(
+            'border-2 border-dashed rounded-2xl p-12 text-center cursor-pointer transition-colors',
+            isDragActive
+              ? 'border-primary-500 bg-primary-500/10'
+              : 'border-surface-600 hover:border-surface-500'
+          )}
+        >
+          <input {...getInputProps()} />
+          <UploadIcon className="w-12 h-12 text-surface-400 mx-auto mb-4" />
+          <p className="text-lg font-medium mb-2">
+            {isDragActive ? 'Drop your files here' : 'Drag & drop audio files'}
+          </p>
+          <p className="text-surface-400 text-sm">
+            or click to browse • All major audio formats supported
+          </p>
+        </div>
+      )}
+
       {/* File List */}
-      {files.length > 0 && (
+      {mode === 'tracks' && files.length > 0 && (
         <div className="mt-8 space-y-4">
           <h2 className="font-bold text-lg">Files ({files.length})</h2>
           
@@ -444,7 +514,7 @@ export function Upload() {
       )}
 
       {/* Upload Form */}
-      {files.length > 0 && !allDone && (
+      {mode === 'tracks' && files.length > 0 && !allDone && (
         <div className="mt-8 bg-surface-800/50 rounded-2xl p-6">
           <h2 className="font-bold text-lg mb-6">
             Track Details ({currentFileIndex + 1} of {files.length})
@@ -484,14 +554,17 @@ export function Upload() {
             {/* Form Fields */}
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium mb-2">Title *</label>
+                <label className="block text-sm font-medium mb-2">Title</label>
                 <input
                   type="text"
                   value={title}
                   onChange={(e) => setTitle(e.target.value)}
                   className="w-full px-4 py-3 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                  placeholder="Track title"
+                  placeholder={fileTitle ? `From file tags, or "${fileTitle}"` : 'Track title'}
                 />
+                <p className="text-xs text-surface-400 mt-2">
+                  Leave fields blank to use the file's tags: title, album, genre, track number and artwork
+                </p>
               </div>
 
               <div>
@@ -502,7 +575,7 @@ export function Upload() {
                     onChange={(e) => handleGenreChange(e.target.value)}
                     className="w-full px-4 py-3 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
                   >
-                    <option value="">Select genre</option>
+                    <option value="">From file tags</option>
                     {allGenres.map((g) => (
                       <option key={g} value={g}>{g}</option>
                     ))}
@@ -534,6 +607,21 @@ export function Upload() {
                 </p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium mb-2">Release Date</label>
+                <input
+                  type="datetime-local"
+                  value={releaseDate}
+                  onChange={(e) => setReleaseDate(e.target.value)}
+                  className="w-full px-4 py-3 bg-surface-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <p className="text-xs text-surface-400 mt-1">
+                  {releaseDate && new Date(releaseDate) > new Date() && isPublic
+                    ? 'Hidden until then - listeners can pre-save it meanwhile'
+                    : 'Pick a future date to schedule the release'}
+                </p>
+              </div>
+
               <div className="flex items-center gap-6">
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
@@ -560,7 +648,7 @@ export function Upload() {
 
           <button
             onClick={handleUpload}
-            disabled={!title || uploadMutation.isPending || files[currentFileIndex]?.status === 'uploading'}
+            disabled={uploadMutation.isPending || files[currentFileIndex]?.status === 'uploading'}
             className="mt-6 w-full py-4 bg-gradient-to-r from-primary-500 to-accent-500 rounded-xl font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {uploadMutation.isPending || files[currentFileIndex]?.status === 'uploading' ? (
@@ -579,12 +667,14 @@ export function Upload() {
       )}
 
       {/* Success */}
-      {allDone && (
+      {mode === 'tracks' && allDone && (
         <div className="mt-8 text-center py-12 bg-surface-800/50 rounded-2xl">
           <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
           <h2 className="text-2xl font-bold mb-2">All tracks uploaded!</h2>
           <p className="text-surface-400 mb-6">
-            Your music is now live and ready to stream
+            {isProcessing
+              ? 'Your music is live - we are still optimizing it for streaming'
+              : 'Your music is now live and ready to stream'}
           </p>
           <div className="flex justify-center gap-4">
             <button
@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { Howl } from 'howler';
-import { streamApi } from '../lib/api';
+import { streamApi, recommendationsApi, PlayEndReason, RadioSeedType, SeekEvent, StreamGain } from '../lib/api';
 
 export interface Track {
   id: string;
@@ -23,6 +23,376 @@ export interface Track {
 
 type Quality = 'low' | 'medium' | 'high';
 type RepeatMode = 'off' | 'all' | 'one';
+export type Normalization = 'off' | 'track' | 'album';
+
+// Stream URLs are fetched asynchronously; only the latest play() may start audio
+let playRequest = 0;
+// Position to restore once the next track loads (e.g. after a quality change)
+let pendingSeek: number | null = null;
+
+/**
+ * Listen tracking: the server only counts a play once enough audio has
+ * actually been heard, and keeps position, seeks and how the play ended
+ * for stats, so report progress while playing and once more at the end
+ */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+interface ListenSession {
+  trackId: string;
+  playId: string | null;
+  howl: Howl | null;
+  unsent: number; // Seconds not yet reported
+  playingSince: number | null;
+  seeks: SeekEvent[];
+  ended: boolean;
+}
+
+let listen: ListenSession | null = null;
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+// Heartbeats go out one at a time so later ones carry the playId from the first
+let heartbeatQueue: Promise<void> = Promise.resolve();
+
+function sendHeartbeat({ force = false, ended }: { force?: boolean; ended?: PlayEndReason } = {}) {
+  const session = listen;
+  if (!session || session.ended) return;
+
+  if (session.playingSince !== null) {
+    const now = Date.now();
+    session.unsent += (now - session.playingSince) / 1000;
+    session.playingSince = ended ? null : now;
+  }
+
+  if (!force && !ended && session.unsent < 1 && session.seeks.length === 0) return;
+
+  const seek = session.howl?.seek();
+  const payload = {
+    listened: session.unsent,
+    position: typeof seek === 'number' ? seek : undefined,
+    events: session.seeks.length ? session.seeks : undefined,
+    ended,
+  };
+  session.unsent = 0;
+  session.seeks = [];
+  session.ended = !!ended;
+
+  heartbeatQueue = heartbeatQueue
+    .then(() => {
+      // Nothing to end if the play never registered
+      if (ended && !session.playId && payload.listened < 1) return;
+      return streamApi.heartbeat(session.trackId, { playId: session.playId ?? undefined, ...payload })
+        .then(({ data }) => {
+          if (data.playId) session.playId = data.playId;
+        });
+    })
+    .catch(() => {});
+}
+
+function stopHeartbeats() {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+}
+
+function listenStarted() {
+  if (!listen || listen.ended || listen.playingSince !== null) return;
+
+  listen.playingSince = Date.now();
+  if (!listen.playId) {
+    sendHeartbeat({ force: true }); // Registers the play
+  }
+
+  stopHeartbeats();
+  heartbeatTimer = setInterval(() => sendHeartbeat(), HEARTBEAT_INTERVAL_MS);
+}
+
+function listenPaused() {
+  stopHeartbeats();
+  sendHeartbeat();
+  if (listen) listen.playingSince = null;
+}
+
+function endListen(reason: PlayEndReason) {
+  stopHeartbeats();
+  sendHeartbeat({ ended: reason });
+}
+
+// Starting another track ends the current play as skipped, unless it already ended
+function beginListen(trackId: string, howl: Howl | null = null) {
+  endListen('skipped');
+  listen = { trackId, playId: null, howl, unsent: 0, playingSince: null, seeks: [], ended: false };
+}
+
+/**
+ * Loudness normalization: the server measures every track and sends the
+ * gain along with the stream URL. Streaming goes through an html5 <audio>
+ * element, whose volume can't go above 1, so loud tracks are turned down
+ * fully but quiet ones are only raised as far as the volume slider allows.
+ */
+let currentGain: StreamGain | null = null;
+
+function gainFactor(mode: Normalization): number {
+  if (mode === 'off' || !currentGain) return 1;
+  // Singles and partly processed albums have no album gain yet
+  const useAlbum = mode === 'album' && currentGain.album !== null;
+  const gain = useAlbum ? currentGain.album : currentGain.track;
+  const peak = useAlbum ? currentGain.albumPeak : currentGain.trackPeak;
+  if (gain === null) return 1;
+  // Never raise the true peak above full scale
+  return Math.pow(10, (peak !== null ? Math.min(gain, -peak) : gain) / 20);
+}
+
+function outputVolume({ volume, isMuted, normalization }: Pick<PlayerState, 'volume' | 'isMuted' | 'normalization'>) {
+  return isMuted ? 0 : Math.min(1, volume * gainFactor(normalization));
+}
+
+/**
+ * Gapless playback and crossfade: the next queue item is loaded into its
+ * own Howl while the current one is still playing, then started just
+ * before the current one ends (or `crossfade` seconds before, fading one
+ * out as the other fades in). The handover is checked on every animation
+ * frame; in background tabs, where frames stop, onend still switches to
+ * the preloaded Howl without waiting on the network.
+ */
+const PRELOAD_AHEAD_SECONDS = 30;
+// <audio> reports the end a little late, so gapless handovers start this early
+const GAPLESS_LEAD_SECONDS = 0.05;
+export const MAX_CROSSFADE_SECONDS = 12;
+
+interface PreparedTrack {
+  trackId: string;
+  quality: Quality;
+  howl: Howl;
+  gain: StreamGain | null;
+}
+
+let preloaded: PreparedTrack | null = null;
+let preloading: string | null = null; // Track id being fetched
+// The previous track while it fades out under the next one
+let fadingOut: Howl | null = null;
+
+async function loadTrack(trackId: string, quality: Quality, preload: boolean | 'metadata'): Promise<PreparedTrack> {
+  const { url, format, gain } = await streamApi.getStream(trackId, quality);
+  const howl = new Howl({
+    src: [url],
+    // Signed URLs have no file extension to go by
+    format: format ? [format] : ['mp3', 'aac', 'ogg', 'wav', 'flac', 'webm'],
+    html5: true, // Enable streaming - required for large files
+    preload,
+    volume: 0, // Set when it starts
+    xhr: {
+      withCredentials: false,
+    },
+  });
+  return { trackId, quality, howl, gain };
+}
+
+// Index of the track that plays when the current one ends on its own
+function upcomingIndex({ queue, queueIndex, repeatMode }: PlayerState): number | null {
+  if (repeatMode === 'one' || queue.length === 0) return null;
+  if (queueIndex + 1 < queue.length) return queueIndex + 1;
+  return repeatMode === 'all' ? 0 : null;
+}
+
+function discardPreloaded() {
+  preloaded?.howl.unload();
+  preloaded = null;
+  preloading = null;
+}
+
+// Hands over the preloaded track if it's the one asked for, otherwise throws it away
+function takePreloaded(trackId: string, quality: Quality): PreparedTrack | null {
+  const prepared = preloaded;
+  if (prepared?.trackId === trackId && prepared.quality === quality) {
+    preloaded = null;
+    preloading = null;
+    return prepared;
+  }
+  discardPreloaded();
+  return null;
+}
+
+function preloadNext() {
+  const state = usePlayerStore.getState();
+  const index = upcomingIndex(state);
+  if (index === null) return;
+
+  const next = state.queue[index];
+  if (next.id === preloading) return;
+  if (preloaded?.trackId === next.id && preloaded.quality === state.quality) return;
+
+  discardPreloaded(); // Queue or quality changed since
+  preloading = next.id;
+  loadTrack(next.id, state.quality, true)
+    .then((prepared) => {
+      if (preloading !== next.id) {
+        prepared.howl.unload(); // Superseded while loading
+        return;
+      }
+      preloaded = prepared;
+      preloading = null;
+    })
+    .catch(() => {
+      // play() loads it on demand instead
+      if (preloading === next.id) preloading = null;
+    });
+}
+
+function stopFadeOut() {
+  if (fadingOut) {
+    fadingOut.stop();
+    fadingOut.unload();
+    fadingOut = null;
+  }
+}
+
+function fadeOut(howl: Howl, seconds: number) {
+  stopFadeOut();
+  fadingOut = howl;
+  if (seconds > GAPLESS_LEAD_SECONDS) {
+    howl.fade(howl.volume() as number, 0, seconds * 1000);
+  }
+  howl.once('end', () => {
+    if (fadingOut === howl) fadingOut = null;
+    howl.unload();
+  });
+}
+
+// Crossfade never takes more than half of either track
+function crossfadeSeconds(howl: Howl, next: Track): number {
+  return Math.min(usePlayerStore.getState().crossfade, howl.duration() / 2, next.duration / 2);
+}
+
+// Called every frame while a track plays
+function checkHandover(howl: Howl, position: number) {
+  const state = usePlayerStore.getState();
+  const remaining = howl.duration() - position;
+  if (!(remaining > 0)) return; // Duration unknown until metadata loads
+
+  if (remaining <= PRELOAD_AHEAD_SECONDS + state.crossfade) {
+    preloadNext();
+  }
+
+  const index = upcomingIndex(state);
+  if (index === null || !preloaded) return;
+
+  const next = state.queue[index];
+  if (remaining > Math.max(crossfadeSeconds(howl, next), GAPLESS_LEAD_SECONDS)) return;
+
+  const prepared = takePreloaded(next.id, state.quality);
+  if (!prepared) return;
+
+  endListen('completed');
+  beginListen(next.id, prepared.howl);
+  fadeOut(howl, remaining);
+
+  usePlayerStore.setState({
+    currentTrack: next,
+    queueIndex: index,
+    currentTime: 0,
+    duration: next.duration,
+  });
+  if (state.radio && state.queue.length - index - 1 <= RADIO_REFILL_AT) {
+    state.refillRadio();
+  }
+
+  startHowl(next, prepared, remaining > GAPLESS_LEAD_SECONDS ? remaining : 0);
+}
+
+// Make a loaded Howl the current track and start it
+function startHowl(track: Track, { howl, gain }: PreparedTrack, fadeInSeconds = 0) {
+  const { getState: get, setState: set } = usePlayerStore;
+  // Events from a Howl that has since been replaced (e.g. fading out) are ignored
+  const isCurrent = () => get().howl === howl;
+
+  const loaded = () => {
+    set({
+      isLoading: false,
+      duration: howl.duration(),
+    });
+    if (pendingSeek !== null) {
+      howl.seek(pendingSeek);
+      set({ currentTime: pendingSeek });
+      pendingSeek = null;
+    }
+  };
+
+  howl.on('load', () => {
+    if (isCurrent()) loaded();
+  });
+  howl.on('play', () => {
+    if (!isCurrent()) return;
+    set({ isPlaying: true });
+    listenStarted();
+    // Start progress update
+    const updateProgress = () => {
+      if (get().isPlaying && isCurrent()) {
+        const position = howl.seek() as number;
+        set({ currentTime: position });
+        checkHandover(howl, position);
+        requestAnimationFrame(updateProgress);
+      }
+    };
+    requestAnimationFrame(updateProgress);
+  });
+  howl.on('pause', () => {
+    if (!isCurrent()) return;
+    set({ isPlaying: false });
+    listenPaused();
+  });
+  howl.on('stop', () => {
+    if (!isCurrent()) return;
+    set({ isPlaying: false, currentTime: 0 });
+    listenPaused();
+  });
+  howl.on('end', () => {
+    if (!isCurrent()) return;
+    endListen('completed');
+
+    if (get().repeatMode === 'one') {
+      beginListen(track.id, howl); // Each repeat is a play of its own
+      howl.seek(0);
+      howl.play();
+    } else {
+      get().playNext();
+    }
+  });
+  howl.on('loaderror', (_, error) => {
+    if (!isCurrent()) return;
+    console.error('Audio load error:', error);
+    set({ isLoading: false });
+    endListen('error');
+  });
+  howl.on('playerror', (_, error) => {
+    if (!isCurrent()) return;
+    console.error('Audio play error:', error);
+    set({ isPlaying: false });
+    endListen('error');
+  });
+
+  currentGain = gain;
+  if (listen?.trackId === track.id) listen.howl = howl;
+  set({ howl });
+  // A preloaded Howl may have loaded before anyone was listening
+  if (howl.state() === 'loaded') loaded();
+
+  const target = outputVolume(get());
+  howl.volume(fadeInSeconds > 0 ? 0 : target);
+  const soundId = howl.play();
+  if (fadeInSeconds > 0) {
+    howl.fade(0, target, fadeInSeconds * 1000, soundId);
+  }
+}
+
+// Radio keeps the queue topped up from a server-side station
+const RADIO_REFILL_AT = 3; // Tracks left after the current one
+const RADIO_BATCH = 10;
+let radioRequest: Promise<Track[]> | null = null;
+
+interface RadioStation {
+  stationId: string;
+  name: string;
+}
 
 interface PlayerState {
   // Current track & queue
@@ -40,8 +410,11 @@ interface PlayerState {
   
   // Settings
   quality: Quality;
+  normalization: Normalization;
+  crossfade: number; // Seconds, 0 for gapless
   repeatMode: RepeatMode;
   isShuffled: boolean;
+  radio: RadioStation | null;
   
   // Howler instance
   howl: Howl | null;
@@ -55,12 +428,17 @@ interface PlayerState {
   setVolume: (volume: number) => void;
   toggleMute: () => void;
   setQuality: (quality: Quality) => void;
+  setNormalization: (mode: Normalization) => void;
+  setCrossfade: (seconds: number) => void;
   setRepeatMode: (mode: RepeatMode) => void;
   toggleShuffle: () => void;
   playNext: () => void;
   playPrevious: () => void;
   addToQueue: (track: Track) => void;
   clearQueue: () => void;
+  startRadio: (seedType: RadioSeedType, seed: string, seedTrack?: Track) => Promise<void>;
+  stopRadio: () => void;
+  refillRadio: () => Promise<Track[]>;
 }
 
 export const usePlayerStore = create<PlayerState>()(
@@ -76,83 +454,69 @@ export const usePlayerStore = create<PlayerState>()(
       volume: 0.8,
       isMuted: false,
       quality: 'medium',
+      normalization: 'track',
+      crossfade: 0,
       repeatMode: 'off',
       isShuffled: false,
+      radio: null,
       howl: null,
       
       play: (track, queue = []) => {
-        const { howl: oldHowl, quality, volume, isMuted } = get();
+        const { howl: oldHowl, quality, radio } = get();
+        
+        // Picking music from anywhere but the current queue ends the radio
+        if (radio && queue !== get().queue) {
+          set({ radio: null });
+        }
+        
+        // Before the old track stops, so a skip is reported at the position it happened.
+        // A quality switch reloads the same track without starting a new play
+        if (listen?.trackId !== track.id || pendingSeek === null) {
+          beginListen(track.id);
+        }
         
         // Stop and unload previous track
+        stopFadeOut();
         if (oldHowl) {
           oldHowl.stop();
           oldHowl.unload();
         }
         
-        set({ isLoading: true, currentTrack: track });
-        
-        const streamUrl = streamApi.getStreamUrl(track.id, quality);
-        
-        const howl = new Howl({
-          src: [streamUrl],
-          format: ['mp3', 'aac', 'ogg', 'wav', 'flac', 'webm'],
-          html5: true, // Enable streaming - required for large files
-          preload: 'metadata',
-          volume: isMuted ? 0 : volume,
-          xhr: {
-            withCredentials: false,
-          },
-          onload: () => {
-            set({
-              isLoading: false,
-              duration: howl.duration(),
-            });
-          },
-          onplay: () => {
-            set({ isPlaying: true });
-            // Start progress update
-            const updateProgress = () => {
-              if (get().isPlaying) {
-                set({ currentTime: howl.seek() as number });
-                requestAnimationFrame(updateProgress);
-              }
-            };
-            requestAnimationFrame(updateProgress);
-          },
-          onpause: () => set({ isPlaying: false }),
-          onstop: () => set({ isPlaying: false, currentTime: 0 }),
-          onend: () => {
-            const { repeatMode, queue, queueIndex } = get();
-            
-            // Track completion for stats
-            streamApi.complete(track.id, track.duration).catch(() => {});
-            
-            if (repeatMode === 'one') {
-              howl.seek(0);
-              howl.play();
-            } else {
-              get().playNext();
-            }
-          },
-          onloaderror: (_, error) => {
-            console.error('Audio load error:', error);
-            set({ isLoading: false });
-          },
-        });
+        set({ isLoading: true, currentTrack: track, howl: null });
         
         // Set queue
         const queueIndex = queue.findIndex((t) => t.id === track.id);
         set({
-          howl,
           queue: queue.length > 0 ? queue : [track],
           queueIndex: queueIndex >= 0 ? queueIndex : 0,
         });
         
-        howl.play();
+        if (get().radio && get().queue.length - get().queueIndex - 1 <= RADIO_REFILL_AT) {
+          get().refillRadio();
+        }
+        
+        const request = ++playRequest;
+        
+        // Usually already loaded when playing on through the queue
+        const prepared = takePreloaded(track.id, quality);
+        
+        (prepared ? Promise.resolve(prepared) : loadTrack(track.id, quality, 'metadata')).then((next) => {
+          if (request !== playRequest) {
+            next.howl.unload(); // Another track was picked meanwhile
+            return;
+          }
+          startHowl(track, next);
+        }).catch((error) => {
+          if (request !== playRequest) return;
+          console.error('Failed to get stream URL:', error);
+          set({ isLoading: false });
+          endListen('error');
+        });
       },
       
       pause: () => {
         const { howl } = get();
+        stopFadeOut();
         if (howl) {
           howl.pause();
         }
@@ -169,6 +533,7 @@ export const usePlayerStore = create<PlayerState>()(
         const { isPlaying, howl } = get();
         if (howl) {
           if (isPlaying) {
+            stopFadeOut();
             howl.pause();
           } else {
             howl.play();
@@ -177,27 +542,24 @@ export const usePlayerStore = create<PlayerState>()(
       },
       
       seek: (time) => {
-        const { howl } = get();
+        const { howl, currentTime } = get();
         if (howl) {
+          if (listen && !listen.ended) {
+            listen.seeks.push({ type: 'seek', from: currentTime, to: time });
+          }
           howl.seek(time);
           set({ currentTime: time });
         }
       },
       
       setVolume: (volume) => {
-        const { howl } = get();
         set({ volume, isMuted: volume === 0 });
-        if (howl) {
-          howl.volume(volume);
-        }
+        get().howl?.volume(outputVolume(get()));
       },
       
       toggleMute: () => {
-        const { howl, isMuted, volume } = get();
-        set({ isMuted: !isMuted });
-        if (howl) {
-          howl.volume(isMuted ? volume : 0);
-        }
+        set({ isMuted: !get().isMuted });
+        get().howl?.volume(outputVolume(get()));
       },
       
       setQuality: (quality) => {
@@ -205,14 +567,19 @@ export const usePlayerStore = create<PlayerState>()(
         // If currently playing, reload with new quality
         const { currentTrack, isPlaying, currentTime } = get();
         if (currentTrack && isPlaying) {
-          get().play(currentTrack, get().queue);
           // Seek to previous position after loading
-          setTimeout(() => {
-            get().seek(currentTime);
-          }, 500);
+          pendingSeek = currentTime;
+          get().play(currentTrack, get().queue);
         }
       },
       
+      setNormalization: (normalization) => {
+        set({ normalization });
+        get().howl?.volume(outputVolume(get()));
+      },
+      
+      setCrossfade: (seconds) => set({ crossfade: Math.min(Math.max(seconds, 0), MAX_CROSSFADE_SECONDS) }),
+      
       setRepeatMode: (mode) => set({ repeatMode: mode }),
       
       toggleShuffle: () => {
@@ -238,6 +605,17 @@ export const usePlayerStore = create<PlayerState>()(
         let nextIndex = queueIndex + 1;
         
         if (nextIndex >= queue.length) {
+          if (get().radio) {
+            // Queue ran dry before the refill arrived
+            get().refillRadio().then((tracks) => {
+              if (tracks.length > 0) {
+                get().play(tracks[0], get().queue);
+              } else {
+                set({ isPlaying: false });
+              }
+            });
+            return;
+          }
           if (repeatMode === 'all') {
             nextIndex = 0;
           } else {
@@ -285,7 +663,57 @@ export const usePlayerStore = create<PlayerState>()(
       
       clearQueue: () => {
         const { currentTrack } = get();
-        set({ queue: currentTrack ? [currentTrack] : [], queueIndex: 0 });
+        set({ queue: currentTrack ? [currentTrack] : [], queueIndex: 0, radio: null });
+      },
+      
+      startRadio: async (seedType, seed, seedTrack) => {
+        const { data } = await recommendationsApi.startRadio(seedType, seed, RADIO_BATCH);
+        const tracks: Track[] = data.tracks;
+        
+        // A track station starts with the seed itself
+        const queue = seedTrack ? [seedTrack, ...tracks] : tracks;
+        if (queue.length === 0) return;
+        
+        const { currentTrack, isPlaying } = get();
+        if (seedTrack && currentTrack?.id === seedTrack.id && isPlaying) {
+          // Keep playing; just swap the queue underneath
+          set({ queue, queueIndex: 0 });
+        } else {
+          get().play(queue[0], queue);
+        }
+        set({ radio: { stationId: data.stationId, name: data.name }, isShuffled: false });
+      },
+      
+      stopRadio: () => set({ radio: null }),
+      
+      refillRadio: () => {
+        const { radio } = get();
+        if (!radio) return Promise.resolve([]);
+        
+        if (!radioRequest) {
+          radioRequest = recommendationsApi
+            .getRadioTracks(radio.stationId, RADIO_BATCH)
+            .then(({ data }) => {
+              if (get().radio?.stationId !== radio.stationId) return [];
+              
+              const known = new Set(get().queue.map((t) => t.id));
+              const tracks: Track[] = data.tracks.filter((t: Track) => !known.has(t.id));
+              set({ queue: [...get().queue, ...tracks] });
+              return tracks;
+            })
+            .catch((error) => {
+              // Station expired; stop instead of retrying forever
+              if (error.response?.status === 404 && get().radio?.stationId === radio.stationId) {
+                set({ radio: null });
+              }
+              return [];
+            })
+            .finally(() => {
+              radioRequest = null;
+            });
+        }
+        
+        return radioRequest;
       },
     }),
     {
@@ -293,6 +721,8 @@ export const usePlayerStore = create<PlayerState>()(
       partialize: (state) => ({
         volume: state.volume,
         quality: state.quality,
+        normalization: state.normalization,
+        crossfade: state.crossfade,
         repeatMode: state.repeatMode,
       }),
     }
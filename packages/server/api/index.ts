@@ -3,6 +3,10 @@ import cors from 'cors';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { config } from '../src/config/index.js';
+import { storage, isPublicKey, keyFromPath } from '../src/services/storage/index.js';
 
 const app = express();
 
@@ -570,6 +574,28 @@ const SUPPORTED_IMAGE_FORMATS = [
   'image/gif',
 ];
 
+// With STORAGE_DRIVER=s3 uploads go to the bucket; without it there is no
+// writable disk here, so files are kept inline as data: URLs
+const useObjectStorage = config.storage.driver === 's3';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+};
+
+async function storeUpload(key: string, base64: string, mimeType: string): Promise<string> {
+  if (!useObjectStorage) {
+    return `data:${mimeType};base64,${base64}`;
+  }
+  
+  await storage.put(key, Buffer.from(base64, 'base64'), {
+    contentType: mimeType,
+    cacheControl: 'public, max-age=31536000, immutable',
+  });
+  return key;
+}
+
 // Upload cover art (base64)
 app.post('/api/upload/cover', authMiddleware, async (req: Request, res: Response) => {
   try {
@@ -584,8 +610,12 @@ app.post('/api/upload/cover', authMiddleware, async (req: Request, res: Response
       return res.status(400).json({ error: 'Unsupported image format. Use JPEG, PNG, WebP, or GIF' });
     }
     
-    // For now, return the base64 as data URL (could integrate Cloudinary/S3 later)
-    const coverUrl = `data:${mimeType || 'image/jpeg'};base64,${image}`;
+    const imageType = mimeType || 'image/jpeg';
+    const coverUrl = await storeUpload(
+      `covers/${randomUUID()}${IMAGE_EXTENSIONS[imageType] || '.jpg'}`,
+      image,
+      imageType
+    );
     
     res.json({ coverUrl, success: true });
   } catch (error) {
@@ -607,7 +637,13 @@ app.post('/api/upload/avatar', authMiddleware, async (req: Request, res: Respons
       return res.status(400).json({ error: 'Unsupported image format' });
     }
     
-    const avatarUrl = `data:${mimeType || 'image/jpeg'};base64,${image}`;
+    // Unique key per upload so cached copies of the old avatar don't linger
+    const imageType = mimeType || 'image/jpeg';
+    const avatarUrl = await storeUpload(
+      `avatars/${(req as any).userId}-${Date.now()}${IMAGE_EXTENSIONS[imageType] || '.jpg'}`,
+      image,
+      imageType
+    );
     
     // Update user avatar
     await prisma.user.update({
@@ -667,8 +703,8 @@ app.post('/api/upload/track', authMiddleware, async (req: Request, res: Response
       });
     }
     
-    // Create audio URL (data URL for now - could use cloud storage)
-    const audioUrl = `data:${normalizedMimeType};base64,${audio}`;
+    const audioExt = path.extname(audioFileName || '').toLowerCase() || '.mp3';
+    const audioUrl = await storeUpload(`audio/${randomUUID()}${audioExt}`, audio, normalizedMimeType);
     
     // Generate a slug from title
     const slug = title.trim().toLowerCase()
@@ -710,6 +746,59 @@ app.post('/api/upload/track', authMiddleware, async (req: Request, res: Response
   }
 });
 
+// ============ FILE DELIVERY ============
+
+// Stream a track: inline data: URLs are decoded, stored objects are redirected to the bucket
+app.get('/api/stream/:trackId', async (req: Request, res: Response) => {
+  try {
+    const track = await prisma.track.findUnique({
+      where: { id: req.params.trackId },
+      select: { fileUrl: true, isPublic: true },
+    });
+    
+    if (!track || !track.isPublic) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+    
+    const inline = track.fileUrl.match(/^data:([^;]+);base64,(.*)$/s);
+    if (inline) {
+      const buffer = Buffer.from(inline[2], 'base64');
+      res.set({
+        'Content-Type': inline[1],
+        'Content-Length': String(buffer.length),
+        'Cache-Control': 'public, max-age=86400',
+      });
+      return res.send(buffer);
+    }
+    
+    if (!useObjectStorage) {
+      return res.status(404).json({ error: 'Audio file not available' });
+    }
+    
+    res.redirect(302, await storage.getSignedUrl(track.fileUrl));
+  } catch (error) {
+    console.error('Stream error:', error);
+    res.status(500).json({ error: 'Failed to stream track' });
+  }
+});
+
+// Public artwork stored in the bucket
+app.get('/uploads/*', async (req: Request, res: Response) => {
+  const key = keyFromPath(req.path.replace(/^\/uploads\//, ''));
+  
+  if (!useObjectStorage || !key || !isPublicKey(key)) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+  
+  try {
+    res.set('Cache-Control', 'public, max-age=300');
+    res.redirect(302, await storage.getSignedUrl(key));
+  } catch (error) {
+    console.error('File redirect error:', error);
+    res.status(500).json({ error: 'Failed to load file' });
+  }
+});
+
 // Get supported formats
 app.get('/api/upload/formats', (req: Request, res: Response) => {
   res.json({
@@ -0,0 +1,138 @@
+-- Full-text and fuzzy search support
+--
+-- Prisma creates the extensions, the "searchVector"/"searchText" columns and
+-- their GIN indexes (see schema.prisma). This file adds what Prisma can't
+-- express: an accent-folding text search configuration and the triggers that
+-- keep the search columns up to date. It is idempotent and applied on server
+-- start (src/services/search.ts), so re-running it is always safe.
+
+-- 'simple' parsing (names aren't English words) with accents folded: Beyoncé = beyonce
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'music_search') THEN
+    CREATE TEXT SEARCH CONFIGURATION music_search (COPY = simple);
+    ALTER TEXT SEARCH CONFIGURATION music_search
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+      WITH unaccent, simple;
+  END IF;
+END $$;
+
+-- Lower-cased, unaccented text for trigram (typo-tolerant) matching
+CREATE OR REPLACE FUNCTION search_normalize(input text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT lower(unaccent('unaccent'::regdictionary, coalesce(input, '')))
+$$;
+
+-- Tracks: title (A), artist (B), album (C), genre (D)
+CREATE OR REPLACE FUNCTION track_search_refresh() RETURNS trigger
+LANGUAGE plpgsql AS $$
+DECLARE
+  artist_name text;
+  album_title text;
+BEGIN
+  SELECT concat_ws(' ', "displayName", username) INTO artist_name FROM "User" WHERE id = NEW."artistId";
+  SELECT title INTO album_title FROM "Album" WHERE id = NEW."albumId";
+
+  NEW."searchVector" :=
+    setweight(to_tsvector('music_search', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('music_search', coalesce(artist_name, '')), 'B') ||
+    setweight(to_tsvector('music_search', coalesce(album_title, '')), 'C') ||
+    setweight(to_tsvector('music_search', coalesce(NEW.genre, '')), 'D');
+  NEW."searchText" := search_normalize(concat_ws(' ', NEW.title, artist_name, album_title));
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS track_search_refresh ON "Track";
+CREATE TRIGGER track_search_refresh
+  BEFORE INSERT OR UPDATE OF title, genre, "artistId", "albumId" ON "Track"
+  FOR EACH ROW EXECUTE FUNCTION track_search_refresh();
+
+-- Artists and listeners: name (A), username (B), bio (C)
+CREATE OR REPLACE FUNCTION user_search_refresh() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('music_search', coalesce(NEW."displayName", '')), 'A') ||
+    setweight(to_tsvector('music_search', coalesce(NEW.username, '')), 'B') ||
+    setweight(to_tsvector('music_search', coalesce(NEW.bio, '')), 'C');
+  NEW."searchText" := search_normalize(concat_ws(' ', NEW."displayName", NEW.username));
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS user_search_refresh ON "User";
+CREATE TRIGGER user_search_refresh
+  BEFORE INSERT OR UPDATE OF username, "displayName", bio ON "User"
+  FOR EACH ROW EXECUTE FUNCTION user_search_refresh();
+
+-- Albums: title (A), artist (B), description (C)
+CREATE OR REPLACE FUNCTION album_search_refresh() RETURNS trigger
+LANGUAGE plpgsql AS $$
+DECLARE
+  artist_name text;
+BEGIN
+  SELECT concat_ws(' ', "displayName", username) INTO artist_name FROM "User" WHERE id = NEW."artistId";
+
+  NEW."searchVector" :=
+    setweight(to_tsvector('music_search', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('music_search', coalesce(artist_name, '')), 'B') ||
+    setweight(to_tsvector('music_search', coalesce(NEW.description, '')), 'C');
+  NEW."searchText" := search_normalize(concat_ws(' ', NEW.title, artist_name));
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS album_search_refresh ON "Album";
+CREATE TRIGGER album_search_refresh
+  BEFORE INSERT OR UPDATE OF title, description, "artistId" ON "Album"
+  FOR EACH ROW EXECUTE FUNCTION album_search_refresh();
+
+-- Playlists: title (A), description (C)
+CREATE OR REPLACE FUNCTION playlist_search_refresh() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('music_search', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('music_search', coalesce(NEW.description, '')), 'C');
+  NEW."searchText" := search_normalize(NEW.title);
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS playlist_search_refresh ON "Playlist";
+CREATE TRIGGER playlist_search_refresh
+  BEFORE INSERT OR UPDATE OF title, description ON "Playlist"
+  FOR EACH ROW EXECUTE FUNCTION playlist_search_refresh();
+
+-- Renaming an artist or album re-indexes what carries its name
+CREATE OR REPLACE FUNCTION user_search_cascade() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE "Track" SET title = title WHERE "artistId" = NEW.id;
+  UPDATE "Album" SET title = title WHERE "artistId" = NEW.id;
+  RETURN NULL;
+END $$;
+
+DROP TRIGGER IF EXISTS user_search_cascade ON "User";
+CREATE TRIGGER user_search_cascade
+  AFTER UPDATE OF username, "displayName" ON "User"
+  FOR EACH ROW
+  WHEN (OLD.username IS DISTINCT FROM NEW.username OR OLD."displayName" IS DISTINCT FROM NEW."displayName")
+  EXECUTE FUNCTION user_search_cascade();
+
+CREATE OR REPLACE FUNCTION album_search_cascade() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  UPDATE "Track" SET title = title WHERE "albumId" = NEW.id;
+  RETURN NULL;
+END $$;
+
+DROP TRIGGER IF EXISTS album_search_cascade ON "Album";
+CREATE TRIGGER album_search_cascade
+  AFTER UPDATE OF title ON "Album"
+  FOR EACH ROW
+  WHEN (OLD.title IS DISTINCT FROM NEW.title)
+  EXECUTE FUNCTION album_search_cascade();
+
+-- Backfill rows written before the triggers existed
+UPDATE "User" SET username = username WHERE "searchVector" IS NULL;
+UPDATE "Album" SET title = title WHERE "searchVector" IS NULL;
+UPDATE "Track" SET title = title WHERE "searchVector" IS NULL;
+UPDATE "Playlist" SET title = title WHERE "searchVector" IS NULL;
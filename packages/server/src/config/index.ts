@@ -47,6 +47,23 @@ export const config = {
   uploadDir: path.resolve(__dirname, '../../', process.env.UPLOAD_DIR || './uploads'),
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '104857600', 10), // 100MB now!
   allowedAudioFormats: (process.env.ALLOWED_AUDIO_FORMATS || 'mp3,wav,flac,aac,ogg,m4a,opus,webm,aiff,wma').split(','),
+  uploadSessionTtlHours: parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || '24', 10), // Resumable uploads
+  
+  // Where uploaded and transcoded files live: 'local' (uploadDir) or 's3' (any S3-compatible store)
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || 'local') as 'local' | 's3',
+    signedUrlTtl: parseInt(process.env.STORAGE_SIGNED_URL_TTL || '3600', 10), // seconds
+    // Signs local-disk URLs; S3 uses its own credentials
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'dev-secret-change-me',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || '', // e.g. http://localhost:9000 for MinIO; empty = AWS
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+    },
+  },
   
   // Audio Quality Settings (kbps)
   audioQuality: {
@@ -56,6 +73,70 @@ export const config = {
     lossless: parseInt(process.env.AUDIO_QUALITY_LOSSLESS || '320', 10),
   },
   
+  // Opus reaches the same perceived quality at lower bitrates (kbps)
+  opusQuality: {
+    low: parseInt(process.env.AUDIO_OPUS_LOW || '48', 10),
+    medium: parseInt(process.env.AUDIO_OPUS_MEDIUM || '96', 10),
+    high: parseInt(process.env.AUDIO_OPUS_HIGH || '160', 10),
+  },
+  
+  // Extra codecs transcoded next to the MP3 ladder (MP3 is always written)
+  codecs: {
+    aac: process.env.AAC_ENABLED !== 'false',
+    opus: process.env.OPUS_ENABLED !== 'false',
+    flac: process.env.FLAC_ENABLED !== 'false',
+  },
+  
+  // Track and album gain are measured against this integrated loudness (LUFS)
+  loudness: {
+    referenceLufs: parseFloat(process.env.LOUDNESS_REFERENCE_LUFS || '-18'),
+  },
+  
+  // Adaptive bitrate packaging (segmented renditions of the quality ladder)
+  adaptiveStreaming: {
+    hls: process.env.HLS_ENABLED !== 'false',
+    dash: process.env.DASH_ENABLED === 'true',
+    segmentDuration: parseInt(process.env.ABR_SEGMENT_DURATION || '6', 10), // seconds
+  },
+  
+  // Background jobs (Redis-backed queue, processed by src/worker.ts)
+  jobs: {
+    concurrency: parseInt(process.env.WORKER_CONCURRENCY || '1', 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+    retryDelayMs: parseInt(process.env.JOB_RETRY_DELAY_MS || '30000', 10), // Doubles on each retry
+    lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '120000', 10), // Stalled after this long without a heartbeat
+  },
+  
+  // Play counting (driven by player heartbeats)
+  plays: {
+    minListenSeconds: parseInt(process.env.PLAY_MIN_LISTEN_SECONDS || '30', 10),
+    minListenFraction: parseFloat(process.env.PLAY_MIN_LISTEN_FRACTION || '0.5'), // Short tracks count at half way
+    debounceSeconds: parseInt(process.env.PLAY_DEBOUNCE_SECONDS || '30', 10), // Per user + track, shared via Redis
+    flushIntervalMs: parseInt(process.env.PLAY_FLUSH_INTERVAL_MS || '60000', 10), // Redis counters -> Track.playCount
+  },
+  
+  // Recommendations (precomputed nightly by the worker)
+  recommendations: {
+    windowDays: parseInt(process.env.RECOMMENDATIONS_WINDOW_DAYS || '90', 10), // Listening history considered
+    refreshHour: parseInt(process.env.RECOMMENDATIONS_REFRESH_HOUR || '3', 10), // Local hour of the nightly run
+  },
+  
+  // Smart playlists older than this are re-evaluated (by the worker, or on read)
+  smartPlaylists: {
+    refreshMinutes: parseInt(process.env.SMART_PLAYLIST_REFRESH_MINUTES || '60', 10),
+  },
+  
+  // Deleted playlists can be restored for this long, then the worker removes them
+  deletedPlaylists: {
+    restoreDays: parseInt(process.env.PLAYLIST_RESTORE_DAYS || '30', 10),
+  },
+  
+  // Search analytics
+  searchAnalytics: {
+    trendingHours: parseInt(process.env.SEARCH_TRENDING_HOURS || '24', 10), // Window for trending searches
+    retentionDays: parseInt(process.env.SEARCH_LOG_RETENTION_DAYS || '90', 10), // Older logged searches are pruned
+  },
+  
   // Rate Limiting - relaxed for self-hosted
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10), // 1 minute
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '1000', 10), // 1000 per minute
@@ -63,6 +144,7 @@ export const config = {
   // CORS - supports multiple origins separated by comma
   corsOrigins: (process.env.CORS_ORIGIN || 'http://localhost:5173').split(',').map(o => o.trim()),
   
-  // Chunk size for streaming (64KB for mobile optimization)
-  streamChunkSize: 64 * 1024,
+  // Signed stream URLs (bound to user, track, quality and expiry)
+  streamTokenSecret: process.env.STREAM_TOKEN_SECRET || process.env.JWT_SECRET || 'dev-secret-change-me',
+  streamTokenTtl: parseInt(process.env.STREAM_TOKEN_TTL || '14400', 10), // 4 hours, long enough to pause and resume
 };
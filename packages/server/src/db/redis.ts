@@ -74,9 +74,13 @@ export const cache = {
 export const cacheKeys = {
   track: (id: string) => `track:${id}`,
   trackMeta: (id: string) => `track:meta:${id}`,
+  lyrics: (trackId: string) => `track:lyrics:${trackId}`,
   user: (id: string) => `user:${id}`,
   playlist: (id: string) => `playlist:${id}`,
   trending: () => 'trending:tracks',
+  trendingSearches: () => 'trending:searches',
   newReleases: () => 'new:releases',
+  forYou: (userId: string) => `recs:for-you:${userId}`,
+  similarTracks: (trackId: string) => `recs:similar:${trackId}`,
   search: (query: string) => `search:${query.toLowerCase().replace(/\s+/g, ':')}`,
 };
@@ -15,6 +15,10 @@ import { streamRoutes } from './routes/stream.js';
 import { uploadRoutes } from './routes/upload.js';
 import { searchRoutes } from './routes/search.js';
 import { genreRoutes } from './routes/genres.js';
+import { fileRoutes } from './routes/files.js';
+import { recommendationRoutes } from './routes/recommendations.js';
+import { notificationRoutes } from './routes/notifications.js';
+import { ensureSearchSetup } from './services/search.js';
 
 const app = express();
 
@@ -44,7 +48,7 @@ app.use(cors({
     }
   },
   credentials: true,
-  exposedHeaders: ['Content-Range', 'Accept-Ranges', 'Content-Length'],
+  exposedHeaders: ['Content-Range', 'Accept-Ranges', 'Content-Length', 'X-Content-Duration', 'ETag', 'Location', 'Upload-Offset', 'Upload-Length'],
 }));
 
 // Compression for API responses (not for audio streams)
@@ -94,13 +98,11 @@ app.use('/api/stream', streamRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/search', searchRoutes);
 app.use('/api/genres', genreRoutes);
+app.use('/api/recommendations', recommendationRoutes);
+app.use('/api/notifications', notificationRoutes);
 
-// Static files for uploads (with caching headers)
-app.use('/uploads', express.static(config.uploadDir, {
-  maxAge: '1d',
-  etag: true,
-  lastModified: true,
-}));
+// Uploaded files (artwork, signed links) from the storage backend
+app.use('/uploads', fileRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -113,9 +115,13 @@ app.use(errorHandler);
 // Start server (only in non-Vercel environment)
 if (process.env.VERCEL !== '1') {
   const PORT = config.port;
+  
+  // Search triggers and text search config live outside the Prisma schema
+  ensureSearchSetup().catch((error) => console.error('Search setup failed:', error));
+  
   app.listen(PORT, () => {
     console.log(`🎵 Stream server running on http://localhost:${PORT}`);
-    console.log(`📁 Upload directory: ${config.uploadDir}`);
+    console.log(`📁 Storage: ${config.storage.driver === 's3' ? `s3://${config.storage.s3.bucket}` : config.uploadDir}`);
     console.log(`🔒 Environment: ${config.nodeEnv}`);
   });
 }
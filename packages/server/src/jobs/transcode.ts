@@ -0,0 +1,91 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { prisma } from '../db/client.js';
+import { cache, cacheKeys } from '../db/redis.js';
+import { generateWaveform, transcodeAudio, TranscodeResult } from '../services/audio.js';
+import { scratchPath, storage } from '../services/storage/index.js';
+import { Job, TranscodeJobData } from '../services/jobQueue.js';
+import { trackGain, updateAlbumGain } from '../services/loudness.js';
+
+/**
+ * Transcode an uploaded track into the streaming ladder
+ * Throws on failure so the queue can retry
+ */
+export async function processTranscodeJob(job: Job<TranscodeJobData>): Promise<void> {
+  const { trackId, sourceKey } = job.data;
+
+  const track = await prisma.track.findUnique({ where: { id: trackId }, select: { id: true, albumId: true } });
+  if (!track) {
+    return; // Deleted while queued
+  }
+
+  if (!(await storage.stat(sourceKey))) {
+    throw new Error(`Source file missing: ${sourceKey}`);
+  }
+
+  await prisma.track.update({
+    where: { id: trackId },
+    data: { processingStatus: 'PROCESSING', processingError: null },
+  });
+
+  const baseName = path.basename(sourceKey, path.extname(sourceKey));
+
+  // ffmpeg needs a local copy of the original
+  const filePath = await scratchPath(path.extname(sourceKey));
+  await storage.download(sourceKey, filePath);
+
+  let waveformData: number[];
+  let transcoded: TranscodeResult;
+  try {
+    waveformData = await generateWaveform(filePath);
+    transcoded = await transcodeAudio(filePath, baseName);
+  } finally {
+    await fs.unlink(filePath).catch(() => {});
+  }
+
+  // transcodeAudio skips renditions that fail; no MP3 at all means ffmpeg is broken
+  if (!transcoded.low && !transcoded.medium && !transcoded.high) {
+    throw new Error('All transcodes failed');
+  }
+
+  await prisma.track.update({
+    where: { id: trackId },
+    data: {
+      waveformData,
+      fileUrlLow: transcoded.low,
+      fileUrlMedium: transcoded.medium,
+      fileUrlHigh: transcoded.high,
+      fileUrlAacLow: transcoded.aac?.low,
+      fileUrlAacMedium: transcoded.aac?.medium,
+      fileUrlAacHigh: transcoded.aac?.high,
+      fileUrlOpusLow: transcoded.opus?.low,
+      fileUrlOpusMedium: transcoded.opus?.medium,
+      fileUrlOpusHigh: transcoded.opus?.high,
+      fileUrlFlac: transcoded.lossless,
+      hlsUrl: transcoded.hls,
+      dashUrl: transcoded.dash,
+      loudness: transcoded.loudness?.integrated ?? null,
+      truePeak: transcoded.loudness?.truePeak ?? null,
+      trackGain: transcoded.loudness ? trackGain(transcoded.loudness.integrated) : null,
+      processingStatus: 'DONE',
+      processingError: null,
+    },
+  });
+
+  await cache.del(cacheKeys.trackMeta(trackId));
+
+  if (track.albumId) {
+    await updateAlbumGain(track.albumId);
+  }
+}
+
+// Called once retries are exhausted
+export async function markTranscodeFailed(job: Job<TranscodeJobData>, error: unknown) {
+  await prisma.track.update({
+    where: { id: job.data.trackId },
+    data: {
+      processingStatus: 'FAILED',
+      processingError: error instanceof Error ? error.message : String(error),
+    },
+  }).catch((err: unknown) => console.error('Failed to mark track as failed:', err));
+}
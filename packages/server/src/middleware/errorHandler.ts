@@ -11,6 +11,13 @@ export const errorHandler = (
   res: Response,
   _next: NextFunction
 ) => {
+  // A body was already under way (a stream failed partway); all that's left is to cut it off
+  if (res.headersSent) {
+    console.error(`Error after response started (${req.method} ${req.path}):`, err);
+    res.destroy();
+    return;
+  }
+
   const statusCode = err.statusCode || 500;
   const message = err.message || 'Internal server error';
   
@@ -50,7 +57,9 @@ export const errors = {
   forbidden: (message = 'Forbidden') => new HttpError(message, 403),
   notFound: (message = 'Not found') => new HttpError(message, 404),
   conflict: (message = 'Conflict') => new HttpError(message, 409),
+  gone: (message = 'Gone') => new HttpError(message, 410),
   tooLarge: (message = 'File too large') => new HttpError(message, 413),
+  unsupportedMediaType: (message = 'Unsupported media type') => new HttpError(message, 415),
   unprocessable: (message = 'Unprocessable entity') => new HttpError(message, 422),
   tooMany: (message = 'Too many requests') => new HttpError(message, 429),
   internal: (message = 'Internal server error') => new HttpError(message, 500),
@@ -1,8 +1,10 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../db/client.js';
+import { cache, cacheKeys } from '../db/redis.js';
 import { errors } from '../middleware/errorHandler.js';
 import { authenticate, optionalAuth } from '../middleware/auth.js';
+import { releaseVisibility } from '../services/releases.js';
 
 export const albumRoutes = Router();
 
@@ -24,16 +26,28 @@ albumRoutes.get('/:albumId', optionalAuth, async (req: Request, res: Response, n
           },
         },
         tracks: {
-          where: { isPublic: true },
-          orderBy: { createdAt: 'asc' },
+          // Scheduled tracks only make the tracklist of an upcoming album
+          where: { OR: [{ isPublic: true }, { isScheduled: true }] },
+          // Untagged tracks go last, in upload order
+          orderBy: [
+            { discNumber: { sort: 'asc', nulls: 'last' } },
+            { trackNumber: { sort: 'asc', nulls: 'last' } },
+            { createdAt: 'asc' },
+          ],
           select: {
             id: true,
             title: true,
+            trackNumber: true,
+            discNumber: true,
             duration: true,
             playCount: true,
             coverUrl: true,
+            isPublic: true,
           },
         },
+        _count: {
+          select: { preSaves: true },
+        },
       },
     });
     
@@ -41,11 +55,25 @@ albumRoutes.get('/:albumId', optionalAuth, async (req: Request, res: Response, n
       throw errors.notFound('Album not found');
     }
     
-    if (!album.isPublic && req.user?.id !== album.artistId) {
+    const isOwner = req.user?.id === album.artistId;
+    
+    if (!album.isPublic && !album.isScheduled && !isOwner) {
       throw errors.forbidden('This album is private');
     }
     
-    res.json(album);
+    const tracks = album.isScheduled
+      ? album.tracks
+      : album.tracks.filter((track: { isPublic: boolean }) => track.isPublic);
+    
+    let isPreSaved = false;
+    if (album.isScheduled && req.user) {
+      const preSave = await prisma.preSave.findUnique({
+        where: { userId_albumId: { userId: req.user.id, albumId } },
+      });
+      isPreSaved = !!preSave;
+    }
+    
+    res.json({ ...album, tracks, isPreSaved });
   } catch (error) {
     next(error);
   }
@@ -63,11 +91,12 @@ albumRoutes.post('/', authenticate, async (req: Request, res: Response, next: Ne
       description: z.string().max(1000).optional(),
       coverUrl: z.string().optional(),
       albumType: z.enum(['ALBUM', 'EP', 'SINGLE', 'COMPILATION']).optional(),
-      releaseDate: z.string().datetime().optional(),
+      releaseDate: z.string().datetime().optional(), // In the future schedules the release
       isPublic: z.boolean().optional(),
     });
     
-    const data = schema.parse(req.body);
+    const { isPublic, ...data } = schema.parse(req.body);
+    const releaseDate = data.releaseDate ? new Date(data.releaseDate) : null;
     
     const slug = data.title
       .toLowerCase()
@@ -83,7 +112,8 @@ albumRoutes.post('/', authenticate, async (req: Request, res: Response, next: Ne
       data: {
         ...data,
         slug: existing ? `${slug}-${Date.now()}` : slug,
-        releaseDate: data.releaseDate ? new Date(data.releaseDate) : null,
+        releaseDate,
+        ...releaseVisibility(isPublic ?? true, releaseDate),
         artistId: req.user!.id,
       },
       include: {
@@ -107,6 +137,42 @@ albumRoutes.post('/', authenticate, async (req: Request, res: Response, next: Ne
   }
 });
 
+// Pre-save an upcoming album: every track lands in the library at release
+albumRoutes.post('/:albumId/presave', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { albumId } = req.params;
+    
+    const album = await prisma.album.findUnique({
+      where: { id: albumId },
+      select: { isScheduled: true },
+    });
+    
+    if (!album) {
+      throw errors.notFound('Album not found');
+    }
+    
+    const where = { userId_albumId: { userId: req.user!.id, albumId } };
+    const existing = await prisma.preSave.findUnique({ where });
+    
+    if (existing) {
+      await prisma.preSave.delete({ where });
+      return res.json({ preSaved: false });
+    }
+    
+    if (!album.isScheduled) {
+      throw errors.badRequest('Only upcoming releases can be pre-saved');
+    }
+    
+    await prisma.preSave.create({
+      data: { userId: req.user!.id, albumId },
+    });
+    
+    res.json({ preSaved: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update album
 albumRoutes.patch('/:albumId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -128,14 +194,30 @@ albumRoutes.patch('/:albumId', authenticate, async (req: Request, res: Response,
       title: z.string().min(1).max(200).optional(),
       description: z.string().max(1000).optional().nullable(),
       coverUrl: z.string().optional().nullable(),
+      releaseDate: z.string().datetime().optional().nullable(),
       isPublic: z.boolean().optional(),
     });
     
-    const data = schema.parse(req.body);
+    const { isPublic, releaseDate, ...data } = schema.parse(req.body);
+    const nextReleaseDate = releaseDate === undefined ? album.releaseDate : releaseDate ? new Date(releaseDate) : null;
+    const visibility = releaseVisibility(isPublic ?? (album.isPublic || album.isScheduled), nextReleaseDate);
+    
+    // Tracks follow the album's schedule; plain visibility changes stay per track
+    if (visibility.isScheduled) {
+      await prisma.track.updateMany({
+        where: { albumId, OR: [{ isPublic: true }, { isScheduled: true }] },
+        data: { isPublic: false, isScheduled: true, releaseDate: nextReleaseDate },
+      });
+    } else if (album.isScheduled) {
+      await prisma.track.updateMany({
+        where: { albumId, isScheduled: true },
+        data: { isPublic: visibility.isPublic, isScheduled: false },
+      });
+    }
     
     const updated = await prisma.album.update({
       where: { id: albumId },
-      data,
+      data: { ...data, releaseDate: nextReleaseDate, ...visibility },
       include: {
         artist: {
           select: {
@@ -174,11 +256,13 @@ albumRoutes.delete('/:albumId', authenticate, async (req: Request, res: Response
       throw errors.forbidden('You can only delete your own albums');
     }
     
-    // Remove album reference from tracks first
+    // Remove album reference from tracks first (and the album-wide gain with it)
+    const tracks = await prisma.track.findMany({ where: { albumId }, select: { id: true } });
     await prisma.track.updateMany({
       where: { albumId },
-      data: { albumId: null },
+      data: { albumId: null, albumGain: null, albumPeak: null },
     });
+    await Promise.all(tracks.map((track: { id: string }) => cache.del(cacheKeys.trackMeta(track.id))));
     
     await prisma.album.delete({ where: { id: albumId } });
     
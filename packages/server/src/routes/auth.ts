@@ -587,7 +587,7 @@ authRoutes.get('/me', authenticate, async (req: Request, res: Response, next: Ne
         _count: {
           select: {
             tracks: true,
-            playlists: true,
+            playlists: { where: { deletedAt: null } },
             followers: true,
             following: true,
           },
@@ -0,0 +1,55 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { errors } from '../middleware/errorHandler.js';
+import {
+  INTERNAL_PREFIXES,
+  isPublicKey,
+  keyFromPath,
+  localPath,
+  storage,
+  verifyLocalSignature,
+} from '../services/storage/index.js';
+
+export const fileRoutes = Router();
+
+/**
+ * STORED FILES (/uploads/<key>)
+ *
+ * Artwork (covers/, avatars/) is public. Anything else needs a URL from
+ * storage.getSignedUrl(). With S3 the request is redirected to the bucket so
+ * the API never proxies the bytes.
+ */
+
+fileRoutes.get('/*', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const key = keyFromPath(req.path.slice(1));
+
+    if (!key || INTERNAL_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+      throw errors.notFound('File not found');
+    }
+
+    const filePath = localPath(key);
+
+    if (!isPublicKey(key)) {
+      const { expires, signature } = req.query as Record<string, string>;
+
+      // Signed S3 URLs point at the bucket, so only local links are checked here
+      if (!filePath || !verifyLocalSignature(key, expires, signature)) {
+        throw errors.forbidden('Invalid or expired link');
+      }
+    }
+
+    if (filePath) {
+      // sendFile handles ranges, ETag and Last-Modified
+      return res.sendFile(filePath, { maxAge: '1d', lastModified: true }, (err) => {
+        if (err && !res.headersSent) {
+          next(errors.notFound('File not found'));
+        }
+      });
+    }
+
+    res.set('Cache-Control', 'public, max-age=300');
+    res.redirect(302, await storage.getSignedUrl(key));
+  } catch (error) {
+    next(error);
+  }
+});
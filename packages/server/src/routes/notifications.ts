@@ -0,0 +1,54 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db/client.js';
+import { errors } from '../middleware/errorHandler.js';
+import { authenticate } from '../middleware/auth.js';
+
+export const notificationRoutes = Router();
+
+// Latest notifications plus the unread count for the badge
+notificationRoutes.get('/', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 30, 100);
+    
+    const [notifications, unread] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId: req.user!.id },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.notification.count({
+        where: { userId: req.user!.id, readAt: null },
+      }),
+    ]);
+    
+    res.json({ notifications, unread });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark notifications read (all of them when no ids are given)
+notificationRoutes.post('/read', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { ids } = z.object({
+      ids: z.array(z.string().uuid()).max(100).optional(),
+    }).parse(req.body ?? {});
+    
+    await prisma.notification.updateMany({
+      where: {
+        userId: req.user!.id,
+        readAt: null,
+        ...(ids && { id: { in: ids } }),
+      },
+      data: { readAt: new Date() },
+    });
+    
+    res.status(204).end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
+    next(error);
+  }
+});
@@ -1,30 +1,95 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import { v4 as uuid } from 'uuid';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../db/client.js';
 import { errors } from '../middleware/errorHandler.js';
 import { authenticate, optionalAuth } from '../middleware/auth.js';
+import {
+  MAX_PLAYLIST_TRACKS,
+  createInviteToken,
+  editPlaylistEntries,
+  getPlaylistAccess,
+  inviteUnusableReason,
+  moveRange,
+  recordChange,
+  revertToChange,
+} from '../services/playlists.js';
+import { refreshIfStale, refreshSmartPlaylist, smartRulesSchema } from '../services/smartPlaylists.js';
+import {
+  FORMAT_CONTENT_TYPES,
+  PLAYLIST_FORMATS,
+  PlaylistFormat,
+  detectFormat,
+  exportPlaylist,
+  parsePlaylist,
+} from '../services/playlistFormats.js';
+import { matchEntries } from '../services/trackMatcher.js';
+import { config } from '../config/index.js';
 
 export const playlistRoutes = Router();
 
+const userSelect = {
+  select: {
+    id: true,
+    username: true,
+    displayName: true,
+    avatarUrl: true,
+  },
+} as const;
+
+// Your deleted playlists that can still be restored
+playlistRoutes.get('/deleted', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const restoreMs = config.deletedPlaylists.restoreDays * 24 * 60 * 60 * 1000;
+    
+    const playlists = await prisma.playlist.findMany({
+      where: {
+        userId: req.user!.id,
+        deletedAt: { gte: new Date(Date.now() - restoreMs) },
+      },
+      orderBy: { deletedAt: 'desc' },
+      include: {
+        _count: { select: { tracks: true } },
+      },
+    });
+    
+    res.json(
+      playlists.map((playlist: { deletedAt: Date | null }) => ({
+        ...playlist,
+        restorableUntil: new Date(playlist.deletedAt!.getTime() + restoreMs),
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get playlist by ID
 playlistRoutes.get('/:playlistId', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { playlistId } = req.params;
     
+    const access = await getPlaylistAccess(playlistId, req.user?.id);
+    
+    if (!access.canView) {
+      throw errors.forbidden('This playlist is private');
+    }
+    
+    await refreshIfStale(access.playlist);
+    
     const playlist = await prisma.playlist.findUnique({
       where: { id: playlistId },
       include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true,
-          },
+        user: userSelect,
+        members: {
+          orderBy: { joinedAt: 'asc' },
+          include: { user: userSelect },
         },
         tracks: {
           orderBy: { position: 'asc' },
           include: {
+            addedBy: userSelect,
             track: {
               include: {
                 artist: {
@@ -56,23 +121,40 @@ playlistRoutes.get('/:playlistId', optionalAuth, async (req: Request, res: Respo
       throw errors.notFound('Playlist not found');
     }
     
-    if (!playlist.isPublic && req.user?.id !== playlist.userId) {
-      throw errors.forbidden('This playlist is private');
-    }
-    
     // Calculate total duration
     const totalDuration = playlist.tracks.reduce(
       (acc: number, pt: { track: { duration: number } }) => acc + pt.track.duration,
       0
     );
     
+    // Everyone who added tracks, most tracks first
+    const contributors = new Map<string, { user: any; trackCount: number }>();
+    for (const pt of playlist.tracks as any[]) {
+      if (!pt.addedBy) continue;
+      const contributor = contributors.get(pt.addedBy.id) ?? { user: pt.addedBy, trackCount: 0 };
+      contributor.trackCount++;
+      contributors.set(pt.addedBy.id, contributor);
+    }
+    
     res.json({
       ...playlist,
       tracks: playlist.tracks.map((pt: any) => ({
         ...pt.track,
+        entryId: pt.id, // Tells apart two occurrences of the same track
         addedAt: pt.addedAt,
+        addedBy: pt.addedBy,
         position: pt.position,
       })),
+      members: playlist.members.map((member: any) => ({
+        ...member.user,
+        role: member.role,
+        joinedAt: member.joinedAt,
+      })),
+      contributors: [...contributors.values()]
+        .sort((a, b) => b.trackCount - a.trackCount)
+        .map(({ user, trackCount }) => ({ ...user, trackCount })),
+      role: access.role,
+      canEdit: access.canEdit,
       totalDuration,
     });
   } catch (error) {
@@ -80,6 +162,20 @@ playlistRoutes.get('/:playlistId', optionalAuth, async (req: Request, res: Respo
   }
 });
 
+// Unique among the user's playlists
+async function playlistSlug(userId: string, title: string): Promise<string> {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  
+  const existing = await prisma.playlist.findFirst({
+    where: { userId, slug },
+  });
+  
+  return existing ? `${slug}-${Date.now()}` : slug;
+}
+
 // Create playlist
 playlistRoutes.post('/', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -88,37 +184,28 @@ playlistRoutes.post('/', authenticate, async (req: Request, res: Response, next:
       description: z.string().max(1000).optional(),
       isPublic: z.boolean().optional(),
       isCollaborative: z.boolean().optional(),
+      rules: smartRulesSchema.optional(),
     });
     
     const data = schema.parse(req.body);
     
-    const slug = data.title
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
-    
-    const existing = await prisma.playlist.findFirst({
-      where: { userId: req.user!.id, slug },
-    });
-    
     const playlist = await prisma.playlist.create({
       data: {
         ...data,
-        slug: existing ? `${slug}-${Date.now()}` : slug,
+        slug: await playlistSlug(req.user!.id, data.title),
         userId: req.user!.id,
       },
       include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatarUrl: true,
-          },
-        },
+        user: userSelect,
       },
     });
     
+    await recordChange(prisma, playlist.id, { type: 'CREATE', userId: req.user!.id });
+    
+    if (data.rules) {
+      await refreshSmartPlaylist(playlist.id);
+    }
+    
     res.status(201).json(playlist);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -128,109 +215,387 @@ playlistRoutes.post('/', authenticate, async (req: Request, res: Response, next:
   }
 });
 
-// Add track to playlist
+// Add tracks to playlist
+const addTracksSchema = z
+  .object({
+    trackId: z.string().optional(),
+    trackIds: z.array(z.string()).min(1).max(500).optional(),
+    position: z.number().int().min(0).optional(), // Index to insert at; appended by default
+    allowDuplicates: z.boolean().optional(),
+  })
+  .refine((data) => data.trackId || data.trackIds, { message: 'Track ID required' });
+
 playlistRoutes.post('/:playlistId/tracks', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { playlistId } = req.params;
-    const { trackId } = req.body;
+    const data = addTracksSchema.parse(req.body);
+    const trackIds = data.trackIds ?? [data.trackId!];
+    const uniqueIds = [...new Set(trackIds)];
     
-    if (!trackId) {
-      throw errors.badRequest('Track ID required');
+    const { canEdit } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (!canEdit) {
+      throw errors.forbidden('Cannot add tracks to this playlist');
     }
     
-    const playlist = await prisma.playlist.findUnique({
-      where: { id: playlistId },
+    // Check the tracks exist
+    const tracks = await prisma.track.findMany({
+      where: { id: { in: uniqueIds } },
+      select: { id: true },
     });
     
-    if (!playlist) {
-      throw errors.notFound('Playlist not found');
-    }
-    
-    if (playlist.userId !== req.user!.id && !playlist.isCollaborative) {
-      throw errors.forbidden('Cannot add tracks to this playlist');
+    if (tracks.length !== uniqueIds.length) {
+      const found = new Set(tracks.map((track: { id: string }) => track.id));
+      const missing = uniqueIds.find((id) => !found.has(id));
+      throw errors.notFound(data.trackIds ? `Track not found: ${missing}` : 'Track not found');
     }
     
-    // Check if track exists
-    const track = await prisma.track.findUnique({
-      where: { id: trackId },
+    const result = await editPlaylistEntries(playlistId, async (tx, entries) => {
+      // Unless duplicates are asked for, tracks already there (or repeated in the request) are skipped
+      const present = new Set(entries.map((entry) => entry.trackId));
+      const toAdd = data.allowDuplicates ? trackIds : uniqueIds.filter((id) => !present.has(id));
+      const skipped = data.allowDuplicates ? [] : uniqueIds.filter((id) => present.has(id));
+      
+      if (toAdd.length === 0 && !data.trackIds) {
+        throw errors.conflict('Track already in playlist');
+      }
+      
+      if (entries.length + toAdd.length > MAX_PLAYLIST_TRACKS) {
+        throw errors.unprocessable(`Playlists can hold up to ${MAX_PLAYLIST_TRACKS} tracks`);
+      }
+      
+      const added = toAdd.map((trackId) => ({ entryId: uuid(), trackId }));
+      await tx.playlistTrack.createMany({
+        data: added.map(({ entryId, trackId }, index) => ({
+          id: entryId,
+          playlistId,
+          trackId,
+          position: entries.length + index + 1,
+          addedById: req.user!.id,
+        })),
+      });
+      
+      const ids = entries.map((entry) => entry.id);
+      const at = Math.min(data.position ?? ids.length, ids.length);
+      
+      return {
+        order: [...ids.slice(0, at), ...added.map((entry) => entry.entryId), ...ids.slice(at)],
+        result: { added, skipped },
+        change: added.length > 0
+          ? { type: 'ADD', userId: req.user!.id, details: { trackIds: toAdd, position: at } }
+          : undefined,
+      };
     });
     
-    if (!track) {
-      throw errors.notFound('Track not found');
+    res.json({
+      message: result.added.length === 1 ? 'Track added to playlist' : `${result.added.length} tracks added to playlist`,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
     }
+    next(error);
+  }
+});
+
+/**
+ * Remove entries (specific occurrences) and/or every occurrence of tracks
+ * All or nothing: one entry the user may not remove fails the whole request
+ */
+async function removeEntries(
+  playlistId: string,
+  userId: string,
+  { entryIds = [], trackIds = [] }: { entryIds?: string[]; trackIds?: string[] }
+): Promise<number> {
+  const { role, canEdit } = await getPlaylistAccess(playlistId, userId);
+  
+  if (!canEdit) {
+    throw errors.forbidden('Cannot modify this playlist');
+  }
+  
+  return editPlaylistEntries(playlistId, async (tx, entries) => {
+    const byEntry = new Set(entryIds);
+    const byTrack = new Set(trackIds);
+    const removed = entries.filter((entry) => byEntry.has(entry.id) || byTrack.has(entry.trackId));
     
-    // Check if already in playlist
-    const existing = await prisma.playlistTrack.findUnique({
-      where: {
-        playlistId_trackId: { playlistId, trackId },
-      },
-    });
+    const removedIds = new Set(removed.map((entry) => entry.id));
+    const removedTracks = new Set(removed.map((entry) => entry.trackId));
+    if (entryIds.some((id) => !removedIds.has(id)) || trackIds.some((id) => !removedTracks.has(id))) {
+      throw errors.notFound('Track not in playlist');
+    }
     
-    if (existing) {
-      throw errors.conflict('Track already in playlist');
+    // The owner curates everything; editors only take back their own additions
+    if (role !== 'OWNER' && removed.some((entry) => entry.addedById !== userId)) {
+      throw errors.forbidden('You can only remove tracks you added');
     }
     
-    // Get max position
-    const maxPosition = await prisma.playlistTrack.aggregate({
-      where: { playlistId },
-      _max: { position: true },
-    });
+    await tx.playlistTrack.deleteMany({ where: { id: { in: [...removedIds] } } });
     
-    await prisma.playlistTrack.create({
-      data: {
-        playlistId,
-        trackId,
-        position: (maxPosition._max.position || 0) + 1,
-      },
-    });
+    return {
+      order: entries.filter((entry) => !removedIds.has(entry.id)).map((entry) => entry.id),
+      result: removed.length,
+      change: { type: 'REMOVE', userId, details: { trackIds: removed.map((entry) => entry.trackId) } },
+    };
+  });
+}
+
+// Remove many tracks at once
+playlistRoutes.delete('/:playlistId/tracks', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const schema = z
+      .object({
+        entryIds: z.array(z.string()).max(1000).optional(),
+        trackIds: z.array(z.string()).max(1000).optional(),
+      })
+      .refine((data) => data.entryIds?.length || data.trackIds?.length, {
+        message: 'Nothing to remove',
+      });
+    
+    const data = schema.parse(req.body);
+    const removed = await removeEntries(req.params.playlistId, req.user!.id, data);
     
-    res.json({ message: 'Track added to playlist' });
+    res.json({ message: `${removed} track${removed === 1 ? '' : 's'} removed from playlist`, removed });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
     next(error);
   }
 });
 
-// Remove track from playlist
+// Remove track from playlist (every occurrence of it)
 playlistRoutes.delete('/:playlistId/tracks/:trackId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { playlistId, trackId } = req.params;
     
-    const playlist = await prisma.playlist.findUnique({
-      where: { id: playlistId },
-    });
+    await removeEntries(playlistId, req.user!.id, { trackIds: [trackId] });
     
-    if (!playlist) {
-      throw errors.notFound('Playlist not found');
+    res.json({ message: 'Track removed from playlist' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Reorder tracks
+ * Either move a range (rangeStart, rangeLength, insertBefore, indexes into
+ * the current order, as in Spotify's API) or send the full new order of
+ * entry ids. entryId, the entry expected at rangeStart, catches moves
+ * made against a stale copy of the playlist.
+ */
+const reorderSchema = z.object({
+  rangeStart: z.number().int().min(0).optional(),
+  rangeLength: z.number().int().min(1).default(1),
+  insertBefore: z.number().int().min(0).optional(),
+  entryId: z.string().optional(),
+  order: z.array(z.string()).max(MAX_PLAYLIST_TRACKS).optional(),
+});
+
+playlistRoutes.patch('/:playlistId/tracks/order', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId } = req.params;
+    const data = reorderSchema.parse(req.body);
+    
+    if (!data.order && (data.rangeStart === undefined || data.insertBefore === undefined)) {
+      throw errors.badRequest('Send order, or rangeStart and insertBefore');
     }
     
-    if (playlist.userId !== req.user!.id) {
+    const { canEdit } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (!canEdit) {
       throw errors.forbidden('Cannot modify this playlist');
     }
     
-    await prisma.playlistTrack.deleteMany({
-      where: { playlistId, trackId },
+    const order = await editPlaylistEntries(playlistId, async (_tx, entries) => {
+      const ids = entries.map((entry) => entry.id);
+      let order: string[];
+      let details: Prisma.InputJsonValue;
+      
+      if (data.order) {
+        // Must name every entry once, so nothing added or removed meanwhile gets lost
+        const given = new Set(data.order);
+        if (given.size !== data.order.length || data.order.length !== ids.length || ids.some((id) => !given.has(id))) {
+          throw errors.conflict('The playlist has changed, reload it and try again');
+        }
+        order = data.order;
+        details = { full: true };
+      } else {
+        if (data.entryId && ids[data.rangeStart!] !== data.entryId) {
+          throw errors.conflict('The playlist has changed, reload it and try again');
+        }
+        order = moveRange(ids, data.rangeStart!, data.rangeLength, data.insertBefore!);
+        details = { rangeStart: data.rangeStart!, rangeLength: data.rangeLength, insertBefore: data.insertBefore! };
+      }
+      
+      const moved = order.some((id, index) => id !== ids[index]);
+      return { order, result: order, change: moved ? { type: 'REORDER', userId: req.user!.id, details } : undefined };
     });
     
-    res.json({ message: 'Track removed from playlist' });
+    res.json({ order });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
     next(error);
   }
 });
 
-// Update playlist
-playlistRoutes.patch('/:playlistId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+// Export playlist as M3U8, XSPF or JSPF
+playlistRoutes.get('/:playlistId/export', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { playlistId } = req.params;
+    const format = String(req.query.format || 'm3u8').toLowerCase() as PlaylistFormat;
+    
+    if (!PLAYLIST_FORMATS.includes(format)) {
+      throw errors.badRequest(`Format must be one of ${PLAYLIST_FORMATS.join(', ')}`);
+    }
+    
+    const access = await getPlaylistAccess(playlistId, req.user?.id);
+    
+    if (!access.canView) {
+      throw errors.forbidden('This playlist is private');
+    }
+    
+    await refreshIfStale(access.playlist);
     
     const playlist = await prisma.playlist.findUnique({
       where: { id: playlistId },
+      include: {
+        user: userSelect,
+        tracks: {
+          orderBy: { position: 'asc' },
+          include: {
+            track: {
+              include: {
+                artist: userSelect,
+                album: { select: { title: true, coverUrl: true } },
+              },
+            },
+          },
+        },
+      },
     });
     
     if (!playlist) {
       throw errors.notFound('Playlist not found');
     }
     
-    if (playlist.userId !== req.user!.id) {
+    // Covers are public files served next to the API
+    const imageUrl = (path: string | null) => {
+      if (!path) return null;
+      return /^https?:\/\//.test(path) ? path : `${req.protocol}://${req.get('host')}/uploads/${path}`;
+    };
+    
+    const body = exportPlaylist(format, {
+      title: playlist.title,
+      description: playlist.description,
+      creator: playlist.user.displayName || playlist.user.username,
+      url: `${config.appUrl}/playlist/${playlist.id}`,
+      updatedAt: playlist.updatedAt,
+      tracks: playlist.tracks.map(({ track }: any) => ({
+        title: track.title,
+        artist: track.artist.displayName || track.artist.username,
+        album: track.album?.title ?? null,
+        duration: track.duration,
+        url: `${config.appUrl}/track/${track.id}`,
+        imageUrl: imageUrl(track.coverUrl ?? track.album?.coverUrl ?? null),
+      })),
+    });
+    
+    res.setHeader('Content-Type', FORMAT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${playlist.slug || 'playlist'}.${format}"`);
+    res.send(body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Import a playlist file as a new playlist
+ * Entries are matched to public tracks (see services/trackMatcher.ts);
+ * the response lists the ones that didn't match, with the closest track
+ * when there was one.
+ */
+playlistRoutes.post('/import', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const schema = z.object({
+      content: z.string().min(1, 'The file is empty').max(5 * 1024 * 1024, 'The file is too large'),
+      format: z.enum(PLAYLIST_FORMATS).optional(), // Detected from the content if missing
+      title: z.string().min(1).max(200).optional(), // Defaults to the file's own title
+      description: z.string().max(1000).optional(),
+      isPublic: z.boolean().optional(),
+    });
+    
+    const { content, format = detectFormat(content), ...data } = schema.parse(req.body);
+    const imported = parsePlaylist(format, content);
+    
+    if (imported.entries.length === 0) {
+      throw errors.unprocessable('No tracks found in the file');
+    }
+    
+    if (imported.entries.length > MAX_PLAYLIST_TRACKS) {
+      throw errors.unprocessable(`Playlists can hold up to ${MAX_PLAYLIST_TRACKS} tracks`);
+    }
+    
+    const matches = await matchEntries(imported.entries);
+    const title = (data.title ?? imported.title ?? 'Imported playlist').slice(0, 200);
+    const trackIds = matches.flatMap((match) => (match.trackId ? [match.trackId] : []));
+    
+    const playlist = await prisma.playlist.create({
+      data: {
+        ...data,
+        title,
+        slug: await playlistSlug(req.user!.id, title),
+        userId: req.user!.id,
+        tracks: {
+          create: trackIds.map((trackId, index) => ({
+            trackId,
+            position: index + 1,
+            addedById: req.user!.id,
+          })),
+        },
+      },
+      include: {
+        user: userSelect,
+      },
+    });
+    
+    await recordChange(prisma, playlist.id, {
+      type: 'CREATE',
+      userId: req.user!.id,
+      details: { imported: { format, total: imported.entries.length, matched: trackIds.length } },
+    });
+    
+    const unmatched = matches.flatMap((match, index) => {
+      if (match.trackId !== null) return [];
+      const { title, artist, album, duration } = imported.entries[index];
+      return [{ index, title, artist, album, duration, reason: match.reason, suggestion: match.suggestion }];
+    });
+    
+    res.status(201).json({
+      playlist,
+      format,
+      total: imported.entries.length,
+      matched: trackIds.length,
+      unmatched,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
+    next(error);
+  }
+});
+
+// Update playlist
+playlistRoutes.patch('/:playlistId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId } = req.params;
+    
+    const { playlist, role } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (role !== 'OWNER') {
       throw errors.forbidden('Cannot edit this playlist');
     }
     
@@ -240,15 +605,47 @@ playlistRoutes.patch('/:playlistId', authenticate, async (req: Request, res: Res
       coverUrl: z.string().optional().nullable(),
       isPublic: z.boolean().optional(),
       isCollaborative: z.boolean().optional(),
+      rules: smartRulesSchema.nullable().optional(), // null turns it into a regular playlist, keeping its tracks
     });
     
-    const data = schema.parse(req.body);
+    const { rules, ...data } = schema.parse(req.body);
     
-    const updated = await prisma.playlist.update({
-      where: { id: playlistId },
-      data,
+    // Old and new value of every field that actually changes, for the history
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const [field, value] of Object.entries({ ...data, ...(rules !== undefined && { rules }) })) {
+      const before = playlist[field as keyof typeof playlist];
+      if (JSON.stringify(before ?? null) !== JSON.stringify(value ?? null)) {
+        changes[field] = { from: before ?? null, to: value ?? null };
+      }
+    }
+    
+    const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const updated = await tx.playlist.update({
+        where: { id: playlistId },
+        data: {
+          ...data,
+          ...(rules !== undefined && {
+            rules: rules ?? Prisma.DbNull,
+            rulesEvaluatedAt: null,
+          }),
+        },
+      });
+      
+      if (Object.keys(changes).length > 0) {
+        await recordChange(tx, playlistId, {
+          type: 'UPDATE',
+          userId: req.user!.id,
+          details: { changes } as Prisma.InputJsonValue,
+        });
+      }
+      
+      return updated;
     });
     
+    if (rules) {
+      await refreshSmartPlaylist(playlistId);
+    }
+    
     res.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -258,8 +655,35 @@ playlistRoutes.patch('/:playlistId', authenticate, async (req: Request, res: Res
   }
 });
 
-// Delete playlist
+// Delete playlist (to the trash, restorable for a while)
 playlistRoutes.delete('/:playlistId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId } = req.params;
+    
+    const { role } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (role !== 'OWNER') {
+      throw errors.forbidden('Cannot delete this playlist');
+    }
+    
+    const deletedAt = new Date();
+    
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.playlist.update({ where: { id: playlistId }, data: { deletedAt } });
+      await recordChange(tx, playlistId, { type: 'DELETE', userId: req.user!.id });
+    });
+    
+    res.json({
+      message: 'Playlist deleted',
+      restorableUntil: new Date(deletedAt.getTime() + config.deletedPlaylists.restoreDays * 24 * 60 * 60 * 1000),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Bring a deleted playlist back
+playlistRoutes.post('/:playlistId/restore', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { playlistId } = req.params;
     
@@ -267,17 +691,81 @@ playlistRoutes.delete('/:playlistId', authenticate, async (req: Request, res: Re
       where: { id: playlistId },
     });
     
-    if (!playlist) {
-      throw errors.notFound('Playlist not found');
+    // Someone else's trash looks the same as nothing at all
+    if (!playlist || !playlist.deletedAt || playlist.userId !== req.user!.id) {
+      throw errors.notFound('No deleted playlist to restore');
     }
     
-    if (playlist.userId !== req.user!.id) {
-      throw errors.forbidden('Cannot delete this playlist');
+    const restored = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const restored = await tx.playlist.update({ where: { id: playlistId }, data: { deletedAt: null } });
+      await recordChange(tx, playlistId, { type: 'RESTORE', userId: req.user!.id });
+      return restored;
+    });
+    
+    res.json(restored);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change log, newest first
+playlistRoutes.get('/:playlistId/history', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const cursor = req.query.cursor as string | undefined; // id of the last change on the previous page
+    
+    const { canView } = await getPlaylistAccess(playlistId, req.user?.id);
+    
+    if (!canView) {
+      throw errors.forbidden('This playlist is private');
     }
     
-    await prisma.playlist.delete({ where: { id: playlistId } });
+    // Snapshots can be large, so the list leaves them out
+    const changes = await prisma.playlistChange.findMany({
+      where: { playlistId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: {
+        id: true,
+        type: true,
+        details: true,
+        trackCount: true,
+        createdAt: true,
+        user: userSelect,
+      },
+    });
     
-    res.json({ message: 'Playlist deleted' });
+    const hasMore = changes.length > limit;
+    const page = changes.slice(0, limit);
+    
+    res.json({
+      changes: page,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Go back to the state right after an earlier change
+playlistRoutes.post('/:playlistId/history/:changeId/restore', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId, changeId } = req.params;
+    
+    const { role } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (role !== 'OWNER') {
+      throw errors.forbidden('Only the owner can restore earlier versions');
+    }
+    
+    const { skipped } = await revertToChange(playlistId, changeId, req.user!.id);
+    
+    res.json({
+      message: 'Playlist restored',
+      skipped, // Tracks that no longer exist
+    });
   } catch (error) {
     next(error);
   }
@@ -299,14 +787,15 @@ playlistRoutes.get('/user/:username', optionalAuth, async (req: Request, res: Re
     
     const isOwner = req.user?.id === user.id;
     
+    // Your own library also lists the playlists you've joined
     const playlists = await prisma.playlist.findMany({
-      where: {
-        userId: user.id,
-        ...(isOwner ? {} : { isPublic: true }),
-      },
+      where: isOwner
+        ? { deletedAt: null, OR: [{ userId: user.id }, { members: { some: { userId: user.id } } }] }
+        : { userId: user.id, isPublic: true, deletedAt: null },
       orderBy: { updatedAt: 'desc' },
       include: {
-        _count: { select: { tracks: true } },
+        user: userSelect,
+        _count: { select: { tracks: true, members: true } },
       },
     });
     
@@ -315,3 +804,260 @@ playlistRoutes.get('/user/:username', optionalAuth, async (req: Request, res: Re
     next(error);
   }
 });
+
+/**
+ * INVITES & MEMBERS
+ * 
+ * The owner shares invite links; opening one while signed in makes you a
+ * member with the invite's role. Links can expire, have a use limit and
+ * be revoked.
+ */
+
+const inviteSchema = z.object({
+  role: z.enum(['EDITOR', 'VIEWER']).default('EDITOR'),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+  maxUses: z.number().int().min(1).max(1000).optional(),
+});
+
+// Create an invite link
+playlistRoutes.post('/:playlistId/invites', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId } = req.params;
+    const data = inviteSchema.parse(req.body);
+    
+    const { playlist, role } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (role !== 'OWNER') {
+      throw errors.forbidden('Only the owner can invite people');
+    }
+    
+    if (data.role === 'EDITOR' && !playlist.isCollaborative) {
+      throw errors.badRequest('Make the playlist collaborative to invite editors');
+    }
+    
+    const invite = await prisma.playlistInvite.create({
+      data: {
+        token: createInviteToken(),
+        role: data.role,
+        maxUses: data.maxUses,
+        expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+        playlistId,
+        createdById: req.user!.id,
+      },
+    });
+    
+    res.status(201).json(invite);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
+    next(error);
+  }
+});
+
+// List invite links that still work
+playlistRoutes.get('/:playlistId/invites', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId } = req.params;
+    
+    const { role } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (role !== 'OWNER') {
+      throw errors.forbidden('Only the owner can manage invites');
+    }
+    
+    const invites = await prisma.playlistInvite.findMany({
+      where: { playlistId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+    
+    res.json(invites.filter((invite: Parameters<typeof inviteUnusableReason>[0]) => !inviteUnusableReason(invite)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Revoke an invite link
+playlistRoutes.delete('/:playlistId/invites/:inviteId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId, inviteId } = req.params;
+    
+    const { role } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (role !== 'OWNER') {
+      throw errors.forbidden('Only the owner can manage invites');
+    }
+    
+    const { count } = await prisma.playlistInvite.updateMany({
+      where: { id: inviteId, playlistId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    
+    if (count === 0) {
+      throw errors.notFound('Invite not found');
+    }
+    
+    res.json({ message: 'Invite revoked' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// What an invite link leads to, shown before joining
+playlistRoutes.get('/invites/:token', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invite = await prisma.playlistInvite.findUnique({
+      where: { token: req.params.token },
+      include: {
+        playlist: {
+          select: {
+            id: true,
+            title: true,
+            description: true,
+            coverUrl: true,
+            deletedAt: true,
+            user: userSelect,
+            _count: { select: { tracks: true, members: true } },
+          },
+        },
+      },
+    });
+    
+    if (!invite || invite.playlist.deletedAt) {
+      throw errors.notFound('Invite not found');
+    }
+    
+    const reason = inviteUnusableReason(invite);
+    if (reason) {
+      throw errors.gone(reason);
+    }
+    
+    const { role } = req.user
+      ? await getPlaylistAccess(invite.playlistId, req.user.id)
+      : { role: null };
+    
+    res.json({
+      role: invite.role,
+      expiresAt: invite.expiresAt,
+      playlist: invite.playlist,
+      currentRole: role, // Already a member (or the owner)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Join a playlist through an invite link
+playlistRoutes.post('/invites/:token/accept', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.id;
+    
+    const invite = await prisma.playlistInvite.findUnique({
+      where: { token: req.params.token },
+      include: { playlist: { select: { userId: true, deletedAt: true } } },
+    });
+    
+    if (!invite || invite.playlist.deletedAt) {
+      throw errors.notFound('Invite not found');
+    }
+    
+    const reason = inviteUnusableReason(invite);
+    if (reason) {
+      throw errors.gone(reason);
+    }
+    
+    const { playlistId } = invite;
+    
+    if (invite.playlist.userId === userId) {
+      return res.json({ playlistId, role: 'OWNER' });
+    }
+    
+    // A viewer link never demotes an editor, and re-opening a link doesn't use it up
+    const existing = await prisma.playlistMember.findUnique({
+      where: { playlistId_userId: { playlistId, userId } },
+    });
+    
+    if (existing && (existing.role === 'EDITOR' || existing.role === invite.role)) {
+      return res.json({ playlistId, role: existing.role });
+    }
+    
+    // Claimed with a conditional update so concurrent joins can't exceed maxUses
+    const { count } = await prisma.playlistInvite.updateMany({
+      where: {
+        id: invite.id,
+        revokedAt: null,
+        ...(invite.maxUses !== null ? { uses: { lt: invite.maxUses } } : {}),
+      },
+      data: { uses: { increment: 1 } },
+    });
+    
+    if (count === 0) {
+      throw errors.gone('This invite link has been used up');
+    }
+    
+    const member = await prisma.playlistMember.upsert({
+      where: { playlistId_userId: { playlistId, userId } },
+      create: { playlistId, userId, role: invite.role },
+      update: { role: invite.role },
+    });
+    
+    res.json({ playlistId, role: member.role });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change a member's role
+playlistRoutes.patch('/:playlistId/members/:userId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId, userId } = req.params;
+    const { role: newRole } = z.object({ role: z.enum(['EDITOR', 'VIEWER']) }).parse(req.body);
+    
+    const { role } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (role !== 'OWNER') {
+      throw errors.forbidden('Only the owner can change roles');
+    }
+    
+    const { count } = await prisma.playlistMember.updateMany({
+      where: { playlistId, userId },
+      data: { role: newRole },
+    });
+    
+    if (count === 0) {
+      throw errors.notFound('Member not found');
+    }
+    
+    res.json({ userId, role: newRole });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
+    next(error);
+  }
+});
+
+// Remove a member, or leave a playlist yourself. Tracks they added stay
+playlistRoutes.delete('/:playlistId/members/:userId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { playlistId, userId } = req.params;
+    
+    const { role } = await getPlaylistAccess(playlistId, req.user!.id);
+    
+    if (role !== 'OWNER' && userId !== req.user!.id) {
+      throw errors.forbidden('Only the owner can remove members');
+    }
+    
+    const { count } = await prisma.playlistMember.deleteMany({
+      where: { playlistId, userId },
+    });
+    
+    if (count === 0) {
+      throw errors.notFound('Member not found');
+    }
+    
+    res.json({ message: userId === req.user!.id ? 'Left playlist' : 'Member removed' });
+  } catch (error) {
+    next(error);
+  }
+});
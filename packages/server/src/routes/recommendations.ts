@@ -0,0 +1,64 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { errors } from '../middleware/errorHandler.js';
+import { authenticate, optionalAuth } from '../middleware/auth.js';
+import { getForYou } from '../services/recommendations.js';
+import { createStation, getStation, nextStationTracks } from '../services/radio.js';
+
+export const recommendationRoutes = Router();
+
+// Personalised feed for the signed-in listener
+recommendationRoutes.get('/for-you', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 30, 100);
+    
+    const tracks = await getForYou(req.user!.id, limit);
+    
+    res.json({ tracks });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Start a radio station from a track, artist or genre
+recommendationRoutes.post('/radio', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const schema = z.object({
+      seedType: z.enum(['track', 'artist', 'genre']),
+      seed: z.string().min(1).max(100),
+      limit: z.number().int().min(1).max(50).optional(),
+    });
+    
+    const { seedType, seed, limit } = schema.parse(req.body);
+    
+    const station = await createStation(seedType, seed, req.user);
+    const tracks = await nextStationTracks(station, limit ?? 10);
+    
+    res.status(201).json({
+      stationId: station.id,
+      name: station.name,
+      seedType,
+      seed,
+      tracks,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
+    next(error);
+  }
+});
+
+// More tracks for a station (the player asks as its queue runs low)
+recommendationRoutes.get('/radio/:stationId/tracks', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+    
+    const station = await getStation(req.params.stationId, req.user?.id);
+    const tracks = await nextStationTracks(station, limit);
+    
+    res.json({ stationId: station.id, name: station.name, tracks });
+  } catch (error) {
+    next(error);
+  }
+});
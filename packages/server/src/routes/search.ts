@@ -1,153 +1,162 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import { prisma } from '../db/client.js';
 import { cache, cacheKeys } from '../db/redis.js';
-import { optionalAuth } from '../middleware/auth.js';
+import { errors } from '../middleware/errorHandler.js';
+import { authenticate, optionalAuth, requireArtist } from '../middleware/auth.js';
+import { SearchFilters, hasFilters, searchCatalog } from '../services/search.js';
+import {
+  getPopularCompletions,
+  getSearchInsights,
+  getTrendingSearches,
+  logSearch,
+  recordSearchClick,
+} from '../services/searchAnalytics.js';
 
 export const searchRoutes = Router();
 
-// Full-text search across tracks, artists, albums, playlists
+// Who a search or click came from, for analytics
+const searcherOf = (req: Request) => req.user?.id || req.ip || 'anonymous';
+
+// Filter and sort parameters; lists are comma separated (genre=rock,jazz)
+const commaList = z
+  .string()
+  .transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean));
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().default(''),
+  type: z.enum(['tracks', 'artists', 'albums', 'playlists']).optional(),
+  genre: commaList.pipe(z.array(z.string().max(50)).max(20)).optional(),
+  explicit: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  minDuration: z.coerce.number().int().min(0).optional(),
+  maxDuration: z.coerce.number().int().min(0).optional(),
+  year: z.coerce.number().int().min(1900).max(2100).optional(),
+  yearFrom: z.coerce.number().int().min(1900).max(2100).optional(),
+  yearTo: z.coerce.number().int().min(1900).max(2100).optional(),
+  albumType: commaList.pipe(z.array(z.enum(['ALBUM', 'EP', 'SINGLE', 'COMPILATION']))).optional(),
+  verified: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  sort: z.enum(['relevance', 'plays', 'newest', 'duration']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  cursor: z.string().max(500).optional(),
+});
+
+// Ranked full-text + fuzzy search across tracks, artists, albums, playlists (see services/search)
 searchRoutes.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const query = (req.query.q as string || '').trim();
-    const type = req.query.type as string; // 'tracks', 'artists', 'albums', 'playlists', or undefined for all
+    const params = searchQuerySchema.parse(req.query);
+    const query = params.q;
+    const type = params.type; // undefined for all
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
-    
-    if (!query || query.length < 2) {
+
+    const filters: SearchFilters = {
+      genres: params.genre,
+      explicit: params.explicit,
+      minDuration: params.minDuration,
+      maxDuration: params.maxDuration,
+      yearFrom: params.yearFrom ?? params.year,
+      yearTo: params.yearTo ?? params.year,
+      albumTypes: params.albumType,
+      verifiedOnly: params.verified || undefined,
+    };
+
+    // Filters alone are enough to browse; a bare query needs two characters
+    if (query.length < 2 && !hasFilters(filters)) {
       return res.json({
         tracks: [],
         artists: [],
         albums: [],
         playlists: [],
+        cursors: {},
       });
     }
-    
+
     // Check cache
-    const cacheKey = cacheKeys.search(`${query}:${type || 'all'}:${limit}`);
-    const cached = await cache.get<any>(cacheKey);
-    if (cached) {
-      return res.json(cached);
-    }
-    
-    const searchPattern = `%${query}%`;
-    
-    const results: {
-      tracks?: any[];
-      artists?: any[];
-      albums?: any[];
-      playlists?: any[];
-    } = {};
-    
-    // Search tracks
-    if (!type || type === 'tracks') {
-      results.tracks = await prisma.track.findMany({
-        where: {
-          isPublic: true,
-          OR: [
-            { title: { contains: query, mode: 'insensitive' } },
-            { genre: { contains: query, mode: 'insensitive' } },
-          ],
-        },
-        take: limit,
-        orderBy: { playCount: 'desc' },
-        include: {
-          artist: {
-            select: {
-              id: true,
-              username: true,
-              displayName: true,
-              avatarUrl: true,
-            },
-          },
-          album: {
-            select: {
-              id: true,
-              title: true,
-              coverUrl: true,
-            },
-          },
-        },
+    const cacheKey = cacheKeys.search(JSON.stringify([query, type || 'all', limit, filters, params.sort, params.order, params.cursor]));
+    let results = await cache.get<any>(cacheKey);
+
+    if (!results) {
+      results = await searchCatalog({
+        query,
+        type,
+        limit,
+        filters,
+        sort: params.sort,
+        order: params.order,
+        cursor: params.cursor,
       });
+
+      // Cache for 2 minutes
+      await cache.set(cacheKey, results, 120);
     }
-    
-    // Search artists
-    if (!type || type === 'artists') {
-      results.artists = await prisma.user.findMany({
-        where: {
-          isArtist: true,
-          OR: [
-            { username: { contains: query, mode: 'insensitive' } },
-            { displayName: { contains: query, mode: 'insensitive' } },
-          ],
-        },
-        take: limit,
-        select: {
-          id: true,
-          username: true,
-          displayName: true,
-          avatarUrl: true,
-          isVerified: true,
-          _count: {
-            select: {
-              tracks: { where: { isPublic: true } },
-              followers: true,
-            },
-          },
-        },
+
+    // Log typed searches (not further pages); analytics never fail the search
+    let searchId: string | null = null;
+    if (query.length >= 2 && !params.cursor) {
+      const resultCount = ['tracks', 'artists', 'albums', 'playlists']
+        .reduce((sum, key) => sum + (results[key]?.length ?? 0), 0);
+
+      searchId = await logSearch({
+        query,
+        type,
+        filtered: hasFilters(filters),
+        resultCount,
+        userId: req.user?.id,
+        searcher: searcherOf(req),
+      }).catch((err) => {
+        console.error('Failed to log search:', err);
+        return null;
       });
     }
-    
-    // Search albums
-    if (!type || type === 'albums') {
-      results.albums = await prisma.album.findMany({
-        where: {
-          isPublic: true,
-          title: { contains: query, mode: 'insensitive' },
-        },
-        take: limit,
-        include: {
-          artist: {
-            select: {
-              id: true,
-              username: true,
-              displayName: true,
-              avatarUrl: true,
-            },
-          },
-          _count: {
-            select: { tracks: true },
-          },
-        },
-      });
+
+    res.json({ ...results, searchId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
     }
-    
-    // Search playlists
-    if (!type || type === 'playlists') {
-      results.playlists = await prisma.playlist.findMany({
-        where: {
-          isPublic: true,
-          title: { contains: query, mode: 'insensitive' },
-        },
-        take: limit,
-        include: {
-          user: {
-            select: {
-              id: true,
-              username: true,
-              displayName: true,
-              avatarUrl: true,
-            },
-          },
-          _count: {
-            select: { tracks: true },
-          },
-        },
-      });
+    next(error);
+  }
+});
+
+// Record the result a searcher opened (click-through)
+searchRoutes.post('/:searchId/click', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clickSchema = z.object({
+      type: z.enum(['tracks', 'artists', 'albums', 'playlists']),
+      id: z.string().min(1).max(100),
+      position: z.number().int().min(0).optional(),
+    });
+
+    const click = clickSchema.parse(req.body);
+    await recordSearchClick(req.params.searchId, searcherOf(req), click);
+
+    res.status(204).end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
     }
-    
-    // Cache for 2 minutes
-    await cache.set(cacheKey, results, 120);
-    
-    res.json(results);
+    next(error);
+  }
+});
+
+// Most searched lately (queries that found something)
+searchRoutes.get('/trending', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+    const searches = await getTrendingSearches(limit);
+
+    res.json({ searches });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Search health and top zero-result queries: what listeners want but can't find
+searchRoutes.get('/insights', authenticate, requireArtist, async (req, res, next) => {
+  try {
+    const days = Math.min(parseInt(req.query.days as string) || 7, 90);
+    const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+
+    res.json(await getSearchInsights(days, limit));
   } catch (error) {
     next(error);
   }
@@ -162,8 +171,9 @@ searchRoutes.get('/suggestions', async (req, res, next) => {
       return res.json([]);
     }
     
-    // Get quick suggestions from tracks and artists
-    const [tracks, artists] = await Promise.all([
+    // Popular past searches first, then quick matches from tracks and artists
+    const [completions, tracks, artists] = await Promise.all([
+      getPopularCompletions(query, 3).catch(() => [] as string[]),
       prisma.track.findMany({
         where: {
           isPublic: true,
@@ -186,6 +196,7 @@ searchRoutes.get('/suggestions', async (req, res, next) => {
     ]);
     
     const suggestions = [
+      ...completions.map((value) => ({ type: 'query', value })),
       ...tracks.map((t: any) => ({ type: 'track', value: t.title })),
       ...artists.map((a: any) => ({ type: 'artist', value: a.displayName || a.username })),
     ];
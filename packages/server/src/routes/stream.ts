@@ -1,11 +1,20 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { createReadStream, statSync, existsSync } from 'fs';
 import path from 'path';
+import { z } from 'zod';
 import { prisma } from '../db/client.js';
 import { cache, cacheKeys } from '../db/redis.js';
-import { config } from '../config/index.js';
 import { errors } from '../middleware/errorHandler.js';
 import { optionalAuth } from '../middleware/auth.js';
+import { contentTypeFor, storage } from '../services/storage/index.js';
+import { sendStoredObject } from '../services/rangeRequests.js';
+import { recordHeartbeat } from '../services/plays.js';
+import {
+  StreamQuality,
+  StreamTokenPayload,
+  canStream,
+  createStreamToken,
+  verifyStreamToken,
+} from '../services/streamTokens.js';
 
 export const streamRoutes = Router();
 
@@ -13,16 +22,31 @@ export const streamRoutes = Router();
  * OPTIMIZED AUDIO STREAMING
  * 
  * Features:
- * 1. Range request support (seeking, resume)
+ * 1. Range request support (seeking, resume) per RFC 7233
  * 2. Adaptive quality based on connection & preference
  * 3. Chunked transfer for low memory usage
  * 4. Aggressive caching headers
- * 5. Play count tracking with debouncing
+ * 5. Play counting from listen heartbeats (POST /:trackId/heartbeat)
+ * 6. HLS/DASH adaptive bitrate renditions
+ * 7. Signed, expiring URLs (GET /:trackId/url) instead of open links
+ * 8. Opus/AAC renditions for players that ask for them, MP3 for the rest
  */
 
 // Quality preference from query or user settings
 type Quality = 'low' | 'medium' | 'high' | 'lossless';
 
+const QUALITIES: Quality[] = ['low', 'medium', 'high', 'lossless'];
+
+const FORMATS = ['progressive', 'hls', 'dash'];
+
+const parseQuality = (value: unknown): Quality => {
+  const quality = (value as Quality) || 'medium';
+  if (!QUALITIES.includes(quality)) {
+    throw errors.badRequest(`Invalid quality. Use: ${QUALITIES.join(', ')}`);
+  }
+  return quality;
+};
+
 const getQualityFile = (track: any, quality: Quality): string | null => {
   switch (quality) {
     case 'low':
@@ -38,122 +62,374 @@ const getQualityFile = (track: any, quality: Quality): string | null => {
   }
 };
 
-// Stream audio with range support
-streamRoutes.get('/:trackId', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+/**
+ * CODEC NEGOTIATION
+ * 
+ * Players list the codecs they can decode in ?codec=opus,aac (preferred
+ * first) or in the Accept header. Wildcards don't count: only a player
+ * that names Opus or AAC gets it, everyone else gets the MP3 ladder.
+ */
+type Codec = 'mp3' | 'aac' | 'opus';
+
+const CODECS: Codec[] = ['opus', 'aac', 'mp3'];
+
+const RENDITION_COLUMNS: Record<Exclude<Codec, 'mp3'>, Record<'low' | 'medium' | 'high', string>> = {
+  aac: { low: 'fileUrlAacLow', medium: 'fileUrlAacMedium', high: 'fileUrlAacHigh' },
+  opus: { low: 'fileUrlOpusLow', medium: 'fileUrlOpusMedium', high: 'fileUrlOpusHigh' },
+};
+
+function codecForMediaType(type: string, codecs: string | undefined): Codec | null {
+  switch (type) {
+    case 'audio/opus':
+      return 'opus';
+    case 'audio/ogg':
+    case 'audio/webm':
+      // Without codecs= these could just as well mean Vorbis
+      return codecs === 'opus' ? 'opus' : null;
+    case 'audio/mp4':
+    case 'audio/aac':
+    case 'audio/x-m4a':
+      return 'aac';
+    case 'audio/mpeg':
+    case 'audio/mp3':
+      return 'mp3';
+    default:
+      return null;
+  }
+}
+
+// Codecs named in an Accept header, highest q first
+function acceptedCodecs(accept: string | undefined): Codec[] {
+  if (!accept) return [];
+  
+  const ranked = accept.split(',').map((range) => {
+    const [type, ...params] = range.split(';').map((part) => part.trim().toLowerCase());
+    const param = (name: string) =>
+      params.find((p) => p.startsWith(`${name}=`))?.slice(name.length + 1).replace(/"/g, '');
+    const q = parseFloat(param('q') ?? '1');
+    return { codec: codecForMediaType(type, param('codecs')), q: Number.isNaN(q) ? 1 : q };
+  });
+  
+  const codecs = ranked
+    .filter((range): range is { codec: Codec; q: number } => range.codec !== null && range.q > 0)
+    .sort((a, b) => b.q - a.q) // Stable, so equal q keeps header order
+    .map((range) => range.codec);
+  
+  return [...new Set(codecs)];
+}
+
+function requestedCodecs(req: Request): Codec[] {
+  if (typeof req.query.codec === 'string') {
+    const codecs = req.query.codec.split(',').map((codec) => codec.trim().toLowerCase());
+    if (codecs.some((codec) => !CODECS.includes(codec as Codec))) {
+      throw errors.badRequest(`Invalid codec. Use: ${CODECS.join(', ')}`);
+    }
+    return codecs as Codec[];
+  }
+  
+  return acceptedCodecs(req.headers.accept);
+}
+
+/**
+ * Pick the file to serve: the first requested codec this track has at
+ * this quality, else MP3. Lossless is the FLAC rendition, or the original
+ * upload for tracks transcoded before FLAC existed (or uploaded lossy).
+ */
+function selectRendition(track: any, quality: Quality, codecs: Codec[]): { key: string | null; codec: Codec | null } {
+  if (quality === 'lossless') {
+    return { key: track.fileUrlFlac || track.fileUrl, codec: null };
+  }
+  
+  for (const codec of codecs) {
+    if (codec === 'mp3') break;
+    const key = track[RENDITION_COLUMNS[codec][quality]];
+    if (key) return { key, codec };
+  }
+  
+  return { key: getQualityFile(track, quality), codec: 'mp3' };
+}
+
+// Load stream metadata (cached)
+async function getStreamableTrack(trackId: string) {
+  // Try cache first
+  let track = await cache.get<any>(cacheKeys.trackMeta(trackId));
+  
+  if (!track) {
+    track = await prisma.track.findUnique({
+      where: { id: trackId },
+      select: {
+        id: true,
+        title: true,
+        fileUrl: true,
+        fileUrlLow: true,
+        fileUrlMedium: true,
+        fileUrlHigh: true,
+        fileUrlAacLow: true,
+        fileUrlAacMedium: true,
+        fileUrlAacHigh: true,
+        fileUrlOpusLow: true,
+        fileUrlOpusMedium: true,
+        fileUrlOpusHigh: true,
+        fileUrlFlac: true,
+        hlsUrl: true,
+        dashUrl: true,
+        duration: true,
+        truePeak: true,
+        trackGain: true,
+        albumGain: true,
+        albumPeak: true,
+        isPublic: true,
+        artistId: true,
+      },
+    });
+    
+    if (track) {
+      await cache.set(cacheKeys.trackMeta(trackId), track, 3600);
+    }
+  }
+  
+  if (!track) {
+    throw errors.notFound('Track not found');
+  }
+  
+  return track;
+}
+
+/**
+ * Validate the ?token= on a stream request
+ * The token identifies the listener, so no Authorization header is needed
+ */
+function requireStreamToken(req: Request, track: any, quality: StreamQuality): StreamTokenPayload {
+  const payload = verifyStreamToken(req.query.token as string | undefined);
+  
+  if (!payload) {
+    throw errors.unauthorized('Stream link is missing or has expired');
+  }
+  
+  if (payload.trackId !== track.id || payload.quality !== quality) {
+    throw errors.forbidden('Stream link is not valid for this track');
+  }
+  
+  // The track may have gone private after the link was issued
+  if (!track.isPublic && payload.userId !== track.artistId) {
+    throw errors.forbidden('This track is private');
+  }
+  
+  return payload;
+}
+
+// Issue a signed stream URL
+streamRoutes.get('/:trackId/url', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { trackId } = req.params;
-    const quality = (req.query.quality as Quality) || 'medium';
-    
-    // Try cache first
-    let track = await cache.get<any>(cacheKeys.trackMeta(trackId));
+    const format = (req.query.format as string) || 'progressive';
     
-    if (!track) {
-      track = await prisma.track.findUnique({
-        where: { id: trackId },
-        select: {
-          id: true,
-          title: true,
-          fileUrl: true,
-          fileUrlLow: true,
-          fileUrlMedium: true,
-          fileUrlHigh: true,
-          duration: true,
-          isPublic: true,
-          artistId: true,
-        },
-      });
-      
-      if (track) {
-        await cache.set(cacheKeys.trackMeta(trackId), track, 3600);
-      }
+    if (!FORMATS.includes(format)) {
+      throw errors.badRequest(`Invalid format. Use: ${FORMATS.join(', ')}`);
     }
     
-    if (!track) {
-      throw errors.notFound('Track not found');
+    const quality: StreamQuality = format === 'progressive' ? parseQuality(req.query.quality) : 'adaptive';
+    
+    const track = await getStreamableTrack(trackId);
+    
+    if (!canStream(req.user, track, quality)) {
+      throw track.isPublic
+        ? errors.forbidden('Lossless streaming requires Premium')
+        : errors.forbidden('This track is private');
     }
     
-    // Check if track is public or user is the artist
-    if (!track.isPublic && req.user?.id !== track.artistId) {
-      throw errors.forbidden('This track is private');
+    const { token, expiresAt } = createStreamToken({
+      userId: req.user?.id ?? null,
+      trackId,
+      quality,
+    });
+    
+    let url: string;
+    let rendition: { key: string | null; codec: Codec | null } = { key: null, codec: null };
+    switch (format) {
+      case 'hls':
+        if (!track.hlsUrl) throw errors.notFound('Adaptive stream not available');
+        url = `${req.baseUrl}/${trackId}/master.m3u8?token=${token}`;
+        break;
+      case 'dash':
+        if (!track.dashUrl) throw errors.notFound('Adaptive stream not available');
+        url = `${req.baseUrl}/${trackId}/dash/manifest.mpd?token=${token}`;
+        break;
+      default:
+        // progressive: the chosen codec goes into the URL, since <audio> sends its own Accept header
+        rendition = selectRendition(track, quality as Quality, requestedCodecs(req));
+        url = `${req.baseUrl}/${trackId}?quality=${quality}${rendition.codec ? `&codec=${rendition.codec}` : ''}&token=${token}`;
     }
     
+    res.set('Cache-Control', 'no-store').json({
+      url,
+      quality,
+      // File extension of what will be served (mp3, m4a, opus, flac...), null for HLS/DASH
+      format: rendition.key ? path.extname(rendition.key).slice(1).toLowerCase() : null,
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+      // ReplayGain-style values; the player picks track or album gain
+      gain: {
+        track: track.trackGain ?? null,
+        trackPeak: track.truePeak ?? null,
+        album: track.albumGain ?? null,
+        albumPeak: track.albumPeak ?? null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Stream audio with range support
+streamRoutes.get('/:trackId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackId } = req.params;
+    const quality = parseQuality(req.query.quality);
+    
+    const track = await getStreamableTrack(trackId);
+    requireStreamToken(req, track, quality);
+    
     // Get the appropriate quality file
-    const relativeFilePath = getQualityFile(track, quality);
+    const relativeFilePath = selectRendition(track, quality, requestedCodecs(req)).key;
     if (!relativeFilePath) {
       throw errors.notFound('Audio file not available');
     }
     
-    const filePath = path.join(config.uploadDir, relativeFilePath);
+    const stat = await storage.stat(relativeFilePath);
     
-    if (!existsSync(filePath)) {
+    if (!stat) {
       throw errors.notFound('Audio file not found');
     }
     
-    const stat = statSync(filePath);
-    const fileSize = stat.size;
-    const range = req.headers.range;
-    
-    // Determine content type - extended format support
-    const ext = path.extname(filePath).toLowerCase();
-    const contentTypes: Record<string, string> = {
-      '.mp3': 'audio/mpeg',
-      '.wav': 'audio/wav',
-      '.flac': 'audio/flac',
-      '.aac': 'audio/aac',
-      '.ogg': 'audio/ogg',
-      '.m4a': 'audio/mp4',
-      '.opus': 'audio/opus',
-      '.webm': 'audio/webm',
-      '.wma': 'audio/x-ms-wma',
-      '.aiff': 'audio/aiff',
-    };
-    const contentType = contentTypes[ext] || 'audio/mpeg';
-    
-    // Common headers for CORS audio streaming
-    const commonHeaders = {
-      'Content-Type': contentType,
-      'Accept-Ranges': 'bytes',
-      'Cache-Control': 'public, max-age=86400',
-      'X-Content-Duration': String(track.duration),
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Expose-Headers': 'Content-Range, Accept-Ranges, Content-Length, X-Content-Duration',
-    };
-    
-    // Handle range requests (for seeking)
-    if (range) {
-      const parts = range.replace(/bytes=/, '').split('-');
-      const start = parseInt(parts[0], 10);
-      const end = parts[1] ? parseInt(parts[1], 10) : Math.min(start + config.streamChunkSize, fileSize - 1);
-      const chunkSize = end - start + 1;
-      
-      res.writeHead(206, {
-        ...commonHeaders,
-        'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-        'Content-Length': chunkSize,
-      });
-      
-      const stream = createReadStream(filePath, { start, end });
-      stream.pipe(res);
-      
-      // Track play if starting from beginning (or near it)
-      if (start < 1000 && req.user) {
-        trackPlay(trackId, req.user.id).catch(console.error);
-      }
-    } else {
-      // No range - send entire file (but with streaming)
-      res.writeHead(200, {
-        ...commonHeaders,
-        'Content-Length': fileSize,
-      });
-      
-      const stream = createReadStream(filePath);
-      stream.pipe(res);
-      
-      // Track play
-      if (req.user) {
-        trackPlay(trackId, req.user.id).catch(console.error);
-      }
+    // Handles Range (incl. suffix and multi-range), If-Range and conditional requests
+    await sendStoredObject(req, res, relativeFilePath, stat, {
+      // Determine content type - extended format support
+      contentType: contentTypeFor(relativeFilePath),
+      headers: {
+        // Signed URLs are per listener, so shared caches must not keep them
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Duration': String(track.duration),
+        Vary: 'Accept',
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * ADAPTIVE BITRATE (HLS / DASH)
+ * 
+ * Playlists and segments are written by the transcode worker under the
+ * storage keys hls/<base>/ and dash/<base>/. Relative URIs inside the
+ * playlists resolve back onto these routes, so the player only needs the
+ * master playlist (or manifest) URL.
+ */
+
+const HLS_RENDITIONS = ['low', 'medium', 'high'];
+const SEGMENT_FILE_PATTERN = /^[\w-]+\.(m3u8|ts|mpd|m4s)$/;
+
+/**
+ * Relative URIs in playlists drop the query string, so the token is appended
+ * to every URI as the playlist is served
+ */
+function signPlaylist(body: string, ext: string, token: string): string {
+  const suffix = `?token=${encodeURIComponent(token)}`;
+  
+  if (ext === '.mpd') {
+    return body.replace(/(initialization|media)="([^"?]+)"/g, `$1="$2${suffix}"`);
+  }
+  
+  return body
+    .split('\n')
+    .map((line) => (line && !line.startsWith('#') ? `${line}${suffix}` : line))
+    .join('\n');
+}
+
+// Send a playlist or segment from a packaged rendition directory
+async function sendAdaptiveFile(req: Request, res: Response, packageDir: string, relativePath: string) {
+  const key = path.posix.join(packageDir, relativePath);
+  const stat = await storage.stat(key);
+  
+  if (!stat) {
+    throw errors.notFound('Segment not found');
+  }
+  
+  const ext = path.extname(key).toLowerCase();
+  
+  if (ext === '.m3u8' || ext === '.mpd') {
+    const stream = await storage.getStream(key);
+    const body = Buffer.concat(await stream.toArray()).toString('utf8');
+    
+    res.set({
+      'Content-Type': contentTypeFor(key),
+      'Cache-Control': 'private, no-cache',
+    }).send(signPlaylist(body, ext, req.query.token as string));
+    return;
+  }
+  
+  await sendStoredObject(req, res, key, stat, {
+    contentType: contentTypeFor(key),
+    // Segments never change once packaged
+    headers: { 'Cache-Control': 'private, max-age=31536000, immutable' },
+  });
+}
+
+// HLS master playlist
+streamRoutes.get('/:trackId/master.m3u8', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const track = await getStreamableTrack(req.params.trackId);
+    requireStreamToken(req, track, 'adaptive');
+    
+    if (!track.hlsUrl) {
+      throw errors.notFound('Adaptive stream not available');
     }
+    
+    await sendAdaptiveFile(req, res, path.posix.dirname(track.hlsUrl), 'master.m3u8');
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DASH manifest and segments
+streamRoutes.get('/:trackId/dash/:file', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackId, file } = req.params;
+    
+    if (!SEGMENT_FILE_PATTERN.test(file)) {
+      throw errors.badRequest('Invalid segment name');
+    }
+    
+    const track = await getStreamableTrack(trackId);
+    requireStreamToken(req, track, 'adaptive');
+    
+    if (!track.dashUrl) {
+      throw errors.notFound('Adaptive stream not available');
+    }
+    
+    await sendAdaptiveFile(req, res, path.posix.dirname(track.dashUrl), file);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// HLS variant playlists and segments (e.g. /:trackId/low/segment_000.ts)
+streamRoutes.get('/:trackId/:rendition/:file', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackId, rendition, file } = req.params;
+    
+    if (!HLS_RENDITIONS.includes(rendition) || !SEGMENT_FILE_PATTERN.test(file)) {
+      throw errors.notFound('Segment not found');
+    }
+    
+    const track = await getStreamableTrack(trackId);
+    requireStreamToken(req, track, 'adaptive');
+    
+    if (!track.hlsUrl) {
+      throw errors.notFound('Adaptive stream not available');
+    }
+    
+    await sendAdaptiveFile(req, res, path.posix.dirname(track.hlsUrl), `${rendition}/${file}`);
   } catch (error) {
     next(error);
   }
@@ -179,75 +455,43 @@ streamRoutes.get('/:trackId/waveform', async (req, res, next) => {
   }
 });
 
-// Helper: Track play with debouncing
-const playDebounce = new Map<string, number>();
-
-async function trackPlay(trackId: string, userId: string) {
-  const key = `${trackId}:${userId}`;
-  const now = Date.now();
-  const lastPlay = playDebounce.get(key) || 0;
-  
-  // Debounce: Only count if more than 30 seconds since last play
-  if (now - lastPlay < 30000) {
-    return;
-  }
-  
-  playDebounce.set(key, now);
-  
-  // Clean up old entries periodically
-  if (playDebounce.size > 10000) {
-    const cutoff = now - 60000;
-    for (const [k, v] of playDebounce) {
-      if (v < cutoff) playDebounce.delete(k);
-    }
-  }
-  
-  // Increment play count (batched in Redis, synced to DB periodically)
-  await cache.incr(`plays:${trackId}`);
-  
-  // Record in play history
-  await prisma.playHistory.create({
-    data: {
-      userId,
-      trackId,
-      duration: 0, // Will be updated on completion
-      completed: false,
-    },
-  });
-}
-
-// Update play history on completion
-streamRoutes.post('/:trackId/complete', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+/**
+ * Listen heartbeat, sent by the player while a track is playing and once more
+ * when it ends (with the reason). A play only counts once enough audio has
+ * actually been heard (see services/plays)
+ */
+streamRoutes.post('/:trackId/heartbeat', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
+    // Signed-out listens aren't attributed to anyone, so they don't count
     if (!req.user) {
-      return res.json({ success: true });
+      return res.json({ playId: null, counted: false });
     }
     
-    const { trackId } = req.params;
-    const { duration } = req.body;
-    
-    // Find the most recent play history entry
-    const history = await prisma.playHistory.findFirst({
-      where: {
-        userId: req.user.id,
-        trackId,
-        completed: false,
-      },
-      orderBy: { playedAt: 'desc' },
+    const schema = z.object({
+      playId: z.string().uuid().optional(),
+      listened: z.number().min(0).max(3600),
+      position: z.number().min(0).optional(),
+      events: z.array(z.object({
+        type: z.literal('seek'),
+        from: z.number().min(0),
+        to: z.number().min(0),
+      })).max(50).optional(),
+      ended: z.enum(['completed', 'skipped', 'error']).optional(),
     });
     
-    if (history) {
-      await prisma.playHistory.update({
-        where: { id: history.id },
-        data: {
-          duration: duration || 0,
-          completed: true,
-        },
-      });
-    }
+    const data = schema.parse(req.body);
+    
+    const result = await recordHeartbeat({
+      userId: req.user.id,
+      trackId: req.params.trackId,
+      ...data,
+    });
     
-    res.json({ success: true });
+    res.json(result);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
     next(error);
   }
 });
@@ -4,6 +4,11 @@ import { prisma } from '../db/client.js';
 import { cache, cacheKeys } from '../db/redis.js';
 import { errors } from '../middleware/errorHandler.js';
 import { authenticate, optionalAuth } from '../middleware/auth.js';
+import { storage } from '../services/storage/index.js';
+import { getSimilarTracks } from '../services/recommendations.js';
+import { lrcToPlain, parseLrc, serializeLyrics } from '../services/lyrics.js';
+import { releaseVisibility } from '../services/releases.js';
+import { updateAlbumGain } from '../services/loudness.js';
 
 export const trackRoutes = Router();
 
@@ -89,6 +94,33 @@ trackRoutes.get('/new', optionalAuth, async (req: Request, res: Response, next:
   }
 });
 
+// Tracks listened to by the same people (falls back to same artist / genre)
+trackRoutes.get('/:trackId/similar', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+    
+    const track = await prisma.track.findUnique({
+      where: { id: trackId },
+      select: { isPublic: true, artistId: true },
+    });
+    
+    if (!track) {
+      throw errors.notFound('Track not found');
+    }
+    
+    if (!track.isPublic && req.user?.id !== track.artistId) {
+      throw errors.forbidden('This track is private');
+    }
+    
+    const tracks = await getSimilarTracks(trackId, limit);
+    
+    res.json({ tracks });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get single track
 trackRoutes.get('/:trackId', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -116,6 +148,7 @@ trackRoutes.get('/:trackId', optionalAuth, async (req: Request, res: Response, n
         _count: {
           select: {
             likedBy: true,
+            preSaves: true,
           },
         },
       },
@@ -126,7 +159,29 @@ trackRoutes.get('/:trackId', optionalAuth, async (req: Request, res: Response, n
     }
     
     if (!track.isPublic && req.user?.id !== track.artistId) {
-      throw errors.forbidden('This track is private');
+      if (!track.isScheduled) {
+        throw errors.forbidden('This track is private');
+      }
+      
+      // Upcoming release: enough to show and pre-save it, nothing playable
+      const preSave = req.user
+        ? await prisma.preSave.findUnique({
+            where: { userId_trackId: { userId: req.user.id, trackId } },
+          })
+        : null;
+      
+      return res.json({
+        id: track.id,
+        title: track.title,
+        coverUrl: track.coverUrl,
+        genre: track.genre,
+        releaseDate: track.releaseDate,
+        isExplicit: track.isExplicit,
+        isScheduled: true,
+        artist: track.artist,
+        album: track.album,
+        isPreSaved: !!preSave,
+      });
     }
     
     // Check if user liked this track
@@ -193,6 +248,42 @@ trackRoutes.post('/:trackId/like', authenticate, async (req: Request, res: Respo
   }
 });
 
+// Pre-save an upcoming track (toggles, like liking)
+trackRoutes.post('/:trackId/presave', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackId } = req.params;
+    
+    const track = await prisma.track.findUnique({
+      where: { id: trackId },
+      select: { isScheduled: true },
+    });
+    
+    if (!track) {
+      throw errors.notFound('Track not found');
+    }
+    
+    const where = { userId_trackId: { userId: req.user!.id, trackId } };
+    const existing = await prisma.preSave.findUnique({ where });
+    
+    if (existing) {
+      await prisma.preSave.delete({ where });
+      return res.json({ preSaved: false });
+    }
+    
+    if (!track.isScheduled) {
+      throw errors.badRequest('Only upcoming releases can be pre-saved');
+    }
+    
+    await prisma.preSave.create({
+      data: { userId: req.user!.id, trackId },
+    });
+    
+    res.json({ preSaved: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get user's liked tracks
 trackRoutes.get('/liked/me', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -268,13 +359,22 @@ trackRoutes.patch('/:trackId', authenticate, async (req: Request, res: Response,
       isPublic: z.boolean().optional(),
       isExplicit: z.boolean().optional(),
       coverUrl: z.string().optional().nullable(),
+      trackNumber: z.number().int().positive().optional().nullable(),
+      discNumber: z.number().int().positive().optional().nullable(),
+      releaseDate: z.string().datetime().optional().nullable(), // In the future schedules the release
     });
     
-    const data = updateSchema.parse(req.body);
+    const { isPublic, releaseDate, ...data } = updateSchema.parse(req.body);
+    const nextReleaseDate = releaseDate === undefined ? track.releaseDate : releaseDate ? new Date(releaseDate) : null;
     
     const updated = await prisma.track.update({
       where: { id: trackId },
-      data,
+      data: {
+        ...data,
+        releaseDate: nextReleaseDate,
+        // A scheduled track counts as public; it just isn't out yet
+        ...releaseVisibility(isPublic ?? (track.isPublic || track.isScheduled), nextReleaseDate),
+      },
       include: {
         artist: {
           select: {
@@ -300,6 +400,135 @@ trackRoutes.patch('/:trackId', authenticate, async (req: Request, res: Response,
   }
 });
 
+// Get lyrics, with LRC parsed into timed lines when synced
+trackRoutes.get('/:trackId/lyrics', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackId } = req.params;
+    
+    const track = await prisma.track.findUnique({
+      where: { id: trackId },
+      select: { isPublic: true, artistId: true },
+    });
+    
+    if (!track) {
+      throw errors.notFound('Track not found');
+    }
+    
+    if (!track.isPublic && req.user?.id !== track.artistId) {
+      throw errors.forbidden('This track is private');
+    }
+    
+    const cached = await cache.get<ReturnType<typeof serializeLyrics>>(cacheKeys.lyrics(trackId));
+    if (cached) {
+      return res.json(cached);
+    }
+    
+    const lyrics = await prisma.lyrics.findUnique({
+      where: { trackId },
+    });
+    
+    if (!lyrics) {
+      throw errors.notFound('No lyrics for this track');
+    }
+    
+    const result = serializeLyrics(lyrics);
+    await cache.set(cacheKeys.lyrics(trackId), result, 3600);
+    
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add or replace lyrics (plain text and/or LRC)
+trackRoutes.put('/:trackId/lyrics', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackId } = req.params;
+    
+    const track = await prisma.track.findUnique({
+      where: { id: trackId },
+      select: { artistId: true },
+    });
+    
+    if (!track) {
+      throw errors.notFound('Track not found');
+    }
+    
+    if (track.artistId !== req.user!.id) {
+      throw errors.forbidden('You can only edit lyrics of your own tracks');
+    }
+    
+    const lyricsSchema = z
+      .object({
+        plain: z.string().max(20000).optional().nullable(),
+        lrc: z.string().max(50000).optional().nullable(),
+        language: z.string().regex(/^[a-z]{2}$/i, 'Language must be a two-letter code').optional().nullable(),
+      })
+      .refine((data) => data.plain?.trim() || data.lrc?.trim(), {
+        message: 'Lyrics need plain text or LRC',
+      });
+    
+    const data = lyricsSchema.parse(req.body);
+    const lrc = data.lrc?.trim() || null;
+    
+    if (lrc && parseLrc(lrc).length === 0) {
+      throw errors.badRequest('LRC has no timestamped lines');
+    }
+    
+    const fields = {
+      plain: data.plain?.trim() || (lrc ? lrcToPlain(lrc) : null),
+      lrc,
+      language: data.language?.toLowerCase() ?? null,
+      source: 'ARTIST' as const,
+    };
+    
+    const lyrics = await prisma.lyrics.upsert({
+      where: { trackId },
+      create: { trackId, ...fields },
+      update: fields,
+    });
+    
+    await cache.del(cacheKeys.lyrics(trackId));
+    
+    res.json(serializeLyrics(lyrics));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(errors.badRequest(error.errors[0].message));
+    }
+    next(error);
+  }
+});
+
+// Remove lyrics
+trackRoutes.delete('/:trackId/lyrics', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackId } = req.params;
+    
+    const track = await prisma.track.findUnique({
+      where: { id: trackId },
+      select: { artistId: true },
+    });
+    
+    if (!track) {
+      throw errors.notFound('Track not found');
+    }
+    
+    if (track.artistId !== req.user!.id) {
+      throw errors.forbidden('You can only edit lyrics of your own tracks');
+    }
+    
+    await prisma.lyrics.deleteMany({
+      where: { trackId },
+    });
+    
+    await cache.del(cacheKeys.lyrics(trackId));
+    
+    res.json({ message: 'Lyrics removed' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Delete track
 trackRoutes.delete('/:trackId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -321,9 +550,32 @@ trackRoutes.delete('/:trackId', authenticate, async (req: Request, res: Response
       where: { id: trackId },
     });
     
+    // The rest of the album is now measured without it
+    if (track.albumId) {
+      await updateAlbumGain(track.albumId);
+    }
+    
     // Clear cache
     await cache.del(cacheKeys.track(trackId));
     await cache.del(cacheKeys.trackMeta(trackId));
+    await cache.del(cacheKeys.lyrics(trackId));
+    
+    // Remove the original and renditions (older serverless uploads are inline data: URLs)
+    const keys = [
+      track.fileUrl, track.fileUrlLow, track.fileUrlMedium, track.fileUrlHigh,
+      track.fileUrlAacLow, track.fileUrlAacMedium, track.fileUrlAacHigh,
+      track.fileUrlOpusLow, track.fileUrlOpusMedium, track.fileUrlOpusHigh,
+      track.fileUrlFlac,
+    ]
+      .filter((key): key is string => !!key && !key.startsWith('data:'));
+    const packages = [track.hlsUrl, track.dashUrl]
+      .filter((key): key is string => !!key)
+      .map((key) => key.slice(0, key.lastIndexOf('/')));
+    
+    Promise.all([
+      ...keys.map((key) => storage.delete(key)),
+      ...packages.map((prefix) => storage.deletePrefix(prefix)),
+    ]).catch((err) => console.error('Failed to remove track files:', err));
     
     res.json({ message: 'Track deleted' });
   } catch (error) {
@@ -3,33 +3,39 @@ import multer from 'multer';
 import path from 'path';
 import { v4 as uuid } from 'uuid';
 import fs from 'fs/promises';
-import { existsSync, mkdirSync } from 'fs';
-import ffmpeg from 'fluent-ffmpeg';
+import { existsSync, mkdirSync, createWriteStream } from 'fs';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { z } from 'zod';
 import * as mm from 'music-metadata';
 import sharp from 'sharp';
 import { prisma } from '../db/client.js';
 import { config } from '../config/index.js';
 import { errors } from '../middleware/errorHandler.js';
 import { authenticate, requireArtist } from '../middleware/auth.js';
-import { cache, cacheKeys } from '../db/redis.js';
+import { cache, cacheKeys, redis } from '../db/redis.js';
+import { transcodeQueue } from '../services/jobQueue.js';
+import { partialUploadPath, receivedBytes } from '../services/uploadSessions.js';
+import { contentTypeFor, scratchDir, scratchPath, storage } from '../services/storage/index.js';
+import { extractEmbeddedLyrics } from '../services/lyrics.js';
+import { EmbeddedTags, readEmbeddedTags, titleFromFileName } from '../services/embeddedTags.js';
+import { albumSlug, findOrCreateAlbum } from '../services/albums.js';
+import { releaseVisibility } from '../services/releases.js';
 
 export const uploadRoutes = Router();
 
-// Ensure upload directories exist
-const audioDir = path.join(config.uploadDir, 'audio');
-const coverDir = path.join(config.uploadDir, 'covers');
-const avatarDir = path.join(config.uploadDir, 'avatars');
+// Incoming files land in local scratch space, then move into storage
+if (!existsSync(scratchDir)) {
+  mkdirSync(scratchDir, { recursive: true });
+}
 
-[audioDir, coverDir, avatarDir].forEach(dir => {
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
-  }
-});
+// Artwork keys are unique per upload, so it can be cached forever
+const IMAGE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
 
 // Multer configuration for audio uploads
 const audioStorage = multer.diskStorage({
   destination: (req, file, cb) => {
-    cb(null, audioDir);
+    cb(null, scratchDir);
   },
   filename: (req, file, cb) => {
     const ext = path.extname(file.originalname).toLowerCase();
@@ -55,7 +61,7 @@ const audioUpload = multer({
 // Multer configuration for image uploads
 const imageStorage = multer.diskStorage({
   destination: (req, file, cb) => {
-    cb(null, coverDir);
+    cb(null, scratchDir);
   },
   filename: (req, file, cb) => {
     cb(null, `${uuid()}.webp`);
@@ -77,87 +83,6 @@ const imageUpload = multer({
   },
 });
 
-/**
- * Generate waveform data from audio file
- * Returns array of amplitude values for visualization
- */
-async function generateWaveform(filePath: string): Promise<number[]> {
-  return new Promise((resolve, reject) => {
-    const samples: number[] = [];
-    
-    ffmpeg(filePath)
-      .audioFilters('aresample=8000,aformat=channel_layouts=mono')
-      .format('f32le')
-      .pipe()
-      .on('data', (chunk: Buffer) => {
-        for (let i = 0; i < chunk.length; i += 4) {
-          const sample = chunk.readFloatLE(i);
-          samples.push(Math.abs(sample));
-        }
-      })
-      .on('end', () => {
-        // Downsample to ~200 points for visualization
-        const targetPoints = 200;
-        const step = Math.ceil(samples.length / targetPoints);
-        const waveform: number[] = [];
-        
-        for (let i = 0; i < samples.length; i += step) {
-          const slice = samples.slice(i, i + step);
-          const max = Math.max(...slice);
-          waveform.push(Math.round(max * 100) / 100);
-        }
-        
-        resolve(waveform);
-      })
-      .on('error', (err) => {
-        console.error('Waveform generation error:', err);
-        resolve([]); // Return empty array on error
-      });
-  });
-}
-
-/**
- * Transcode audio to multiple quality levels
- * This is key for data-efficient streaming
- */
-async function transcodeAudio(
-  inputPath: string,
-  baseName: string
-): Promise<{ low?: string; medium?: string; high?: string }> {
-  const qualities = {
-    low: config.audioQuality.low,
-    medium: config.audioQuality.medium,
-    high: config.audioQuality.high,
-  };
-  
-  const results: { low?: string; medium?: string; high?: string } = {};
-  
-  for (const [quality, bitrate] of Object.entries(qualities)) {
-    const outputName = `${baseName}_${quality}.mp3`;
-    const outputPath = path.join(audioDir, outputName);
-    
-    await new Promise<void>((resolve, reject) => {
-      ffmpeg(inputPath)
-        .audioCodec('libmp3lame')
-        .audioBitrate(bitrate)
-        .audioChannels(2)
-        .audioFrequency(44100)
-        .output(outputPath)
-        .on('end', () => {
-          results[quality as keyof typeof results] = `audio/${outputName}`;
-          resolve();
-        })
-        .on('error', (err) => {
-          console.error(`Transcode error (${quality}):`, err);
-          resolve(); // Continue with other qualities
-        })
-        .run();
-    });
-  }
-  
-  return results;
-}
-
 /**
  * Process and optimize cover image
  * Creates multiple sizes for different use cases
@@ -179,15 +104,15 @@ async function processImage(
   };
   
   for (const [size, width] of Object.entries(sizes)) {
-    const outputName = `${outputBaseName}_${size}.webp`;
-    const outputPath = path.join(coverDir, outputName);
+    const key = `covers/${outputBaseName}_${size}.webp`;
     
-    await sharp(inputPath)
+    const image = await sharp(inputPath)
       .resize(width, width, { fit: 'cover' })
       .webp({ quality: 85 })
-      .toFile(outputPath);
+      .toBuffer();
     
-    results[size as keyof typeof results] = `covers/${outputName}`;
+    await storage.put(key, image, { contentType: 'image/webp', cacheControl: IMAGE_CACHE_CONTROL });
+    results[size as keyof typeof results] = key;
   }
   
   // Remove original uploaded file
@@ -196,6 +121,183 @@ async function processImage(
   return results;
 }
 
+// Anything left out is taken from the file's tags
+interface TrackUploadInput {
+  title?: string;
+  albumId?: string;
+  genre?: string;
+  isPublic: boolean;
+  isExplicit: boolean;
+  coverUrl?: string;
+  duration?: number;
+  releaseDate?: string; // ISO date-time; in the future schedules the release
+}
+
+// Embedded cover art goes through the same pipeline as uploaded covers
+async function saveEmbeddedArtwork(picture: NonNullable<EmbeddedTags['picture']>): Promise<string> {
+  const ext = picture.format.includes('png') ? '.png' : picture.format.includes('webp') ? '.webp' : '.jpg';
+  const filePath = await scratchPath(ext);
+  
+  try {
+    await fs.writeFile(filePath, picture.data);
+    const processed = await processImage(filePath, uuid());
+    return processed.large;
+  } catch (error) {
+    await fs.unlink(filePath).catch(() => {});
+    throw error;
+  }
+}
+
+// Technical metadata, embedded lyrics and tags of a received audio file
+async function readAudioFile(filePath: string, knownDuration?: number) {
+  try {
+    const metadata = await mm.parseFile(filePath);
+    return {
+      duration: knownDuration || Math.round(metadata.format.duration || 0),
+      bitrate: metadata.format.bitrate ? Math.round(metadata.format.bitrate / 1000) : null,
+      sampleRate: metadata.format.sampleRate || null,
+      lyrics: extractEmbeddedLyrics(metadata),
+      tags: readEmbeddedTags(metadata),
+    };
+  } catch (metaErr) {
+    console.error('Metadata extraction error:', metaErr);
+    return {
+      duration: knownDuration || 0,
+      bitrate: null,
+      sampleRate: null,
+      lyrics: null,
+      tags: {} as EmbeddedTags,
+    };
+  }
+}
+
+const trackSlug = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Turn a locally received audio file into a track
+ * Reads technical metadata and tags, moves the file into storage and queues
+ * transcoding. Details the uploader didn't give come from the tags: title,
+ * genre, release date, track number, ISRC and cover art, and the album is
+ * matched (or created) by the tagged album name.
+ */
+async function createTrackFromFile(
+  userId: string,
+  filePath: string,
+  fileName: string,
+  fileSize: number,
+  input: TrackUploadInput
+) {
+  const { duration, bitrate, sampleRate, lyrics, tags } = await readAudioFile(filePath, input.duration);
+  
+  const title = input.title?.trim() || tags.title || titleFromFileName(fileName);
+  
+  // Only a date the uploader picked schedules the release; tagged dates are history
+  const scheduledFor = input.releaseDate ? new Date(input.releaseDate) : null;
+  if (scheduledFor && isNaN(scheduledFor.getTime())) {
+    throw errors.badRequest('Invalid release date');
+  }
+  
+  // A chosen album wins over the tagged one
+  const album = !input.albumId && tags.album
+    ? await findOrCreateAlbum(userId, tags.album, { releaseDate: tags.releaseDate })
+    : null;
+  
+  // Tracks show their album's cover, so art is only extracted when the album has none
+  let coverUrl = input.coverUrl || null;
+  if (!coverUrl && tags.picture && !album?.coverUrl) {
+    try {
+      coverUrl = await saveEmbeddedArtwork(tags.picture);
+      if (album) {
+        await prisma.album.updateMany({
+          where: { id: album.id, coverUrl: null },
+          data: { coverUrl },
+        });
+      }
+    } catch (artErr) {
+      console.error('Embedded artwork error:', artErr);
+    }
+  }
+  
+  // Generate slug
+  const slug = trackSlug(title);
+  
+  // Check for duplicate slug
+  const existingTrack = await prisma.track.findFirst({
+    where: {
+      artistId: userId,
+      slug,
+    },
+  });
+  
+  const finalSlug = existingTrack ? `${slug}-${Date.now()}` : slug;
+  const sourceKey = `audio/${uuid()}${path.extname(fileName).toLowerCase()}`;
+  
+  // Create track record
+  const track = await prisma.track.create({
+    data: {
+      title,
+      slug: finalSlug,
+      duration,
+      fileUrl: sourceKey,
+      processingStatus: 'QUEUED',
+      genre: input.genre || tags.genre || null,
+      releaseDate: scheduledFor ?? tags.releaseDate ?? null,
+      trackNumber: tags.trackNumber ?? null,
+      discNumber: tags.discNumber ?? null,
+      isrc: tags.isrc ?? null,
+      ...releaseVisibility(input.isPublic, scheduledFor),
+      isExplicit: input.isExplicit,
+      coverUrl,
+      fileSize,
+      bitrate,
+      sampleRate,
+      artistId: userId,
+      albumId: input.albumId || album?.id || null,
+      ...(lyrics && {
+        lyrics: { create: { ...lyrics, source: 'EMBEDDED' } },
+      }),
+    },
+    include: {
+      artist: {
+        select: {
+          id: true,
+          username: true,
+          displayName: true,
+          avatarUrl: true,
+        },
+      },
+      album: {
+        select: {
+          id: true,
+          title: true,
+          coverUrl: true,
+        },
+      },
+    },
+  });
+  
+  try {
+    await storage.putFile(sourceKey, filePath, { contentType: contentTypeFor(sourceKey) });
+  } catch (error) {
+    // The local file is still there, so the caller can retry
+    await prisma.track.delete({ where: { id: track.id } });
+    throw error;
+  }
+  
+  // Waveform + transcoding run in the worker; the original streams meanwhile
+  const job = await transcodeQueue.add({ trackId: track.id, sourceKey });
+  await prisma.track.update({
+    where: { id: track.id },
+    data: { processingJobId: job.id },
+  });
+  
+  return { ...track, processingJobId: job.id, jobId: job.id };
+}
+
 // Upload track - supports both multipart form data AND base64 JSON
 uploadRoutes.post(
   '/track',
@@ -210,36 +312,32 @@ uploadRoutes.post(
       let filePath: string;
       let originalName: string;
       let fileSize: number;
-      let titleInput: string;
+      let titleInput: string | undefined;
       let albumIdInput: string | undefined;
       let genreInput: string | undefined;
       let isPublicInput: boolean;
       let isExplicitInput: boolean;
       let coverUrlInput: string | undefined;
       let durationInput: number | undefined;
+      let releaseDateInput: string | undefined;
       
       if (contentType.includes('application/json')) {
         // Handle base64 upload (from serverless-compatible frontend)
-        const { audio, audioMimeType, audioFileName, title, albumId, genre, isPublic = true, isExplicit = false, coverUrl, duration } = req.body;
+        const { audio, audioMimeType, audioFileName, title, albumId, genre, isPublic = true, isExplicit = false, coverUrl, duration, releaseDate } = req.body;
         
         if (!audio) {
           throw errors.badRequest('No audio data provided');
         }
         
-        if (!title) {
-          throw errors.badRequest('Track title is required');
-        }
-        
         // Decode base64 and save to temp file
         const buffer = Buffer.from(audio, 'base64');
         const ext = path.extname(audioFileName || '.mp3').toLowerCase() || '.mp3';
-        const filename = `${uuid()}${ext}`;
-        filePath = path.join(audioDir, filename);
+        filePath = await scratchPath(ext);
         tempFilePath = filePath;
         
         await fs.writeFile(filePath, buffer);
         
-        originalName = audioFileName || 'upload.mp3';
+        originalName = audioFileName || `upload${ext}`;
         fileSize = buffer.length;
         titleInput = title;
         albumIdInput = albumId;
@@ -248,6 +346,7 @@ uploadRoutes.post(
         isExplicitInput = isExplicit === 'true' || isExplicit === true;
         coverUrlInput = coverUrl;
         durationInput = duration;
+        releaseDateInput = releaseDate;
       } else {
         // Handle multipart form upload (legacy)
         await new Promise<void>((resolve, reject) => {
@@ -262,6 +361,7 @@ uploadRoutes.post(
         }
         
         filePath = req.file.path;
+        tempFilePath = filePath;
         originalName = req.file.originalname;
         fileSize = req.file.size;
         titleInput = req.body.title;
@@ -271,102 +371,533 @@ uploadRoutes.post(
         isExplicitInput = req.body.isExplicit === 'true' || req.body.isExplicit === true;
         coverUrlInput = req.body.coverUrl;
         durationInput = req.body.duration ? parseInt(req.body.duration) : undefined;
-        
-        if (!titleInput) {
-          throw errors.badRequest('Track title is required');
-        }
+        releaseDateInput = req.body.releaseDate || undefined;
+
       }
       
-      const baseName = path.basename(filePath, path.extname(filePath));
+      const result = await createTrackFromFile(req.user!.id, filePath, originalName, fileSize, {
+        title: titleInput,
+        albumId: albumIdInput,
+        genre: genreInput,
+        isPublic: isPublicInput,
+        isExplicit: isExplicitInput,
+        coverUrl: coverUrlInput,
+        duration: durationInput,
+        releaseDate: releaseDateInput,
+      });
       
-      // Extract metadata
-      let duration: number;
-      let bitrate: number | null = null;
-      let sampleRate: number | null = null;
+      tempFilePath = null; // Moved into storage
+      res.status(202).json(result);
+    } catch (error) {
+      // Clean up temp file on error
+      if (tempFilePath) {
+        await fs.unlink(tempFilePath).catch(() => {});
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * RESUMABLE UPLOADS (tus-style)
+ * 
+ * 1. POST   /sessions               declare file size + track details, get a session id
+ * 2. PATCH  /sessions/:id           append bytes at Upload-Offset (application/offset+octet-stream)
+ * 3. HEAD   /sessions/:id           read Upload-Offset to resume after a dropped connection
+ * 4. POST   /sessions/:id/complete  hand the assembled file to the normal track pipeline
+ * 
+ * Whatever bytes arrive before a disconnect are kept, so clients only resend the rest.
+ * Received bytes sit on local disk (see uploadSessions.ts), so instances must share it.
+ */
+
+const createSessionSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  fileSize: z.number().int().positive(),
+  mimeType: z.string().max(100).optional(),
+  title: z.string().max(200).optional(), // Defaults to the file's tags, then its name
+  albumId: z.string().optional(),
+  genre: z.string().max(50).optional(),
+  isPublic: z.boolean().optional(),
+  isExplicit: z.boolean().optional(),
+  coverUrl: z.string().optional(),
+  duration: z.number().int().nonnegative().optional(),
+  releaseDate: z.string().datetime().optional(),
+});
+
+// Serialize PATCH/complete per session across API instances (which share the partial directory)
+const sessionLockKey = (sessionId: string) => `upload:lock:${sessionId}`;
+
+async function acquireSessionLock(sessionId: string): Promise<boolean> {
+  const result = await redis.set(sessionLockKey(sessionId), '1', 'EX', 300, 'NX');
+  return result === 'OK';
+}
+
+async function getOwnSession(sessionId: string, userId: string) {
+  const session = await prisma.uploadSession.findUnique({
+    where: { id: sessionId },
+  });
+  
+  if (!session || session.expiresAt < new Date()) {
+    throw errors.notFound('Upload session not found or expired');
+  }
+  
+  if (session.userId !== userId) {
+    throw errors.forbidden('Not your upload session');
+  }
+  
+  return session;
+}
+
+// Create upload session
+uploadRoutes.post(
+  '/sessions',
+  authenticate,
+  requireArtist,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { fileName, fileSize, mimeType, ...metadata } = createSessionSchema.parse(req.body);
       
-      try {
-        const metadata = await mm.parseFile(filePath);
-        duration = durationInput || Math.round(metadata.format.duration || 0);
-        bitrate = metadata.format.bitrate ? Math.round(metadata.format.bitrate / 1000) : null;
-        sampleRate = metadata.format.sampleRate || null;
-      } catch (metaErr) {
-        console.error('Metadata extraction error:', metaErr);
-        duration = durationInput || 0;
+      const ext = path.extname(fileName).toLowerCase().slice(1);
+      if (!config.allowedAudioFormats.includes(ext)) {
+        throw errors.badRequest(`Invalid audio format. Allowed: ${config.allowedAudioFormats.join(', ')}`);
       }
       
-      // Generate waveform
-      let waveformData: number[] = [];
-      try {
-        waveformData = await generateWaveform(filePath);
-      } catch (waveErr) {
-        console.error('Waveform generation error:', waveErr);
+      if (fileSize > config.maxFileSize) {
+        throw errors.tooLarge(`File too large. Maximum size is ${Math.round(config.maxFileSize / 1024 / 1024)}MB`);
       }
       
-      // Transcode to multiple qualities (async)
-      let transcoded: { low?: string; medium?: string; high?: string } = {};
-      try {
-        transcoded = await transcodeAudio(filePath, baseName);
-      } catch (transErr) {
-        console.error('Transcoding error:', transErr);
+      const session = await prisma.uploadSession.create({
+        data: {
+          fileName,
+          mimeType,
+          totalSize: fileSize,
+          metadata,
+          userId: req.user!.id,
+          expiresAt: new Date(Date.now() + config.uploadSessionTtlHours * 60 * 60 * 1000),
+        },
+      });
+      
+      res.status(201)
+        .location(`${req.baseUrl}/sessions/${session.id}`)
+        .set({ 'Upload-Offset': '0', 'Upload-Length': String(fileSize) })
+        .json({
+          id: session.id,
+          offset: 0,
+          totalSize: fileSize,
+          expiresAt: session.expiresAt,
+        });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(errors.badRequest(error.errors[0].message));
       }
+      next(error);
+    }
+  }
+);
+
+// Session status (HEAD is served by this handler too)
+uploadRoutes.get(
+  '/sessions/:sessionId',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = await getOwnSession(req.params.sessionId, req.user!.id);
+      const offset = session.completedAt ? session.totalSize : await receivedBytes(session.id);
       
-      // Generate slug
-      const slug = titleInput
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-|-$/g, '');
-      
-      // Check for duplicate slug
-      const existingTrack = await prisma.track.findFirst({
-        where: {
-          artistId: req.user!.id,
-          slug,
+      res.set({
+        'Upload-Offset': String(offset),
+        'Upload-Length': String(session.totalSize),
+        'Cache-Control': 'no-store',
+      }).json({
+        id: session.id,
+        offset,
+        totalSize: session.totalSize,
+        trackId: session.trackId,
+        expiresAt: session.expiresAt,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Append a chunk
+uploadRoutes.patch(
+  '/sessions/:sessionId',
+  authenticate,
+  requireArtist,
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { sessionId } = req.params;
+    let locked = false;
+    
+    try {
+      if (!req.is('application/offset+octet-stream')) {
+        throw errors.unsupportedMediaType('Content-Type must be application/offset+octet-stream');
+      }
+      
+      const offset = parseInt(req.get('Upload-Offset') || '', 10);
+      if (isNaN(offset) || offset < 0) {
+        throw errors.badRequest('Upload-Offset header required');
+      }
+      
+      const session = await getOwnSession(sessionId, req.user!.id);
+      
+      if (session.completedAt) {
+        throw errors.conflict('Upload already completed');
+      }
+      
+      locked = await acquireSessionLock(sessionId);
+      if (!locked) {
+        throw errors.conflict('Another chunk for this upload is in progress');
+      }
+      
+      const current = await receivedBytes(sessionId);
+      if (offset !== current) {
+        res.set('Upload-Offset', String(current));
+        throw errors.conflict(`Upload-Offset mismatch: server has ${current} bytes`);
+      }
+      
+      // Never accept more than the declared size
+      let remaining = session.totalSize - current;
+      const limiter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          remaining -= chunk.length;
+          if (remaining < 0) {
+            return callback(errors.tooLarge('Chunk exceeds declared upload size'));
+          }
+          callback(null, chunk);
         },
       });
       
-      const finalSlug = existingTrack ? `${slug}-${Date.now()}` : slug;
+      await pipeline(req, limiter, createWriteStream(partialUploadPath(sessionId), { flags: 'a' }));
+      
+      const received = await receivedBytes(sessionId);
+      await prisma.uploadSession.update({
+        where: { id: sessionId },
+        data: { offset: received },
+      });
+      
+      res.status(204).set('Upload-Offset', String(received)).end();
+    } catch (error) {
+      next(error);
+    } finally {
+      // Bytes from a dropped connection stay on disk; receivedBytes() picks them up on resume
+      if (locked) {
+        await redis.del(sessionLockKey(sessionId)).catch(() => {});
+      }
+    }
+  }
+);
+
+// Finalize: the assembled file goes through the same pipeline as POST /track
+uploadRoutes.post(
+  '/sessions/:sessionId/complete',
+  authenticate,
+  requireArtist,
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { sessionId } = req.params;
+    let locked = false;
+    
+    try {
+      const session = await getOwnSession(sessionId, req.user!.id);
+      
+      // Completing twice (e.g. the first response was lost) returns the same track
+      if (session.trackId) {
+        const track = await prisma.track.findUnique({ where: { id: session.trackId } });
+        return res.json({ ...track, jobId: track?.processingJobId });
+      }
+      
+      locked = await acquireSessionLock(sessionId);
+      if (!locked) {
+        throw errors.conflict('Upload is still receiving data');
+      }
       
-      // Create track record
-      const track = await prisma.track.create({
+      const received = await receivedBytes(sessionId);
+      if (received !== session.totalSize) {
+        res.set('Upload-Offset', String(received));
+        throw errors.conflict(`Upload incomplete: ${received} of ${session.totalSize} bytes received`);
+      }
+      
+      const metadata = session.metadata as Partial<TrackUploadInput>;
+      
+      // On failure the partial file stays put, so completion can be retried
+      const result = await createTrackFromFile(
+        req.user!.id,
+        partialUploadPath(sessionId),
+        session.fileName,
+        received,
+        {
+          ...metadata,
+          isPublic: metadata.isPublic ?? true,
+          isExplicit: metadata.isExplicit ?? false,
+        }
+      );
+      
+      await prisma.uploadSession.update({
+        where: { id: sessionId },
+        data: { trackId: result.id, completedAt: new Date(), offset: received },
+      });
+      
+      res.status(202).json(result);
+    } catch (error) {
+      next(error);
+    } finally {
+      if (locked) {
+        await redis.del(sessionLockKey(sessionId)).catch(() => {});
+      }
+    }
+  }
+);
+
+// Abort an upload
+uploadRoutes.delete(
+  '/sessions/:sessionId',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = await getOwnSession(req.params.sessionId, req.user!.id);
+      
+      await fs.unlink(partialUploadPath(session.id)).catch(() => {});
+      await prisma.uploadSession.delete({ where: { id: session.id } });
+      
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * ALBUM UPLOADS
+ * 
+ * Every file is sent through its own resumable session (steps 1-3 above), then
+ * POST /album publishes them together instead of completing each session:
+ * 
+ *   { album: { title, albumType, releaseDate, ... },
+ *     tracks: [{ sessionId, title?, trackNumber?, discNumber?, ... }] }
+ * 
+ * Publishing is all-or-nothing: tracks stay hidden until every file is in
+ * storage, and on any failure the album is removed and the received files are
+ * put back so the same request can be retried. A future releaseDate publishes
+ * the album as scheduled instead of live.
+ */
+
+const publishAlbumSchema = z.object({
+  album: z.object({
+    title: z.string().min(1).max(200),
+    description: z.string().max(1000).optional(),
+    albumType: z.enum(['ALBUM', 'EP', 'SINGLE', 'COMPILATION']).optional(),
+    releaseDate: z.string().datetime().optional(),
+    coverUrl: z.string().optional(),
+    genre: z.string().max(50).optional(), // Default for tracks without their own
+    isPublic: z.boolean().optional(),
+  }),
+  tracks: z.array(z.object({
+    sessionId: z.string().uuid(),
+    title: z.string().max(200).optional(),
+    trackNumber: z.number().int().positive().optional(),
+    discNumber: z.number().int().positive().optional(),
+    genre: z.string().max(50).optional(),
+    isExplicit: z.boolean().optional(),
+    duration: z.number().int().nonnegative().optional(),
+  })).min(1, 'An album needs at least one track').max(100, 'An album can have at most 100 tracks'),
+});
+
+uploadRoutes.post(
+  '/album',
+  authenticate,
+  requireArtist,
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user!.id;
+    const locked: string[] = [];
+    
+    try {
+      const data = publishAlbumSchema.parse(req.body);
+      const sessionIds = data.tracks.map((track) => track.sessionId);
+      
+      if (new Set(sessionIds).size !== sessionIds.length) {
+        throw errors.badRequest('Each upload session can only be used once');
+      }
+      
+      const sessions = await Promise.all(sessionIds.map((id) => getOwnSession(id, userId)));
+      
+      for (const session of sessions) {
+        if (session.completedAt) {
+          throw errors.conflict(`${session.fileName} has already been published`);
+        }
+        if (!(await acquireSessionLock(session.id))) {
+          throw errors.conflict(`${session.fileName} is still receiving data`);
+        }
+        locked.push(session.id);
+        
+        const received = await receivedBytes(session.id);
+        if (received !== session.totalSize) {
+          throw errors.conflict(
+            `${session.fileName} is incomplete: ${received} of ${session.totalSize} bytes received`
+          );
+        }
+      }
+      
+      // Entered numbers win, then tags, then the order the files were given in
+      const files = await Promise.all(
+        data.tracks.map(async (input, index) => {
+          const session = sessions[index];
+          const audio = await readAudioFile(partialUploadPath(session.id), input.duration);
+          return {
+            input,
+            session,
+            audio,
+            title: input.title?.trim() || audio.tags.title || titleFromFileName(session.fileName),
+            trackNumber: input.trackNumber ?? audio.tags.trackNumber ?? index + 1,
+            discNumber: input.discNumber ?? audio.tags.discNumber ?? 1,
+            key: `audio/${uuid()}${path.extname(session.fileName).toLowerCase()}`,
+          };
+        })
+      );
+      
+      const positions = new Set<string>();
+      for (const file of files) {
+        const position = `${file.discNumber}-${file.trackNumber}`;
+        if (positions.has(position)) {
+          throw errors.badRequest(`Two tracks are numbered ${file.trackNumber} on disc ${file.discNumber}`);
+        }
+        positions.add(position);
+      }
+      
+      // Without a chosen cover, use the first embedded one
+      let coverUrl = data.album.coverUrl || null;
+      const embedded = files.find((file) => file.audio.tags.picture)?.audio.tags.picture;
+      if (!coverUrl && embedded) {
+        coverUrl = await saveEmbeddedArtwork(embedded).catch((artErr) => {
+          console.error('Embedded artwork error:', artErr);
+          return null;
+        });
+      }
+      
+      const baseSlug = albumSlug(data.album.title);
+      const existingAlbum = await prisma.album.findFirst({
+        where: { artistId: userId, slug: baseSlug },
+        select: { id: true },
+      });
+      
+      // Keep track slugs unique across the artist's catalog and within the album
+      const takenSlugs = new Set(
+        (await prisma.track.findMany({
+          where: { artistId: userId, slug: { in: files.map((file) => trackSlug(file.title)) } },
+          select: { slug: true },
+        })).map((track: { slug: string }) => track.slug)
+      );
+      const uniqueSlug = (title: string, trackNumber: number) => {
+        const slug = trackSlug(title);
+        const finalSlug = takenSlugs.has(slug) ? `${slug}-${Date.now()}-${trackNumber}` : slug;
+        takenSlugs.add(finalSlug);
+        return finalSlug;
+      };
+      
+      const album = await prisma.album.create({
         data: {
-          title: titleInput,
-          slug: finalSlug,
-          duration,
-          fileUrl: `audio/${path.basename(filePath)}`,
-          fileUrlLow: transcoded.low,
-          fileUrlMedium: transcoded.medium,
-          fileUrlHigh: transcoded.high,
-          waveformData,
-          genre: genreInput || null,
-          isPublic: isPublicInput,
-          isExplicit: isExplicitInput,
-          coverUrl: coverUrlInput || null,
-          fileSize,
-          bitrate,
-          sampleRate,
-          artistId: req.user!.id,
-          albumId: albumIdInput || null,
+          title: data.album.title,
+          slug: existingAlbum ? `${baseSlug}-${Date.now()}` : baseSlug,
+          description: data.album.description,
+          albumType: data.album.albumType,
+          releaseDate: data.album.releaseDate ? new Date(data.album.releaseDate) : null,
+          coverUrl,
+          isPublic: false,
+          artistId: userId,
+          tracks: {
+            create: files.map(({ input, session, audio, title, trackNumber, discNumber, key }) => ({
+              title,
+              slug: uniqueSlug(title, trackNumber),
+              duration: audio.duration,
+              fileUrl: key,
+              processingStatus: 'QUEUED' as const,
+              genre: input.genre || data.album.genre || audio.tags.genre || null,
+              releaseDate: data.album.releaseDate ? new Date(data.album.releaseDate) : audio.tags.releaseDate ?? null,
+              trackNumber,
+              discNumber,
+              isrc: audio.tags.isrc ?? null,
+              isPublic: false,
+              isExplicit: input.isExplicit ?? false,
+              fileSize: session.totalSize,
+              bitrate: audio.bitrate,
+              sampleRate: audio.sampleRate,
+              artistId: userId,
+              ...(audio.lyrics && {
+                lyrics: { create: { ...audio.lyrics, source: 'EMBEDDED' as const } },
+              }),
+            })),
+          },
         },
         include: {
-          artist: {
-            select: {
-              id: true,
-              username: true,
-              displayName: true,
-              avatarUrl: true,
-            },
+          tracks: {
+            select: { id: true, fileUrl: true },
           },
         },
       });
+      const trackIds = new Map(album.tracks.map((track: { id: string; fileUrl: string }) => [track.fileUrl, track.id]));
+      
+      const stored: { sessionId: string; key: string }[] = [];
+      try {
+        for (const { session, key } of files) {
+          await storage.putFile(key, partialUploadPath(session.id), { contentType: contentTypeFor(key) });
+          stored.push({ sessionId: session.id, key });
+        }
+      } catch (error) {
+        for (const { sessionId, key } of stored) {
+          await storage.download(key, partialUploadPath(sessionId))
+            .then(() => storage.delete(key))
+            .catch((restoreErr) => console.error(`Failed to restore upload ${sessionId}:`, restoreErr));
+        }
+        await prisma.$transaction([
+          prisma.track.deleteMany({ where: { albumId: album.id } }),
+          prisma.album.delete({ where: { id: album.id } }),
+        ]);
+        throw error;
+      }
+      
+      const visibility = releaseVisibility(data.album.isPublic ?? true, album.releaseDate);
+      await prisma.$transaction([
+        prisma.album.update({ where: { id: album.id }, data: visibility }),
+        prisma.track.updateMany({ where: { albumId: album.id }, data: visibility }),
+        ...files.map(({ session, key }) =>
+          prisma.uploadSession.update({
+            where: { id: session.id },
+            data: { trackId: trackIds.get(key), completedAt: new Date(), offset: session.totalSize },
+          })
+        ),
+      ]);
       
-      tempFilePath = null; // Don't delete on success
-      res.status(201).json(track);
+      const tracks = [];
+      for (const { session, title, trackNumber, discNumber, key } of files) {
+        const trackId = trackIds.get(key)!;
+        const job = await transcodeQueue.add({ trackId, sourceKey: key });
+        await prisma.track.update({
+          where: { id: trackId },
+          data: { processingJobId: job.id },
+        });
+        tracks.push({ id: trackId, sessionId: session.id, title, trackNumber, discNumber, jobId: job.id });
+      }
+      
+      res.status(202).json({
+        album: {
+          id: album.id,
+          title: album.title,
+          slug: album.slug,
+          coverUrl: album.coverUrl,
+          releaseDate: album.releaseDate,
+          ...visibility,
+        },
+        tracks,
+      });
     } catch (error) {
-      // Clean up temp file on error
-      if (tempFilePath) {
-        await fs.unlink(tempFilePath).catch(() => {});
+      if (error instanceof z.ZodError) {
+        return next(errors.badRequest(error.errors[0].message));
       }
       next(error);
+    } finally {
+      for (const sessionId of locked) {
+        await redis.del(sessionLockKey(sessionId)).catch(() => {});
+      }
     }
   }
 );
@@ -393,8 +924,7 @@ uploadRoutes.post(
         
         const buffer = Buffer.from(image, 'base64');
         const ext = mimeType?.includes('png') ? '.png' : mimeType?.includes('webp') ? '.webp' : '.jpg';
-        const filename = `${uuid()}${ext}`;
-        filePath = path.join(coverDir, filename);
+        filePath = await scratchPath(ext);
         tempFilePath = filePath;
         
         await fs.writeFile(filePath, buffer);
@@ -455,8 +985,7 @@ uploadRoutes.post(
         
         const buffer = Buffer.from(image, 'base64');
         const ext = mimeType?.includes('png') ? '.png' : mimeType?.includes('webp') ? '.webp' : '.jpg';
-        const filename = `${uuid()}${ext}`;
-        filePath = path.join(avatarDir, filename);
+        filePath = await scratchPath(ext);
         tempFilePath = filePath;
         
         await fs.writeFile(filePath, buffer);
@@ -476,19 +1005,19 @@ uploadRoutes.post(
         filePath = req.file.path;
       }
       
-      const outputName = `${req.user!.id}.webp`;
-      const outputPath = path.join(avatarDir, outputName);
+      const avatarUrl = `avatars/${req.user!.id}.webp`;
       
-      await sharp(filePath)
+      const image = await sharp(filePath)
         .resize(200, 200, { fit: 'cover' })
         .webp({ quality: 90 })
-        .toFile(outputPath);
+        .toBuffer();
+      
+      // Same key on every change, so don't let caches hold it for long
+      await storage.put(avatarUrl, image, { contentType: 'image/webp', cacheControl: 'public, max-age=3600' });
       
       await fs.unlink(filePath);
       tempFilePath = null;
       
-      const avatarUrl = `avatars/${outputName}`;
-      
       // Update user
       await prisma.user.update({
         where: { id: req.user!.id },
@@ -507,3 +1036,53 @@ uploadRoutes.post(
     }
   }
 );
+
+// Background job status (polled by the Upload page)
+uploadRoutes.get(
+  '/jobs/:jobId',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { jobId } = req.params;
+      
+      const job = await transcodeQueue.get(jobId);
+      
+      // Finished jobs expire from Redis; the track keeps the final state
+      const track = await prisma.track.findFirst({
+        where: { processingJobId: jobId },
+        select: {
+          id: true,
+          title: true,
+          artistId: true,
+          processingStatus: true,
+          processingError: true,
+        },
+      });
+      
+      if (!track) {
+        throw errors.notFound('Job not found');
+      }
+      
+      if (track.artistId !== req.user!.id) {
+        throw errors.forbidden('You can only view your own jobs');
+      }
+      
+      res.json({
+        id: jobId,
+        status: job?.status ?? track.processingStatus.toLowerCase(),
+        attempts: job?.attempts ?? null,
+        maxAttempts: job?.maxAttempts ?? null,
+        error: job?.error ?? track.processingError,
+        createdAt: job?.createdAt ?? null,
+        updatedAt: job?.updatedAt ?? null,
+        track: {
+          id: track.id,
+          title: track.title,
+          processingStatus: track.processingStatus,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -26,7 +26,7 @@ userRoutes.get('/:username', optionalAuth, async (req: Request, res: Response, n
           select: {
             tracks: { where: { isPublic: true } },
             albums: { where: { isPublic: true } },
-            playlists: { where: { isPublic: true } },
+            playlists: { where: { isPublic: true, deletedAt: null } },
             followers: true,
             following: true,
           },
@@ -58,6 +58,46 @@ userRoutes.get('/:username', optionalAuth, async (req: Request, res: Response, n
   }
 });
 
+// Scheduled releases, soonest first, for listeners to pre-save
+userRoutes.get('/:username/upcoming', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { username } = req.params;
+    
+    const user = await prisma.user.findUnique({
+      where: { username },
+      select: { id: true },
+    });
+    
+    if (!user) {
+      throw errors.notFound('User not found');
+    }
+    
+    const select = { id: true, title: true, coverUrl: true, releaseDate: true } as const;
+    
+    const [albums, tracks] = await Promise.all([
+      prisma.album.findMany({
+        where: { artistId: user.id, isScheduled: true },
+        orderBy: { releaseDate: 'asc' },
+        select: { ...select, albumType: true },
+      }),
+      // Tracks of an upcoming album are shown through the album
+      prisma.track.findMany({
+        where: {
+          artistId: user.id,
+          isScheduled: true,
+          OR: [{ albumId: null }, { album: { isScheduled: false } }],
+        },
+        orderBy: { releaseDate: 'asc' },
+        select,
+      }),
+    ]);
+    
+    res.json({ albums, tracks });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get user's tracks
 userRoutes.get('/:username/tracks', optionalAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -0,0 +1,53 @@
+import { prisma } from '../db/client.js';
+
+export const albumSlug = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'album';
+
+/**
+ * The artist's album with this name, created if it doesn't exist yet
+ * Matching ignores case; concurrent uploads from the same album settle on
+ * one row through the (artistId, slug) unique constraint.
+ */
+export async function findOrCreateAlbum(
+  artistId: string,
+  title: string,
+  defaults: { releaseDate?: Date; coverUrl?: string | null } = {}
+) {
+  const slug = albumSlug(title);
+  const select = { id: true, title: true, coverUrl: true } as const;
+
+  const existing = await prisma.album.findFirst({
+    where: {
+      artistId,
+      OR: [{ slug }, { title: { equals: title, mode: 'insensitive' } }],
+    },
+    select,
+  });
+  if (existing) return { ...existing, created: false };
+
+  try {
+    const album = await prisma.album.create({
+      data: {
+        title,
+        slug,
+        artistId,
+        releaseDate: defaults.releaseDate ?? null,
+        coverUrl: defaults.coverUrl ?? null,
+      },
+      select,
+    });
+    return { ...album, created: true };
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      const album = await prisma.album.findUniqueOrThrow({
+        where: { artistId_slug: { artistId, slug } },
+        select,
+      });
+      return { ...album, created: false };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,372 @@
+import path from 'path';
+import fs from 'fs/promises';
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from '../config/index.js';
+import { contentTypeFor, putDirectory, scratchPath, storage } from './storage/index.js';
+
+/**
+ * AUDIO PROCESSING
+ * 
+ * ffmpeg helpers shared by the upload routes and the transcode worker.
+ * ffmpeg writes into a local scratch directory; finished renditions are
+ * moved into storage and returned as storage keys.
+ */
+
+// Renditions never change once written (re-uploads get new keys)
+const IMMUTABLE = 'public, max-age=31536000, immutable';
+
+/**
+ * Generate waveform data from audio file
+ * Returns array of amplitude values for visualization
+ */
+export async function generateWaveform(filePath: string): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const samples: number[] = [];
+    
+    ffmpeg(filePath)
+      .audioFilters('aresample=8000,aformat=channel_layouts=mono')
+      .format('f32le')
+      .pipe()
+      .on('data', (chunk: Buffer) => {
+        for (let i = 0; i < chunk.length; i += 4) {
+          const sample = chunk.readFloatLE(i);
+          samples.push(Math.abs(sample));
+        }
+      })
+      .on('end', () => {
+        // Downsample to ~200 points for visualization
+        const targetPoints = 200;
+        const step = Math.ceil(samples.length / targetPoints);
+        const waveform: number[] = [];
+        
+        for (let i = 0; i < samples.length; i += step) {
+          const slice = samples.slice(i, i + step);
+          const max = Math.max(...slice);
+          waveform.push(Math.round(max * 100) / 100);
+        }
+        
+        resolve(waveform);
+      })
+      .on('error', (err) => {
+        console.error('Waveform generation error:', err);
+        resolve([]); // Return empty array on error
+      });
+  });
+}
+
+export type Loudness = {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+};
+
+/**
+ * Measure integrated loudness and true peak (EBU R128)
+ * Runs loudnorm in analysis mode, which prints its measurements as JSON
+ * at the end of ffmpeg's log. Null for silence or if ffmpeg fails.
+ */
+export async function measureLoudness(filePath: string): Promise<Loudness | null> {
+  return new Promise((resolve) => {
+    ffmpeg(filePath)
+      .noVideo()
+      .audioFilters('loudnorm=print_format=json')
+      .format('null')
+      .output('-')
+      .on('end', (_stdout, stderr) => {
+        const json = stderr?.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+        try {
+          const stats = JSON.parse(json || '');
+          const integrated = parseFloat(stats.input_i);
+          const truePeak = parseFloat(stats.input_tp);
+          // Digital silence measures as -inf
+          resolve(Number.isFinite(integrated) && Number.isFinite(truePeak) ? { integrated, truePeak } : null);
+        } catch {
+          resolve(null);
+        }
+      })
+      .on('error', (err) => {
+        console.error('Loudness analysis error:', err);
+        resolve(null);
+      })
+      .run();
+  });
+}
+
+export type Codec = 'mp3' | 'aac' | 'opus';
+export type LadderQuality = 'low' | 'medium' | 'high';
+type Ladder = Partial<Record<LadderQuality, string>>;
+
+// Encoder settings per codec; Opus only runs at 48kHz
+const CODECS: Record<Codec, { encoder: string; ext: string; sampleRate: number; options?: string[] }> = {
+  mp3: { encoder: 'libmp3lame', ext: 'mp3', sampleRate: 44100 },
+  // moov atom up front so playback can start before the whole file arrives
+  aac: { encoder: 'aac', ext: 'm4a', sampleRate: 44100, options: ['-movflags', '+faststart'] },
+  opus: { encoder: 'libopus', ext: 'opus', sampleRate: 48000 },
+};
+
+export type TranscodeResult = {
+  low?: string;
+  medium?: string;
+  high?: string;
+  aac?: Ladder;
+  opus?: Ladder;
+  lossless?: string; // FLAC
+  hls?: string;
+  dash?: string;
+  loudness?: Loudness;
+};
+
+/**
+ * Transcode audio to multiple quality levels
+ * This is key for data-efficient streaming. MP3 plays everywhere; the
+ * AAC and Opus ladders sound better at the same bitrate for players that
+ * support them, and FLAC gives lossless listeners a format they can play
+ * whatever was uploaded. Also measures loudness so players can normalize
+ * volume across tracks.
+ */
+export async function transcodeAudio(
+  inputPath: string,
+  baseName: string
+): Promise<TranscodeResult> {
+  const qualities = {
+    low: config.audioQuality.low,
+    medium: config.audioQuality.medium,
+    high: config.audioQuality.high,
+  };
+  
+  const results: TranscodeResult = {};
+  const workDir = await scratchPath();
+  await fs.mkdir(workDir, { recursive: true });
+  
+  try {
+    // Measured on the original, before lossy encoding shifts the peaks
+    const loudness = await measureLoudness(inputPath);
+    if (loudness) {
+      results.loudness = loudness;
+    }
+    
+    Object.assign(results, await encodeLadder(inputPath, baseName, 'mp3', qualities, workDir));
+    
+    if (config.codecs.aac) {
+      results.aac = await encodeLadder(inputPath, baseName, 'aac', qualities, workDir);
+    }
+    
+    if (config.codecs.opus) {
+      results.opus = await encodeLadder(inputPath, baseName, 'opus', config.opusQuality, workDir);
+    }
+    
+    if (config.codecs.flac && (await isLossless(inputPath))) {
+      results.lossless = await encodeFlac(inputPath, baseName, workDir);
+    }
+    
+    // Segmented renditions let players switch bitrate mid-track
+    if (config.adaptiveStreaming.hls) {
+      results.hls = await packageHls(inputPath, baseName, qualities, workDir);
+    }
+    
+    if (config.adaptiveStreaming.dash) {
+      results.dash = await packageDash(inputPath, baseName, qualities, workDir);
+    }
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+  
+  return results;
+}
+
+/**
+ * Encode one codec at every quality
+ * Failed renditions are skipped so the rest of the ladder still ships
+ */
+async function encodeLadder(
+  inputPath: string,
+  baseName: string,
+  codec: Codec,
+  qualities: Record<LadderQuality, number>,
+  workDir: string
+): Promise<Ladder> {
+  const { encoder, ext, sampleRate, options = [] } = CODECS[codec];
+  // MP3 keeps its original key names so existing renditions stay valid
+  const suffix = codec === 'mp3' ? '' : `_${codec}`;
+  const ladder: Ladder = {};
+  
+  for (const [quality, bitrate] of Object.entries(qualities)) {
+    const outputName = `${baseName}_${quality}${suffix}.${ext}`;
+    const outputPath = path.join(workDir, outputName);
+    
+    const ok = await new Promise<boolean>((resolve) => {
+      ffmpeg(inputPath)
+        .noVideo() // Embedded cover art can't go into every container
+        .audioCodec(encoder)
+        .audioBitrate(bitrate)
+        .audioChannels(2)
+        .audioFrequency(sampleRate)
+        .outputOptions(...options)
+        .output(outputPath)
+        .on('end', () => resolve(true))
+        .on('error', (err) => {
+          console.error(`Transcode error (${codec} ${quality}):`, err);
+          resolve(false); // Continue with other qualities
+        })
+        .run();
+    });
+    
+    if (ok) {
+      const key = `audio/${outputName}`;
+      await storage.putFile(key, outputPath, { contentType: contentTypeFor(key), cacheControl: IMMUTABLE });
+      ladder[quality as LadderQuality] = key;
+    }
+  }
+  
+  return ladder;
+}
+
+const LOSSLESS_CODECS = /^(flac|alac|pcm_\w+|wavpack|ape|tta|mlp|truehd)$/;
+
+// A FLAC made from an MP3 upload would only be bigger, not better
+async function isLossless(inputPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(inputPath, (err, data) => {
+      const stream = data?.streams.find((s) => s.codec_type === 'audio');
+      resolve(!err && LOSSLESS_CODECS.test(stream?.codec_name ?? ''));
+    });
+  });
+}
+
+// Lossless copy at the source's own sample rate and channel count
+async function encodeFlac(inputPath: string, baseName: string, workDir: string): Promise<string | undefined> {
+  const outputName = `${baseName}_lossless.flac`;
+  const outputPath = path.join(workDir, outputName);
+  
+  const ok = await new Promise<boolean>((resolve) => {
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioCodec('flac')
+      .output(outputPath)
+      .on('end', () => resolve(true))
+      .on('error', (err) => {
+        console.error('Transcode error (flac):', err);
+        resolve(false);
+      })
+      .run();
+  });
+  
+  if (!ok) {
+    return undefined;
+  }
+  
+  const key = `audio/${outputName}`;
+  await storage.putFile(key, outputPath, { contentType: contentTypeFor(key), cacheControl: IMMUTABLE });
+  return key;
+}
+
+/**
+ * Package the quality ladder as HLS
+ * One AAC rendition per quality plus a master playlist that lists them all
+ */
+async function packageHls(
+  inputPath: string,
+  baseName: string,
+  qualities: Record<string, number>,
+  workDir: string
+): Promise<string | undefined> {
+  const outputDir = path.join(workDir, 'hls');
+  const variants: string[] = [];
+  
+  for (const [quality, bitrate] of Object.entries(qualities)) {
+    const renditionDir = path.join(outputDir, quality);
+    await fs.mkdir(renditionDir, { recursive: true });
+    
+    const ok = await new Promise<boolean>((resolve) => {
+      ffmpeg(inputPath)
+        .noVideo()
+        .audioCodec('aac')
+        .audioBitrate(bitrate)
+        .audioChannels(2)
+        .audioFrequency(44100)
+        .outputOptions(
+          '-f', 'hls',
+          '-hls_time', String(config.adaptiveStreaming.segmentDuration),
+          '-hls_playlist_type', 'vod',
+          '-hls_segment_filename', path.join(renditionDir, 'segment_%03d.ts')
+        )
+        .output(path.join(renditionDir, 'index.m3u8'))
+        .on('end', () => resolve(true))
+        .on('error', (err) => {
+          console.error(`HLS packaging error (${quality}):`, err);
+          resolve(false);
+        })
+        .run();
+    });
+    
+    if (ok) {
+      // Peak bandwidth includes ~10% MPEG-TS container overhead
+      const bandwidth = Math.round(bitrate * 1000 * 1.1);
+      variants.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},AVERAGE-BANDWIDTH=${bitrate * 1000},CODECS="mp4a.40.2"`,
+        `${quality}/index.m3u8`
+      );
+    }
+  }
+  
+  if (variants.length === 0) {
+    return undefined;
+  }
+  
+  const master = ['#EXTM3U', '#EXT-X-VERSION:3', ...variants, ''].join('\n');
+  await fs.writeFile(path.join(outputDir, 'master.m3u8'), master);
+  
+  await putDirectory(`hls/${baseName}`, outputDir, IMMUTABLE);
+  return `hls/${baseName}/master.m3u8`;
+}
+
+/**
+ * Package the quality ladder as MPEG-DASH
+ * All renditions share one adaptation set so the player can switch freely
+ */
+async function packageDash(
+  inputPath: string,
+  baseName: string,
+  qualities: Record<string, number>,
+  workDir: string
+): Promise<string | undefined> {
+  const outputDir = path.join(workDir, 'dash');
+  await fs.mkdir(outputDir, { recursive: true });
+  
+  const bitrates = Object.values(qualities);
+  const options: string[] = [];
+  
+  bitrates.forEach(() => options.push('-map', '0:a'));
+  bitrates.forEach((bitrate, i) => options.push(`-b:a:${i}`, `${bitrate}k`));
+  
+  const ok = await new Promise<boolean>((resolve) => {
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioCodec('aac')
+      .audioChannels(2)
+      .audioFrequency(44100)
+      .outputOptions(
+        ...options,
+        '-f', 'dash',
+        '-seg_duration', String(config.adaptiveStreaming.segmentDuration),
+        '-use_template', '1',
+        '-use_timeline', '1',
+        '-adaptation_sets', 'id=0,streams=a',
+        '-init_seg_name', 'init-$RepresentationID$.m4s',
+        '-media_seg_name', 'chunk-$RepresentationID$-$Number%05d$.m4s'
+      )
+      .output(path.join(outputDir, 'manifest.mpd'))
+      .on('end', () => resolve(true))
+      .on('error', (err) => {
+        console.error('DASH packaging error:', err);
+        resolve(false);
+      })
+      .run();
+  });
+  
+  if (!ok) {
+    return undefined;
+  }
+  
+  await putDirectory(`dash/${baseName}`, outputDir, IMMUTABLE);
+  return `dash/${baseName}/manifest.mpd`;
+}
@@ -0,0 +1,69 @@
+import path from 'path';
+import type { IAudioMetadata } from 'music-metadata';
+
+/**
+ * EMBEDDED TAGS
+ *
+ * Track details read from the uploaded file's own tags (ID3, Vorbis, MP4,
+ * APE...). Uploads use them for anything the uploader didn't fill in, so a
+ * well-tagged file needs no typing at all.
+ */
+
+export interface EmbeddedTags {
+  title?: string;
+  album?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  releaseDate?: Date;
+  genre?: string;
+  isrc?: string;
+  picture?: { data: Buffer; format: string };
+}
+
+// CC-XXX-YY-NNNNN, stored without hyphens
+const ISRC = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+
+const clean = (value: string | undefined, maxLength: number) => {
+  const trimmed = value?.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed.slice(0, maxLength) : undefined;
+};
+
+// Full date when the tag has one ("2021-05-03"), otherwise 1 January of the year
+function releaseDateOf(common: IAudioMetadata['common']): Date | undefined {
+  if (common.date && /^\d{4}-\d{2}(-\d{2})?/.test(common.date)) {
+    const date = new Date(common.date.length === 7 ? `${common.date}-01` : common.date.slice(0, 10));
+    if (!isNaN(date.getTime())) return date;
+  }
+  const year = common.year || common.originalyear;
+  if (year && year > 1000 && year < 3000) {
+    return new Date(Date.UTC(year, 0, 1));
+  }
+  return undefined;
+}
+
+export function readEmbeddedTags(metadata: IAudioMetadata): EmbeddedTags {
+  const { common } = metadata;
+  const isrc = common.isrc?.[0]?.replace(/-/g, '').toUpperCase();
+  // Front cover if it's marked, otherwise the first picture
+  const picture = common.picture?.find((p) => p.type === 'Cover (front)') ?? common.picture?.[0];
+
+  return {
+    title: clean(common.title, 200),
+    album: clean(common.album, 200),
+    trackNumber: common.track?.no || undefined,
+    discNumber: common.disk?.no || undefined,
+    releaseDate: releaseDateOf(common),
+    genre: clean(common.genre?.[0], 50),
+    isrc: isrc && ISRC.test(isrc) ? isrc : undefined,
+    picture: picture?.data?.length ? { data: picture.data, format: picture.format } : undefined,
+  };
+}
+
+// "03_my-song.flac" -> "03 my song", the same guess the upload form makes
+export const titleFromFileName = (fileName: string) =>
+  path
+    .basename(fileName, path.extname(fileName))
+    .replace(/[-_]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 200) || 'Untitled';
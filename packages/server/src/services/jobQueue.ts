@@ -0,0 +1,244 @@
+import { v4 as uuid } from 'uuid';
+import { redis } from '../db/redis.js';
+import { config } from '../config/index.js';
+
+/**
+ * REDIS-BACKED JOB QUEUE
+ *
+ * Jobs survive restarts: the job itself lives in a Redis hash and its id
+ * moves between lists as it changes state.
+ *
+ *   queue:<name>:waiting     ids ready to run (LPUSH / BLMOVE from the right)
+ *   queue:<name>:active      ids a worker has claimed
+ *   queue:<name>:delayed     sorted set of ids waiting for a retry (score = run at)
+ *   job:<id>                 hash with state, attempts, data and error
+ *
+ * A worker refreshes the job lock while it runs. Jobs whose lock goes stale
+ * (crashed worker) are moved back to waiting by recoverStalled().
+ */
+
+export type JobStatus = 'queued' | 'processing' | 'failed' | 'done';
+
+export interface Job<T> {
+  id: string;
+  queue: string;
+  status: JobStatus;
+  data: T;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type JobProcessor<T> = (job: Job<T>) => Promise<void>;
+
+// Finished jobs are kept around long enough for clients to poll the result
+const FINISHED_JOB_TTL = 7 * 24 * 60 * 60;
+
+const keys = {
+  waiting: (queue: string) => `queue:${queue}:waiting`,
+  active: (queue: string) => `queue:${queue}:active`,
+  delayed: (queue: string) => `queue:${queue}:delayed`,
+  job: (id: string) => `job:${id}`,
+  lock: (id: string) => `job:${id}:lock`,
+};
+
+/**
+ * Claiming (lock + processing) and stall recovery each run as one script,
+ * so they can't interleave: a job recovered between BLMOVE and its claim
+ * is no longer active and the claim gives it up instead of running it twice.
+ */
+
+// KEYS: active, lock, job  ARGV: id, lock ttl ms, now
+const CLAIM_SCRIPT = `
+if not redis.call('LPOS', KEYS[1], ARGV[1]) then return 0 end
+redis.call('SET', KEYS[2], '1', 'PX', ARGV[2])
+redis.call('HSET', KEYS[3], 'status', 'processing', 'updatedAt', ARGV[3])
+redis.call('HINCRBY', KEYS[3], 'attempts', 1)
+return 1
+`;
+
+// KEYS: active, lock, job, waiting  ARGV: id, now
+const RECOVER_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 1 then return 0 end
+if redis.call('LREM', KEYS[1], 0, ARGV[1]) == 0 then return 0 end
+redis.call('HSET', KEYS[3], 'status', 'queued', 'updatedAt', ARGV[2])
+redis.call('LPUSH', KEYS[4], ARGV[1])
+return 1
+`;
+
+const parseJob = <T>(hash: Record<string, string>): Job<T> | null => {
+  if (!hash.id) return null;
+
+  return {
+    id: hash.id,
+    queue: hash.queue,
+    status: hash.status as JobStatus,
+    data: JSON.parse(hash.data),
+    attempts: parseInt(hash.attempts, 10),
+    maxAttempts: parseInt(hash.maxAttempts, 10),
+    error: hash.error || null,
+    createdAt: hash.createdAt,
+    updatedAt: hash.updatedAt,
+  };
+};
+
+export function createQueue<T>(name: string) {
+  const lockTtlMs = config.jobs.lockTimeoutMs;
+
+  const queue = {
+    name,
+
+    // Add a job and return it
+    async add(data: T, options: { maxAttempts?: number } = {}): Promise<Job<T>> {
+      const now = new Date().toISOString();
+      const job: Job<T> = {
+        id: uuid(),
+        queue: name,
+        status: 'queued',
+        data,
+        attempts: 0,
+        maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await redis
+        .multi()
+        .hset(keys.job(job.id), {
+          ...job,
+          data: JSON.stringify(data),
+          error: '',
+        })
+        .lpush(keys.waiting(name), job.id)
+        .exec();
+
+      return job;
+    },
+
+    // Look up a job by id
+    async get(id: string): Promise<Job<T> | null> {
+      const hash = await redis.hgetall(keys.job(id));
+      const job = parseJob<T>(hash);
+      return job && job.queue === name ? job : null;
+    },
+
+    // Block until a job is available, claim it and mark it processing
+    async reserve(connection: typeof redis, timeoutSeconds = 5): Promise<Job<T> | null> {
+      const id = await connection.blmove(
+        keys.waiting(name),
+        keys.active(name),
+        'RIGHT',
+        'LEFT',
+        timeoutSeconds
+      );
+
+      if (!id) return null;
+
+      const claimed = await redis.eval(
+        CLAIM_SCRIPT,
+        3,
+        keys.active(name),
+        keys.lock(id),
+        keys.job(id),
+        id,
+        lockTtlMs,
+        new Date().toISOString()
+      );
+
+      // Already requeued as stalled; it comes round again from waiting
+      return claimed ? queue.get(id) : null;
+    },
+
+    // Keep a long-running job from being treated as stalled
+    async extendLock(id: string): Promise<void> {
+      await redis.set(keys.lock(id), '1', 'PX', lockTtlMs);
+    },
+
+    async complete(id: string): Promise<void> {
+      await redis
+        .multi()
+        .lrem(keys.active(name), 0, id)
+        .del(keys.lock(id))
+        .hset(keys.job(id), { status: 'done', error: '', updatedAt: new Date().toISOString() })
+        .expire(keys.job(id), FINISHED_JOB_TTL)
+        .exec();
+    },
+
+    // Record a failure; schedules a retry with backoff until attempts run out.
+    // Returns true when the job has permanently failed.
+    async fail(job: Job<T>, error: unknown): Promise<boolean> {
+      const message = error instanceof Error ? error.message : String(error);
+      const now = new Date().toISOString();
+      const exhausted = job.attempts >= job.maxAttempts;
+
+      const tx = redis
+        .multi()
+        .lrem(keys.active(name), 0, job.id)
+        .del(keys.lock(job.id));
+
+      if (exhausted) {
+        tx.hset(keys.job(job.id), { status: 'failed', error: message, updatedAt: now })
+          .expire(keys.job(job.id), FINISHED_JOB_TTL);
+      } else {
+        // Exponential backoff: 1x, 2x, 4x ... the base delay
+        const delay = config.jobs.retryDelayMs * 2 ** (job.attempts - 1);
+        tx.hset(keys.job(job.id), { status: 'queued', error: message, updatedAt: now })
+          .zadd(keys.delayed(name), Date.now() + delay, job.id);
+      }
+
+      await tx.exec();
+      return exhausted;
+    },
+
+    // Move retries whose backoff has elapsed back onto the waiting list
+    async promoteDelayed(): Promise<number> {
+      const due = await redis.zrangebyscore(keys.delayed(name), 0, Date.now());
+
+      for (const id of due) {
+        // Only the caller that removes the entry gets to requeue it
+        if (await redis.zrem(keys.delayed(name), id)) {
+          await redis.lpush(keys.waiting(name), id);
+        }
+      }
+
+      return due.length;
+    },
+
+    // Requeue jobs whose worker died without completing or failing them
+    async recoverStalled(): Promise<number> {
+      const active = await redis.lrange(keys.active(name), 0, -1);
+      let recovered = 0;
+
+      for (const id of active) {
+        const requeued = await redis.eval(
+          RECOVER_SCRIPT,
+          4,
+          keys.active(name),
+          keys.lock(id),
+          keys.job(id),
+          keys.waiting(name),
+          id,
+          new Date().toISOString()
+        );
+        if (requeued) recovered++;
+      }
+
+      return recovered;
+    },
+  };
+
+  return queue;
+}
+
+export type Queue<T> = ReturnType<typeof createQueue<T>>;
+
+// Queues used by the app
+export interface TranscodeJobData {
+  trackId: string;
+  sourceKey: string; // Original upload, storage key
+}
+
+export const transcodeQueue = createQueue<TranscodeJobData>('transcode');
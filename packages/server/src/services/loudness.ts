@@ -0,0 +1,57 @@
+import { prisma } from '../db/client.js';
+import { cache, cacheKeys } from '../db/redis.js';
+import { config } from '../config/index.js';
+
+/**
+ * LOUDNESS NORMALIZATION
+ *
+ * Tracks are measured once at transcode time (see measureLoudness). The
+ * gains stored here are what a player adds to reach the reference
+ * loudness: track gain evens out a shuffled queue, album gain keeps the
+ * quiet and loud songs of one album at their intended levels. Audio files
+ * are never rewritten, so clients can turn normalization off.
+ */
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function trackGain(loudness: number): number {
+  return round(config.loudness.referenceLufs - loudness);
+}
+
+/**
+ * Recompute the album gain shared by every measured track on an album
+ * Album loudness is the duration-weighted energy mean of its tracks, which
+ * matches measuring the whole album as one programme. Called whenever a
+ * track is measured or leaves the album.
+ */
+export async function updateAlbumGain(albumId: string): Promise<void> {
+  const tracks = await prisma.track.findMany({
+    where: { albumId, loudness: { not: null } },
+    select: { id: true, duration: true, loudness: true, truePeak: true },
+  });
+
+  if (tracks.length === 0) return;
+
+  let energy = 0;
+  let seconds = 0;
+  let albumPeak = -Infinity;
+
+  for (const track of tracks) {
+    const weight = Math.max(track.duration, 1);
+    energy += weight * Math.pow(10, track.loudness! / 10);
+    seconds += weight;
+    albumPeak = Math.max(albumPeak, track.truePeak ?? -Infinity);
+  }
+
+  const albumLoudness = 10 * Math.log10(energy / seconds);
+
+  await prisma.track.updateMany({
+    where: { albumId },
+    data: {
+      albumGain: trackGain(albumLoudness),
+      albumPeak: Number.isFinite(albumPeak) ? round(albumPeak) : null,
+    },
+  });
+
+  await Promise.all(tracks.map((track: { id: string }) => cache.del(cacheKeys.trackMeta(track.id))));
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { IAudioMetadata } from 'music-metadata';
+import { extractEmbeddedLyrics, lrcToPlain, parseLrc } from './lyrics.js';
+
+describe('parseLrc', () => {
+  it('reads timestamps with hundredths, thousandths or no fraction', () => {
+    expect(parseLrc('[00:12.40]One\n[01:02.005]Two\n[02:03]Three')).toEqual([
+      { time: 12400, text: 'One' },
+      { time: 62005, text: 'Two' },
+      { time: 123000, text: 'Three' },
+    ]);
+  });
+
+  it('repeats a line for each of its timestamps and sorts by time', () => {
+    expect(parseLrc('[00:30.00]Later\n[00:10.00][00:50.00]Chorus')).toEqual([
+      { time: 10000, text: 'Chorus' },
+      { time: 30000, text: 'Later' },
+      { time: 50000, text: 'Chorus' },
+    ]);
+  });
+
+  it('skips tag lines and applies the offset', () => {
+    const lrc = '[ar:Someone]\n[ti:Song]\n[offset:+250]\n[00:01.00]Hello';
+    expect(parseLrc(lrc)).toEqual([{ time: 750, text: 'Hello' }]);
+  });
+
+  it('never moves a line before the start of the track', () => {
+    expect(parseLrc('[offset:5000]\n[00:01.00]Early')).toEqual([{ time: 0, text: 'Early' }]);
+  });
+
+  it('drops enhanced word timings and keeps empty lines as breaks', () => {
+    expect(parseLrc('[00:05.00]<00:05.00>Word <00:05.50>by word\r\n[00:08.00]')).toEqual([
+      { time: 5000, text: 'Word by word' },
+      { time: 8000, text: '' },
+    ]);
+  });
+
+  it('returns no lines for plain text', () => {
+    expect(parseLrc('Just words\nOn lines')).toEqual([]);
+  });
+});
+
+describe('lrcToPlain', () => {
+  it('keeps the text in time order without timestamps', () => {
+    expect(lrcToPlain('[ar:Someone]\n[00:02.00]Second\n[00:01.00]First')).toBe('First\nSecond');
+  });
+});
+
+describe('extractEmbeddedLyrics', () => {
+  const metadata = (common: string[], native: Record<string, { id: string; value: any }[]> = {}) =>
+    ({ common: { lyrics: common }, native }) as unknown as IAudioMetadata;
+
+  it('returns null when the file has no lyrics', () => {
+    expect(extractEmbeddedLyrics(metadata([]))).toBeNull();
+  });
+
+  it('treats LRC in an ordinary lyrics tag as synced lyrics', () => {
+    const lrc = '[00:01.00]First\n[00:02.00]Second';
+    expect(extractEmbeddedLyrics(metadata([lrc]))).toEqual({ plain: 'First\nSecond', lrc });
+  });
+
+  it('keeps plain text and LRC from different tags', () => {
+    const lrc = '[00:01.00]First';
+    const result = extractEmbeddedLyrics(
+      metadata(['Written out'], { 'ID3v2.4': [{ id: 'USLT', value: { text: lrc } }, { id: 'TIT2', value: lrc }] })
+    );
+    expect(result).toEqual({ plain: 'Written out', lrc });
+  });
+});
@@ -0,0 +1,128 @@
+import type { IAudioMetadata } from 'music-metadata';
+import type { Lyrics } from '@prisma/client';
+
+/**
+ * LYRICS
+ *
+ * A track's lyrics are plain text, time-synced LRC, or both. LRC is kept as
+ * the artist wrote it and parsed into timed lines when served, so players
+ * never need their own LRC parser:
+ *
+ *   [ar:Artist]
+ *   [offset:+250]
+ *   [00:12.40]First line
+ *   [00:15.10][01:02.00]A line sung twice
+ */
+
+export interface LyricLine {
+  time: number; // Milliseconds from the start of the track
+  text: string;
+}
+
+// [mm:ss], [mm:ss.xx] or [mm:ss.xxx]
+const TIMESTAMP = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+// [tag:value] header lines, e.g. [ar:...] or [offset:...]
+const TAG_LINE = /^\[([a-z#]+):(.*)\]$/i;
+// Enhanced LRC word timings <mm:ss.xx>; only line timing is used
+const WORD_TIMESTAMP = /<\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?>/g;
+
+const toMs = (minutes: string, seconds: string, fraction = '0') =>
+  (parseInt(minutes, 10) * 60 + parseInt(seconds, 10)) * 1000 +
+  Math.round(parseInt(fraction.padEnd(3, '0').slice(0, 3), 10));
+
+/**
+ * Parse LRC into lines sorted by time, with the [offset] tag applied
+ * Returns no lines when the text has no timestamps (i.e. isn't LRC)
+ */
+export function parseLrc(lrc: string): LyricLine[] {
+  const lines: LyricLine[] = [];
+  let offset = 0;
+
+  for (const raw of lrc.split(/\r?\n/)) {
+    const line = raw.trim();
+    const stamps = [...line.matchAll(TIMESTAMP)];
+
+    if (stamps.length === 0) {
+      const tag = line.match(TAG_LINE);
+      // A positive offset shows lyrics sooner
+      if (tag && tag[1].toLowerCase() === 'offset') {
+        offset = parseInt(tag[2], 10) || 0;
+      }
+      continue;
+    }
+
+    const text = line.replace(TIMESTAMP, '').replace(WORD_TIMESTAMP, '').trim();
+    for (const [, minutes, seconds, fraction] of stamps) {
+      lines.push({ time: toMs(minutes, seconds, fraction), text });
+    }
+  }
+
+  return lines
+    .map((line) => ({ ...line, time: Math.max(0, line.time - offset) }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Plain text version of LRC, for search engines and players without sync
+export const lrcToPlain = (lrc: string) =>
+  parseLrc(lrc)
+    .map((line) => line.text)
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Most lines carry a timestamp
+function looksLikeLrc(text: string): boolean {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const timed = lines.filter((line) => /^\[\d{1,3}:\d{1,2}/.test(line)).length;
+  return timed > 0 && timed >= lines.length / 2;
+}
+
+// Native tags that carry lyrics across ID3 (USLT), Vorbis/FLAC, MP4, APE and ASF
+const LYRICS_TAGS = new Set(['USLT', 'ULT', 'LYRICS', 'UNSYNCEDLYRICS', 'SYNCEDLYRICS', '©lyr', 'Lyrics', 'WM/Lyrics']);
+
+/**
+ * Lyrics embedded in the uploaded file's tags
+ * LRC is commonly stored in the ordinary lyrics tag, so any tag that reads
+ * as LRC becomes synced lyrics and the rest plain text
+ */
+export function extractEmbeddedLyrics(metadata: IAudioMetadata): { plain: string | null; lrc: string | null } | null {
+  const texts: string[] = [...(metadata.common.lyrics ?? [])];
+
+  for (const tags of Object.values(metadata.native)) {
+    for (const tag of tags) {
+      if (!LYRICS_TAGS.has(tag.id)) continue;
+      const value = typeof tag.value === 'string' ? tag.value : tag.value?.text;
+      if (typeof value === 'string') texts.push(value);
+    }
+  }
+
+  let plain: string | null = null;
+  let lrc: string | null = null;
+
+  for (const text of texts.map((value) => value.trim()).filter(Boolean)) {
+    if (!lrc && looksLikeLrc(text) && parseLrc(text).length > 0) {
+      lrc = text;
+    } else if (!plain && !looksLikeLrc(text)) {
+      plain = text;
+    }
+  }
+
+  if (!plain && !lrc) return null;
+  return { plain: plain ?? (lrc ? lrcToPlain(lrc) : null), lrc };
+}
+
+// API shape: the LRC source plus its parsed lines
+export function serializeLyrics(lyrics: Lyrics) {
+  const lines = lyrics.lrc ? parseLrc(lyrics.lrc) : [];
+
+  return {
+    trackId: lyrics.trackId,
+    plain: lyrics.plain,
+    lrc: lyrics.lrc,
+    synced: lines.length > 0,
+    lines: lines.length > 0 ? lines : null,
+    language: lyrics.language,
+    source: lyrics.source,
+    updatedAt: lyrics.updatedAt,
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { ExportedPlaylist, PLAYLIST_FORMATS, detectFormat, exportPlaylist, parsePlaylist } from './playlistFormats.js';
+
+const playlist: ExportedPlaylist = {
+  title: 'Late & "Loud"',
+  description: 'For <night> drives',
+  creator: 'Nova Lane',
+  url: 'https://stream.test/playlist/p1',
+  updatedAt: new Date('2024-05-01T10:00:00Z'),
+  tracks: [
+    {
+      title: 'Midnight Drive',
+      artist: 'Nova Lane',
+      album: 'Roads',
+      duration: 215,
+      url: 'https://stream.test/track/t1',
+      imageUrl: 'https://stream.test/uploads/covers/a.jpg',
+    },
+    {
+      title: "Don't Stop",
+      artist: 'Echo & Co',
+      album: null,
+      duration: 180,
+      url: 'https://stream.test/track/t2',
+      imageUrl: null,
+    },
+  ],
+};
+
+describe('round trip', () => {
+  it.each(PLAYLIST_FORMATS)('reads back what %s export writes', (format) => {
+    const content = exportPlaylist(format, playlist);
+
+    expect(detectFormat(content)).toBe(format);
+    expect(parsePlaylist(format, content)).toEqual({
+      title: 'Late & "Loud"',
+      entries: [
+        expect.objectContaining({ title: 'Midnight Drive', artist: 'Nova Lane', album: 'Roads', duration: 215 }),
+        expect.objectContaining({ title: "Don't Stop", artist: 'Echo & Co', album: null, duration: 180 }),
+      ],
+    });
+    expect(parsePlaylist(format, content).entries[0].locations).toContain('https://stream.test/track/t1');
+  });
+});
+
+describe('M3U8', () => {
+  it('keeps every entry on its own lines', () => {
+    const content = exportPlaylist('m3u8', {
+      ...playlist,
+      title: 'Two\nLines',
+      tracks: [{ ...playlist.tracks[1], title: 'Broken\r\nTitle' }],
+    });
+    expect(content.split('\n')).toEqual([
+      '#EXTM3U',
+      '#PLAYLIST:Two Lines',
+      '#EXTINF:180,Echo & Co - Broken Title',
+      'https://stream.test/track/t2',
+      '',
+    ]);
+  });
+
+  it('reads EXTINF, EXTALB and EXTART tags and a byte order mark', () => {
+    const content = '\uFEFF#EXTM3U\r\n#EXTINF:123 tvg-id="x",Artist - Song - Live\r\n#EXTART:Real Artist\r\n#EXTALB:Album\r\nsong.mp3\r\n';
+    expect(parsePlaylist('m3u8', content)).toEqual({
+      title: null,
+      entries: [{ title: 'Song - Live', artist: 'Real Artist', album: 'Album', duration: 123, locations: ['song.mp3'] }],
+    });
+  });
+
+  it('falls back to the file name for bare paths', () => {
+    const { entries } = parsePlaylist('m3u8', 'C:\\Music\\Nova%20Lane%20-%20Midnight%20Drive.flac\n/music/Intro.mp3\n');
+    expect(entries).toEqual([
+      expect.objectContaining({ title: 'Midnight Drive', artist: 'Nova Lane', duration: null }),
+      expect.objectContaining({ title: 'Intro', artist: null }),
+    ]);
+  });
+
+  it('ignores a zero or negative EXTINF length', () => {
+    const { entries } = parsePlaylist('m3u8', '#EXTINF:-1,Radio Stream\nhttp://radio.test/live\n');
+    expect(entries[0]).toMatchObject({ title: 'Radio Stream', duration: null });
+  });
+});
+
+describe('XSPF', () => {
+  it('escapes XML in titles and descriptions', () => {
+    const content = exportPlaylist('xspf', playlist);
+    expect(content).toContain('<title>Late &amp; &quot;Loud&quot;</title>');
+    expect(content).toContain('<annotation>For &lt;night&gt; drives</annotation>');
+    expect(content).not.toContain('<album></album>');
+  });
+
+  it('reads entities, CDATA and ignores comments and extensions', () => {
+    const content = `<?xml version="1.0"?>
+      <playlist version="1" xmlns="http://xspf.org/ns/0/">
+        <title>Mix &#8211; One</title>
+        <trackList>
+          <!-- <track><title>Commented out</title></track> -->
+          <track>
+            <title><![CDATA[Rock & Roll]]></title>
+            <creator>Caf&#xE9; Band</creator>
+            <duration>61500</duration>
+            <extension application="x"><title>Not the title</title></extension>
+          </track>
+        </trackList>
+      </playlist>`;
+
+    expect(parsePlaylist('xspf', content)).toEqual({
+      title: 'Mix – One',
+      entries: [{ title: 'Rock & Roll', artist: 'Café Band', album: null, duration: 62, locations: [] }],
+    });
+  });
+
+  it('rejects documents that are not XSPF', () => {
+    expect(() => parsePlaylist('xspf', '<html><body></body></html>')).toThrow('Not an XSPF playlist');
+  });
+});
+
+describe('JSPF', () => {
+  it('accepts single strings where arrays are expected and skips junk tracks', () => {
+    const content = JSON.stringify({
+      playlist: {
+        title: '  Mix  ',
+        track: [{ title: 'Song', creator: 'Artist', location: 'https://x.test/a', duration: '90000' }, null, 'junk'],
+      },
+    });
+    expect(parsePlaylist('jspf', content)).toEqual({
+      title: 'Mix',
+      entries: [{ title: 'Song', artist: 'Artist', album: null, duration: 90, locations: ['https://x.test/a'] }],
+    });
+  });
+
+  it('rejects invalid JSON and JSON without a playlist', () => {
+    expect(() => parsePlaylist('jspf', '{nope')).toThrow('Not valid JSON');
+    expect(() => parsePlaylist('jspf', '{"tracks": []}')).toThrow('Not a JSPF playlist');
+  });
+});
+
+describe('detectFormat', () => {
+  it('guesses from the first character', () => {
+    expect(detectFormat('  {"playlist":{}}')).toBe('jspf');
+    expect(detectFormat('\n<?xml version="1.0"?>')).toBe('xspf');
+    expect(detectFormat('#EXTM3U')).toBe('m3u8');
+    expect(detectFormat('song.mp3')).toBe('m3u8');
+  });
+});
@@ -0,0 +1,294 @@
+import { errors } from '../middleware/errorHandler.js';
+
+/**
+ * PLAYLIST FILE FORMATS
+ *
+ * M3U8 (extended M3U in UTF-8), XSPF (XML) and JSPF (XSPF as JSON). Exports
+ * point each entry at the track's page, and imports read title, artist,
+ * album, duration and location from whatever the file has; matching them
+ * to tracks happens in trackMatcher.ts.
+ */
+
+export const PLAYLIST_FORMATS = ['m3u8', 'xspf', 'jspf'] as const;
+export type PlaylistFormat = (typeof PLAYLIST_FORMATS)[number];
+
+export const FORMAT_CONTENT_TYPES: Record<PlaylistFormat, string> = {
+  m3u8: 'application/vnd.apple.mpegurl; charset=utf-8',
+  xspf: 'application/xspf+xml; charset=utf-8',
+  jspf: 'application/jspf+json; charset=utf-8',
+};
+
+export interface ExportedPlaylist {
+  title: string;
+  description: string | null;
+  creator: string;
+  url: string;
+  updatedAt: Date;
+  tracks: ExportedTrack[];
+}
+
+export interface ExportedTrack {
+  title: string;
+  artist: string;
+  album: string | null;
+  duration: number; // Seconds
+  url: string; // The track's page
+  imageUrl: string | null;
+}
+
+export interface ImportedPlaylist {
+  title: string | null;
+  entries: ImportedEntry[];
+}
+
+export interface ImportedEntry {
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  duration: number | null; // Seconds
+  locations: string[]; // Locations and identifiers, used to spot our own track URLs
+}
+
+/**
+ * EXPORT
+ */
+
+// Keeps EXTINF lines and titles on one line
+const oneLine = (text: string) => text.replace(/[\r\n]+/g, ' ');
+
+function toM3u8(playlist: ExportedPlaylist): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${oneLine(playlist.title)}`];
+
+  for (const track of playlist.tracks) {
+    lines.push(`#EXTINF:${track.duration},${oneLine(track.artist)} - ${oneLine(track.title)}`);
+    if (track.album) lines.push(`#EXTALB:${oneLine(track.album)}`);
+    lines.push(track.url);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, (char) => `&${{ '<': 'lt', '>': 'gt', '&': 'amp', "'": 'apos', '"': 'quot' }[char]};`);
+
+const xmlElement = (name: string, value: string | number | null, indent: string) =>
+  value === null || value === '' ? [] : [`${indent}<${name}>${escapeXml(String(value))}</${name}>`];
+
+function toXspf(playlist: ExportedPlaylist): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    ...xmlElement('title', playlist.title, '  '),
+    ...xmlElement('creator', playlist.creator, '  '),
+    ...xmlElement('annotation', playlist.description, '  '),
+    ...xmlElement('info', playlist.url, '  '),
+    ...xmlElement('date', playlist.updatedAt.toISOString(), '  '),
+    '  <trackList>',
+  ];
+
+  for (const track of playlist.tracks) {
+    lines.push(
+      '    <track>',
+      ...xmlElement('location', track.url, '      '),
+      ...xmlElement('identifier', track.url, '      '),
+      ...xmlElement('title', track.title, '      '),
+      ...xmlElement('creator', track.artist, '      '),
+      ...xmlElement('album', track.album, '      '),
+      ...xmlElement('duration', track.duration * 1000, '      '),
+      ...xmlElement('image', track.imageUrl, '      '),
+      '    </track>'
+    );
+  }
+
+  lines.push('  </trackList>', '</playlist>');
+  return lines.join('\n') + '\n';
+}
+
+function toJspf(playlist: ExportedPlaylist): string {
+  return JSON.stringify(
+    {
+      playlist: {
+        title: playlist.title,
+        creator: playlist.creator,
+        ...(playlist.description && { annotation: playlist.description }),
+        info: playlist.url,
+        date: playlist.updatedAt.toISOString(),
+        track: playlist.tracks.map((track) => ({
+          location: [track.url],
+          identifier: [track.url],
+          title: track.title,
+          creator: track.artist,
+          ...(track.album && { album: track.album }),
+          duration: track.duration * 1000,
+          ...(track.imageUrl && { image: track.imageUrl }),
+        })),
+      },
+    },
+    null,
+    2
+  );
+}
+
+export function exportPlaylist(format: PlaylistFormat, playlist: ExportedPlaylist): string {
+  switch (format) {
+    case 'm3u8':
+      return toM3u8(playlist);
+    case 'xspf':
+      return toXspf(playlist);
+    case 'jspf':
+      return toJspf(playlist);
+  }
+}
+
+/**
+ * IMPORT
+ */
+
+const clean = (text: string | null | undefined) => text?.trim() || null;
+
+const seconds = (value: unknown, unit: 'ms' | 's') => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(number) || number <= 0) return null;
+  return Math.round(unit === 'ms' ? number / 1000 : number);
+};
+
+// "Artist - Title", as EXTINF lines and file names usually have it
+function splitArtistTitle(text: string): { artist: string | null; title: string | null } {
+  const separator = text.indexOf(' - ');
+  if (separator === -1) return { artist: null, title: clean(text) };
+  return { artist: clean(text.slice(0, separator)), title: clean(text.slice(separator + 3)) };
+}
+
+const safeDecode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+function fromM3u8(content: string): ImportedPlaylist {
+  let title: string | null = null;
+  const entries: ImportedEntry[] = [];
+  let pending: Omit<ImportedEntry, 'locations'> | null = null;
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      const [tag, ...rest] = line.split(':');
+      const value = rest.join(':');
+
+      if (tag === '#PLAYLIST') {
+        title = clean(value);
+      } else if (tag === '#EXTINF') {
+        // #EXTINF:<seconds> [attributes],<display title>
+        const comma = value.indexOf(',');
+        const [length] = (comma === -1 ? value : value.slice(0, comma)).split(' ');
+        const info = splitArtistTitle(comma === -1 ? '' : value.slice(comma + 1));
+        pending = { ...info, album: null, duration: seconds(length, 's') };
+      } else if (tag === '#EXTALB' && pending) {
+        pending.album = clean(value);
+      } else if (tag === '#EXTART' && pending) {
+        pending.artist = clean(value);
+      }
+      continue;
+    }
+
+    // A bare path or URL: fall back to its file name for the title
+    if (!pending) {
+      const fileName = safeDecode(line.split(/[/\\]/).pop() ?? '').replace(/\.[a-z0-9]{2,5}$/i, '');
+      pending = { ...splitArtistTitle(fileName), album: null, duration: null };
+    }
+    entries.push({ ...pending, locations: [line] });
+    pending = null;
+  }
+
+  return { title, entries };
+}
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|apos|quot);/gi, (_, entity: string) => {
+      const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', apos: "'", quot: '"' };
+      if (entity[0] !== '#') return named[entity.toLowerCase()];
+      return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    });
+
+// Text of every <name> element directly in a chunk of XSPF (the format nests nothing else inside a track)
+const xmlValues = (xml: string, name: string) =>
+  [...xml.matchAll(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'g'))].map((match) =>
+    decodeXml(match[1]).trim()
+  );
+
+function fromXspf(content: string): ImportedPlaylist {
+  // Drop comments and extension blocks so their contents aren't mistaken for track fields
+  const xml = content.replace(/<!--[\s\S]*?-->/g, '').replace(/<extension[\s\S]*?<\/extension>/g, '');
+  const trackListStart = xml.indexOf('<trackList');
+
+  if (!/<playlist[\s>]/.test(xml) || trackListStart === -1) {
+    throw errors.badRequest('Not an XSPF playlist');
+  }
+
+  const entries = [...xml.matchAll(/<track(?:\s[^>]*)?>([\s\S]*?)<\/track>/g)].map(([, track]) => ({
+    title: clean(xmlValues(track, 'title')[0]),
+    artist: clean(xmlValues(track, 'creator')[0]),
+    album: clean(xmlValues(track, 'album')[0]),
+    duration: seconds(xmlValues(track, 'duration')[0], 'ms'),
+    locations: [...xmlValues(track, 'location'), ...xmlValues(track, 'identifier')],
+  }));
+
+  return { title: clean(xmlValues(xml.slice(0, trackListStart), 'title')[0]), entries };
+}
+
+const asArray = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === 'string');
+
+const asText = (value: unknown) => (typeof value === 'string' ? clean(value) : null);
+
+function fromJspf(content: string): ImportedPlaylist {
+  let playlist: any;
+  try {
+    playlist = JSON.parse(content).playlist;
+  } catch {
+    throw errors.badRequest('Not valid JSON');
+  }
+
+  if (!playlist || typeof playlist !== 'object') {
+    throw errors.badRequest('Not a JSPF playlist');
+  }
+
+  const tracks: any[] = Array.isArray(playlist.track) ? playlist.track : [];
+  const entries = tracks
+    .filter((track) => track && typeof track === 'object')
+    .map((track) => ({
+      title: asText(track.title),
+      artist: asText(track.creator),
+      album: asText(track.album),
+      duration: seconds(track.duration, 'ms'),
+      locations: [...asArray(track.location), ...asArray(track.identifier)],
+    }));
+
+  return { title: asText(playlist.title), entries };
+}
+
+// Best guess from the content when the client doesn't say
+export function detectFormat(content: string): PlaylistFormat {
+  const start = content.trimStart();
+  if (start.startsWith('{')) return 'jspf';
+  if (start.startsWith('<')) return 'xspf';
+  return 'm3u8';
+}
+
+export function parsePlaylist(format: PlaylistFormat, content: string): ImportedPlaylist {
+  switch (format) {
+    case 'm3u8':
+      return fromM3u8(content.replace(/^\uFEFF/, ''));
+    case 'xspf':
+      return fromXspf(content);
+    case 'jspf':
+      return fromJspf(content);
+  }
+}
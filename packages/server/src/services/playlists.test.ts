@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { moveRange } from './playlists.js';
+
+describe('moveRange', () => {
+  const ids = ['a', 'b', 'c', 'd', 'e'];
+
+  it('moves an entry up', () => {
+    expect(moveRange(ids, 3, 1, 1)).toEqual(['a', 'd', 'b', 'c', 'e']);
+  });
+
+  it('moves an entry down', () => {
+    expect(moveRange(ids, 0, 1, 3)).toEqual(['b', 'c', 'a', 'd', 'e']);
+  });
+
+  it('moves a block to the start and to the end', () => {
+    expect(moveRange(ids, 2, 2, 0)).toEqual(['c', 'd', 'a', 'b', 'e']);
+    expect(moveRange(ids, 0, 2, ids.length)).toEqual(['c', 'd', 'e', 'a', 'b']);
+  });
+
+  it('leaves the order alone when inserting inside or right after the range', () => {
+    expect(moveRange(ids, 1, 2, 1)).toEqual(ids);
+    expect(moveRange(ids, 1, 2, 2)).toEqual(ids);
+    expect(moveRange(ids, 1, 2, 3)).toEqual(ids);
+  });
+
+  it('keeps every entry exactly once', () => {
+    for (let start = 0; start < ids.length; start++) {
+      for (let length = 1; start + length <= ids.length; length++) {
+        for (let before = 0; before <= ids.length; before++) {
+          expect([...moveRange(ids, start, length, before)].sort()).toEqual(ids);
+        }
+      }
+    }
+  });
+
+  it('rejects ranges outside the playlist', () => {
+    expect(() => moveRange(ids, 4, 2, 0)).toThrow('Range is outside the playlist');
+    expect(() => moveRange(ids, 0, 1, 6)).toThrow('Range is outside the playlist');
+  });
+});
@@ -0,0 +1,280 @@
+import crypto from 'crypto';
+import { v4 as uuid } from 'uuid';
+import { Prisma, PlaylistChangeType } from '@prisma/client';
+import { prisma } from '../db/client.js';
+import { config } from '../config/index.js';
+import { errors } from '../middleware/errorHandler.js';
+
+/**
+ * PLAYLIST ACCESS
+ *
+ * The owner (Playlist.userId) can do anything. Everyone else gets a role
+ * by opening an invite link: viewers can see the playlist even while it's
+ * private, editors can also add tracks and remove the ones they added. An
+ * owner who turns isCollaborative off pauses every editor without losing
+ * the member list. Smart playlists are filled by their rules, so nobody
+ * edits their tracks by hand.
+ */
+
+export type PlaylistAccessRole = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+export async function getPlaylistAccess(playlistId: string, userId: string | undefined) {
+  const playlist = await prisma.playlist.findUnique({ where: { id: playlistId } });
+
+  // Deleted playlists only come back through the restore endpoint
+  if (!playlist || playlist.deletedAt) {
+    throw errors.notFound('Playlist not found');
+  }
+
+  let role: PlaylistAccessRole | null = null;
+  if (userId === playlist.userId) {
+    role = 'OWNER';
+  } else if (userId) {
+    const member = await prisma.playlistMember.findUnique({
+      where: { playlistId_userId: { playlistId, userId } },
+      select: { role: true },
+    });
+    role = member?.role ?? null;
+  }
+
+  return {
+    playlist,
+    role,
+    canView: playlist.isPublic || role !== null,
+    canEdit: !playlist.rules && (role === 'OWNER' || (role === 'EDITOR' && playlist.isCollaborative)),
+  };
+}
+
+export const createInviteToken = () => crypto.randomBytes(18).toString('base64url');
+
+// Why an invite can no longer be used, or null if it still can
+export function inviteUnusableReason(invite: {
+  revokedAt: Date | null;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  uses: number;
+}): string | null {
+  if (invite.revokedAt) return 'This invite link has been revoked';
+  if (invite.expiresAt && invite.expiresAt.getTime() < Date.now()) return 'This invite link has expired';
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) return 'This invite link has been used up';
+  return null;
+}
+
+/**
+ * TRACK LIST EDITS
+ *
+ * A playlist's order is the position column of its entries (one per
+ * occurrence, so a track can appear twice). Every edit locks the playlist
+ * row, works on the current entry list and writes positions back as 1..n
+ * in the same transaction: concurrent edits queue up instead of
+ * interleaving, and removals never leave gaps.
+ */
+
+export const MAX_PLAYLIST_TRACKS = 10000;
+
+export interface PlaylistEntry {
+  id: string;
+  trackId: string;
+  addedById: string | null;
+}
+
+interface EditResult<T> {
+  order: string[]; // Every remaining entry id, in the new order
+  result: T;
+  change?: PlaylistChangeInput; // Logged with the state after the edit
+}
+
+export async function editPlaylistEntries<T>(
+  playlistId: string,
+  edit: (tx: Prisma.TransactionClient, entries: PlaylistEntry[]) => Promise<EditResult<T>>
+): Promise<T> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$queryRaw`SELECT id FROM "Playlist" WHERE id = ${playlistId} FOR UPDATE`;
+
+    const entries = await tx.playlistTrack.findMany({
+      where: { playlistId },
+      orderBy: [{ position: 'asc' }, { addedAt: 'asc' }],
+      select: { id: true, trackId: true, addedById: true },
+    });
+
+    const { order, result, change } = await edit(tx, entries);
+
+    if (order.length > 0) {
+      const values = Prisma.join(order.map((id, index) => Prisma.sql`(${id}, ${index + 1}::int)`));
+      await tx.$executeRaw`
+        UPDATE "PlaylistTrack" AS pt SET position = v.position
+        FROM (VALUES ${values}) AS v(id, position)
+        WHERE pt.id = v.id AND pt.position <> v.position
+      `;
+    }
+
+    await tx.playlist.update({ where: { id: playlistId }, data: { updatedAt: new Date() } });
+
+    if (change) {
+      await recordChange(tx, playlistId, change);
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Move rangeLength entries starting at rangeStart so they sit before the
+ * entry currently at insertBefore (the list length appends them at the end)
+ */
+export function moveRange(ids: string[], rangeStart: number, rangeLength: number, insertBefore: number): string[] {
+  if (rangeStart + rangeLength > ids.length || insertBefore > ids.length) {
+    throw errors.badRequest('Range is outside the playlist');
+  }
+
+  // Inserting inside or right after the range leaves it where it is
+  if (insertBefore >= rangeStart && insertBefore <= rangeStart + rangeLength) {
+    return ids;
+  }
+
+  const moved = ids.slice(rangeStart, rangeStart + rangeLength);
+  const rest = [...ids.slice(0, rangeStart), ...ids.slice(rangeStart + rangeLength)];
+  const at = insertBefore > rangeStart ? insertBefore - rangeLength : insertBefore;
+
+  return [...rest.slice(0, at), ...moved, ...rest.slice(at)];
+}
+
+/**
+ * HISTORY
+ *
+ * Every edit appends a PlaylistChange with the whole state after it, so
+ * going back to any point is one restore rather than a replay of the log.
+ * Rows are never edited; they only go when a deleted playlist is purged.
+ * Smart playlist refreshes aren't logged: the rules that drive them are,
+ * and an hourly entry would bury everything else.
+ */
+
+export interface PlaylistSnapshot {
+  title: string;
+  description: string | null;
+  coverUrl: string | null;
+  isPublic: boolean;
+  isCollaborative: boolean;
+  rules: Prisma.JsonValue | null;
+  tracks: { trackId: string; addedById: string | null }[];
+}
+
+export interface PlaylistChangeInput {
+  type: PlaylistChangeType;
+  userId: string | null;
+  details?: Prisma.InputJsonValue;
+}
+
+// Call inside the transaction that made the change, after it
+export async function recordChange(
+  tx: Prisma.TransactionClient,
+  playlistId: string,
+  change: PlaylistChangeInput
+): Promise<void> {
+  const playlist = await tx.playlist.findUniqueOrThrow({ where: { id: playlistId } });
+  const tracks = await tx.playlistTrack.findMany({
+    where: { playlistId },
+    orderBy: { position: 'asc' },
+    select: { trackId: true, addedById: true },
+  });
+
+  const snapshot: PlaylistSnapshot = {
+    title: playlist.title,
+    description: playlist.description,
+    coverUrl: playlist.coverUrl,
+    isPublic: playlist.isPublic,
+    isCollaborative: playlist.isCollaborative,
+    rules: playlist.rules,
+    tracks,
+  };
+
+  await tx.playlistChange.create({
+    data: {
+      playlistId,
+      userId: change.userId,
+      type: change.type,
+      details: change.details,
+      snapshot: snapshot as unknown as Prisma.InputJsonValue,
+      trackCount: tracks.length,
+    },
+  });
+}
+
+/**
+ * Put a playlist back the way it was right after an earlier change
+ * Logged as a change of its own, so a revert can be reverted too. Tracks
+ * deleted from the catalogue since then can't come back and are counted
+ * in `skipped`.
+ */
+export async function revertToChange(playlistId: string, changeId: string, userId: string) {
+  const change = await prisma.playlistChange.findFirst({ where: { id: changeId, playlistId } });
+
+  if (!change) {
+    throw errors.notFound('Change not found');
+  }
+
+  const snapshot = change.snapshot as unknown as PlaylistSnapshot;
+
+  return editPlaylistEntries(playlistId, async (tx, entries) => {
+    const [tracks, users] = await Promise.all([
+      tx.track.findMany({
+        where: { id: { in: [...new Set(snapshot.tracks.map((entry) => entry.trackId))] } },
+        select: { id: true },
+      }),
+      tx.user.findMany({
+        where: { id: { in: snapshot.tracks.flatMap((entry) => (entry.addedById ? [entry.addedById] : [])) } },
+        select: { id: true },
+      }),
+    ]);
+    const trackIds = new Set(tracks.map((track: { id: string }) => track.id));
+    const userIds = new Set(users.map((user: { id: string }) => user.id));
+
+    const restored = snapshot.tracks
+      .filter((entry) => trackIds.has(entry.trackId))
+      .map((entry) => ({
+        id: uuid(),
+        trackId: entry.trackId,
+        addedById: entry.addedById && userIds.has(entry.addedById) ? entry.addedById : null,
+      }));
+
+    await tx.playlistTrack.deleteMany({ where: { id: { in: entries.map((entry) => entry.id) } } });
+    await tx.playlistTrack.createMany({
+      data: restored.map((entry, index) => ({ ...entry, playlistId, position: index + 1 })),
+    });
+
+    // Restored rules are re-run on the next read
+    await tx.playlist.update({
+      where: { id: playlistId },
+      data: {
+        title: snapshot.title,
+        description: snapshot.description,
+        coverUrl: snapshot.coverUrl,
+        isPublic: snapshot.isPublic,
+        isCollaborative: snapshot.isCollaborative,
+        rules: (snapshot.rules ?? Prisma.DbNull) as Prisma.InputJsonValue | typeof Prisma.DbNull,
+        rulesEvaluatedAt: null,
+      },
+    });
+
+    const skipped = snapshot.tracks.length - restored.length;
+
+    return {
+      order: restored.map((entry) => entry.id),
+      result: { skipped },
+      change: {
+        type: 'REVERT',
+        userId,
+        details: { changeId, changedAt: change.createdAt.toISOString(), skipped },
+      },
+    };
+  });
+}
+
+// Hard-delete playlists that have been in the trash past the restore window
+export async function purgeDeletedPlaylists(): Promise<number> {
+  const cutoff = new Date(Date.now() - config.deletedPlaylists.restoreDays * 24 * 60 * 60 * 1000);
+
+  const { count } = await prisma.playlist.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+
+  return count;
+}
@@ -0,0 +1,215 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/client.js';
+import { redis, cache, cacheKeys } from '../db/redis.js';
+import { config } from '../config/index.js';
+import { errors } from '../middleware/errorHandler.js';
+import { canStream } from './streamTokens.js';
+
+/**
+ * PLAY COUNTING
+ *
+ * The player sends a heartbeat every few seconds with how much audio it has
+ * actually played since the last one. Listen time is accumulated per play in
+ * Redis; once it passes the threshold (30s, or half of a short track) the
+ * play is counted exactly once. Heartbeats also carry the playback position,
+ * seeks and, on the last one, why the play ended (completed, skipped, error),
+ * which are kept on PlayHistory for skip rates and real listen time:
+ *
+ *   listen:<playId>          hash: userId, trackId, listened seconds, last heartbeat, countedAt
+ *   plays:debounce:<t>:<u>   blocks re-counting the same user + track for a short window
+ *   plays:<trackId>          pending increments, flushed into Track.playCount by the worker
+ */
+
+// Abandoned plays are forgotten after this long
+const LISTEN_TTL = 6 * 60 * 60;
+
+// Allowance for network jitter when comparing reported listen time to wall-clock time
+const HEARTBEAT_SLACK_SECONDS = 5;
+
+const keys = {
+  listen: (playId: string) => `listen:${playId}`,
+  debounce: (trackId: string, userId: string) => `plays:debounce:${trackId}:${userId}`,
+  counter: (trackId: string) => `plays:${trackId}`,
+};
+
+export const playThreshold = (trackDuration: number) =>
+  trackDuration > 0
+    ? Math.min(config.plays.minListenSeconds, trackDuration * config.plays.minListenFraction)
+    : config.plays.minListenSeconds;
+
+// Keep stored events bounded even if a listener scrubs back and forth for hours
+const MAX_EVENTS = 100;
+
+export type PlayEndReason = 'completed' | 'skipped' | 'error';
+
+export interface SeekEvent {
+  type: 'seek';
+  from: number; // Seconds
+  to: number;
+}
+
+export interface HeartbeatInput {
+  userId: string;
+  trackId: string;
+  playId?: string;
+  listened: number; // Seconds of audio played since the previous heartbeat
+  position?: number; // Current playback position (seconds)
+  events?: SeekEvent[]; // Seeks since the previous heartbeat
+  ended?: PlayEndReason; // Final heartbeat for this play
+}
+
+const endReasons = {
+  completed: 'COMPLETED',
+  skipped: 'SKIPPED',
+  error: 'ERROR',
+} as const;
+
+/**
+ * Record listen time and progress for a play, creating the play on the first heartbeat
+ * Returns the play id the client should send with later heartbeats
+ */
+export async function recordHeartbeat(input: HeartbeatInput) {
+  const { userId, trackId } = input;
+  const now = Date.now();
+  let playId = input.playId;
+
+  if (playId) {
+    const owner = await redis.hmget(keys.listen(playId), 'userId', 'trackId');
+    if (owner[0] !== userId || owner[1] !== trackId) {
+      throw errors.notFound('Play not found or has ended');
+    }
+  } else {
+    const track = await prisma.track.findUnique({
+      where: { id: trackId },
+      select: { isPublic: true, artistId: true },
+    });
+    if (!track) {
+      throw errors.notFound('Track not found');
+    }
+    // Only what the listener may stream can count (private and unreleased tracks feed nothing)
+    if (!canStream({ id: userId, isPremium: false }, track, 'medium')) {
+      throw errors.forbidden('This track is private');
+    }
+
+    const history = await prisma.playHistory.create({
+      data: { userId, trackId, duration: 0, completed: false },
+    });
+    playId = history.id;
+
+    await redis
+      .multi()
+      .hset(keys.listen(playId), { userId, trackId, listened: 0, lastAt: now })
+      .expire(keys.listen(playId), LISTEN_TTL)
+      .exec();
+  }
+
+  const key = keys.listen(playId);
+  const lastAt = parseInt((await redis.hget(key, 'lastAt')) || String(now), 10);
+
+  // Can't have heard more audio than time has passed (stops inflated reports)
+  const elapsed = (now - lastAt) / 1000 + HEARTBEAT_SLACK_SECONDS;
+  const delta = Math.max(0, Math.min(input.listened, elapsed));
+
+  const [[, listenedRaw]] = (await redis
+    .multi()
+    .hincrbyfloat(key, 'listened', delta)
+    .hset(key, 'lastAt', now)
+    .expire(key, LISTEN_TTL)
+    .exec()) as [[Error | null, string]];
+
+  const listened = parseFloat(listenedRaw);
+  const counted = await maybeCountPlay(playId, userId, trackId, listened);
+
+  const data: Prisma.PlayHistoryUpdateInput = {
+    duration: Math.floor(listened),
+    ...(counted ? { counted: true } : {}),
+    ...(input.position !== undefined ? { position: Math.floor(input.position) } : {}),
+  };
+
+  if (input.events?.length) {
+    const current = await prisma.playHistory.findUnique({ where: { id: playId }, select: { events: true } });
+    const stamped = input.events.map((event) => ({ ...event, at: new Date(now).toISOString() }));
+    const events = [...((current?.events as unknown[] | null) ?? []), ...stamped];
+
+    data.events = events.slice(-MAX_EVENTS) as Prisma.InputJsonValue;
+    data.seekCount = { increment: input.events.length };
+  }
+
+  if (input.ended) {
+    data.endReason = endReasons[input.ended];
+    data.endedAt = new Date(now);
+    data.completed = input.ended === 'completed';
+  }
+
+  await prisma.playHistory.update({ where: { id: playId }, data });
+
+  // An ended play takes no more heartbeats
+  if (input.ended) {
+    await redis.del(key);
+  }
+
+  return { playId, listened: Math.floor(listened), counted };
+}
+
+// Count the play once the threshold is reached; true only on the heartbeat that counts it
+async function maybeCountPlay(playId: string, userId: string, trackId: string, listened: number) {
+  const meta = await cache.get<{ duration: number }>(cacheKeys.trackMeta(trackId));
+  const duration = meta?.duration ?? (
+    await prisma.track.findUnique({ where: { id: trackId }, select: { duration: true } })
+  )?.duration ?? 0;
+
+  if (listened < playThreshold(duration)) {
+    return false;
+  }
+
+  // Claim the play so concurrent heartbeats can't count the same play twice
+  const claimed = await redis.hsetnx(keys.listen(playId), 'countedAt', Date.now());
+  if (!claimed) {
+    return false;
+  }
+
+  // Replaying the same track back-to-back only counts once per window, across all instances
+  const fresh = await redis.set(keys.debounce(trackId, userId), '1', 'EX', config.plays.debounceSeconds, 'NX');
+  if (fresh !== 'OK') {
+    return false;
+  }
+
+  await redis.incr(keys.counter(trackId));
+  return true;
+}
+
+/**
+ * Move pending play counts from Redis into Track.playCount
+ * Runs periodically in the worker; safe to run from several workers at once
+ */
+export async function flushPlayCounts(): Promise<number> {
+  let flushed = 0;
+  const stream = redis.scanStream({ match: 'plays:*', count: 200 });
+
+  for await (const batch of stream as AsyncIterable<string[]>) {
+    for (const key of batch) {
+      const trackId = key.slice('plays:'.length);
+      if (trackId.includes(':')) continue; // Debounce keys
+
+      // Read and reset in one step so increments arriving meanwhile aren't lost
+      const pending = parseInt((await redis.getdel(key)) || '0', 10);
+      if (!pending) continue;
+
+      try {
+        await prisma.track.update({
+          where: { id: trackId },
+          data: { playCount: { increment: pending } },
+        });
+        flushed += pending;
+      } catch (error: any) {
+        // Track deleted: drop the count. Anything else: put it back for the next run
+        if (error?.code !== 'P2025') {
+          await redis.incrby(key, pending);
+          throw error;
+        }
+      }
+    }
+  }
+
+  return flushed;
+}
@@ -0,0 +1,243 @@
+import { v4 as uuid } from 'uuid';
+import { prisma } from '../db/client.js';
+import { redis } from '../db/redis.js';
+import { errors } from '../middleware/errorHandler.js';
+import { getSimilarTrackScores, hydrate } from './recommendations.js';
+
+/**
+ * RADIO
+ *
+ * An endless queue seeded from a track, artist or genre. A station lives in
+ * Redis and remembers what it has already handed out, so each batch is new
+ * music. Every batch mixes tracks related to the seed with tracks related to
+ * the last few it played, so the station drifts gradually instead of looping
+ * the same neighbourhood.
+ */
+
+export type RadioSeedType = 'track' | 'artist' | 'genre';
+
+export interface RadioStation {
+  id: string;
+  seedType: RadioSeedType;
+  seed: string;
+  name: string;
+  userId: string | null;
+}
+
+// Stations are forgotten after this long without a request
+const STATION_TTL = 12 * 60 * 60;
+// How many served tracks are remembered (and never repeated)
+const RECENT_LIMIT = 200;
+// Listener's own history that's also avoided
+const HISTORY_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+const keys = {
+  station: (id: string) => `radio:${id}`,
+  recent: (id: string) => `radio:${id}:recent`,
+};
+
+export async function createStation(
+  seedType: RadioSeedType,
+  seed: string,
+  user: { id: string } | undefined
+): Promise<RadioStation> {
+  let name: string;
+  const recent: string[] = [];
+
+  switch (seedType) {
+    case 'track': {
+      const track = await prisma.track.findUnique({
+        where: { id: seed },
+        select: { id: true, title: true, isPublic: true, artistId: true },
+      });
+      if (!track || (!track.isPublic && track.artistId !== user?.id)) {
+        throw errors.notFound('Track not found');
+      }
+      name = `${track.title} Radio`;
+      recent.push(track.id); // Already playing
+      break;
+    }
+    case 'artist': {
+      const artist = await prisma.user.findUnique({
+        where: { id: seed },
+        select: { username: true, displayName: true },
+      });
+      if (!artist) {
+        throw errors.notFound('Artist not found');
+      }
+      name = `${artist.displayName || artist.username} Radio`;
+      break;
+    }
+    case 'genre': {
+      const exists = await prisma.track.findFirst({
+        where: { isPublic: true, genre: { equals: seed, mode: 'insensitive' } },
+        select: { genre: true },
+      });
+      if (!exists) {
+        throw errors.notFound('No tracks in this genre');
+      }
+      name = `${exists.genre} Radio`;
+      break;
+    }
+  }
+
+  const station: RadioStation = { id: uuid(), seedType, seed, name, userId: user?.id ?? null };
+
+  const multi = redis.multi().setex(keys.station(station.id), STATION_TTL, JSON.stringify(station));
+  if (recent.length) {
+    multi.rpush(keys.recent(station.id), ...recent).expire(keys.recent(station.id), STATION_TTL);
+  }
+  await multi.exec();
+
+  return station;
+}
+
+export async function getStation(stationId: string, userId: string | undefined): Promise<RadioStation> {
+  const data = await redis.get(keys.station(stationId));
+  const station = data ? (JSON.parse(data) as RadioStation) : null;
+
+  // Someone else's station looks the same as an expired one
+  if (!station || (station.userId && station.userId !== userId)) {
+    throw errors.notFound('Radio station not found or expired');
+  }
+
+  return station;
+}
+
+// Candidate scores from the seed itself
+async function seedCandidates(station: RadioStation): Promise<Map<string, number>> {
+  const scores = new Map<string, number>();
+  const add = (trackId: string, score: number) =>
+    scores.set(trackId, Math.max(scores.get(trackId) ?? 0, score));
+
+  switch (station.seedType) {
+    case 'track': {
+      for (const { trackId, score } of await getSimilarTrackScores(station.seed, 60)) {
+        add(trackId, 1 + score);
+      }
+      break;
+    }
+    case 'artist': {
+      const tracks = await prisma.track.findMany({
+        where: { artistId: station.seed, isPublic: true },
+        orderBy: { playCount: 'desc' },
+        take: 50,
+        select: { id: true },
+      });
+      tracks.forEach(({ id }, i) => add(id, 1.5 - i / 100));
+
+      // Branch out from the artist's best-known tracks
+      for (const { id } of tracks.slice(0, 5)) {
+        for (const { trackId, score } of await getSimilarTrackScores(id, 30)) {
+          add(trackId, 0.8 + score);
+        }
+      }
+      break;
+    }
+    case 'genre': {
+      const tracks = await prisma.track.findMany({
+        where: { isPublic: true, genre: { equals: station.seed, mode: 'insensitive' } },
+        orderBy: { playCount: 'desc' },
+        take: 200,
+        select: { id: true },
+      });
+      tracks.forEach(({ id }, i) => add(id, 1.5 - i / 400));
+      break;
+    }
+  }
+
+  return scores;
+}
+
+// Weighted random pick, so the same seed doesn't always produce the same order
+function weightedSample(scores: Map<string, number>, count: number): string[] {
+  const pool = [...scores].filter(([, score]) => score > 0);
+  const picked: string[] = [];
+
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, [, score]) => sum + score, 0);
+    let roll = Math.random() * total;
+    let index = 0;
+    while (index < pool.length - 1 && roll >= pool[index][1]) {
+      roll -= pool[index][1];
+      index++;
+    }
+    picked.push(pool[index][0]);
+    pool.splice(index, 1);
+  }
+
+  return picked;
+}
+
+// Avoid the same artist twice in a row where there's an alternative
+function spreadArtists<T extends { artistId: string }>(tracks: T[]): T[] {
+  const result: T[] = [];
+  const remaining = [...tracks];
+
+  while (remaining.length > 0) {
+    const last = result[result.length - 1];
+    const index = remaining.findIndex((track) => track.artistId !== last?.artistId);
+    result.push(...remaining.splice(index === -1 ? 0 : index, 1));
+  }
+
+  return result;
+}
+
+/**
+ * Next batch of tracks for a station; never repeats what it served before
+ * or what the listener played in the last few hours
+ */
+export async function nextStationTracks(station: RadioStation, count: number) {
+  const recent = await redis.lrange(keys.recent(station.id), 0, -1);
+
+  const history = station.userId
+    ? await prisma.playHistory.findMany({
+        where: { userId: station.userId, playedAt: { gte: new Date(Date.now() - HISTORY_WINDOW_MS) } },
+        select: { trackId: true },
+      })
+    : [];
+
+  const exclude = new Set([...recent, ...history.map((play) => play.trackId)]);
+  const scores = await seedCandidates(station);
+
+  // Drift: what's related to the last few tracks played on this station
+  for (const trackId of recent.slice(-3)) {
+    for (const { trackId: otherId, score } of await getSimilarTrackScores(trackId, 20)) {
+      scores.set(otherId, Math.max(scores.get(otherId) ?? 0, 0.5 * (1 + score)));
+    }
+  }
+
+  for (const trackId of exclude) {
+    scores.delete(trackId);
+  }
+
+  // Top up with popular tracks when the neighbourhood is exhausted
+  if (scores.size < count) {
+    const popular = await prisma.track.findMany({
+      where: {
+        isPublic: true,
+        id: { notIn: [...exclude] },
+        ...(station.seedType === 'genre' ? { genre: { equals: station.seed, mode: 'insensitive' as const } } : {}),
+      },
+      orderBy: { playCount: 'desc' },
+      take: count * 3,
+      select: { id: true },
+    });
+    popular.forEach(({ id }) => !scores.has(id) && scores.set(id, 0.2));
+  }
+
+  const ids = weightedSample(scores, count);
+  const tracks = spreadArtists(await hydrate(ids));
+
+  if (tracks.length > 0) {
+    await redis
+      .multi()
+      .rpush(keys.recent(station.id), ...tracks.map((track) => track.id))
+      .ltrim(keys.recent(station.id), -RECENT_LIMIT, -1)
+      .expire(keys.recent(station.id), STATION_TTL)
+      .expire(keys.station(station.id), STATION_TTL)
+      .exec();
+  }
+
+  return tracks;
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Readable, Writable } from 'stream';
+import type { Request, Response } from 'express';
+import { storage } from './storage/index.js';
+import { entityTag, parseRange, sendStoredObject } from './rangeRequests.js';
+
+describe('parseRange', () => {
+  it('treats a missing or malformed header as no range', () => {
+    expect(parseRange(undefined, 1000)).toEqual({ type: 'none' });
+    expect(parseRange('items=0-10', 1000)).toEqual({ type: 'none' });
+    expect(parseRange('bytes=', 1000)).toEqual({ type: 'none' });
+    expect(parseRange('bytes=-', 1000)).toEqual({ type: 'none' });
+    expect(parseRange('bytes=abc', 1000)).toEqual({ type: 'none' });
+    expect(parseRange('bytes=500-100', 1000)).toEqual({ type: 'none' });
+  });
+
+  it('parses closed, open-ended and suffix ranges', () => {
+    expect(parseRange('bytes=0-499', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 0, end: 499 }] });
+    expect(parseRange('bytes=500-', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 500, end: 999 }] });
+    expect(parseRange('bytes=-200', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 800, end: 999 }] });
+  });
+
+  it('clamps ranges that run past the end', () => {
+    expect(parseRange('bytes=900-5000', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 900, end: 999 }] });
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 0, end: 999 }] });
+  });
+
+  it('is unsatisfiable when no range starts inside the file', () => {
+    expect(parseRange('bytes=1000-', 1000)).toEqual({ type: 'unsatisfiable' });
+    expect(parseRange('bytes=-0', 1000)).toEqual({ type: 'unsatisfiable' });
+    expect(parseRange('bytes=0-10', 0)).toEqual({ type: 'unsatisfiable' });
+  });
+
+  it('drops unsatisfiable parts of a list and keeps the rest', () => {
+    expect(parseRange('bytes=2000-3000, 0-9', 1000)).toEqual({ type: 'ranges', ranges: [{ start: 0, end: 9 }] });
+  });
+
+  it('sorts and merges overlapping and adjacent ranges', () => {
+    expect(parseRange('bytes=500-599, 0-99, 50-149, 150-199', 1000)).toEqual({
+      type: 'ranges',
+      ranges: [
+        { start: 0, end: 199 },
+        { start: 500, end: 599 },
+      ],
+    });
+  });
+
+  it('ignores headers with too many ranges', () => {
+    const header = 'bytes=' + Array.from({ length: 51 }, (_, i) => `${i * 10}-${i * 10 + 1}`).join(',');
+    expect(parseRange(header, 10000)).toEqual({ type: 'none' });
+  });
+});
+
+describe('If-Range', () => {
+  const object = { size: 1000, lastModified: new Date('2024-03-01T12:00:00Z'), etag: 'abc123' };
+
+  // HEAD requests stop before any bytes are read from storage
+  async function headStatus(headers: Record<string, string>) {
+    const req = {
+      method: 'HEAD',
+      headers: { range: 'bytes=0-99', ...headers },
+      get: (name: string) => headers[name],
+    } as unknown as Request;
+
+    let status = 0;
+    const res = {
+      writeHead: (code: number) => {
+        status = code;
+      },
+      end: () => {},
+    } as unknown as Response;
+
+    await sendStoredObject(req, res, 'audio/test.mp3', object, { contentType: 'audio/mpeg' });
+    return status;
+  }
+
+  it('honours the range when the entity tag still matches', async () => {
+    expect(await headStatus({ 'If-Range': entityTag(object) })).toBe(206);
+  });
+
+  it('sends the whole file when the entity tag changed', async () => {
+    expect(await headStatus({ 'If-Range': '"something-else"' })).toBe(200);
+  });
+
+  it('never matches a weak entity tag', async () => {
+    expect(await headStatus({ 'If-Range': `W/${entityTag(object)}` })).toBe(200);
+  });
+
+  it('compares dates to the second', async () => {
+    expect(await headStatus({ 'If-Range': object.lastModified.toUTCString() })).toBe(206);
+    expect(await headStatus({ 'If-Range': new Date('2024-03-02T12:00:00Z').toUTCString() })).toBe(200);
+  });
+});
+
+describe('multipart reads that fail', () => {
+  const object = { size: 1000, lastModified: new Date('2024-03-01T12:00:00Z'), etag: 'abc123' };
+  const req = {
+    method: 'GET',
+    headers: { range: 'bytes=0-9, 100-109' },
+    get: () => undefined,
+  } as unknown as Request;
+
+  class FakeResponse extends Writable {
+    status = 0;
+    body = '';
+    writeHead(code: number) {
+      this.status = code;
+      return this;
+    }
+    _write(chunk: Buffer, _encoding: string, callback: () => void) {
+      this.body += chunk.toString();
+      callback();
+    }
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('cuts the response off when a later part fails to read', async () => {
+    vi.spyOn(storage, 'getStream')
+      .mockResolvedValueOnce(Readable.from([Buffer.from('0123456789')]))
+      .mockResolvedValueOnce(
+        new Readable({
+          read() {
+            this.destroy(new Error('object went away'));
+          },
+        })
+      );
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const res = new FakeResponse();
+
+    await sendStoredObject(req, res as unknown as Response, 'audio/test.mp3', object, { contentType: 'audio/mpeg' });
+
+    expect(res.status).toBe(206);
+    expect(res.body).toContain('0123456789');
+    expect(res.body).not.toMatch(/--\w+--/); // Never closed as if complete
+    expect(res.destroyed).toBe(true);
+  });
+
+  it('cuts the response off when opening a part fails', async () => {
+    vi.spyOn(storage, 'getStream').mockRejectedValue(new Error('no such key'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const res = new FakeResponse();
+
+    await sendStoredObject(req, res as unknown as Response, 'audio/test.mp3', object, { contentType: 'audio/mpeg' });
+
+    expect(res.destroyed).toBe(true);
+  });
+
+  it('stops reading when the client goes away', async () => {
+    const stalled = new Readable({ read() {} });
+    vi.spyOn(storage, 'getStream').mockResolvedValue(stalled);
+    const res = new FakeResponse();
+
+    const sent = sendStoredObject(req, res as unknown as Response, 'audio/test.mp3', object, { contentType: 'audio/mpeg' });
+    setTimeout(() => res.destroy(), 10);
+
+    await sent;
+    expect(stalled.destroyed).toBe(true);
+    expect(storage.getStream).toHaveBeenCalledTimes(1);
+  });
+});
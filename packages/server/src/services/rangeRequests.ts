@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { Request, Response } from 'express';
+import { ByteRange, StoredObject, storage } from './storage/index.js';
+
+/**
+ * HTTP RANGE REQUESTS (RFC 7232 / RFC 7233)
+ *
+ * - Range: bytes=0-499, bytes=500-, bytes=-500 and comma-separated lists
+ * - 416 with an unsatisfied Content-Range when no range fits the file
+ * - multipart/byteranges for more than one range
+ * - ETag / Last-Modified validators, If-None-Match / If-Modified-Since (304)
+ *   and If-Range (send the whole file if it changed)
+ */
+
+// More ranges than this is almost certainly abuse; serve the whole file instead
+const MAX_RANGES = 50;
+
+export type RangeResult =
+  | { type: 'none' }
+  | { type: 'unsatisfiable' }
+  | { type: 'ranges'; ranges: ByteRange[] };
+
+/**
+ * Parse a Range header against a representation of `size` bytes
+ * Malformed headers are ignored (treated as no Range), as the RFC requires
+ */
+export function parseRange(header: string | undefined, size: number): RangeResult {
+  if (!header) return { type: 'none' };
+
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) return { type: 'none' };
+
+  const specs = match[1].split(',').map((spec) => spec.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return { type: 'none' };
+
+  const ranges: ByteRange[] = [];
+
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (!parts || (!parts[1] && !parts[2])) return { type: 'none' };
+
+    if (!parts[1]) {
+      // Suffix range: the last N bytes
+      const suffix = parseInt(parts[2], 10);
+      if (suffix === 0 || size === 0) continue;
+      ranges.push({ start: Math.max(size - suffix, 0), end: size - 1 });
+      continue;
+    }
+
+    const start = parseInt(parts[1], 10);
+    const end = parts[2] ? parseInt(parts[2], 10) : size - 1;
+
+    if (parts[2] && end < start) return { type: 'none' };
+    if (start >= size) continue; // Unsatisfiable on its own; others may still be fine
+
+    ranges.push({ start, end: Math.min(end, size - 1) });
+  }
+
+  if (ranges.length === 0) return { type: 'unsatisfiable' };
+
+  return { type: 'ranges', ranges: coalesce(ranges) };
+}
+
+// Merge overlapping or adjacent ranges so no byte is sent twice
+function coalesce(ranges: ByteRange[]): ByteRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [{ ...sorted[0] }];
+
+  for (const range of sorted.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+// Strong validator: the store's ETag, or size + mtime for local files
+export function entityTag(object: StoredObject): string {
+  if (object.etag) {
+    return object.etag.startsWith('"') || object.etag.startsWith('W/') ? object.etag : `"${object.etag}"`;
+  }
+  return `"${object.size.toString(16)}-${object.lastModified.getTime().toString(16)}"`;
+}
+
+const stripWeak = (tag: string) => tag.replace(/^W\//, '');
+
+// HTTP dates have one-second resolution
+const toHttpSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+// If-None-Match / If-Modified-Since: can we answer 304?
+export function isNotModified(req: Request, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+
+  if (ifNoneMatch) {
+    // Weak comparison, and If-Modified-Since is ignored when If-None-Match is present
+    return ifNoneMatch.trim() === '*' ||
+      ifNoneMatch.split(',').some((tag) => stripWeak(tag.trim()) === stripWeak(etag));
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && toHttpSeconds(lastModified) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
+
+// If-Range: only honour Range if the client's copy is still current
+function ifRangeMatches(req: Request, etag: string, lastModified: Date): boolean {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) return true;
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    // Strong comparison only; weak tags never match
+    return !ifRange.startsWith('W/') && !etag.startsWith('W/') && ifRange === etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && Math.floor(date / 1000) === toHttpSeconds(lastModified);
+}
+
+// Headers are already out, so a read error can only cut the response short
+async function pipeObject(key: string, res: Response, range?: ByteRange): Promise<void> {
+  const stream = await storage.getStream(key, range);
+  stream.on('error', (error) => {
+    console.error(`Failed to stream ${key}:`, error);
+    res.destroy();
+  });
+  stream.pipe(res);
+}
+
+/**
+ * Write one part of a multipart response without ending it
+ * Resolves false when the response can't go on: the read failed (the
+ * response is cut off, since its headers are out) or the client went away.
+ */
+async function pipePart(key: string, range: ByteRange, res: Response): Promise<boolean> {
+  let stream: Readable;
+  try {
+    stream = await storage.getStream(key, range);
+  } catch (error) {
+    console.error(`Failed to stream ${key}:`, error);
+    res.destroy();
+    return false;
+  }
+
+  return new Promise<boolean>((resolve) => {
+    const onClose = () => {
+      stream.destroy();
+      resolve(false);
+    };
+    res.once('close', onClose);
+
+    stream
+      .on('end', () => {
+        res.off('close', onClose);
+        resolve(true);
+      })
+      .on('error', (error) => {
+        console.error(`Failed to stream ${key}:`, error);
+        res.off('close', onClose);
+        res.destroy();
+        resolve(false);
+      });
+    stream.pipe(res, { end: false });
+  });
+}
+
+/**
+ * Send a stored object honouring conditional and range headers
+ * Returns the offset of the first byte sent, or null when no body was sent (304, 416, HEAD)
+ */
+export async function sendStoredObject(
+  req: Request,
+  res: Response,
+  key: string,
+  object: StoredObject,
+  options: { contentType: string; headers?: Record<string, string> }
+): Promise<number | null> {
+  const etag = entityTag(object);
+  const size = object.size;
+
+  const baseHeaders: Record<string, string | number> = {
+    ...options.headers,
+    'Accept-Ranges': 'bytes',
+    ETag: etag,
+    'Last-Modified': object.lastModified.toUTCString(),
+  };
+
+  if (isNotModified(req, etag, object.lastModified)) {
+    res.writeHead(304, baseHeaders);
+    res.end();
+    return null;
+  }
+
+  const result = ifRangeMatches(req, etag, object.lastModified)
+    ? parseRange(req.headers.range, size)
+    : { type: 'none' as const };
+
+  if (result.type === 'unsatisfiable') {
+    res.writeHead(416, { ...baseHeaders, 'Content-Range': `bytes */${size}` });
+    res.end();
+    return null;
+  }
+
+  const isHead = req.method === 'HEAD';
+
+  if (result.type === 'none') {
+    res.writeHead(200, { ...baseHeaders, 'Content-Type': options.contentType, 'Content-Length': size });
+    if (isHead) {
+      res.end();
+      return null;
+    }
+    await pipeObject(key, res);
+    return 0;
+  }
+
+  const { ranges } = result;
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    res.writeHead(206, {
+      ...baseHeaders,
+      'Content-Type': options.contentType,
+      'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+      'Content-Length': range.end - range.start + 1,
+    });
+    if (isHead) {
+      res.end();
+      return null;
+    }
+    await pipeObject(key, res, range);
+    return range.start;
+  }
+
+  // multipart/byteranges: every part carries its own Content-Type and Content-Range
+  const boundary = crypto.randomBytes(16).toString('hex');
+  const partHeaders = ranges.map(
+    (range, i) =>
+      `${i === 0 ? '' : '\r\n'}--${boundary}\r\n` +
+      `Content-Type: ${options.contentType}\r\n` +
+      `Content-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`
+  );
+  const closing = `\r\n--${boundary}--\r\n`;
+
+  const contentLength = ranges.reduce(
+    (total, range, i) => total + Buffer.byteLength(partHeaders[i]) + (range.end - range.start + 1),
+    Buffer.byteLength(closing)
+  );
+
+  res.writeHead(206, {
+    ...baseHeaders,
+    'Content-Type': `multipart/byteranges; boundary=${boundary}`,
+    'Content-Length': contentLength,
+  });
+
+  if (isHead) {
+    res.end();
+    return null;
+  }
+
+  for (let i = 0; i < ranges.length; i++) {
+    res.write(partHeaders[i]);
+    if (!(await pipePart(key, ranges[i], res))) {
+      return ranges[0].start;
+    }
+  }
+  res.end(closing);
+
+  return ranges[0].start;
+}
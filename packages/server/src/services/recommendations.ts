@@ -0,0 +1,421 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/client.js';
+import { redis, cache, cacheKeys } from '../db/redis.js';
+import { config } from '../config/index.js';
+
+/**
+ * RECOMMENDATIONS
+ *
+ * Built from listening history (counted plays, completions, early skips),
+ * likes, follows and genres:
+ *
+ * - Similar tracks: item-to-item cosine similarity over who listened to what
+ *   ("people who played this also played...")
+ * - For You: tracks similar to what the listener already likes, plus what
+ *   listeners with the same taste play, boosted by followed artists and
+ *   favourite genres
+ *
+ * Both are precomputed nightly by the worker and kept in Redis. Listeners
+ * and tracks without enough history get a live fallback instead.
+ */
+
+// Largest profile per listener used when building pairs (keeps work per user bounded)
+const MAX_PROFILE = 50;
+// Tracks with more listeners than this only sample them when finding taste neighbours
+const MAX_LISTENERS_PER_TRACK = 200;
+const SIMILAR_PER_TRACK = 30;
+const NEIGHBOURS_PER_USER = 20;
+const FOR_YOU_SIZE = 100;
+
+// Precomputed lists outlive a missed nightly run
+const PRECOMPUTED_TTL = 48 * 60 * 60;
+const FALLBACK_TTL = 60 * 60;
+
+const COMPUTED_AT_KEY = 'recs:computed-at';
+
+export const recommendationTrackInclude = {
+  artist: {
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+      avatarUrl: true,
+      isVerified: true,
+    },
+  },
+  album: {
+    select: {
+      id: true,
+      title: true,
+      coverUrl: true,
+    },
+  },
+} satisfies Prisma.TrackInclude;
+
+export interface ScoredTrack {
+  trackId: string;
+  score: number;
+}
+
+interface Interaction {
+  userId: string;
+  trackId: string;
+  plays: number;
+  completions: number;
+  skips: number;
+  liked: boolean;
+}
+
+// How much a listener cares about a track; repeat plays count with diminishing returns
+function affinity(row: Interaction): number {
+  return Math.log2(1 + row.plays) + 0.5 * Math.log2(1 + row.completions) + (row.liked ? 2 : 0) - 0.5 * row.skips;
+}
+
+async function loadInteractions(since: Date): Promise<Interaction[]> {
+  // Skips only count against a track when they happened before the play counted
+  const rows = await prisma.$queryRaw<Array<{
+    userId: string;
+    trackId: string;
+    plays: bigint;
+    completions: bigint;
+    skips: bigint;
+    liked: boolean;
+  }>>`
+    SELECT "userId", "trackId",
+      SUM(plays)::bigint AS plays,
+      SUM(completions)::bigint AS completions,
+      SUM(skips)::bigint AS skips,
+      BOOL_OR(liked) AS liked
+    FROM (
+      SELECT "userId", "trackId",
+        CASE WHEN counted THEN 1 ELSE 0 END AS plays,
+        CASE WHEN "endReason" = 'COMPLETED' THEN 1 ELSE 0 END AS completions,
+        CASE WHEN "endReason" = 'SKIPPED' AND NOT counted THEN 1 ELSE 0 END AS skips,
+        FALSE AS liked
+      FROM "PlayHistory"
+      WHERE "playedAt" >= ${since}
+      UNION ALL
+      SELECT "userId", "trackId", 0, 0, 0, TRUE
+      FROM "LikedTrack"
+    ) signals
+    GROUP BY "userId", "trackId"
+  `;
+
+  return rows.map((row) => ({
+    userId: row.userId,
+    trackId: row.trackId,
+    plays: Number(row.plays),
+    completions: Number(row.completions),
+    skips: Number(row.skips),
+    liked: row.liked,
+  }));
+}
+
+// Keep the strongest `limit` entries of a score map, best first
+function topScores(scores: Map<string, number>, limit: number): ScoredTrack[] {
+  return [...scores.entries()]
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([trackId, score]) => ({ trackId, score: Math.round(score * 1000) / 1000 }));
+}
+
+function normalise(scores: Map<string, number>): Map<string, number> {
+  let max = 0;
+  for (const score of scores.values()) max = Math.max(max, score);
+  if (max === 0) return scores;
+  return new Map([...scores].map(([id, score]) => [id, score / max]));
+}
+
+/**
+ * Rebuild similar-track lists and For You feeds for everyone with recent activity
+ * Runs in the worker; everything is held in memory, which is fine for a
+ * self-hosted catalogue (work is bounded by MAX_PROFILE per listener)
+ */
+export async function precomputeRecommendations(): Promise<{ tracks: number; users: number }> {
+  const since = new Date(Date.now() - config.recommendations.windowDays * 24 * 60 * 60 * 1000);
+  const interactions = await loadInteractions(since);
+
+  // userId -> (trackId -> affinity), strongest MAX_PROFILE only
+  const profiles = new Map<string, Map<string, number>>();
+  const byUser = new Map<string, Array<[string, number]>>();
+
+  for (const row of interactions) {
+    const weight = affinity(row);
+    if (weight <= 0) continue;
+    const list = byUser.get(row.userId) ?? [];
+    list.push([row.trackId, weight]);
+    byUser.set(row.userId, list);
+  }
+
+  for (const [userId, list] of byUser) {
+    list.sort((a, b) => b[1] - a[1]);
+    profiles.set(userId, new Map(list.slice(0, MAX_PROFILE)));
+  }
+
+  // trackId -> (userId -> affinity)
+  const listeners = new Map<string, Map<string, number>>();
+  for (const [userId, profile] of profiles) {
+    for (const [trackId, weight] of profile) {
+      const map = listeners.get(trackId) ?? new Map<string, number>();
+      map.set(userId, weight);
+      listeners.set(trackId, map);
+    }
+  }
+
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+
+  const trackNorms = new Map([...listeners].map(([id, vector]) => [id, norm(vector)]));
+  const userNorms = new Map([...profiles].map(([id, vector]) => [id, norm(vector)]));
+
+  // Item-to-item: dot products from every pair of tracks in the same profile
+  const dots = new Map<string, Map<string, number>>();
+  const addDot = (a: string, b: string, value: number) => {
+    const row = dots.get(a) ?? new Map<string, number>();
+    row.set(b, (row.get(b) ?? 0) + value);
+    dots.set(a, row);
+  };
+
+  for (const profile of profiles.values()) {
+    const entries = [...profile];
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const value = entries[i][1] * entries[j][1];
+        addDot(entries[i][0], entries[j][0], value);
+        addDot(entries[j][0], entries[i][0], value);
+      }
+    }
+  }
+
+  const similar = new Map<string, ScoredTrack[]>();
+  for (const [trackId, row] of dots) {
+    const scores = new Map<string, number>();
+    const own = trackNorms.get(trackId) || 1;
+    for (const [otherId, dot] of row) {
+      scores.set(otherId, dot / (own * (trackNorms.get(otherId) || 1)));
+    }
+    similar.set(trackId, topScores(scores, SIMILAR_PER_TRACK));
+  }
+
+  // Only public tracks are ever recommended; own uploads and followed artists are looked up once
+  const publicTracks = await prisma.track.findMany({
+    where: { isPublic: true },
+    select: { id: true, artistId: true, genre: true },
+  });
+  const trackInfo = new Map(publicTracks.map((track) => [track.id, track]));
+
+  const follows = await prisma.follow.findMany({
+    where: { followerId: { in: [...profiles.keys()] } },
+    select: { followerId: true, followingId: true },
+  });
+  const followed = new Map<string, Set<string>>();
+  for (const follow of follows) {
+    const set = followed.get(follow.followerId) ?? new Set<string>();
+    set.add(follow.followingId);
+    followed.set(follow.followerId, set);
+  }
+
+  const forYou = new Map<string, ScoredTrack[]>();
+
+  for (const [userId, profile] of profiles) {
+    // Item-based: tracks similar to what they already play, weighted by how much they like it
+    const itemScores = new Map<string, number>();
+    for (const [trackId, weight] of profile) {
+      for (const { trackId: otherId, score } of similar.get(trackId) ?? []) {
+        itemScores.set(otherId, (itemScores.get(otherId) ?? 0) + weight * score);
+      }
+    }
+
+    // User-based: listeners with overlapping taste, and what they play
+    const overlap = new Map<string, number>();
+    for (const [trackId, weight] of profile) {
+      const others = [...(listeners.get(trackId) ?? [])].slice(0, MAX_LISTENERS_PER_TRACK);
+      for (const [otherId, otherWeight] of others) {
+        if (otherId === userId) continue;
+        overlap.set(otherId, (overlap.get(otherId) ?? 0) + weight * otherWeight);
+      }
+    }
+
+    const neighbours = [...overlap]
+      .map(([otherId, dot]) => [otherId, dot / ((userNorms.get(userId) || 1) * (userNorms.get(otherId) || 1))] as const)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, NEIGHBOURS_PER_USER);
+
+    const userScores = new Map<string, number>();
+    for (const [otherId, similarity] of neighbours) {
+      for (const [trackId, weight] of profiles.get(otherId) ?? []) {
+        userScores.set(trackId, (userScores.get(trackId) ?? 0) + similarity * weight);
+      }
+    }
+
+    // Genre taste from their own profile
+    const genres = new Map<string, number>();
+    for (const [trackId, weight] of profile) {
+      const genre = trackInfo.get(trackId)?.genre;
+      if (genre) genres.set(genre, (genres.get(genre) ?? 0) + weight);
+    }
+    const genreTaste = normalise(genres);
+    const following = followed.get(userId);
+
+    const items = normalise(itemScores);
+    const users = normalise(userScores);
+    const combined = new Map<string, number>();
+
+    for (const trackId of new Set([...items.keys(), ...users.keys()])) {
+      const track = trackInfo.get(trackId);
+      if (!track || profile.has(trackId) || track.artistId === userId) continue;
+
+      let score = (items.get(trackId) ?? 0) + 0.8 * (users.get(trackId) ?? 0);
+      if (following?.has(track.artistId)) score += 0.3;
+      if (track.genre) score += 0.2 * (genreTaste.get(track.genre) ?? 0);
+
+      combined.set(trackId, score);
+    }
+
+    forYou.set(userId, topScores(combined, FOR_YOU_SIZE));
+  }
+
+  // Write in batches so a large catalogue doesn't build one enormous pipeline
+  const writes: Array<[string, ScoredTrack[]]> = [
+    ...[...similar].map(([trackId, list]) => [
+      cacheKeys.similarTracks(trackId),
+      list.filter(({ trackId: id }) => trackInfo.has(id)),
+    ] as [string, ScoredTrack[]]),
+    ...[...forYou].map(([userId, list]) => [cacheKeys.forYou(userId), list] as [string, ScoredTrack[]]),
+  ];
+
+  for (let i = 0; i < writes.length; i += 500) {
+    const pipeline = redis.pipeline();
+    for (const [key, list] of writes.slice(i, i + 500)) {
+      pipeline.setex(key, PRECOMPUTED_TTL, JSON.stringify({ tracks: list, precomputed: true }));
+    }
+    await pipeline.exec();
+  }
+
+  await redis.set(COMPUTED_AT_KEY, new Date().toISOString());
+
+  return { tracks: similar.size, users: forYou.size };
+}
+
+/**
+ * Nightly at RECOMMENDATIONS_REFRESH_HOUR; also straight away if it has never run
+ */
+export async function precomputeRecommendationsIfDue(): Promise<boolean> {
+  const lastRun = await redis.get(COMPUTED_AT_KEY);
+  const now = new Date();
+
+  if (lastRun && now.getHours() !== config.recommendations.refreshHour) {
+    return false;
+  }
+
+  // The hourly tick can land twice in the refresh hour
+  if (lastRun && now.getTime() - Date.parse(lastRun) < 12 * 60 * 60 * 1000) {
+    return false;
+  }
+
+  const { tracks, users } = await precomputeRecommendations();
+  console.log(`✨ Recommendations refreshed for ${users} listener(s), ${tracks} track(s)`);
+  return true;
+}
+
+// Load tracks by id, keeping the given order and dropping anything no longer public
+export async function hydrate(ids: string[], limit = ids.length) {
+  const tracks = await prisma.track.findMany({
+    where: { id: { in: ids }, isPublic: true },
+    include: recommendationTrackInclude,
+  });
+  const byId = new Map(tracks.map((track) => [track.id, track]));
+  return ids.map((id) => byId.get(id)).filter((track) => !!track).slice(0, limit);
+}
+
+/**
+ * Tracks similar to the given one: co-listening when there's enough history,
+ * otherwise the same artist and genre
+ */
+export async function getSimilarTracks(trackId: string, limit = 20) {
+  const similar = await getSimilarTrackScores(trackId, limit);
+  return hydrate(similar.map((t) => t.trackId), limit);
+}
+
+// Scores only, for callers that rank or filter before loading tracks (e.g. radio)
+export async function getSimilarTrackScores(trackId: string, limit = 20): Promise<ScoredTrack[]> {
+  let cached = await cache.get<{ tracks: ScoredTrack[] }>(cacheKeys.similarTracks(trackId));
+
+  if (!cached || cached.tracks.length < limit) {
+    const track = await prisma.track.findUnique({
+      where: { id: trackId },
+      select: { artistId: true, genre: true },
+    });
+    if (!track) return [];
+
+    const fallback = await prisma.track.findMany({
+      where: {
+        id: { not: trackId, notIn: cached?.tracks.map((t) => t.trackId) ?? [] },
+        isPublic: true,
+        OR: [{ artistId: track.artistId }, ...(track.genre ? [{ genre: track.genre }] : [])],
+      },
+      orderBy: { playCount: 'desc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    const tracks = [...(cached?.tracks ?? []), ...fallback.map(({ id }) => ({ trackId: id, score: 0 }))];
+
+    // Precomputed lists are left alone; only fallbacks are cached here
+    if (!cached) {
+      await cache.set(cacheKeys.similarTracks(trackId), { tracks, precomputed: false }, FALLBACK_TTL);
+    }
+    cached = { tracks };
+  }
+
+  return cached.tracks;
+}
+
+/**
+ * For You feed: precomputed nightly, or built from follows, liked genres and
+ * what's popular for listeners the nightly run hasn't seen yet
+ */
+export async function getForYou(userId: string, limit = 30) {
+  const cached = await cache.get<{ tracks: ScoredTrack[] }>(cacheKeys.forYou(userId));
+
+  if (cached && cached.tracks.length > 0) {
+    return hydrate(cached.tracks.map((t) => t.trackId), limit);
+  }
+
+  const [following, liked] = await Promise.all([
+    prisma.follow.findMany({ where: { followerId: userId }, select: { followingId: true } }),
+    prisma.likedTrack.findMany({
+      where: { userId },
+      select: { trackId: true, track: { select: { genre: true } } },
+      take: 200,
+    }),
+  ]);
+
+  const genres = [...new Set(liked.map((like) => like.track.genre).filter((g): g is string => !!g))];
+  const exclude = liked.map((like) => like.trackId);
+
+  const candidates = await prisma.track.findMany({
+    where: {
+      isPublic: true,
+      id: { notIn: exclude },
+      artistId: { not: userId },
+      ...(following.length || genres.length
+        ? {
+            OR: [
+              ...(following.length ? [{ artistId: { in: following.map((f) => f.followingId) } }] : []),
+              ...(genres.length ? [{ genre: { in: genres } }] : []),
+            ],
+          }
+        : {}),
+    },
+    orderBy: [{ playCount: 'desc' }, { createdAt: 'desc' }],
+    take: limit,
+    select: { id: true },
+  });
+
+  const tracks = candidates.map(({ id }) => ({ trackId: id, score: 0 }));
+  await cache.set(cacheKeys.forYou(userId), { tracks, precomputed: false }, FALLBACK_TTL);
+
+  return hydrate(tracks.map((t) => t.trackId), limit);
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../db/client.js';
+import { cache } from '../db/redis.js';
+import { publishDueReleases } from './releases.js';
+
+const tx = {
+  album: { updateMany: vi.fn() },
+  track: { updateMany: vi.fn(), findMany: vi.fn() },
+  preSave: { findMany: vi.fn(), updateMany: vi.fn() },
+  likedTrack: { createMany: vi.fn() },
+  notification: { createMany: vi.fn() },
+};
+
+vi.mock('../db/client.js', () => ({
+  prisma: {
+    album: { findMany: vi.fn() },
+    track: { findMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../db/redis.js', () => ({
+  cache: { del: vi.fn() },
+  cacheKeys: {
+    track: (id: string) => `track:${id}`,
+    trackMeta: (id: string) => `track:meta:${id}`,
+    newReleases: () => 'releases:new',
+  },
+}));
+
+const artist = { username: 'novalane', displayName: 'Nova Lane' };
+
+describe('publishDueReleases', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation((fn: any) => fn(tx));
+    vi.mocked(prisma.album.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.track.findMany).mockResolvedValue([
+      { id: 't1', title: 'First', artist },
+      { id: 't2', title: 'Second', artist },
+    ] as any);
+    tx.track.updateMany.mockResolvedValue({ count: 1 });
+    tx.preSave.findMany.mockResolvedValue([{ id: 'p1', userId: 'u1', trackId: null }]);
+  });
+
+  it('turns pre-saves into likes and notifications as it publishes', async () => {
+    expect(await publishDueReleases()).toBe(2);
+
+    expect(tx.likedTrack.createMany).toHaveBeenCalledWith({ data: [{ userId: 'u1', trackId: 't1' }], skipDuplicates: true });
+    expect(tx.notification.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ userId: 'u1', title: 'First is out now', link: '/track/t1' })],
+    });
+    expect(tx.preSave.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['p1'] } },
+      data: { fulfilledAt: expect.any(Date) },
+    });
+    expect(cache.del).toHaveBeenCalledWith('releases:new');
+  });
+
+  it('claims and fulfils in the same transaction and moves on when fulfilment fails', async () => {
+    tx.likedTrack.createMany.mockRejectedValueOnce(new Error('connection reset'));
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await publishDueReleases()).toBe(1);
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+    expect(logged).toHaveBeenCalledWith('Failed to publish track t1, will retry:', expect.any(Error));
+    expect(cache.del).not.toHaveBeenCalledWith('track:t1');
+    expect(cache.del).toHaveBeenCalledWith('track:t2');
+  });
+
+  it('skips releases another worker already claimed', async () => {
+    tx.track.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await publishDueReleases()).toBe(0);
+
+    expect(tx.preSave.findMany).not.toHaveBeenCalled();
+    expect(cache.del).not.toHaveBeenCalled();
+  });
+});
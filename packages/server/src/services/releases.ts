@@ -0,0 +1,169 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/client.js';
+import { cache, cacheKeys } from '../db/redis.js';
+
+/**
+ * SCHEDULED RELEASES
+ *
+ * A track or album meant to be public but dated in the future is stored as
+ * private and scheduled, so trending, search, streaming and every other
+ * isPublic filter keep it hidden. Listeners can still open its page and
+ * pre-save it. Once releaseDate passes the worker publishes it, adds it to
+ * the library of everyone who pre-saved it and notifies them.
+ */
+
+// What to store for the visibility the artist asked for
+export function releaseVisibility(wantsPublic: boolean, releaseDate: Date | null | undefined) {
+  const isScheduled = wantsPublic && !!releaseDate && releaseDate.getTime() > Date.now();
+  return { isPublic: wantsPublic && !isScheduled, isScheduled };
+}
+
+interface Release {
+  title: string;
+  link: string;
+  artistName: string;
+  albumId?: string;
+  trackIds: string[]; // Tracks that went live (all of an album's public tracks)
+}
+
+// Pre-saves become likes, plus one notification per listener
+async function fulfilPreSaves(tx: Prisma.TransactionClient, release: Release): Promise<number> {
+  const preSaves = await tx.preSave.findMany({
+    where: {
+      fulfilledAt: null,
+      OR: [
+        { trackId: { in: release.trackIds } },
+        ...(release.albumId ? [{ albumId: release.albumId }] : []),
+      ],
+    },
+    select: { id: true, userId: true, trackId: true },
+  });
+
+  if (preSaves.length === 0) return 0;
+
+  const likes = preSaves.flatMap((preSave: { userId: string; trackId: string | null }) =>
+    (preSave.trackId ? [preSave.trackId] : release.trackIds).map((trackId) => ({
+      userId: preSave.userId,
+      trackId,
+    }))
+  );
+  const userIds: string[] = [...new Set<string>(preSaves.map((preSave: { userId: string }) => preSave.userId))];
+
+  await tx.likedTrack.createMany({ data: likes, skipDuplicates: true });
+  await tx.notification.createMany({
+    data: userIds.map((userId) => ({
+      userId,
+      type: 'RELEASE' as const,
+      title: `${release.title} is out now`,
+      body: `New from ${release.artistName}, already in your library`,
+      link: release.link,
+    })),
+  });
+  await tx.preSave.updateMany({
+    where: { id: { in: preSaves.map((preSave: { id: string }) => preSave.id) } },
+    data: { fulfilledAt: new Date() },
+  });
+
+  return userIds.length;
+}
+
+const artistSelect = { select: { username: true, displayName: true } } as const;
+const artistName = (artist: { username: string; displayName: string | null }) =>
+  artist.displayName || artist.username;
+
+// The stream routes cache isPublic in trackMeta, so both entries have to go
+const forgetTrack = (trackId: string) =>
+  Promise.all([cache.del(cacheKeys.track(trackId)), cache.del(cacheKeys.trackMeta(trackId))]);
+
+/**
+ * Publish every scheduled album and track whose release time has passed
+ * Runs every minute in the worker. Each release is claimed with a
+ * conditional update, so concurrent workers never notify twice, and the
+ * claim commits together with its pre-saves: if fulfilment fails the release
+ * stays scheduled and the next run tries it again.
+ */
+export async function publishDueReleases(): Promise<number> {
+  const now = new Date();
+  let published = 0;
+
+  const albums = await prisma.album.findMany({
+    where: { isScheduled: true, releaseDate: { lte: now } },
+    select: { id: true, title: true, artist: artistSelect },
+  });
+
+  for (const album of albums) {
+    try {
+      const trackIds = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const { count } = await tx.album.updateMany({
+          where: { id: album.id, isScheduled: true },
+          data: { isPublic: true, isScheduled: false },
+        });
+        if (count === 0) return null;
+
+        await tx.track.updateMany({
+          where: { albumId: album.id, isScheduled: true },
+          data: { isPublic: true, isScheduled: false },
+        });
+
+        const tracks = await tx.track.findMany({
+          where: { albumId: album.id, isPublic: true },
+          select: { id: true },
+        });
+        const ids = tracks.map((track: { id: string }) => track.id);
+
+        await fulfilPreSaves(tx, {
+          title: album.title,
+          link: `/album/${album.id}`,
+          artistName: artistName(album.artist),
+          albumId: album.id,
+          trackIds: ids,
+        });
+        return ids;
+      });
+      if (!trackIds) continue;
+
+      await Promise.all(trackIds.map(forgetTrack));
+      published++;
+    } catch (error) {
+      console.error(`Failed to publish album ${album.id}, will retry:`, error);
+    }
+  }
+
+  // Singles, and album tracks scheduled on their own
+  const tracks = await prisma.track.findMany({
+    where: { isScheduled: true, releaseDate: { lte: now } },
+    select: { id: true, title: true, artist: artistSelect },
+  });
+
+  for (const track of tracks) {
+    try {
+      const claimed = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const { count } = await tx.track.updateMany({
+          where: { id: track.id, isScheduled: true },
+          data: { isPublic: true, isScheduled: false },
+        });
+        if (count === 0) return false;
+
+        await fulfilPreSaves(tx, {
+          title: track.title,
+          link: `/track/${track.id}`,
+          artistName: artistName(track.artist),
+          trackIds: [track.id],
+        });
+        return true;
+      });
+      if (!claimed) continue;
+
+      await forgetTrack(track.id);
+      published++;
+    } catch (error) {
+      console.error(`Failed to publish track ${track.id}, will retry:`, error);
+    }
+  }
+
+  if (published > 0) {
+    await cache.del(cacheKeys.newReleases());
+  }
+
+  return published;
+}
@@ -0,0 +1,699 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/client.js';
+import { errors } from '../middleware/errorHandler.js';
+
+/**
+ * CATALOGUE SEARCH
+ *
+ * Postgres full-text search (weighted tsvector columns kept up to date by
+ * triggers in prisma/search.sql) combined with pg_trgm word similarity:
+ *
+ * - every word is a prefix match ("beyo" finds "Beyoncé")
+ * - accents and case are folded on both sides
+ * - misspellings still match through trigram similarity ("beyonse")
+ * - ranking weighs titles over artist names over albums/descriptions,
+ *   boosts exact title matches and breaks ties on popularity
+ * - matches come back highlighted with <mark></mark>
+ *
+ * Results can be filtered (genre, explicit, duration, release year, album
+ * type, verified artists), sorted, and paged with opaque keyset cursors.
+ * Track searches also return facet counts for the filter sidebar; each
+ * facet is counted with every other filter applied, so picking one genre
+ * still shows how many results the other genres would have.
+ */
+
+// Minimum word similarity (0-1) for a typo to count as a match
+const FUZZY_THRESHOLD = 0.4;
+// Longer queries are truncated; nobody types twelve words into a music search
+const MAX_QUERY_WORDS = 12;
+
+const HEADLINE = 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>';
+const SNIPPET = 'MaxFragments=1, MaxWords=20, MinWords=8, StartSel=<mark>, StopSel=</mark>';
+
+export type SearchType = 'tracks' | 'artists' | 'albums' | 'playlists';
+export type SearchSort = 'relevance' | 'plays' | 'newest' | 'duration';
+export type AlbumTypeFilter = 'ALBUM' | 'EP' | 'SINGLE' | 'COMPILATION';
+
+export interface SearchFilters {
+  genres?: string[];
+  explicit?: boolean; // false = clean only
+  minDuration?: number; // Seconds
+  maxDuration?: number;
+  yearFrom?: number; // Release year (upload year when no release date)
+  yearTo?: number;
+  albumTypes?: AlbumTypeFilter[];
+  verifiedOnly?: boolean;
+}
+
+export interface SearchOptions {
+  query: string;
+  type?: SearchType;
+  limit: number;
+  filters?: SearchFilters;
+  sort?: SearchSort;
+  order?: 'asc' | 'desc';
+  cursor?: string; // Only meaningful together with `type`
+}
+
+// Duration facet buckets (seconds, max exclusive)
+export const DURATION_BUCKETS = [
+  { value: 'short', min: 0, max: 120 },
+  { value: 'medium', min: 120, max: 300 },
+  { value: 'long', min: 300, max: 600 },
+  { value: 'extended', min: 600, max: null },
+] as const;
+
+// Which filters each result type can honour; a type that can't apply an active filter is left out
+const SUPPORTED_FILTERS: Record<SearchType, Array<keyof SearchFilters>> = {
+  tracks: ['genres', 'explicit', 'minDuration', 'maxDuration', 'yearFrom', 'yearTo', 'albumTypes', 'verifiedOnly'],
+  artists: ['verifiedOnly'],
+  albums: ['yearFrom', 'yearTo', 'albumTypes', 'verifiedOnly'],
+  playlists: [],
+};
+
+const activeFilters = (filters: SearchFilters) =>
+  (Object.keys(filters) as Array<keyof SearchFilters>).filter((key) => {
+    const value = filters[key];
+    return value !== undefined && !(Array.isArray(value) && value.length === 0);
+  });
+
+export const hasFilters = (filters: SearchFilters = {}) => activeFilters(filters).length > 0;
+
+/**
+ * Apply prisma/search.sql (text search config, normalise function, triggers)
+ * Safe to run on every start; statements are idempotent
+ */
+export async function ensureSearchSetup(): Promise<void> {
+  const sql = await fs.readFile(path.join(process.cwd(), 'prisma', 'search.sql'), 'utf8');
+
+  // One transaction, so no write slips through between dropping and re-creating a trigger
+  await prisma.$transaction(
+    splitSqlStatements(sql).map((statement) => prisma.$executeRawUnsafe(statement))
+  );
+}
+
+// Split on semicolons outside $$-quoted bodies, dropping comment lines
+function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  const body = sql
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('--'))
+    .join('\n');
+
+  let current = '';
+  let inDollarQuote = false;
+
+  for (let i = 0; i < body.length; i++) {
+    if (body.startsWith('$$', i)) {
+      inDollarQuote = !inDollarQuote;
+      current += '$$';
+      i++;
+      continue;
+    }
+    if (body[i] === ';' && !inDollarQuote) {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += body[i];
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+// "beyo knowl" -> "beyo:* & knowl:*" (words only, so user input can't inject tsquery syntax)
+export function toPrefixQuery(query: string): string | null {
+  const words = query
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_QUERY_WORDS);
+
+  return words.length ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
+
+const highlighted = (text: string | null | undefined) =>
+  text && text.includes('<mark>') ? text : undefined;
+
+// Strip undefined entries so responses only carry highlights that matched
+const compact = (highlights: Record<string, string | undefined>) =>
+  Object.fromEntries(Object.entries(highlights).filter(([, value]) => value !== undefined));
+
+// Run ranked SQL with the trigram threshold set for this query only
+async function rankedQuery<T>(query: Prisma.Sql): Promise<T[]> {
+  const [, rows] = await prisma.$transaction([
+    prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_THRESHOLD)}, true)`,
+    prisma.$queryRaw<T[]>(query),
+  ]);
+  return rows;
+}
+
+// Keep the ranked order when loading full records
+function inRankOrder<T extends { id: string }>(ids: string[], records: T[]): T[] {
+  const byId = new Map(records.map((record) => [record.id, record]));
+  return ids.map((id) => byId.get(id)).filter((record): record is T => !!record);
+}
+
+/**
+ * KEYSET PAGINATION
+ *
+ * Every search orders by (sort_value, id). The cursor is the last row's pair,
+ * so the next page starts strictly after it even if rows were added meanwhile.
+ */
+
+interface Cursor {
+  value: number;
+  id: string;
+}
+
+const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+
+function decodeCursor(cursor: string | undefined): Cursor | null {
+  if (!cursor) return null;
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof value === 'number' && typeof id === 'string') {
+      return { value, id };
+    }
+  } catch {
+    // Fall through
+  }
+  throw errors.badRequest('Invalid cursor');
+}
+
+interface PageRow {
+  id: string;
+  sort_value: number;
+}
+
+interface SearchContext {
+  tsquery: string | null;
+  query: string;
+  limit: number;
+  filters: SearchFilters;
+  sort: SearchSort;
+  order: 'asc' | 'desc';
+  cursor: Cursor | null;
+}
+
+/**
+ * Wrap an inner query (which must select id and sort_value) with cursor
+ * filtering, ordering and highlight columns computed only for the page
+ */
+function pageQuery(ctx: SearchContext, inner: Prisma.Sql, highlights: Prisma.Sql): Prisma.Sql {
+  const direction = Prisma.raw(ctx.order === 'asc' ? 'ASC' : 'DESC');
+  const after = ctx.cursor
+    ? ctx.order === 'asc'
+      ? Prisma.sql`(r.sort_value, r.id) > (${ctx.cursor.value}::double precision, ${ctx.cursor.id})`
+      : Prisma.sql`(r.sort_value, r.id) < (${ctx.cursor.value}::double precision, ${ctx.cursor.id})`
+    : Prisma.sql`TRUE`;
+
+  return Prisma.sql`
+    SELECT r.id, r.sort_value, ${highlights}
+    FROM (${inner}) r${ctx.tsquery ? Prisma.sql`, to_tsquery('music_search', ${ctx.tsquery}) q` : Prisma.empty}
+    WHERE ${after}
+    ORDER BY r.sort_value ${direction}, r.id ${direction}
+    LIMIT ${ctx.limit + 1}
+  `;
+}
+
+// Trim the look-ahead row and turn the last row into the next cursor
+function toPage<T extends PageRow>(ctx: SearchContext, rows: T[]) {
+  const hasMore = rows.length > ctx.limit;
+  const hits = rows.slice(0, ctx.limit);
+  const last = hits[hits.length - 1];
+
+  return {
+    hits,
+    nextCursor: hasMore && last ? encodeCursor({ value: Number(last.sort_value), id: last.id }) : null,
+  };
+}
+
+// FROM-clause additions and the text predicate; without a query everything matches (browse)
+function textSearch(ctx: SearchContext, alias: string) {
+  const a = Prisma.raw(alias);
+
+  if (!ctx.tsquery) {
+    return { from: Prisma.empty, match: Prisma.sql`TRUE` };
+  }
+
+  return {
+    from: Prisma.sql`, to_tsquery('music_search', ${ctx.tsquery}) q, search_normalize(${ctx.query}) norm`,
+    match: Prisma.sql`(${a}."searchVector" @@ q OR norm <% ${a}."searchText")`,
+  };
+}
+
+// Text relevance; `exact` is the name or title compared for an exact match boost
+function relevance(ctx: SearchContext, alias: string, exact: Prisma.Sql, boost: Prisma.Sql) {
+  const a = Prisma.raw(alias);
+
+  if (!ctx.tsquery) {
+    return boost;
+  }
+
+  return Prisma.sql`(
+    ts_rank_cd(${a}."searchVector", q, 1)
+      + 0.5 * word_similarity(norm, ${a}."searchText")
+      + CASE WHEN search_normalize(${exact}) = norm THEN 1 ELSE 0 END
+      + ${boost}
+  )`;
+}
+
+const headline = (ctx: SearchContext, column: string, options = HEADLINE) =>
+  ctx.tsquery
+    ? Prisma.sql`CASE WHEN r.${Prisma.raw(column)} IS NOT NULL THEN ts_headline('music_search', r.${Prisma.raw(column)}, q, ${options}) END`
+    : Prisma.sql`NULL::text`;
+
+const year = (expression: Prisma.Sql) => Prisma.sql`EXTRACT(YEAR FROM ${expression})`;
+
+const and = (conditions: Prisma.Sql[]) =>
+  conditions.length ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+
+/**
+ * TRACKS
+ */
+
+type TrackFacet = 'genre' | 'explicit' | 'duration' | 'year' | 'albumType' | 'verified';
+
+// One SQL predicate per facet so facet counts can leave their own filter out
+function trackPredicates(filters: SearchFilters): Record<TrackFacet, Prisma.Sql | null> {
+  const released = Prisma.sql`coalesce(t."releaseDate", t."createdAt")`;
+
+  const duration: Prisma.Sql[] = [];
+  if (filters.minDuration !== undefined) duration.push(Prisma.sql`t.duration >= ${filters.minDuration}`);
+  if (filters.maxDuration !== undefined) duration.push(Prisma.sql`t.duration <= ${filters.maxDuration}`);
+
+  const years: Prisma.Sql[] = [];
+  if (filters.yearFrom !== undefined) years.push(Prisma.sql`${year(released)} >= ${filters.yearFrom}`);
+  if (filters.yearTo !== undefined) years.push(Prisma.sql`${year(released)} <= ${filters.yearTo}`);
+
+  return {
+    genre: filters.genres?.length
+      ? Prisma.sql`lower(t.genre) IN (${Prisma.join(filters.genres.map((genre) => genre.toLowerCase()))})`
+      : null,
+    explicit: filters.explicit !== undefined ? Prisma.sql`t."isExplicit" = ${filters.explicit}` : null,
+    duration: duration.length ? and(duration) : null,
+    year: years.length ? and(years) : null,
+    albumType: filters.albumTypes?.length
+      ? Prisma.sql`a."albumType"::text IN (${Prisma.join(filters.albumTypes)})`
+      : null,
+    verified: filters.verifiedOnly ? Prisma.sql`u."isVerified"` : null,
+  };
+}
+
+const trackSortValue = (ctx: SearchContext): Prisma.Sql => {
+  switch (ctx.sort) {
+    case 'plays':
+      return Prisma.sql`t."playCount"`;
+    case 'newest':
+      return Prisma.sql`extract(epoch FROM coalesce(t."releaseDate", t."createdAt"))`;
+    case 'duration':
+      return Prisma.sql`t.duration`;
+    default:
+      return relevance(ctx, 't', Prisma.sql`t.title`, Prisma.sql`0.01 * ln(1 + t."playCount")`);
+  }
+};
+
+const TRACK_FROM = Prisma.sql`
+  "Track" t
+    JOIN "User" u ON u.id = t."artistId"
+    LEFT JOIN "Album" a ON a.id = t."albumId"
+`;
+
+interface TrackHit extends PageRow {
+  title_hl: string | null;
+  artist_hl: string | null;
+  album_hl: string | null;
+}
+
+async function searchTracks(ctx: SearchContext) {
+  const text = textSearch(ctx, 't');
+  const predicates = Object.values(trackPredicates(ctx.filters)).filter((p): p is Prisma.Sql => !!p);
+
+  const rows = await rankedQuery<TrackHit>(pageQuery(
+    ctx,
+    Prisma.sql`
+      SELECT t.id, t.title,
+        coalesce(u."displayName", u.username) AS artist_name,
+        a.title AS album_title,
+        (${trackSortValue(ctx)})::double precision AS sort_value
+      FROM ${TRACK_FROM}${text.from}
+      WHERE t."isPublic" AND ${text.match} AND ${and(predicates)}
+    `,
+    Prisma.sql`
+      ${headline(ctx, 'title')} AS title_hl,
+      ${headline(ctx, 'artist_name')} AS artist_hl,
+      ${headline(ctx, 'album_title')} AS album_hl
+    `
+  ));
+
+  const { hits, nextCursor } = toPage(ctx, rows);
+
+  const tracks = await prisma.track.findMany({
+    where: { id: { in: hits.map((hit) => hit.id) } },
+    include: {
+      artist: {
+        select: {
+          id: true,
+          username: true,
+          displayName: true,
+          avatarUrl: true,
+          isVerified: true,
+        },
+      },
+      album: {
+        select: {
+          id: true,
+          title: true,
+          coverUrl: true,
+          albumType: true,
+        },
+      },
+    },
+  });
+
+  const hitById = new Map(hits.map((hit) => [hit.id, hit]));
+
+  const items = inRankOrder(hits.map((hit) => hit.id), tracks).map((track) => {
+    const hit = hitById.get(track.id)!;
+    return {
+      ...track,
+      highlights: compact({
+        title: highlighted(hit.title_hl),
+        artist: highlighted(hit.artist_hl),
+        album: highlighted(hit.album_hl),
+      }),
+    };
+  });
+
+  return { items, nextCursor };
+}
+
+interface FacetRow {
+  facet: TrackFacet;
+  value: string | null;
+  count: bigint;
+}
+
+/**
+ * Facet counts for the filter sidebar
+ * Each facet is counted with all the other filters applied but not its own
+ */
+async function trackFacets(ctx: SearchContext) {
+  const text = textSearch(ctx, 't');
+  const predicates = trackPredicates(ctx.filters);
+
+  const others = (facet: TrackFacet) =>
+    and((Object.keys(predicates) as TrackFacet[])
+      .filter((key) => key !== facet && predicates[key])
+      .map((key) => predicates[key]!));
+
+  const durationBucket = Prisma.sql`CASE
+    ${Prisma.join(
+      DURATION_BUCKETS.map((bucket) =>
+        bucket.max === null
+          ? Prisma.sql`WHEN duration >= ${bucket.min} THEN ${bucket.value}`
+          : Prisma.sql`WHEN duration < ${bucket.max} THEN ${bucket.value}`
+      ),
+      ' '
+    )}
+  END`;
+
+  const facet = (name: TrackFacet, value: Prisma.Sql, groupBy = true) => Prisma.sql`
+    SELECT ${name} AS facet, ${value} AS value, count(*)::bigint AS count
+    FROM matched m
+    WHERE ${Prisma.raw(`f_${name}`)}
+    ${groupBy ? Prisma.sql`GROUP BY 2` : Prisma.empty}
+  `;
+
+  const rows = await rankedQuery<FacetRow>(Prisma.sql`
+    WITH matched AS (
+      SELECT t.genre, t."isExplicit", t.duration, a."albumType",
+        ${year(Prisma.sql`coalesce(t."releaseDate", t."createdAt")`)}::int AS year,
+        ${others('genre')} AS f_genre,
+        ${others('explicit')} AS f_explicit,
+        ${others('duration')} AS f_duration,
+        ${others('year')} AS f_year,
+        ${others('albumType')} AS f_albumType,
+        ${others('verified')} AND u."isVerified" AS f_verified
+      FROM ${TRACK_FROM}${text.from}
+      WHERE t."isPublic" AND ${text.match}
+    )
+    ${facet('genre', Prisma.sql`m.genre`)}
+    UNION ALL ${facet('explicit', Prisma.sql`CASE WHEN m."isExplicit" THEN 'explicit' ELSE 'clean' END`)}
+    UNION ALL ${facet('duration', Prisma.sql`${durationBucket}`)}
+    UNION ALL ${facet('year', Prisma.sql`m.year::text`)}
+    UNION ALL ${facet('albumType', Prisma.sql`m."albumType"::text`)}
+    UNION ALL ${facet('verified', Prisma.sql`'verified'`, false)}
+  `);
+
+  const counts = (name: TrackFacet) =>
+    rows
+      .filter((row) => row.facet === name && row.value !== null && Number(row.count) > 0)
+      .map((row) => ({ value: row.value!, count: Number(row.count) }))
+      .sort((a, b) => b.count - a.count);
+
+  return {
+    genres: counts('genre').slice(0, 30),
+    explicit: counts('explicit'),
+    durations: DURATION_BUCKETS.map((bucket) => ({
+      ...bucket,
+      count: counts('duration').find((row) => row.value === bucket.value)?.count ?? 0,
+    })),
+    years: counts('year')
+      .map((row) => ({ value: Number(row.value), count: row.count }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, 30),
+    albumTypes: counts('albumType'),
+    verified: counts('verified')[0]?.count ?? 0,
+  };
+}
+
+/**
+ * ARTISTS, ALBUMS, PLAYLISTS
+ */
+
+interface NamedHit extends PageRow {
+  title_hl: string | null;
+  snippet: string | null;
+}
+
+async function searchArtists(ctx: SearchContext) {
+  const text = textSearch(ctx, 'u');
+  const sortValue = ctx.sort === 'newest'
+    ? Prisma.sql`extract(epoch FROM u."createdAt")`
+    : relevance(ctx, 'u', Prisma.sql`coalesce(u."displayName", u.username)`,
+        Prisma.sql`CASE WHEN u."isVerified" THEN 0.1 ELSE 0 END`);
+
+  const rows = await rankedQuery<NamedHit>(pageQuery(
+    ctx,
+    Prisma.sql`
+      SELECT u.id, coalesce(u."displayName", u.username) AS name, u.bio,
+        (${sortValue})::double precision AS sort_value
+      FROM "User" u${text.from}
+      WHERE u."isArtist" AND ${text.match}
+        AND ${ctx.filters.verifiedOnly ? Prisma.sql`u."isVerified"` : Prisma.sql`TRUE`}
+    `,
+    Prisma.sql`${headline(ctx, 'name')} AS title_hl, ${headline(ctx, 'bio', SNIPPET)} AS snippet`
+  ));
+
+  const { hits, nextCursor } = toPage(ctx, rows);
+
+  const artists = await prisma.user.findMany({
+    where: { id: { in: hits.map((hit) => hit.id) } },
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+      avatarUrl: true,
+      isVerified: true,
+      _count: {
+        select: {
+          tracks: { where: { isPublic: true } },
+          followers: true,
+        },
+      },
+    },
+  });
+
+  const hitById = new Map(hits.map((hit) => [hit.id, hit]));
+
+  const items = inRankOrder(hits.map((hit) => hit.id), artists).map((artist) => {
+    const hit = hitById.get(artist.id)!;
+    return {
+      ...artist,
+      highlights: compact({ name: highlighted(hit.title_hl), bio: highlighted(hit.snippet) }),
+    };
+  });
+
+  return { items, nextCursor };
+}
+
+async function searchAlbums(ctx: SearchContext) {
+  const text = textSearch(ctx, 'al');
+  const released = Prisma.sql`coalesce(al."releaseDate", al."createdAt")`;
+  const sortValue = ctx.sort === 'newest'
+    ? Prisma.sql`extract(epoch FROM ${released})`
+    : relevance(ctx, 'al', Prisma.sql`al.title`, Prisma.sql`0`);
+
+  const { yearFrom, yearTo, albumTypes, verifiedOnly } = ctx.filters;
+  const conditions: Prisma.Sql[] = [];
+  if (yearFrom !== undefined) conditions.push(Prisma.sql`${year(released)} >= ${yearFrom}`);
+  if (yearTo !== undefined) conditions.push(Prisma.sql`${year(released)} <= ${yearTo}`);
+  if (albumTypes?.length) conditions.push(Prisma.sql`al."albumType"::text IN (${Prisma.join(albumTypes)})`);
+  if (verifiedOnly) conditions.push(Prisma.sql`u."isVerified"`);
+
+  const rows = await rankedQuery<NamedHit>(pageQuery(
+    ctx,
+    Prisma.sql`
+      SELECT al.id, al.title, al.description,
+        (${sortValue})::double precision AS sort_value
+      FROM "Album" al
+        JOIN "User" u ON u.id = al."artistId"${text.from}
+      WHERE al."isPublic" AND ${text.match} AND ${and(conditions)}
+    `,
+    Prisma.sql`${headline(ctx, 'title')} AS title_hl, ${headline(ctx, 'description', SNIPPET)} AS snippet`
+  ));
+
+  const { hits, nextCursor } = toPage(ctx, rows);
+
+  const albums = await prisma.album.findMany({
+    where: { id: { in: hits.map((hit) => hit.id) } },
+    include: {
+      artist: {
+        select: {
+          id: true,
+          username: true,
+          displayName: true,
+          avatarUrl: true,
+        },
+      },
+      _count: {
+        select: { tracks: true },
+      },
+    },
+  });
+
+  const hitById = new Map(hits.map((hit) => [hit.id, hit]));
+
+  const items = inRankOrder(hits.map((hit) => hit.id), albums).map((album) => {
+    const hit = hitById.get(album.id)!;
+    return {
+      ...album,
+      highlights: compact({ title: highlighted(hit.title_hl), description: highlighted(hit.snippet) }),
+    };
+  });
+
+  return { items, nextCursor };
+}
+
+async function searchPlaylists(ctx: SearchContext) {
+  const text = textSearch(ctx, 'p');
+  const sortValue = ctx.sort === 'newest'
+    ? Prisma.sql`extract(epoch FROM p."createdAt")`
+    : relevance(ctx, 'p', Prisma.sql`p.title`, Prisma.sql`0`);
+
+  const rows = await rankedQuery<NamedHit>(pageQuery(
+    ctx,
+    Prisma.sql`
+      SELECT p.id, p.title, p.description,
+        (${sortValue})::double precision AS sort_value
+      FROM "Playlist" p${text.from}
+      WHERE p."isPublic" AND p."deletedAt" IS NULL AND ${text.match}
+    `,
+    Prisma.sql`${headline(ctx, 'title')} AS title_hl, ${headline(ctx, 'description', SNIPPET)} AS snippet`
+  ));
+
+  const { hits, nextCursor } = toPage(ctx, rows);
+
+  const playlists = await prisma.playlist.findMany({
+    where: { id: { in: hits.map((hit) => hit.id) } },
+    include: {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          displayName: true,
+          avatarUrl: true,
+        },
+      },
+      _count: {
+        select: { tracks: true },
+      },
+    },
+  });
+
+  const hitById = new Map(hits.map((hit) => [hit.id, hit]));
+
+  const items = inRankOrder(hits.map((hit) => hit.id), playlists).map((playlist) => {
+    const hit = hitById.get(playlist.id)!;
+    return {
+      ...playlist,
+      highlights: compact({ title: highlighted(hit.title_hl), description: highlighted(hit.snippet) }),
+    };
+  });
+
+  return { items, nextCursor };
+}
+
+const searchers: Record<SearchType, (ctx: SearchContext) => Promise<{ items: any[]; nextCursor: string | null }>> = {
+  tracks: searchTracks,
+  artists: searchArtists,
+  albums: searchAlbums,
+  playlists: searchPlaylists,
+};
+
+export async function searchCatalog(options: SearchOptions) {
+  const filters = options.filters ?? {};
+  const tsquery = toPrefixQuery(options.query);
+
+  const results: {
+    tracks?: any[];
+    artists?: any[];
+    albums?: any[];
+    playlists?: any[];
+    cursors: Partial<Record<SearchType, string | null>>;
+    facets?: Awaited<ReturnType<typeof trackFacets>>;
+  } = { cursors: {} };
+
+  // Nothing to search by: no words and no filters
+  if (!tsquery && !hasFilters(filters)) {
+    return { tracks: [], artists: [], albums: [], playlists: [], cursors: {} };
+  }
+
+  if (options.cursor && !options.type) {
+    throw errors.badRequest('A cursor needs a result type');
+  }
+
+  const ctx: SearchContext = {
+    tsquery,
+    query: options.query,
+    limit: options.limit,
+    filters,
+    sort: options.sort ?? 'relevance',
+    // Relevance and popularity read best-first; everything else defaults the same way
+    order: options.order ?? 'desc',
+    cursor: decodeCursor(options.cursor),
+  };
+
+  const active = activeFilters(filters);
+  const types = (options.type ? [options.type] : (Object.keys(searchers) as SearchType[]))
+    .filter((type) => active.every((filter) => SUPPORTED_FILTERS[type].includes(filter)));
+
+  const [pages, facets] = await Promise.all([
+    Promise.all(types.map(async (type) => [type, await searchers[type](ctx)] as const)),
+    // Facets describe the whole result set, so only the first page computes them
+    types.includes('tracks') && !ctx.cursor ? trackFacets(ctx) : undefined,
+  ]);
+
+  for (const [type, page] of pages) {
+    results[type] = page.items;
+    results.cursors[type] = page.nextCursor;
+  }
+  if (facets) results.facets = facets;
+
+  return results;
+}
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { prisma } from '../db/client.js';
+import { redis, cache, cacheKeys } from '../db/redis.js';
+
+/**
+ * SEARCH ANALYTICS
+ *
+ * Every first-page search is logged with how many results it found, and the
+ * first result the searcher opens is recorded against it. That gives trending
+ * searches, click-through rates and a list of what people look for but can't
+ * find.
+ *
+ * Search runs as you type, so "ra", "rad", "radio" arrive as separate
+ * requests. A search that extends (or backs up) the same searcher's previous
+ * query within a few seconds updates that row instead of adding a new one,
+ * so the log holds what people meant to search for.
+ */
+
+export type SearchResultType = 'tracks' | 'artists' | 'albums' | 'playlists';
+
+// Keystrokes this close together are the same search being refined
+const REFINE_WINDOW_SECONDS = 10;
+
+const keys = {
+  last: (searcher: string) => `search:last:${searcher}`,
+};
+
+// Searchers are stored keyed, never as raw IPs
+const searcherKey = (searcher: string) =>
+  crypto.createHmac('sha256', config.jwtSecret).update(`search:${searcher}`).digest('base64url');
+
+export const normalizeQuery = (query: string) =>
+  query.toLowerCase().replace(/\s+/g, ' ').trim().slice(0, 200);
+
+export interface LoggedSearch {
+  query: string;
+  type?: SearchResultType;
+  filtered: boolean;
+  resultCount: number;
+  userId?: string;
+  searcher: string; // User id or client IP: recognises refinements and counts distinct searchers
+}
+
+// Log a search; returns the id clicks are reported against
+export async function logSearch(search: LoggedSearch): Promise<string> {
+  const normalized = normalizeQuery(search.query);
+  const data = {
+    query: search.query.slice(0, 200),
+    normalized,
+    type: search.type ?? null,
+    filtered: search.filtered,
+    resultCount: search.resultCount,
+  };
+
+  const searcher = searcherKey(search.searcher);
+  const lastKey = keys.last(searcher);
+  const last = await redis.get(lastKey);
+
+  if (last) {
+    const [id, previous] = JSON.parse(last) as [string, string];
+    if (normalized.startsWith(previous) || previous.startsWith(normalized)) {
+      // Only rows nobody clicked through yet are still being typed
+      const { count } = await prisma.searchQuery.updateMany({
+        where: { id, clickedAt: null },
+        data,
+      });
+      if (count > 0) {
+        await redis.setex(lastKey, REFINE_WINDOW_SECONDS, JSON.stringify([id, normalized]));
+        return id;
+      }
+    }
+  }
+
+  const { id } = await prisma.searchQuery.create({
+    data: { ...data, userId: search.userId, searcher },
+    select: { id: true },
+  });
+  await redis.setex(lastKey, REFINE_WINDOW_SECONDS, JSON.stringify([id, normalized]));
+
+  return id;
+}
+
+// Record the first result opened from a search, only by whoever ran it
+export async function recordSearchClick(
+  searchId: string,
+  searcher: string,
+  click: { type: SearchResultType; id: string; position?: number }
+): Promise<boolean> {
+  const { count } = await prisma.searchQuery.updateMany({
+    where: { id: searchId, searcher: searcherKey(searcher), clickedAt: null },
+    data: {
+      clickedType: click.type,
+      clickedId: click.id,
+      clickPosition: click.position,
+      clickedAt: new Date(),
+    },
+  });
+  return count > 0;
+}
+
+export interface TrendingSearch {
+  query: string;
+  searchers: number;
+  clickThroughRate: number;
+}
+
+/**
+ * Most searched queries lately, by distinct searchers so one person
+ * repeating a query can't push it up; queries that found nothing are left out
+ */
+export async function getTrendingSearches(limit: number): Promise<TrendingSearch[]> {
+  const cached = await cache.get<TrendingSearch[]>(cacheKeys.trendingSearches());
+  if (cached) return cached.slice(0, limit);
+
+  const since = new Date(Date.now() - config.searchAnalytics.trendingHours * 60 * 60 * 1000);
+
+  const rows = await prisma.$queryRaw<Array<{ query: string; searchers: number; clicks: number; searches: number }>>`
+    SELECT normalized AS query,
+      count(DISTINCT searcher)::int AS searchers,
+      count(*)::int AS searches,
+      count("clickedAt")::int AS clicks
+    FROM "SearchQuery"
+    WHERE "createdAt" >= ${since} AND "resultCount" > 0 AND length(normalized) >= 2
+    GROUP BY normalized
+    ORDER BY searchers DESC, clicks DESC
+    LIMIT 50
+  `;
+
+  const trending = rows.map((row) => ({
+    query: row.query,
+    searchers: row.searchers,
+    clickThroughRate: row.searches ? row.clicks / row.searches : 0,
+  }));
+
+  // Refresh every 5 minutes
+  await cache.set(cacheKeys.trendingSearches(), trending, 300);
+
+  return trending.slice(0, limit);
+}
+
+// Popular past searches starting with what's been typed, for autocomplete
+export async function getPopularCompletions(prefix: string, limit: number): Promise<string[]> {
+  const normalized = normalizeQuery(prefix);
+  const pattern = normalized.replace(/[\\%_]/g, '\\$&') + '%';
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+  const rows = await prisma.$queryRaw<Array<{ query: string }>>`
+    SELECT normalized AS query
+    FROM "SearchQuery"
+    WHERE normalized LIKE ${pattern} AND normalized <> ${normalized}
+      AND "resultCount" > 0 AND "createdAt" >= ${since}
+    GROUP BY normalized
+    HAVING count(DISTINCT searcher) >= 2
+    ORDER BY count(DISTINCT searcher) DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => row.query);
+}
+
+// Search health for the insights view: volume, zero-result rate, click-through rate
+export async function getSearchInsights(days: number, limit: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const [totals, zeroResults] = await Promise.all([
+    prisma.$queryRaw<Array<{ searches: number; zero: number; clicks: number; searchers: number }>>`
+      SELECT count(*)::int AS searches,
+        count(*) FILTER (WHERE "resultCount" = 0)::int AS zero,
+        count("clickedAt")::int AS clicks,
+        count(DISTINCT searcher)::int AS searchers
+      FROM "SearchQuery"
+      WHERE "createdAt" >= ${since}
+    `,
+    prisma.$queryRaw<Array<{ query: string; searches: number; searchers: number; lastSearchedAt: Date }>>`
+      SELECT normalized AS query,
+        count(*)::int AS searches,
+        count(DISTINCT searcher)::int AS searchers,
+        max("createdAt") AS "lastSearchedAt"
+      FROM "SearchQuery"
+      WHERE "createdAt" >= ${since} AND "resultCount" = 0 AND NOT filtered
+      GROUP BY normalized
+      ORDER BY searchers DESC, searches DESC
+      LIMIT ${limit}
+    `,
+  ]);
+
+  const { searches, zero, clicks, searchers } = totals[0];
+
+  return {
+    days,
+    searches,
+    searchers,
+    zeroResultRate: searches ? zero / searches : 0,
+    clickThroughRate: searches ? clicks / searches : 0,
+    zeroResults,
+  };
+}
+
+// Drop logged searches past the retention window
+export async function pruneSearchLog(): Promise<number> {
+  const cutoff = new Date(Date.now() - config.searchAnalytics.retentionDays * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.searchQuery.deleteMany({
+    where: { createdAt: { lt: cutoff } },
+  });
+  return count;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { smartRulesSchema } from './smartPlaylists.js';
+
+const firstError = (rules: unknown) => {
+  const result = smartRulesSchema.safeParse(rules);
+  return result.success ? null : result.error.errors[0].message;
+};
+
+describe('smartRulesSchema', () => {
+  it('fills in match, sort and limit', () => {
+    expect(smartRulesSchema.parse({ conditions: [{ field: 'genre', operator: 'is', value: 'Amapiano' }] })).toEqual({
+      match: 'all',
+      conditions: [{ field: 'genre', operator: 'is', value: 'Amapiano' }],
+      sort: 'playCount',
+      limit: 100,
+    });
+  });
+
+  it('accepts every kind of field with a matching operator and value', () => {
+    const rules = {
+      match: 'any',
+      conditions: [
+        { field: 'artist', operator: 'notContains', value: 'remix' },
+        { field: 'myPlays', operator: 'gte', value: 1 },
+        { field: 'addedAt', operator: 'inLast', value: 30 },
+        { field: 'liked', operator: 'is', value: true },
+      ],
+      playsWithinDays: 30,
+      sort: 'myPlays',
+      limit: 50,
+    };
+    expect(smartRulesSchema.parse(rules)).toEqual(rules);
+  });
+
+  it('needs at least one condition and allows at most 20', () => {
+    const condition = { field: 'genre', operator: 'is', value: 'Jazz' };
+    expect(firstError({ conditions: [] })).toBe('Add at least one rule');
+    expect(firstError({ conditions: Array(21).fill(condition) })).not.toBeNull();
+  });
+
+  it('rejects operators that do not fit the field', () => {
+    expect(firstError({ conditions: [{ field: 'genre', operator: 'gt', value: 'Jazz' }] })).toBe("genre can't use gt");
+    expect(firstError({ conditions: [{ field: 'addedAt', operator: 'eq', value: 3 }] })).toBe("addedAt can't use eq");
+  });
+
+  it('rejects values of the wrong type', () => {
+    expect(firstError({ conditions: [{ field: 'playCount', operator: 'gt', value: '10' }] })).toBe(
+      'playCount needs a number value'
+    );
+    expect(firstError({ conditions: [{ field: 'explicit', operator: 'is', value: 'yes' }] })).toBe(
+      'explicit needs a boolean value'
+    );
+  });
+
+  it('keeps date values to 1 to 3650 days', () => {
+    const days = (value: number) => firstError({ conditions: [{ field: 'lastPlayed', operator: 'notInLast', value }] });
+    expect(days(1)).toBeNull();
+    expect(days(3650)).toBeNull();
+    expect(days(0.5)).toBe('lastPlayed needs 1 to 3650 days');
+    expect(days(3651)).toBe('lastPlayed needs 1 to 3650 days');
+    expect(days(1e9)).toBe('lastPlayed needs 1 to 3650 days');
+  });
+
+  it('rejects unknown fields, empty text and out-of-range limits', () => {
+    expect(firstError({ conditions: [{ field: 'mood', operator: 'is', value: 'happy' }] })).not.toBeNull();
+    expect(firstError({ conditions: [{ field: 'title', operator: 'is', value: '' }] })).not.toBeNull();
+    expect(firstError({ conditions: [{ field: 'genre', operator: 'is', value: 'Jazz' }], limit: 501 })).not.toBeNull();
+    expect(firstError({ conditions: [{ field: 'genre', operator: 'is', value: 'Jazz' }], limit: 0 })).not.toBeNull();
+  });
+});
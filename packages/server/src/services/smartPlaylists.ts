@@ -0,0 +1,283 @@
+import { z } from 'zod';
+import { v4 as uuid } from 'uuid';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/client.js';
+import { config } from '../config/index.js';
+import { editPlaylistEntries } from './playlists.js';
+
+/**
+ * SMART PLAYLISTS
+ *
+ * A playlist with rules is filled by them instead of by hand. Conditions
+ * can look at the catalogue (genre, play count, when a track was added...)
+ * and at the owner's own listening (their plays, likes, last play), so "my
+ * most played this month" is the owner's month even when a follower opens
+ * it. Matches are written into PlaylistTrack like any other playlist, so
+ * playing, counting and search need nothing special. The worker refreshes
+ * stale ones, and reading a stale one refreshes it first.
+ */
+
+export const MAX_SMART_TRACKS = 500;
+
+type FieldType = 'text' | 'number' | 'date' | 'boolean';
+
+const FIELD_TYPES = {
+  title: 'text',
+  artist: 'text',
+  album: 'text',
+  genre: 'text',
+  playCount: 'number', // Everyone's counted plays
+  duration: 'number', // Seconds
+  releaseYear: 'number',
+  myPlays: 'number', // The owner's counted plays, within playsWithinDays
+  addedAt: 'date', // When the track was uploaded
+  releaseDate: 'date',
+  lastPlayed: 'date', // By the owner
+  likedAt: 'date',
+  liked: 'boolean',
+  explicit: 'boolean',
+} as const satisfies Record<string, FieldType>;
+
+type SmartField = keyof typeof FIELD_TYPES;
+
+// Date operators take a number of days
+const OPERATORS: Record<FieldType, readonly string[]> = {
+  text: ['is', 'isNot', 'contains', 'notContains'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'],
+  date: ['inLast', 'notInLast'],
+  boolean: ['is'],
+};
+
+const VALUE_TYPES: Record<FieldType, string> = {
+  text: 'string',
+  number: 'number',
+  date: 'number',
+  boolean: 'boolean',
+};
+
+// Date values and playsWithinDays count days; ten years is plenty and keeps the dates valid
+const MAX_DAYS = 3650;
+
+const SORTS = ['playCount', 'myPlays', 'newest', 'releaseDate', 'lastPlayed', 'likedAt', 'title', 'random'] as const;
+
+const conditionSchema = z
+  .object({
+    field: z.enum(Object.keys(FIELD_TYPES) as [SmartField, ...SmartField[]]),
+    operator: z.string(),
+    value: z.union([z.string().min(1).max(200), z.number().min(0).max(1e9), z.boolean()]),
+  })
+  .superRefine((condition, ctx) => {
+    const type = FIELD_TYPES[condition.field];
+    if (!OPERATORS[type].includes(condition.operator)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.field} can't use ${condition.operator}` });
+    } else if (typeof condition.value !== VALUE_TYPES[type]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.field} needs a ${VALUE_TYPES[type]} value` });
+    } else if (type === 'date' && !((condition.value as number) >= 1 && (condition.value as number) <= MAX_DAYS)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.field} needs 1 to ${MAX_DAYS} days` });
+    }
+  });
+
+export const smartRulesSchema = z.object({
+  match: z.enum(['all', 'any']).default('all'),
+  conditions: z.array(conditionSchema).min(1, 'Add at least one rule').max(20),
+  playsWithinDays: z.number().int().min(1).max(MAX_DAYS).optional(), // Scopes myPlays; all time if unset
+  sort: z.enum(SORTS).default('playCount'),
+  limit: z.number().int().min(1).max(MAX_SMART_TRACKS).default(100),
+});
+
+export type SmartRules = z.infer<typeof smartRulesSchema>;
+type SmartCondition = SmartRules['conditions'][number];
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+// Text fields can match more than one column (an artist's username or display name)
+const TEXT_COLUMNS: Record<string, Prisma.Sql[]> = {
+  title: [Prisma.sql`t.title`],
+  artist: [Prisma.sql`u.username`, Prisma.sql`u."displayName"`],
+  album: [Prisma.sql`a.title`],
+  genre: [Prisma.sql`t.genre`],
+};
+
+const COLUMNS: Record<string, Prisma.Sql> = {
+  playCount: Prisma.sql`t."playCount"`,
+  duration: Prisma.sql`t.duration`,
+  releaseYear: Prisma.sql`EXTRACT(YEAR FROM coalesce(t."releaseDate", t."createdAt"))`,
+  myPlays: Prisma.sql`coalesce(mp.plays, 0)`,
+  addedAt: Prisma.sql`t."createdAt"`,
+  releaseDate: Prisma.sql`coalesce(t."releaseDate", t."createdAt")`,
+  lastPlayed: Prisma.sql`mp."lastPlayedAt"`,
+  likedAt: Prisma.sql`lt."createdAt"`,
+  liked: Prisma.sql`(lt.id IS NOT NULL)`,
+  explicit: Prisma.sql`t."isExplicit"`,
+};
+
+const NUMBER_OPERATORS: Record<string, string> = { eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+function textPredicate(columns: Prisma.Sql[], operator: string, value: string): Prisma.Sql {
+  const needle = value.toLowerCase();
+  const pattern = `%${needle.replace(/[\\%_]/g, '\\$&')}%`;
+  const matches = columns.map((column) =>
+    operator === 'is' || operator === 'isNot'
+      ? Prisma.sql`lower(coalesce(${column}, '')) = ${needle}`
+      : Prisma.sql`lower(coalesce(${column}, '')) LIKE ${pattern}`
+  );
+  const any = Prisma.sql`(${Prisma.join(matches, ' OR ')})`;
+  return operator === 'is' || operator === 'contains' ? any : Prisma.sql`NOT ${any}`;
+}
+
+function predicate({ field, operator, value }: SmartCondition): Prisma.Sql {
+  switch (FIELD_TYPES[field]) {
+    case 'text':
+      return textPredicate(TEXT_COLUMNS[field], operator, value as string);
+    case 'number':
+      return Prisma.sql`${COLUMNS[field]} ${Prisma.raw(NUMBER_OPERATORS[operator])} ${value}`;
+    case 'date':
+      // Never played or never liked counts as "not in the last N days"
+      return operator === 'inLast'
+        ? Prisma.sql`${COLUMNS[field]} >= ${daysAgo(value as number)}`
+        : Prisma.sql`(${COLUMNS[field]} IS NULL OR ${COLUMNS[field]} < ${daysAgo(value as number)})`;
+    case 'boolean':
+      return Prisma.sql`${COLUMNS[field]} = ${value}`;
+  }
+}
+
+const ORDER_BY: Record<SmartRules['sort'], Prisma.Sql> = {
+  playCount: Prisma.sql`t."playCount" DESC`,
+  myPlays: Prisma.sql`coalesce(mp.plays, 0) DESC`,
+  newest: Prisma.sql`t."createdAt" DESC`,
+  releaseDate: Prisma.sql`coalesce(t."releaseDate", t."createdAt") DESC`,
+  lastPlayed: Prisma.sql`mp."lastPlayedAt" DESC NULLS LAST`,
+  likedAt: Prisma.sql`lt."createdAt" DESC NULLS LAST`,
+  title: Prisma.sql`lower(t.title) ASC`,
+  random: Prisma.sql`random()`,
+};
+
+// Ids of the public tracks matching the rules, in playlist order
+export async function evaluateSmartRules(
+  rules: SmartRules,
+  ownerId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<string[]> {
+  const playsSince = rules.playsWithinDays ? daysAgo(rules.playsWithinDays) : new Date(0);
+  const predicates = Prisma.join(rules.conditions.map(predicate), rules.match === 'all' ? ' AND ' : ' OR ');
+
+  // lastPlayed counts any play; myPlays only the ones that reached the listen threshold
+  const rows = await client.$queryRaw<{ id: string }[]>`
+    WITH mp AS (
+      SELECT "trackId",
+        COUNT(*) FILTER (WHERE counted AND "playedAt" >= ${playsSince})::int AS plays,
+        MAX("playedAt") AS "lastPlayedAt"
+      FROM "PlayHistory"
+      WHERE "userId" = ${ownerId}
+      GROUP BY "trackId"
+    )
+    SELECT t.id
+    FROM "Track" t
+      JOIN "User" u ON u.id = t."artistId"
+      LEFT JOIN "Album" a ON a.id = t."albumId"
+      LEFT JOIN mp ON mp."trackId" = t.id
+      LEFT JOIN "LikedTrack" lt ON lt."trackId" = t.id AND lt."userId" = ${ownerId}
+    WHERE t."isPublic" AND (${predicates})
+    ORDER BY ${ORDER_BY[rules.sort]}, t.id
+    LIMIT ${rules.limit}
+  `;
+
+  return rows.map((row) => row.id);
+}
+
+export function isSmartPlaylistStale(playlist: { rules: unknown; rulesEvaluatedAt: Date | null }): boolean {
+  if (!playlist.rules) return false;
+  if (!playlist.rulesEvaluatedAt) return true;
+  return Date.now() - playlist.rulesEvaluatedAt.getTime() > config.smartPlaylists.refreshMinutes * 60 * 1000;
+}
+
+// Before showing a playlist; a stale list beats an error if the refresh fails
+export async function refreshIfStale(playlist: { id: string; rules: unknown; rulesEvaluatedAt: Date | null }) {
+  if (!isSmartPlaylistStale(playlist)) return;
+
+  await refreshSmartPlaylist(playlist.id, { onlyIfStale: true }).catch((error) =>
+    console.error(`Smart playlist ${playlist.id} refresh failed:`, error)
+  );
+}
+
+/**
+ * Re-run a smart playlist's rules and rewrite its entries to match
+ * Tracks that stay keep their entry (and addedAt, when they joined the
+ * list). With onlyIfStale, a refresh that waited on the lock behind
+ * another one does nothing.
+ */
+export async function refreshSmartPlaylist(
+  playlistId: string,
+  { onlyIfStale = false }: { onlyIfStale?: boolean } = {}
+): Promise<void> {
+  await editPlaylistEntries(playlistId, async (tx, entries) => {
+    const unchanged = { order: entries.map((entry) => entry.id), result: undefined };
+
+    const playlist = await tx.playlist.findUnique({
+      where: { id: playlistId },
+      select: { userId: true, rules: true, rulesEvaluatedAt: true },
+    });
+
+    // Turned back into a regular playlist meanwhile
+    const rules = smartRulesSchema.safeParse(playlist?.rules);
+    if (!playlist || !rules.success || (onlyIfStale && !isSmartPlaylistStale(playlist))) {
+      return unchanged;
+    }
+
+    const trackIds = await evaluateSmartRules(rules.data, playlist.userId, tx);
+
+    const kept = new Map<string, string>();
+    for (const entry of entries) {
+      if (!kept.has(entry.trackId)) kept.set(entry.trackId, entry.id);
+    }
+    const wanted = new Set(trackIds);
+    const stale = entries.filter((entry) => !wanted.has(entry.trackId) || kept.get(entry.trackId) !== entry.id);
+    const added = trackIds.filter((trackId) => !kept.has(trackId)).map((trackId) => ({ id: uuid(), trackId }));
+
+    if (stale.length > 0) {
+      await tx.playlistTrack.deleteMany({ where: { id: { in: stale.map((entry) => entry.id) } } });
+    }
+    if (added.length > 0) {
+      await tx.playlistTrack.createMany({
+        data: added.map((entry, index) => ({ ...entry, playlistId, position: entries.length + index + 1 })),
+      });
+    }
+
+    await tx.playlist.update({ where: { id: playlistId }, data: { rulesEvaluatedAt: new Date() } });
+
+    const addedIds = new Map(added.map((entry) => [entry.trackId, entry.id]));
+    return {
+      order: trackIds.map((trackId) => kept.get(trackId) ?? addedIds.get(trackId)!),
+      result: undefined,
+    };
+  });
+}
+
+/**
+ * Refresh the smart playlists that have gone stale, least recent first
+ * Runs in the worker so most reads find a fresh list.
+ */
+export async function refreshStaleSmartPlaylists(batchSize = 50): Promise<number> {
+  const staleBefore = new Date(Date.now() - config.smartPlaylists.refreshMinutes * 60 * 1000);
+
+  const playlists = await prisma.playlist.findMany({
+    where: {
+      rules: { not: Prisma.DbNull },
+      deletedAt: null,
+      OR: [{ rulesEvaluatedAt: null }, { rulesEvaluatedAt: { lt: staleBefore } }],
+    },
+    orderBy: { rulesEvaluatedAt: { sort: 'asc', nulls: 'first' } },
+    take: batchSize,
+    select: { id: true },
+  });
+
+  for (const playlist of playlists) {
+    try {
+      await refreshSmartPlaylist(playlist.id, { onlyIfStale: true });
+    } catch (error) {
+      console.error(`Smart playlist ${playlist.id} refresh failed:`, error);
+    }
+  }
+
+  return playlists.length;
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { keyFromPath } from './index.js';
+
+describe('keyFromPath', () => {
+  it('decodes and tidies ordinary keys', () => {
+    expect(keyFromPath('covers/a%20b.jpg')).toBe('covers/a b.jpg');
+    expect(keyFromPath('covers/./x//a.jpg')).toBe('covers/x/a.jpg');
+  });
+
+  it('rejects keys that climb out of their prefix, however they are written', () => {
+    expect(keyFromPath('covers/../audio/t.mp3')).toBeNull();
+    expect(keyFromPath('covers/%2E%2E/audio/t.mp3')).toBeNull();
+    expect(keyFromPath('covers/%2e%2e/tmp/upload')).toBeNull();
+    expect(keyFromPath('covers/../../etc/passwd')).toBeNull();
+    expect(keyFromPath('covers/..%5Caudio%5Ct.mp3')).toBeNull();
+  });
+
+  it('rejects absolute, backslashed, empty and undecodable keys', () => {
+    expect(keyFromPath('%2Fetc/passwd')).toBeNull();
+    expect(keyFromPath('covers\\a.jpg')).toBeNull();
+    expect(keyFromPath('')).toBeNull();
+    expect(keyFromPath('covers/%E0%A4%A.jpg')).toBeNull();
+  });
+});
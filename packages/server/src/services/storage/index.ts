@@ -0,0 +1,102 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { v4 as uuid } from 'uuid';
+import { config } from '../../config/index.js';
+import { createLocalStorage } from './local.js';
+import { createS3Storage } from './s3.js';
+import { StorageProvider } from './types.js';
+
+export * from './types.js';
+export { verifyLocalSignature } from './local.js';
+
+/**
+ * FILE STORAGE
+ *
+ * Every upload, rendition, cover and avatar goes through `storage`, selected
+ * by STORAGE_DRIVER. Records store keys (relative paths), never URLs, so
+ * switching drivers only requires copying the objects across.
+ */
+
+const local = config.storage.driver === 'local' ? createLocalStorage(config.uploadDir) : null;
+
+export const storage: StorageProvider = local ?? createS3Storage(config.storage.s3);
+
+// Absolute path for a key when files live on this machine, otherwise null
+export const localPath = (key: string): string | null => (local ? local.resolve(key) : null);
+
+// Local scratch space for files being received or processed (never served)
+export const scratchDir = path.join(config.uploadDir, 'tmp');
+
+export async function scratchPath(ext = ''): Promise<string> {
+  await fs.mkdir(scratchDir, { recursive: true });
+  return path.join(scratchDir, `${uuid()}${ext}`);
+}
+
+// Prefixes that are public (artwork); everything else needs a signed URL
+export const PUBLIC_PREFIXES = ['covers/', 'avatars/'];
+
+// Working files that are never served
+export const INTERNAL_PREFIXES = ['tmp/', 'partial/'];
+
+export const isPublicKey = (key: string) => PUBLIC_PREFIXES.some((prefix) => key.startsWith(prefix));
+
+/**
+ * Key from a request path, or null when it tries to leave its prefix
+ * Prefix checks must run on the result: "covers/../audio/x.mp3" would pass
+ * as public otherwise.
+ */
+export function keyFromPath(raw: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+
+  if (!decoded || decoded.startsWith('/') || decoded.includes('\\') || decoded.includes('..')) return null;
+  return path.posix.normalize(decoded);
+}
+
+export const contentTypes: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.opus': 'audio/opus',
+  '.webm': 'audio/webm',
+  '.wma': 'audio/x-ms-wma',
+  '.aiff': 'audio/aiff',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.mpd': 'application/dash+xml',
+  '.m4s': 'video/iso.segment',
+  '.webp': 'image/webp',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+};
+
+export const contentTypeFor = (key: string) =>
+  contentTypes[path.extname(key).toLowerCase()] || 'application/octet-stream';
+
+/**
+ * Move everything in a local directory into storage under a key prefix
+ * (used for packaged HLS/DASH renditions)
+ */
+export async function putDirectory(prefix: string, dir: string, cacheControl?: string): Promise<void> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    const key = `${prefix}/${entry.name}`;
+
+    if (entry.isDirectory()) {
+      await putDirectory(key, entryPath, cacheControl);
+    } else {
+      await storage.putFile(key, entryPath, { contentType: contentTypeFor(key), cacheControl });
+    }
+  }
+}
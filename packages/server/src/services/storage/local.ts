@@ -0,0 +1,111 @@
+import path from 'path';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from '../../config/index.js';
+import { ByteRange, PutOptions, StorageProvider, StoredObject } from './types.js';
+
+/**
+ * LOCAL DISK STORAGE
+ *
+ * Keys map directly onto paths under config.uploadDir, which is the layout
+ * the app has always used, so existing records keep working.
+ */
+
+const sign = (key: string, expires: number) =>
+  crypto
+    .createHmac('sha256', config.storage.signingSecret)
+    .update(`${key}:${expires}`)
+    .digest('hex');
+
+// Check a signature produced by getSignedUrl() (used by the /uploads route)
+export function verifyLocalSignature(key: string, expires: string, signature: string): boolean {
+  const expiresAt = parseInt(expires, 10);
+  if (!expiresAt || expiresAt * 1000 < Date.now() || !signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(key, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function createLocalStorage(rootDir: string): StorageProvider & { resolve(key: string): string } {
+  // Keys come from the database, but never let one escape the root
+  const resolve = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  const ensureDir = (filePath: string) => fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  return {
+    driver: 'local',
+    resolve,
+
+    async put(key: string, body: Buffer | Readable, _options?: PutOptions) {
+      const filePath = resolve(key);
+      await ensureDir(filePath);
+
+      if (Buffer.isBuffer(body)) {
+        await fs.writeFile(filePath, body);
+      } else {
+        await pipeline(body, createWriteStream(filePath));
+      }
+    },
+
+    async putFile(key: string, sourcePath: string) {
+      const filePath = resolve(key);
+      await ensureDir(filePath);
+
+      try {
+        await fs.rename(sourcePath, filePath);
+      } catch (error: any) {
+        // Scratch space on another filesystem
+        if (error.code !== 'EXDEV') throw error;
+        await fs.copyFile(sourcePath, filePath);
+        await fs.unlink(sourcePath);
+      }
+    },
+
+    async getStream(key: string, range?: ByteRange) {
+      return createReadStream(resolve(key), range ? { start: range.start, end: range.end } : undefined);
+    },
+
+    async stat(key: string): Promise<StoredObject | null> {
+      try {
+        const stat = await fs.stat(resolve(key));
+        if (!stat.isFile()) return null;
+        return { size: stat.size, lastModified: stat.mtime };
+      } catch {
+        return null;
+      }
+    },
+
+    async download(key: string, filePath: string) {
+      await ensureDir(filePath);
+      await fs.copyFile(resolve(key), filePath);
+    },
+
+    async delete(key: string) {
+      await fs.unlink(resolve(key)).catch((error) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    },
+
+    async deletePrefix(prefix: string) {
+      await fs.rm(resolve(prefix), { recursive: true, force: true });
+    },
+
+    async getSignedUrl(key: string, expiresInSeconds = config.storage.signedUrlTtl) {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+      return `/uploads/${encodedKey}?expires=${expires}&signature=${sign(key, expires)}`;
+    },
+  };
+}
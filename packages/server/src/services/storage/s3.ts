@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { config } from '../../config/index.js';
+import { ByteRange, PutOptions, StorageProvider, StoredObject } from './types.js';
+
+/**
+ * S3-COMPATIBLE STORAGE
+ *
+ * Talks to AWS S3, MinIO, R2, etc. with plain fetch + Signature V4, so no
+ * SDK is needed. Point S3_ENDPOINT at a local MinIO to develop against it.
+ */
+
+type S3Config = typeof config.storage.s3;
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: crypto.BinaryLike, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as required by SigV4
+const encode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string) => key.split('/').map(encode).join('/');
+
+const canonicalQuery = (query: Record<string, string>) =>
+  Object.keys(query)
+    .sort()
+    .map((name) => `${encode(name)}=${encode(query[name])}`)
+    .join('&');
+
+// 20240101T000000Z
+const amzDate = (date: Date) => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+export function createS3Storage(s3: S3Config): StorageProvider {
+  if (!s3.bucket || !s3.accessKeyId || !s3.secretAccessKey) {
+    throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const endpoint = new URL(s3.endpoint || `https://s3.${s3.region}.amazonaws.com`);
+
+  // Path-style (endpoint/bucket/key) works everywhere; virtual-hosted is AWS's default
+  const objectUrl = (key: string) => {
+    const url = new URL(endpoint.toString());
+    if (s3.forcePathStyle) {
+      url.pathname = `/${s3.bucket}/${encodeKey(key)}`;
+    } else {
+      url.host = `${s3.bucket}.${endpoint.host}`;
+      url.pathname = `/${encodeKey(key)}`;
+    }
+    return url;
+  };
+
+  const bucketUrl = () => {
+    const url = objectUrl('');
+    url.pathname = s3.forcePathStyle ? `/${s3.bucket}` : '/';
+    return url;
+  };
+
+  const scopeFor = (date: string) => `${date.slice(0, 8)}/${s3.region}/s3/aws4_request`;
+
+  const signature = (stringToSign: string, date: string) => {
+    const dateKey = hmac(`AWS4${s3.secretAccessKey}`, date.slice(0, 8));
+    const regionKey = hmac(dateKey, s3.region);
+    const serviceKey = hmac(regionKey, 's3');
+    const signingKey = hmac(serviceKey, 'aws4_request');
+    return hmac(signingKey, stringToSign).toString('hex');
+  };
+
+  const stringToSign = (canonicalRequest: string, date: string) =>
+    ['AWS4-HMAC-SHA256', date, scopeFor(date), sha256(canonicalRequest)].join('\n');
+
+  // Signed request with the Authorization header
+  async function request(
+    method: string,
+    url: URL,
+    options: {
+      query?: Record<string, string>;
+      headers?: Record<string, string>;
+      body?: Buffer | Readable;
+    } = {}
+  ) {
+    const query = options.query || {};
+    const date = amzDate(new Date());
+
+    const signedHeaders: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+      'x-amz-date': date,
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery(query),
+      headerNames.map((name) => `${name}:${signedHeaders[name]}\n`).join(''),
+      headerNames.join(';'),
+      UNSIGNED_PAYLOAD,
+    ].join('\n');
+
+    const authorization =
+      `AWS4-HMAC-SHA256 Credential=${s3.accessKeyId}/${scopeFor(date)}, ` +
+      `SignedHeaders=${headerNames.join(';')}, Signature=${signature(stringToSign(canonicalRequest, date), date)}`;
+
+    const search = canonicalQuery(query);
+    const response = await fetch(`${url.origin}${url.pathname}${search ? `?${search}` : ''}`, {
+      method,
+      headers: {
+        ...options.headers,
+        'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+        'x-amz-date': date,
+        authorization,
+      },
+      body: options.body,
+      // Required by Node's fetch when streaming a request body
+      ...(options.body instanceof Readable ? { duplex: 'half' as const } : {}),
+    });
+
+    return response;
+  }
+
+  async function expectOk(response: Response, action: string, key: string) {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`S3 ${action} ${key} failed (${response.status}): ${detail.slice(0, 200)}`);
+    }
+  }
+
+  const putHeaders = (length: number, options?: PutOptions) => ({
+    'content-length': String(length),
+    ...(options?.contentType ? { 'content-type': options.contentType } : {}),
+    ...(options?.cacheControl ? { 'cache-control': options.cacheControl } : {}),
+  });
+
+  async function listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) query['continuation-token'] = continuationToken;
+
+      const response = await request('GET', bucketUrl(), { query });
+      await expectOk(response, 'list', prefix);
+      const xml = await response.text();
+
+      for (const match of xml.matchAll(/<Key>([^<]+)<\/Key>/g)) {
+        keys.push(match[1].replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>'));
+      }
+
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+        ? xml.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/)?.[1]
+        : undefined;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  const provider: StorageProvider = {
+    driver: 's3',
+
+    async put(key: string, body: Buffer | Readable, options?: PutOptions) {
+      // S3 needs a length up front, so small streams are buffered
+      const buffer = Buffer.isBuffer(body) ? body : Buffer.concat(await body.toArray());
+      const response = await request('PUT', objectUrl(key), {
+        body: buffer,
+        headers: putHeaders(buffer.length, options),
+      });
+      await expectOk(response, 'put', key);
+    },
+
+    async putFile(key: string, filePath: string, options?: PutOptions) {
+      const { size } = await fs.stat(filePath);
+      const response = await request('PUT', objectUrl(key), {
+        body: createReadStream(filePath),
+        headers: putHeaders(size, options),
+      });
+      await expectOk(response, 'put', key);
+      await fs.unlink(filePath);
+    },
+
+    async getStream(key: string, range?: ByteRange) {
+      const response = await request('GET', objectUrl(key), {
+        headers: range ? { range: `bytes=${range.start}-${range.end}` } : {},
+      });
+      await expectOk(response, 'get', key);
+      // fetch types its body as undici's stream; at runtime it is the same class as stream/web's
+      return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+    },
+
+    async stat(key: string): Promise<StoredObject | null> {
+      const response = await request('HEAD', objectUrl(key));
+      if (response.status === 404) return null;
+      await expectOk(response, 'head', key);
+
+      return {
+        size: parseInt(response.headers.get('content-length') || '0', 10),
+        lastModified: new Date(response.headers.get('last-modified') || Date.now()),
+        etag: response.headers.get('etag') || undefined,
+        contentType: response.headers.get('content-type') || undefined,
+      };
+    },
+
+    async download(key: string, filePath: string) {
+      const stream = await provider.getStream(key);
+      await pipeline(stream, createWriteStream(filePath));
+    },
+
+    async delete(key: string) {
+      const response = await request('DELETE', objectUrl(key));
+      if (response.status !== 404) {
+        await expectOk(response, 'delete', key);
+      }
+    },
+
+    async deletePrefix(prefix: string) {
+      const normalized = prefix.endsWith('/') ? prefix : `${prefix}/`;
+      for (const key of await listKeys(normalized)) {
+        await provider.delete(key);
+      }
+    },
+
+    // Query-string signed GET (presigned URL)
+    async getSignedUrl(key: string, expiresInSeconds = config.storage.signedUrlTtl) {
+      const url = objectUrl(key);
+      const date = amzDate(new Date());
+
+      const query: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${s3.accessKeyId}/${scopeFor(date)}`,
+        'X-Amz-Date': date,
+        'X-Amz-Expires': String(Math.min(expiresInSeconds, 7 * 24 * 60 * 60)),
+        'X-Amz-SignedHeaders': 'host',
+      };
+
+      const canonicalRequest = [
+        'GET',
+        url.pathname,
+        canonicalQuery(query),
+        `host:${url.host}\n`,
+        'host',
+        UNSIGNED_PAYLOAD,
+      ].join('\n');
+
+      query['X-Amz-Signature'] = signature(stringToSign(canonicalRequest, date), date);
+      return `${url.origin}${url.pathname}?${canonicalQuery(query)}`;
+    },
+  };
+
+  return provider;
+}
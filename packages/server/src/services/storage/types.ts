@@ -0,0 +1,51 @@
+import { Readable } from 'stream';
+
+/**
+ * Object keys are the relative paths stored on records
+ * (e.g. `audio/<id>_medium.mp3`, `covers/<id>_large.webp`, `hls/<id>/master.m3u8`).
+ */
+
+export interface StoredObject {
+  size: number;
+  lastModified: Date;
+  etag?: string;
+  contentType?: string;
+}
+
+// Inclusive byte range, same semantics as an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface PutOptions {
+  contentType?: string;
+  cacheControl?: string;
+}
+
+export interface StorageProvider {
+  readonly driver: 'local' | 's3';
+
+  // Write a buffer or stream to a key
+  put(key: string, body: Buffer | Readable, options?: PutOptions): Promise<void>;
+
+  // Move a local file into storage (the source file is consumed)
+  putFile(key: string, filePath: string, options?: PutOptions): Promise<void>;
+
+  // Read an object, optionally just a byte range of it
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  // Size and modification time, or null if the object doesn't exist
+  stat(key: string): Promise<StoredObject | null>;
+
+  // Copy an object to a local path (ffmpeg and sharp need real files)
+  download(key: string, filePath: string): Promise<void>;
+
+  delete(key: string): Promise<void>;
+
+  // Remove every object under a prefix (e.g. a packaged HLS directory)
+  deletePrefix(prefix: string): Promise<void>;
+
+  // Time-limited URL a client can fetch directly, bypassing the API
+  getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
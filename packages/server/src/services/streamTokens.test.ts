@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { canStream, createStreamToken, verifyStreamToken } from './streamTokens.js';
+
+describe('stream tokens', () => {
+  const payload = { userId: 'user-1', trackId: 'track-1', quality: 'high' as const };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('verifies a token it created', () => {
+    const { token, expiresAt } = createStreamToken(payload, 60);
+    expect(verifyStreamToken(token)).toEqual({ ...payload, expiresAt });
+  });
+
+  it('keeps signed-out listeners as a null user', () => {
+    const { token } = createStreamToken({ ...payload, userId: null }, 60);
+    expect(verifyStreamToken(token)?.userId).toBeNull();
+  });
+
+  it('rejects missing and malformed tokens', () => {
+    expect(verifyStreamToken(undefined)).toBeNull();
+    expect(verifyStreamToken('')).toBeNull();
+    expect(verifyStreamToken('no-signature')).toBeNull();
+    expect(verifyStreamToken('.signature-only')).toBeNull();
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const { token } = createStreamToken(payload, 60);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify(['user-1', 'track-1', 'lossless', 9999999999])).toString('base64url');
+
+    expect(verifyStreamToken(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects a token whose signature was changed', () => {
+    const { token } = createStreamToken(payload, 60);
+    const last = token.at(-1) === 'A' ? 'B' : 'A';
+    expect(verifyStreamToken(token.slice(0, -1) + last)).toBeNull();
+  });
+
+  it('rejects an expired token', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    const { token } = createStreamToken(payload, 60);
+
+    vi.setSystemTime(new Date('2024-01-01T00:00:59Z'));
+    expect(verifyStreamToken(token)).not.toBeNull();
+
+    vi.setSystemTime(new Date('2024-01-01T00:01:01Z'));
+    expect(verifyStreamToken(token)).toBeNull();
+  });
+});
+
+describe('canStream', () => {
+  const artist = { id: 'artist-1', isPremium: false };
+  const listener = { id: 'user-1', isPremium: false };
+  const premium = { id: 'user-2', isPremium: true };
+  const publicTrack = { artistId: 'artist-1', isPublic: true };
+  const privateTrack = { artistId: 'artist-1', isPublic: false };
+
+  it('lets anyone stream public tracks below lossless', () => {
+    expect(canStream(null, publicTrack, 'medium')).toBe(true);
+    expect(canStream(listener, publicTrack, 'high')).toBe(true);
+    expect(canStream(listener, publicTrack, 'adaptive')).toBe(true);
+  });
+
+  it('keeps private tracks to their artist', () => {
+    expect(canStream(null, privateTrack, 'low')).toBe(false);
+    expect(canStream(premium, privateTrack, 'low')).toBe(false);
+    expect(canStream(artist, privateTrack, 'low')).toBe(true);
+  });
+
+  it('keeps lossless to premium listeners and the artist', () => {
+    expect(canStream(null, publicTrack, 'lossless')).toBe(false);
+    expect(canStream(listener, publicTrack, 'lossless')).toBe(false);
+    expect(canStream(premium, publicTrack, 'lossless')).toBe(true);
+    expect(canStream(artist, publicTrack, 'lossless')).toBe(true);
+  });
+});
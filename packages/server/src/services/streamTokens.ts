@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+
+/**
+ * SIGNED STREAM TOKENS
+ *
+ * Audio elements and HLS players can't send an Authorization header, so the
+ * API hands out short-lived URLs carrying a token instead. The token is an
+ * HMAC over the listener, track, quality and expiry: changing any of them
+ * (or sharing the link after it expires) invalidates it.
+ */
+
+// 'adaptive' covers every HLS/DASH rendition of a track
+export type StreamQuality = 'low' | 'medium' | 'high' | 'lossless' | 'adaptive';
+
+export interface StreamTokenPayload {
+  userId: string | null; // null for signed-out listeners
+  trackId: string;
+  quality: StreamQuality;
+  expiresAt: number; // Unix seconds
+}
+
+const sign = (data: string) =>
+  crypto.createHmac('sha256', config.streamTokenSecret).update(data).digest('base64url');
+
+export function createStreamToken(
+  payload: Omit<StreamTokenPayload, 'expiresAt'>,
+  ttlSeconds = config.streamTokenTtl
+): { token: string; expiresAt: number } {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const data = Buffer.from(
+    JSON.stringify([payload.userId, payload.trackId, payload.quality, expiresAt])
+  ).toString('base64url');
+
+  return { token: `${data}.${sign(data)}`, expiresAt };
+}
+
+// Returns the payload, or null if the token is malformed, tampered with or expired
+export function verifyStreamToken(token: string | undefined): StreamTokenPayload | null {
+  if (!token) return null;
+
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const [userId, trackId, quality, expiresAt] = JSON.parse(Buffer.from(data, 'base64url').toString());
+    if (typeof expiresAt !== 'number' || expiresAt * 1000 < Date.now()) {
+      return null;
+    }
+    return { userId, trackId, quality, expiresAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Who may stream what:
+ * - private tracks: only the artist
+ * - lossless: the artist or premium subscribers
+ */
+export function canStream(
+  user: { id: string; isPremium: boolean } | null | undefined,
+  track: { artistId: string; isPublic: boolean },
+  quality: StreamQuality
+): boolean {
+  const isArtist = !!user && user.id === track.artistId;
+
+  if (!track.isPublic && !isArtist) {
+    return false;
+  }
+
+  if (quality === 'lossless' && !isArtist && !user?.isPremium) {
+    return false;
+  }
+
+  return true;
+}
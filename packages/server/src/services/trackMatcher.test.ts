@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '../db/client.js';
+import { config } from '../config/index.js';
+import type { ImportedEntry } from './playlistFormats.js';
+import { matchEntries, normalize, score, similarity } from './trackMatcher.js';
+
+vi.mock('../db/client.js', () => ({
+  prisma: {
+    track: { findMany: vi.fn() },
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+  },
+}));
+
+const entry = (fields: Partial<ImportedEntry>): ImportedEntry => ({
+  title: null,
+  artist: null,
+  album: null,
+  duration: null,
+  locations: [],
+  ...fields,
+});
+
+const candidate = { id: 'track-1', title: 'Midnight Drive', duration: 215, displayName: 'Nova Lane', username: 'novalane' };
+
+describe('normalize', () => {
+  it('drops case, accents, punctuation and extra spaces', () => {
+    expect(normalize('  Café   del MAR!! ')).toBe('cafe del mar');
+  });
+
+  it('drops bracketed extras and featured artists', () => {
+    expect(normalize('Midnight Drive (2021 Remaster) [Live]')).toBe('midnight drive');
+    expect(normalize('Midnight Drive feat. Someone Else')).toBe('midnight drive');
+    expect(normalize('Midnight Drive ft Someone')).toBe('midnight drive');
+  });
+});
+
+describe('similarity', () => {
+  it('is 1 for equal strings and 0 for nothing in common', () => {
+    expect(similarity('midnight', 'midnight')).toBe(1);
+    expect(similarity('abc', 'xyz')).toBe(0);
+    expect(similarity('a', 'ab')).toBe(0);
+  });
+
+  it('scores near misses high and is symmetric', () => {
+    expect(similarity('midnight drive', 'midnite drive')).toBeGreaterThan(0.7);
+    expect(similarity('midnight drive', 'midnite drive')).toBe(similarity('midnite drive', 'midnight drive'));
+  });
+
+  it('counts repeated bigrams only as often as they appear', () => {
+    expect(similarity('aaaa', 'aa')).toBeCloseTo(0.5);
+  });
+});
+
+describe('score', () => {
+  it('gives full marks to an exact title, artist and duration', () => {
+    expect(score(entry({ title: 'Midnight Drive', artist: 'Nova Lane', duration: 216 }), candidate)).toEqual({
+      title: 1,
+      value: 1,
+    });
+  });
+
+  it('matches the artist on username or on the first listed name', () => {
+    expect(score(entry({ title: 'Midnight Drive', artist: 'novalane' }), candidate).value).toBe(1);
+    expect(score(entry({ title: 'Midnight Drive', artist: 'Nova Lane, Other & More' }), candidate).value).toBe(1);
+  });
+
+  it('leaves out what the entry lacks', () => {
+    expect(score(entry({ title: 'Midnight Drive' }), candidate).value).toBe(1);
+  });
+
+  it('loses the duration share past 30 seconds apart', () => {
+    expect(score(entry({ title: 'Midnight Drive', artist: 'Nova Lane', duration: 300 }), candidate).value).toBe(0.9);
+  });
+});
+
+describe('matchEntries', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.track.findMany).mockReset();
+    vi.mocked(prisma.$transaction).mockReset();
+  });
+
+  const candidates = (rows: object[]) => vi.mocked(prisma.$transaction).mockResolvedValue([[], rows] as any);
+
+  it('matches links to our own tracks exactly', async () => {
+    const trackId = '123e4567-e89b-12d3-a456-426614174000';
+    vi.mocked(prisma.track.findMany).mockResolvedValue([{ id: trackId }] as any);
+    candidates([]);
+
+    const [match] = await matchEntries([entry({ locations: [`${config.appUrl}/track/${trackId}?ref=x`] })]);
+    expect(match).toEqual({ trackId, score: 1 });
+  });
+
+  it('matches close candidates and explains the rest', async () => {
+    candidates([
+      { idx: 0, ...candidate },
+      { idx: 1, ...candidate, id: 'track-2', title: 'Midnight Sun' },
+      { idx: 4, ...candidate },
+    ]);
+
+    const matches = await matchEntries([
+      entry({ title: 'Midnight Drive (Remastered)', artist: 'Nova Lane', duration: 214 }),
+      entry({ title: 'Midnight Drive', artist: 'Nova Lane' }),
+      entry({ title: 'Unknown Song' }),
+      entry({ artist: 'Nova Lane' }),
+      entry({ title: 'Midnite Drive', artist: 'Nova Lane' }),
+    ]);
+
+    expect(matches[0]).toEqual({ trackId: 'track-1', score: 1 });
+    expect(matches[1]).toMatchObject({
+      trackId: null,
+      reason: 'No close enough match',
+      suggestion: { trackId: 'track-2', title: 'Midnight Sun', artist: 'Nova Lane' },
+    });
+    expect(matches[2]).toEqual({ trackId: null, reason: 'No similar tracks', suggestion: null });
+    expect(matches[3]).toEqual({ trackId: null, reason: 'No title to match on', suggestion: null });
+    expect(matches[4]).toMatchObject({ trackId: 'track-1' });
+  });
+});
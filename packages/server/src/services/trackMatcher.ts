@@ -0,0 +1,208 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db/client.js';
+import { config } from '../config/index.js';
+import type { ImportedEntry } from './playlistFormats.js';
+
+/**
+ * TRACK MATCHING
+ *
+ * Finds the local track an imported playlist entry stands for. Entries
+ * that link to one of our own track pages match exactly. The rest take two
+ * passes: trigram search on Track.searchText pulls a few candidates for
+ * every entry in one query, then each candidate is scored on title, artist
+ * and duration. Bracketed extras like "(Remastered)" and "feat." credits
+ * are ignored, since every service writes them differently.
+ */
+
+const CANDIDATES_PER_ENTRY = 5;
+const CANDIDATE_THRESHOLD = 0.3; // Loose on purpose: scoring decides
+const CHUNK_SIZE = 200; // Entries per candidate query
+const MATCH_THRESHOLD = 0.75;
+const MIN_TITLE_SCORE = 0.7; // "Midnight Sun" by the same artist is not "Midnight Drive" (0.67)
+const WEIGHTS = { title: 0.6, artist: 0.3, duration: 0.1 };
+
+interface Candidate {
+  id: string;
+  title: string;
+  duration: number;
+  displayName: string | null;
+  username: string;
+}
+
+export interface MatchSuggestion {
+  trackId: string;
+  title: string;
+  artist: string;
+  score: number;
+}
+
+export type EntryMatch =
+  | { trackId: string; score: number }
+  | { trackId: null; reason: string; suggestion: MatchSuggestion | null };
+
+export function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[([][^)\]]*[)\]]/g, ' ')
+    .replace(/\s(feat|ft|featuring)\.?\s.*$/, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// Dice coefficient over character bigrams: 1 for equal strings, 0 for nothing in common
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+function artistScore(entryArtist: string, candidate: Candidate): number {
+  // "A, B & C" usually lists the uploading artist first
+  const names = [normalize(entryArtist), normalize(entryArtist.split(/,|&|\bx\b|\//)[0])];
+  const candidateNames = [candidate.displayName, candidate.username].filter((name): name is string => !!name);
+
+  return Math.max(...candidateNames.flatMap((name) => names.map((artist) => similarity(artist, normalize(name)))));
+}
+
+// Full marks within 3 seconds (encoder padding), nothing past 30
+const durationScore = (a: number, b: number) => Math.min(1, Math.max(0, (30 - Math.abs(a - b)) / 27));
+
+export function score(entry: ImportedEntry, candidate: Candidate) {
+  const title = similarity(normalize(entry.title!), normalize(candidate.title));
+  const parts: [number, number][] = [[title, WEIGHTS.title]];
+
+  if (entry.artist) parts.push([artistScore(entry.artist, candidate), WEIGHTS.artist]);
+  if (entry.duration && candidate.duration) {
+    parts.push([durationScore(entry.duration, candidate.duration), WEIGHTS.duration]);
+  }
+
+  // Whatever the entry lacks drops out of the weighting
+  const total = parts.reduce((sum, [, weight]) => sum + weight, 0);
+  const value = parts.reduce((sum, [part, weight]) => sum + part * weight, 0) / total;
+
+  return { title, value: Math.round(value * 100) / 100 };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const OWN_TRACK_URL = new RegExp(`^${escapeRegExp(config.appUrl.replace(/\/$/, ''))}/track/([0-9a-f-]{36})(?:[/?#]|$)`, 'i');
+
+async function findCandidates(entries: { index: number; query: string }[]): Promise<Map<number, Candidate[]>> {
+  const candidates = new Map<number, Candidate[]>();
+
+  for (let start = 0; start < entries.length; start += CHUNK_SIZE) {
+    const chunk = entries.slice(start, start + CHUNK_SIZE);
+    const values = Prisma.join(chunk.map(({ index, query }) => Prisma.sql`(${index}::int, search_normalize(${query}))`));
+
+    const [, rows] = await prisma.$transaction([
+      prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(CANDIDATE_THRESHOLD)}, true)`,
+      prisma.$queryRaw<(Candidate & { idx: number })[]>`
+        SELECT e.idx, c.*
+        FROM (VALUES ${values}) AS e(idx, query)
+        CROSS JOIN LATERAL (
+          SELECT t.id, t.title, t.duration, u."displayName", u.username
+          FROM "Track" t
+            JOIN "User" u ON u.id = t."artistId"
+          WHERE t."isPublic" AND e.query <% t."searchText"
+          ORDER BY word_similarity(e.query, t."searchText") DESC
+          LIMIT ${CANDIDATES_PER_ENTRY}
+        ) c
+      `,
+    ]);
+
+    for (const { idx, ...candidate } of rows) {
+      candidates.set(idx, [...(candidates.get(idx) ?? []), candidate]);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Match imported entries to public tracks, one result per entry in order
+ * Unmatched entries carry the reason and, when there was one, the closest
+ * candidate so the user can check it by hand.
+ */
+export async function matchEntries(entries: ImportedEntry[]): Promise<EntryMatch[]> {
+  const results: (EntryMatch | undefined)[] = new Array(entries.length);
+
+  // Our own exported links
+  const linked = new Map<number, string>();
+  entries.forEach((entry, index) => {
+    for (const location of entry.locations) {
+      const trackId = location.match(OWN_TRACK_URL)?.[1];
+      if (trackId) {
+        linked.set(index, trackId.toLowerCase());
+        break;
+      }
+    }
+  });
+
+  if (linked.size > 0) {
+    const found = await prisma.track.findMany({
+      where: { id: { in: [...new Set(linked.values())] }, isPublic: true },
+      select: { id: true },
+    });
+    const available = new Set(found.map((track: { id: string }) => track.id));
+    for (const [index, trackId] of linked) {
+      if (available.has(trackId)) results[index] = { trackId, score: 1 };
+    }
+  }
+
+  const searchable: { index: number; query: string }[] = [];
+  entries.forEach((entry, index) => {
+    if (results[index]) return;
+    if (!entry.title) {
+      results[index] = { trackId: null, reason: 'No title to match on', suggestion: null };
+      return;
+    }
+    searchable.push({ index, query: [entry.title, entry.artist].filter(Boolean).join(' ') });
+  });
+
+  const candidates = await findCandidates(searchable);
+
+  for (const { index } of searchable) {
+    const entry = entries[index];
+    const ranked = (candidates.get(index) ?? [])
+      .map((candidate) => ({ candidate, ...score(entry, candidate) }))
+      .sort((a, b) => b.value - a.value);
+    const best = ranked[0];
+
+    if (!best) {
+      results[index] = { trackId: null, reason: 'No similar tracks', suggestion: null };
+    } else if (best.value >= MATCH_THRESHOLD && best.title >= MIN_TITLE_SCORE) {
+      results[index] = { trackId: best.candidate.id, score: best.value };
+    } else {
+      results[index] = {
+        trackId: null,
+        reason: 'No close enough match',
+        suggestion: {
+          trackId: best.candidate.id,
+          title: best.candidate.title,
+          artist: best.candidate.displayName || best.candidate.username,
+          score: best.value,
+        },
+      };
+    }
+  }
+
+  return results as EntryMatch[];
+}
@@ -0,0 +1,56 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync, mkdirSync } from 'fs';
+import { prisma } from '../db/client.js';
+import { config } from '../config/index.js';
+
+/**
+ * Partially received files live here until the session is finalized.
+ *
+ * This is plain local disk, not the storage provider: chunks are appended in
+ * place, which object stores can't do. Every API instance that serves session
+ * requests, and the worker that expires them, must therefore see the same
+ * UPLOAD_DIR (one host, or a shared volume). A chunk that lands on another
+ * host's disk is invisible to the rest and the upload can never complete.
+ */
+const partialDir = path.join(config.uploadDir, 'partial');
+
+if (!existsSync(partialDir)) {
+  mkdirSync(partialDir, { recursive: true });
+}
+
+export const partialUploadPath = (sessionId: string) =>
+  path.join(partialDir, `${sessionId}.part`);
+
+// Bytes actually on disk for a session (the source of truth for Upload-Offset)
+export async function receivedBytes(sessionId: string): Promise<number> {
+  try {
+    const stat = await fs.stat(partialUploadPath(sessionId));
+    return stat.size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Remove abandoned and finished sessions past their expiry
+ * Runs periodically in the worker
+ */
+export async function expireUploadSessions(): Promise<number> {
+  const expired = await prisma.uploadSession.findMany({
+    where: { expiresAt: { lt: new Date() } },
+    select: { id: true },
+  });
+
+  for (const session of expired) {
+    await fs.unlink(partialUploadPath(session.id)).catch(() => {});
+  }
+
+  if (expired.length > 0) {
+    await prisma.uploadSession.deleteMany({
+      where: { id: { in: expired.map((s: { id: string }) => s.id) } },
+    });
+  }
+
+  return expired.length;
+}
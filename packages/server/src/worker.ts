@@ -0,0 +1,223 @@
+import { config } from './config/index.js';
+import { redis } from './db/redis.js';
+import { prisma } from './db/client.js';
+import { Job, Queue, transcodeQueue } from './services/jobQueue.js';
+import { processTranscodeJob, markTranscodeFailed } from './jobs/transcode.js';
+import { expireUploadSessions } from './services/uploadSessions.js';
+import { flushPlayCounts } from './services/plays.js';
+import { precomputeRecommendationsIfDue } from './services/recommendations.js';
+import { pruneSearchLog } from './services/searchAnalytics.js';
+import { publishDueReleases } from './services/releases.js';
+import { refreshStaleSmartPlaylists } from './services/smartPlaylists.js';
+import { purgeDeletedPlaylists } from './services/playlists.js';
+
+/**
+ * BACKGROUND WORKER
+ *
+ * Runs as its own process (npm run worker) so long ffmpeg jobs never block
+ * or time out API requests. Any number of workers can share the same Redis.
+ */
+
+interface QueueHandler<T> {
+  queue: Queue<T>;
+  process: (job: Job<T>) => Promise<void>;
+  // Called once a job has used up all of its attempts
+  onFailed?: (job: Job<T>, error: unknown) => Promise<void>;
+}
+
+// A handler with its job type bound in, so queues of different jobs share one list
+interface RegisteredQueue {
+  queue: Queue<unknown>;
+  runLoop: () => Promise<void>;
+}
+
+const register = <T>(handler: QueueHandler<T>): RegisteredQueue => ({
+  queue: handler.queue,
+  runLoop: () => runLoop(handler),
+});
+
+const handlers: RegisteredQueue[] = [
+  register({ queue: transcodeQueue, process: processTranscodeJob, onFailed: markTranscodeFailed }),
+];
+
+// Periodic housekeeping; each task runs in whichever worker gets there first
+interface ScheduledTask {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const scheduledTasks: ScheduledTask[] = [
+  {
+    name: 'expire-upload-sessions',
+    intervalMs: 60 * 60 * 1000,
+    run: async () => {
+      const removed = await expireUploadSessions();
+      if (removed > 0) {
+        console.log(`🧹 Removed ${removed} expired upload session(s)`);
+      }
+    },
+  },
+  {
+    name: 'flush-play-counts',
+    intervalMs: config.plays.flushIntervalMs,
+    run: flushPlayCounts,
+  },
+  {
+    // Checks hourly; only does the work once a night
+    name: 'precompute-recommendations',
+    intervalMs: 60 * 60 * 1000,
+    run: precomputeRecommendationsIfDue,
+  },
+  {
+    name: 'publish-scheduled-releases',
+    intervalMs: 60 * 1000,
+    run: async () => {
+      const published = await publishDueReleases();
+      if (published > 0) {
+        console.log(`🚀 Published ${published} scheduled release(s)`);
+      }
+    },
+  },
+  {
+    name: 'refresh-smart-playlists',
+    intervalMs: 5 * 60 * 1000,
+    run: refreshStaleSmartPlaylists,
+  },
+  {
+    name: 'purge-deleted-playlists',
+    intervalMs: 60 * 60 * 1000,
+    run: async () => {
+      const purged = await purgeDeletedPlaylists();
+      if (purged > 0) {
+        console.log(`🧹 Purged ${purged} deleted playlist(s)`);
+      }
+    },
+  },
+  {
+    name: 'prune-search-log',
+    intervalMs: 24 * 60 * 60 * 1000,
+    run: async () => {
+      const removed = await pruneSearchLog();
+      if (removed > 0) {
+        console.log(`🧹 Pruned ${removed} logged search(es)`);
+      }
+    },
+  },
+];
+
+let shuttingDown = false;
+
+async function runLoop<T>(handler: QueueHandler<T>) {
+  // Blocking reads need their own connection
+  const connection = redis.duplicate();
+
+  while (!shuttingDown) {
+    let job: Job<T> | null = null;
+
+    try {
+      job = await handler.queue.reserve(connection);
+    } catch (error) {
+      console.error(`Queue ${handler.queue.name} reserve error:`, error);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      continue;
+    }
+
+    if (!job) continue;
+
+    const current = job;
+    const heartbeat = setInterval(() => {
+      handler.queue.extendLock(current.id).catch(console.error);
+    }, config.jobs.lockTimeoutMs / 3);
+
+    const start = Date.now();
+
+    try {
+      await handler.process(current);
+      await handler.queue.complete(current.id);
+      console.log(`✅ ${handler.queue.name} job ${current.id} done in ${Date.now() - start}ms`);
+    } catch (error) {
+      console.error(
+        `⚠️ ${handler.queue.name} job ${current.id} failed (attempt ${current.attempts}/${current.maxAttempts}):`,
+        error
+      );
+
+      // If this fails too the lock lapses and maintenance() rescues the job
+      try {
+        const exhausted = await handler.queue.fail(current, error);
+        if (exhausted && handler.onFailed) {
+          await handler.onFailed(current, error);
+        }
+      } catch (bookkeepingError) {
+        console.error(`Queue ${handler.queue.name} failed to record job ${current.id} failure:`, bookkeepingError);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  await connection.quit();
+}
+
+// Promote due retries and rescue jobs from crashed workers
+async function maintenance() {
+  for (const { queue } of handlers) {
+    try {
+      await queue.promoteDelayed();
+      const recovered = await queue.recoverStalled();
+      if (recovered > 0) {
+        console.log(`♻️ Requeued ${recovered} stalled ${queue.name} job(s)`);
+      }
+    } catch (error) {
+      console.error(`Queue ${queue.name} maintenance error:`, error);
+    }
+  }
+}
+
+async function runScheduledTask(task: ScheduledTask) {
+  // Lock for the interval so only one worker runs each tick
+  const claimed = await redis.set(`schedule:${task.name}`, '1', 'PX', task.intervalMs, 'NX');
+  if (claimed !== 'OK') return;
+
+  try {
+    await task.run();
+  } catch (error) {
+    console.error(`Scheduled task ${task.name} failed:`, error);
+  }
+}
+
+async function main() {
+  console.log(`🛠️ Worker started (concurrency ${config.jobs.concurrency})`);
+
+  const maintenanceTimer = setInterval(maintenance, 5000);
+  await maintenance();
+
+  const scheduleTimers = scheduledTasks.map((task) => {
+    runScheduledTask(task).catch(console.error);
+    return setInterval(() => runScheduledTask(task).catch(console.error), task.intervalMs);
+  });
+
+  const loops = handlers.flatMap((handler) =>
+    Array.from({ length: config.jobs.concurrency }, () => handler.runLoop())
+  );
+
+  const shutdown = () => {
+    if (shuttingDown) return;
+    console.log('🛑 Worker shutting down, finishing current jobs...');
+    shuttingDown = true;
+    clearInterval(maintenanceTimer);
+    scheduleTimers.forEach(clearInterval);
+  };
+
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+
+  await Promise.all(loops);
+  await redis.quit();
+  await prisma.$disconnect();
+}
+
+main().catch((error) => {
+  console.error('Worker crashed:', error);
+  process.exit(1);
+});